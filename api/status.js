@@ -1,17 +0,0 @@
-// Simple API status endpoint for Vercel
-
-export default function handler(req, res) {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'X-Requested-With,content-type,Authorization');
-  
-  // Return status information
-  res.status(200).json({
-    status: 'online',
-    message: 'Fusdle API is running',
-    version: '1.0.0',
-    environment: process.env.NODE_ENV || 'development',
-    timestamp: new Date().toISOString()
-  });
-}
\ No newline at end of file
@@ -8,11 +8,14 @@ import Home from "@/pages/home";
 import Archive from "@/pages/archive";
 import About from "@/pages/about";
 import PatchNotes from "@/pages/patch-notes";
+import AdminPuzzles from "@/pages/admin-puzzles";
 import NavTabs from "@/components/nav-tabs";
 import SocialButtons from "@/components/social-buttons";
 import { WelcomePopup } from "@/components/welcome-popup";
+import MaintenanceScreen from "@/components/maintenance-screen";
+import { useMaintenance } from "@/hooks/use-maintenance";
+import { useRole } from "@/hooks/use-role";
 import { navigationState, updateNavigationState, queryClient } from "@/lib/queryClient";
-import { firestoreService } from "@/firebase/firestore";
 import { getApiBaseUrl } from "@/lib/queryClient";
 import { getGlobalDateString, shouldShowNewPuzzle } from "@/lib/global-time";
 
@@ -24,37 +27,21 @@ function App() {
   const [currentDay, setCurrentDay] = useState<string | null>(null);
   const [isPreloading, setIsPreloading] = useState(false);
   const preloadedRef = useRef<boolean>(false);
+  // Editors keep the normal pages during maintenance so they can check their work
+  const maintenance = useMaintenance();
+  const { isEditor } = useRole();
+  const wasInMaintenanceRef = useRef(false);
   
-  // Function to get current date in EST timezone
-  const getCurrentEstDate = (): string => {
-    const options = { timeZone: 'America/New_York' };
-    return new Date().toLocaleDateString('en-US', options);
-  };
-
   // Preload archive data for faster navigation
   const preloadArchiveData = useCallback(async () => {
     if (navigationState.archiveLoaded) return;
     
     try {
       console.log("Preloading archive data for smoother navigation...");
-      // Try Firebase service first
       let archiveData = null;
-      
-      try {
-        const puzzlesByDifficulty = await firestoreService.getPuzzlesByDifficulty('normal', 8);
-        if (puzzlesByDifficulty && puzzlesByDifficulty.length > 0) {
-          archiveData = puzzlesByDifficulty;
-        }
-      } catch (error) {
-        console.warn("Firebase archive fetch failed, trying API:", error);
-      }
-      
-      // Fallback to API
-      if (!archiveData) {
-        const archiveResponse = await fetch(`${getApiBaseUrl()}/api/puzzles/archive`);
-        if (archiveResponse.ok) {
-          archiveData = await archiveResponse.json();
-        }
+      const archiveResponse = await fetch(`${getApiBaseUrl()}/api/puzzles/archive`);
+      if (archiveResponse.ok) {
+        archiveData = await archiveResponse.json();
       }
       
       if (archiveData) {
@@ -276,6 +263,16 @@ function App() {
     }
   }, [location, fetchPuzzleByDifficulty]);
   
+  // Reload today's puzzle once maintenance ends, since it may have changed
+  useEffect(() => {
+    if (maintenance) {
+      wasInMaintenanceRef.current = true;
+    } else if (wasInMaintenanceRef.current) {
+      wasInMaintenanceRef.current = false;
+      fetchTodaysPuzzle();
+    }
+  }, [maintenance, fetchTodaysPuzzle]);
+  
   // Function to manually check for new puzzles - simplified and more robust
   const checkForNewPuzzle = async () => {
     try {
@@ -341,13 +338,25 @@ function App() {
         <WelcomePopup />
         
         <div className="flex-grow flex flex-col -mt-1">
-          <Switch>
-            <Route path="/" component={Home} />
-            <Route path="/archive" component={Archive} />
-            <Route path="/patch-notes" component={PatchNotes} />
-            <Route path="/about" component={About} />
-            <Route component={NotFound} />
-          </Switch>
+          {maintenance && !isEditor ? (
+            <MaintenanceScreen notice={maintenance} />
+          ) : (
+            <>
+              {maintenance && (
+                <p className="mb-2 rounded-lg bg-orange-100 px-3 py-2 text-sm text-orange-800">
+                  Maintenance mode is on; players see the maintenance screen.
+                </p>
+              )}
+              <Switch>
+                <Route path="/" component={Home} />
+                <Route path="/archive" component={Archive} />
+                <Route path="/patch-notes" component={PatchNotes} />
+                <Route path="/about" component={About} />
+                <Route path="/admin/puzzles" component={AdminPuzzles} />
+                <Route component={NotFound} />
+              </Switch>
+            </>
+          )}
         </div>
         
         {/* Social buttons placed before footer */}
@@ -1,6 +1,9 @@
 import React, { useState, FormEvent, useEffect, useRef } from "react";
-import { useGameStore } from "@/lib/game-store";
+import { useGameStore, getLetterFeedbackHistory, getWordMatchHistory } from "@/lib/game-store";
+import type { MatchedWord } from "@shared/answer-matching";
+import { HINT_TIERS } from "@shared/hints";
 import EmojiDisplay from "@/components/emoji-display";
+import LetterTiles from "@/components/letter-tiles";
 import Hints from "@/components/hints";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
@@ -9,7 +12,7 @@ import { ArrowLeftRight, Skull, Flame, HelpCircle, X, ChevronDown, RefreshCw } f
 import { confirmAlert } from 'react-confirm-alert';
 import { useToast } from "@/hooks/use-toast";
 import { calculateFusdleNumber } from "@/lib/utils";
-import { resetFlawlessStreak } from "@/lib/streak";
+import { getWordStructure } from "@/lib/letter-placeholders";
 
 import 'react-confirm-alert/src/react-confirm-alert.css';
 import '@/components/confirm-dialog.css';
@@ -30,14 +33,35 @@ import {
 } from "@/components/ui/dialog";
 
 // Helper function to highlight the matching part of the guess - ONLY FOR PARTIAL MATCHES, not wrong order cases
-const highlightPartialMatch = (guess: string, feedback: string, matchedWord?: string | null, currentGuessIndex?: number): React.ReactNode => {
-  console.log('Highlighting partial match (regular version):', { guess, feedback, matchedWord, currentGuessIndex });
+const highlightPartialMatch = (guess: string, feedback: string, matchedWord?: string | null, currentGuessIndex?: number, wordMatches?: MatchedWord[]): React.ReactNode => {
+  console.log('Highlighting partial match (regular version):', { guess, feedback, matchedWord, currentGuessIndex, wordMatches });
   
   // We only want to find and highlight the matching word in a partial match, 
   // not handle wrong order cases which are now separately detected
   try {
     
-    // PRIORITY 1: Use server-provided matched word if available
+    // PRIORITY 1: Highlight every guess word the server matched
+    if (wordMatches && wordMatches.length > 0) {
+      const matchedIndices = new Set(wordMatches.flatMap(match => match.guessIndices));
+      const words = guess.trim().split(/\s+/);
+      
+      return (
+        <span>
+          {words.map((word, i) => (
+            <React.Fragment key={i}>
+              {matchedIndices.has(i) ? (
+                <span className="text-green-600 bg-green-100 font-semibold px-1 rounded">
+                  {word}
+                </span>
+              ) : word}
+              {i < words.length - 1 && ' '}
+            </React.Fragment>
+          ))}
+        </span>
+      );
+    }
+    
+    // PRIORITY 2: Use server-provided matched word if available
     if (matchedWord) {
       console.log(`Using matched word from server: "${matchedWord}"`);
       // Ensure matchedWord is actually a string and normalize it
@@ -92,7 +116,7 @@ const highlightPartialMatch = (guess: string, feedback: string, matchedWord?: st
       }
     }
     
-    // PRIORITY 2: Extract word from quotes in feedback
+    // PRIORITY 3: Extract word from quotes in feedback
     const quotedPattern = /"([^"]+)"/i;
     const quotedMatch = feedback.match(quotedPattern);
     
@@ -143,90 +167,10 @@ const highlightPartialMatch = (guess: string, feedback: string, matchedWord?: st
       }
     }
     
-    // FALLBACK: Try to intelligently guess which word matched
-    // This handles the production case where the server might not provide the matchedWord
+    // FALLBACK: The server didn't name the matched word (older saved guesses),
+    // so guess which word matched. The answer is never available here.
     const words = guess.split(' ');
     
-    // Try to scan puzzle answer if available
-    const currentState = useGameStore.getState();
-    if (currentState?.puzzle?.answer) {
-      const puzzleAnswer = currentState.puzzle.answer;
-      const currentDifficultyMode = currentState.difficultyMode;
-      
-      console.log(`Using puzzle answer to find potential matches: "${puzzleAnswer}"`);
-      const answerWords = puzzleAnswer.toLowerCase().split(/\s+/);
-      
-      // Prioritize primary words in the answer (longer words)
-      const primaryWords = answerWords.filter((w: string) => w.length >= 4);
-      console.log(`Primary answer words:`, primaryWords);
-      
-      // First check for matches against primary words
-      for (const word of words) {
-        const normalizedWord = word.toLowerCase().trim();
-        if (normalizedWord.length >= 3) {
-          if (primaryWords.includes(normalizedWord)) {
-            console.log(`Found primary word match: "${normalizedWord}"`);
-            const i = words.indexOf(word);
-            
-            // Highlight this exact match word
-            const before = i > 0 ? words.slice(0, i).join(' ') + ' ' : '';
-            const after = i < words.length - 1 ? ' ' + words.slice(i + 1).join(' ') : '';
-            
-            // Save this match for future reference if we have index
-            try {
-              const currentIndex = currentGuessIndex;
-              if (typeof currentIndex === 'number') {
-                const matchedWordsKey = `fusdle_matched_words_${currentState.puzzle?.id}_${currentDifficultyMode}`;
-                const storedMatchedWords = localStorage.getItem(matchedWordsKey) || '{}';
-                const matchedWords = JSON.parse(storedMatchedWords);
-                
-                matchedWords[currentIndex.toString()] = normalizedWord;
-                localStorage.setItem(matchedWordsKey, JSON.stringify(matchedWords));
-                console.log(`Saved primary matched word "${normalizedWord}" for guess index ${currentIndex}`);
-              }
-            } catch (e) {
-              console.error('Error saving matched word to localStorage:', e);
-            }
-            
-            return (
-              <span>
-                {before}
-                <span className="text-green-600 bg-green-100 font-semibold px-1 rounded">
-                  {word}
-                </span>
-                {after}
-              </span>
-            );
-          }
-        }
-      }
-      
-      // If no primary word match, check for any exact word match
-      for (const word of words) {
-        const normalizedWord = word.toLowerCase().trim();
-        if (normalizedWord.length >= 3) {
-          if (answerWords.includes(normalizedWord)) {
-            console.log(`Found regular word match: "${normalizedWord}"`);
-            const i = words.indexOf(word);
-            
-            // Highlight this exact match word
-            const before = i > 0 ? words.slice(0, i).join(' ') + ' ' : '';
-            const after = i < words.length - 1 ? ' ' + words.slice(i + 1).join(' ') : '';
-            
-            return (
-              <span>
-                {before}
-                <span className="text-green-600 bg-green-100 font-semibold px-1 rounded">
-                  {word}
-                </span>
-                {after}
-              </span>
-            );
-          }
-        }
-      }
-    }
-    
     // Sort words by length (prioritize longer words as they're more likely to be significant)
     const significantWords = [...words]
       .filter(word => word.length >= 3)
@@ -364,7 +308,7 @@ const GameCard: React.FC = () => {
   // Handle revealing a hint with confirmation for both modes to warn about flawless streak
   const handleRevealHint = async () => {
     // Check if we can use a hint (1 per guess)
-    const totalAvailableHints = puzzle?.hints?.length || 3;
+    const totalAvailableHints = puzzle?.hintCount || HINT_TIERS.length;
     const hintsRemaining = totalAvailableHints - revealedHints.length;
     
     // Check if we have enough guesses to reveal a hint
@@ -475,7 +419,7 @@ const GameCard: React.FC = () => {
 
     // Validate word count - prevent users from entering more words than the answer
     const guessWords = currentGuess.trim().split(/\s+/);
-    const maxWords = puzzle?.wordCount || puzzle?.answer?.split(/\s+/).length || 3;
+    const maxWords = puzzle?.wordCount || puzzle?.wordStructure?.length || 3;
     
     if (guessWords.length > maxWords) {
       toast({
@@ -497,7 +441,7 @@ const GameCard: React.FC = () => {
   };
 
   // Calculate how many hints are remaining
-  const totalAvailableHints = puzzle?.hints?.length || 3;
+  const totalAvailableHints = puzzle?.hintCount || HINT_TIERS.length;
   const hintsRemaining = totalAvailableHints - revealedHints.length;
   
   // Check if we have enough guesses to reveal a hint
@@ -751,11 +695,11 @@ const GameCard: React.FC = () => {
       <div className="flex items-center justify-center my-3 px-4">
         <div className="bg-gray-50 border-2 border-dashed border-gray-300 px-4 py-2 rounded-lg">
           <div className="flex flex-wrap justify-center items-center gap-3">
-            {(puzzle.answer || '').split(' ').map((word, wordIndex) => (
+            {(puzzle.wordStructure || getWordStructure(puzzle.answer || '')).map((letterCount, wordIndex) => (
               <div key={wordIndex} className="flex items-center gap-1 bg-white px-2 py-1 rounded border border-gray-300">
-                {word.split('').map((char, charIndex) => (
+                {Array.from({ length: letterCount }).map((_, charIndex) => (
                   <span key={charIndex} className="text-gray-500 font-mono text-sm">
-                    {char.match(/[a-zA-Z]/) ? '_' : char}
+                    _
                   </span>
                 ))}
               </div>
@@ -914,6 +858,16 @@ const GameCard: React.FC = () => {
                       // Calculate the original index (for partial matches and display)
                       const originalIndex = previousGuesses.length - reversedIndex - 1;
                       
+                      // Hard mode guesses carry per-letter feedback from the server
+                      const letterFeedback = puzzle
+                        ? getLetterFeedbackHistory(puzzle.id, difficultyMode)[originalIndex.toString()]
+                        : undefined;
+                      
+                      // Answer words this guess matched, when the server reported them
+                      const wordMatches = puzzle
+                        ? getWordMatchHistory(puzzle.id, difficultyMode)[originalIndex.toString()]
+                        : undefined;
+                      
                       // Get partial matches data from localStorage
                       let partialMatches: number[] = [];
                       try {
@@ -972,37 +926,8 @@ const GameCard: React.FC = () => {
                         }
                       }
                       
-                      // If we have a partial match but no saved matched word, try to intelligently extract it
-                      if (isPartialMatch && !savedMatchedWord && puzzle?.answer) {
-                        // Try to find matching words from the answer
-                        const answerWords = puzzle.answer.toLowerCase().split(/\s+/);
-                        const guessWords = guess.toLowerCase().split(/\s+/);
-                        
-                        // Find any words that appear in both the answer and the guess
-                        for (const guessWord of guessWords) {
-                          if (guessWord.length >= 3) { // Only consider meaningful words
-                            if (answerWords.includes(guessWord)) {
-                              savedMatchedWord = guessWord;
-                              console.log(`Found matching word "${savedMatchedWord}" by comparing with answer`);
-                              
-                              // Save this match for future reference
-                              try {
-                                const matchedWordsKey = `fusdle_matched_words_${puzzle?.id}_${difficultyMode}`;
-                                const storedMatchedWords = localStorage.getItem(matchedWordsKey);
-                                const matchedWords = storedMatchedWords ? JSON.parse(storedMatchedWords) : {};
-                                matchedWords[originalIndex.toString()] = savedMatchedWord;
-                                localStorage.setItem(matchedWordsKey, JSON.stringify(matchedWords));
-                              } catch (e) {
-                                console.error('Error saving inferred matched word:', e);
-                              }
-                              break;
-                            }
-                          }
-                        }
-                      }
-                      
                       // Any partial match should show the highlighting if feedback is available or we have a saved matched word
-                      const shouldHighlight = isPartialMatch && (partialMatchFeedback !== null || savedMatchedWord !== null);
+                      const shouldHighlight = isPartialMatch && (partialMatchFeedback !== null || savedMatchedWord !== null || !!wordMatches);
                       
                       // For the most recent guess, use the current matchedWord from state
                       // For older guesses, use their saved matched word from localStorage
@@ -1031,80 +956,17 @@ const GameCard: React.FC = () => {
                           console.log(`Reset wrong order matches to only include current guess: ${originalIndex}`);
                         }
                         
-                        // Clear check if this guess actually has all words in the wrong order
-                        const puzzleAnswerLower = puzzle?.answer?.toLowerCase().trim();
-                        const guessLower = guess.toLowerCase().trim();
-                        
-                        // Only meaningful for multi-word answers and guesses
-                        const puzzleHasMultipleWords = puzzleAnswerLower?.includes(" ");
-                        const guessHasMultipleWords = guessLower.includes(" ");
-                        
-                        // Exact test case for "piece puzzle" / "puzzle piece"
-                        const isExactTestCase = (
-                          guessLower === "piece puzzle" && 
-                          (puzzleAnswerLower || "") === "puzzle piece"
-                        );
-                        
-                        // Perform the strict wrong order test
-                        const isTrulyWrongOrder = isExactTestCase || (
-                          // We need multi-word answers and guesses with at least 2 words each
-                          puzzleHasMultipleWords && 
-                          guessHasMultipleWords &&
-                          // Must have the same number of words
-                          (puzzleAnswerLower || "").split(" ").length === guessLower.split(" ").length &&
-                          // All words must match when sorted
-                          (puzzleAnswerLower || "").split(" ").sort().join(" ") === guessLower.split(" ").sort().join(" ") &&
-                          // Order must be different (not exact match)
-                          (puzzleAnswerLower || "") !== guessLower
-                        );
-                        
-                        // If it passes our strict test AND is the right guess
-                        if ((reversedIndex === 0 && 
-                             (isTrulyWrongOrder || (hasCorrectWordsWrongOrder && matchType === 'wrong-order')))
-                            || isExactTestCase) {
-                          // This is definitely a wrong order match
+                        // Wrong order detection comes from the server: the latest guess uses
+                        // the response flags, older guesses the index saved in localStorage
+                        if (reversedIndex === 0 && hasCorrectWordsWrongOrder && matchType === 'wrong-order') {
                           isWrongOrderMatch = true;
-                          
-                          if (isTrulyWrongOrder) {
-                            console.log(`VERIFIED: "${guess}" contains correct words in wrong order for "${puzzleAnswerLower}"`);
-                          }
-                          
-                          // Save for future reference
-                          const wrongOrderKey = `fusdle_wrong_order_${puzzle?.id}_${difficultyMode}`;
-                          let wrongOrderGuesses: number[] = [];
-                          const storedWrongOrderGuesses = localStorage.getItem(wrongOrderKey);
-                          
-                          if (storedWrongOrderGuesses) {
-                            wrongOrderGuesses = JSON.parse(storedWrongOrderGuesses);
-                          }
-                          
-                          // Save this specific guess index as wrong order
-                          if (!wrongOrderGuesses.includes(originalIndex)) {
-                            wrongOrderGuesses = [originalIndex]; // IMPORTANT: Only store one wrong order guess
-                            localStorage.setItem(wrongOrderKey, JSON.stringify(wrongOrderGuesses));
-                            console.log(`Saved ONE wrong order match (replacing all others): ${originalIndex}`);
-                          }
                         } else {
-                          // For older guesses, check if it's specifically in the wrong order list
-                          // but ONLY if it passes our strict test too - this is essential for consistency
                           const wrongOrderKey = `fusdle_wrong_order_${puzzle?.id}_${difficultyMode}`;
                           const storedWrongOrderGuesses = localStorage.getItem(wrongOrderKey);
                           
                           if (storedWrongOrderGuesses) {
-                            const wrongOrderGuesses = JSON.parse(storedWrongOrderGuesses);
-                            
-                            // Only show it as wrong order if it ALSO passes our strict test
-                            if (wrongOrderGuesses.includes(originalIndex) && (isTrulyWrongOrder || isExactTestCase)) {
-                              isWrongOrderMatch = true;
-                              console.log(`Found and VERIFIED saved wrong order match for index ${originalIndex}`);
-                            } else if (wrongOrderGuesses.includes(originalIndex)) {
-                              // If it was saved as wrong order but doesn't pass test, remove it
-                              console.log(`Found but REJECTED saved wrong order match for index ${originalIndex} - doesn't pass strict test`);
-                              
-                              // Remove this index from wrong order guesses and save back to storage
-                              const cleanedWrongOrderGuesses = wrongOrderGuesses.filter((idx: number) => idx !== originalIndex);
-                              localStorage.setItem(wrongOrderKey, JSON.stringify(cleanedWrongOrderGuesses));
-                            }
+                            const wrongOrderGuesses: number[] = JSON.parse(storedWrongOrderGuesses);
+                            isWrongOrderMatch = wrongOrderGuesses.includes(originalIndex);
                           }
                         }
                       } catch (e) {
@@ -1131,7 +993,16 @@ const GameCard: React.FC = () => {
                           key={`${guess}-${originalIndex}`} 
                           className={`p-2 rounded text-sm flex justify-between items-center ${bgColorClass} ${borderColorClass}`}
                         >
-                          {isWrongOrderMatch ? (
+                          {letterFeedback ? (
+                            <div className="font-medium text-gray-700">
+                              <LetterTiles feedback={letterFeedback} />
+                              {isWrongOrderMatch && (
+                                <div className="text-xs mt-1 text-amber-600 font-medium">
+                                  Correct words but wrong order!
+                                </div>
+                              )}
+                            </div>
+                          ) : isWrongOrderMatch ? (
                             // Special treatment for wrong order matches - distinct from partial matches
                             <div className="font-medium text-gray-700">
                               {/* Apply special wrong order styling to all words */}
@@ -1157,11 +1028,14 @@ const GameCard: React.FC = () => {
                                     guess, 
                                     partialMatchFeedback || "You're on the right track!", 
                                     effectiveMatchedWord, 
-                                    originalIndex
+                                    originalIndex,
+                                    wordMatches
                                   )
                                 : guess}
                               <div className="text-xs mt-1 text-green-600">
-                                Contains a partial match
+                                {wordMatches && wordMatches.length > 1
+                                  ? `Contains ${wordMatches.length} correct words`
+                                  : 'Contains a partial match'}
                               </div>
                             </div>
                           ) : (
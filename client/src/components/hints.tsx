@@ -1,4 +1,5 @@
 import { motion } from "framer-motion";
+import { HINT_TIER_LABELS, hintTier } from "@shared/hints";
 
 interface HintsProps {
   hints: string[];
@@ -20,7 +21,9 @@ const Hints: React.FC<HintsProps> = ({ hints }) => {
           transition={{ duration: 0.5, delay: 0.1 }}
         >
           <div className="flex">
-            <span className="font-medium mr-2">Hint {index + 1}:</span>
+            <span className="font-medium mr-2">
+              Hint {index + 1} ({HINT_TIER_LABELS[hintTier(index)]}):
+            </span>
             <span>{hint}</span>
           </div>
         </motion.div>
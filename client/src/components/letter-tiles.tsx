@@ -0,0 +1,35 @@
+import type { LetterState, WordFeedback } from "@shared/schema";
+
+interface LetterTilesProps {
+  feedback: WordFeedback[];
+}
+
+const tileClasses: Record<LetterState, string> = {
+  correct: "bg-green-500 border-green-600 text-white",
+  present: "bg-amber-400 border-amber-500 text-white",
+  absent: "bg-gray-300 border-gray-400 text-gray-700"
+};
+
+// Wordle-style tiles for one guess, grouped into the answer's word slots
+const LetterTiles: React.FC<LetterTilesProps> = ({ feedback }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {feedback.map((word, wordIndex) => (
+        <div key={wordIndex} className="flex gap-0.5">
+          {word.letters.map((tile, letterIndex) => (
+            <span
+              key={letterIndex}
+              className={`w-6 h-6 flex items-center justify-center rounded border font-mono text-xs font-bold uppercase ${
+                tile.letter ? tileClasses[tile.state] : "bg-white border-gray-200"
+              }`}
+            >
+              {tile.letter}
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LetterTiles;
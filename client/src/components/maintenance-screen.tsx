@@ -0,0 +1,25 @@
+import { format } from "date-fns";
+import { Wrench } from "lucide-react";
+import type { MaintenanceNotice } from "@/hooks/use-maintenance";
+
+interface MaintenanceScreenProps {
+  notice: MaintenanceNotice;
+}
+
+// Shown to every player in place of the game while maintenance is on
+const MaintenanceScreen: React.FC<MaintenanceScreenProps> = ({ notice }) => {
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4 text-center">
+      <Wrench className="h-10 w-10 text-orange-500 mx-auto" />
+      <h1 className="text-2xl font-bold">Down for maintenance</h1>
+      <p className="text-gray-600">{notice.message}</p>
+      {notice.eta && (
+        <p className="text-sm text-gray-500">
+          Expected back around {format(new Date(notice.eta), "MMM d, h:mm a")}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MaintenanceScreen;
@@ -1,59 +1,46 @@
 import { Link } from "wouter";
 import { motion } from "framer-motion";
 import { Archive, Home, Info, FileText, Menu, X, HelpCircle, BarChart3 } from "lucide-react";
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useAuthState } from "react-firebase-hooks/auth";
 import { getAuth } from "firebase/auth";
-import { userDataService, type UserStats } from "@/lib/user-data-service";
+import { useProgress } from "@/hooks/use-progress";
 import UserMenu from "@/components/user-menu";
+import { MAX_STREAK_FREEZES, STREAK_DAYS_PER_FREEZE, type StreakDayStatus } from "@shared/streak";
 
 interface NavTabsProps {
   currentPath: string;
 }
 
-// Statistics component to display user data
-const StatisticsContent: React.FC<{ onRefresh?: boolean }> = ({ onRefresh = false }) => {
-  const [stats, setStats] = useState<UserStats | null>(null);
-  const [detailedStats, setDetailedStats] = useState<any>(null);
-  const [loading, setLoading] = useState(true);
-
-  const loadStats = async () => {
-    setLoading(true);
-    try {
-      const userStats = await userDataService.getUserStats();
-      const detailed = await userDataService.getDetailedStats();
-      setStats(userStats);
-      setDetailedStats(detailed);
-      console.log('Statistics loaded:', { userStats, detailed });
-    } catch (error) {
-      console.error("Error loading user stats:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    loadStats();
-  }, [onRefresh]);
+// How each day of the streak history is drawn and described
+const STREAK_DAY_STYLES: Record<StreakDayStatus, string> = {
+  solved: 'bg-blue-500',
+  frozen: 'bg-cyan-300',
+  none: 'bg-gray-200',
+  pending: 'border border-dashed border-gray-400'
+};
 
-  if (loading) {
-    return <div className="text-center">Loading statistics...</div>;
-  }
+const STREAK_DAY_LABELS: Record<StreakDayStatus, string> = {
+  solved: 'Solved',
+  frozen: 'Saved by a streak freeze',
+  none: 'Not in streak',
+  pending: 'Today'
+};
 
-  if (!stats || !detailedStats) {
-    return <div className="text-center text-gray-500">Unable to load statistics</div>;
-  }
+// Statistics component to display user data
+const StatisticsContent: React.FC = () => {
+  const stats = useProgress();
 
   return (
     <div className="space-y-6">
       {/* Overall Performance */}
       <div className="text-center p-4 bg-gradient-to-r from-purple-100 to-blue-100 rounded-lg">
-        <div className="text-3xl font-bold text-purple-700">{detailedStats.overall.winRate}%</div>
+        <div className="text-3xl font-bold text-purple-700">{stats.winRate}%</div>
         <div className="text-sm text-purple-600 font-medium">Overall Win Rate</div>
         <div className="text-xs text-purple-500 mt-1">
-          {detailedStats.overall.totalSolved} solved of {detailedStats.overall.totalAttempted} attempted
+          {stats.solved} solved of {stats.played} played
         </div>
       </div>
 
@@ -69,11 +56,11 @@ const StatisticsContent: React.FC<{ onRefresh?: boolean }> = ({ onRefresh = fals
               <span className="text-sm font-medium text-green-800">Normal</span>
             </div>
             <div className="text-right">
-              <div className="text-lg font-bold text-green-700">{detailedStats.normal.solved}</div>
+              <div className="text-lg font-bold text-green-700">{stats.normal.solved}</div>
               <div className="text-xs text-green-600">Puzzles Completed</div>
               <div className="text-xs text-green-500">
-                {detailedStats.normal.attempted > 0 
-                  ? `${Math.round((detailedStats.normal.solved / detailedStats.normal.attempted) * 100)}% success • Avg ${detailedStats.normal.avgGuesses} guesses`
+                {stats.normal.played > 0 
+                  ? `${Math.round((stats.normal.solved / stats.normal.played) * 100)}% success • Avg ${stats.normal.avgGuesses} guesses`
                   : 'No attempts yet'
                 }
               </div>
@@ -87,11 +74,11 @@ const StatisticsContent: React.FC<{ onRefresh?: boolean }> = ({ onRefresh = fals
               <span className="text-sm font-medium text-red-800">Hard</span>
             </div>
             <div className="text-right">
-              <div className="text-lg font-bold text-red-700">{detailedStats.hard.solved}</div>
+              <div className="text-lg font-bold text-red-700">{stats.hard.solved}</div>
               <div className="text-xs text-red-600">Puzzles Completed</div>
               <div className="text-xs text-red-500">
-                {detailedStats.hard.attempted > 0 
-                  ? `${Math.round((detailedStats.hard.solved / detailedStats.hard.attempted) * 100)}% success • Avg ${detailedStats.hard.avgGuesses} guesses`
+                {stats.hard.played > 0 
+                  ? `${Math.round((stats.hard.solved / stats.hard.played) * 100)}% success • Avg ${stats.hard.avgGuesses} guesses`
                   : 'No attempts yet'
                 }
               </div>
@@ -105,11 +92,11 @@ const StatisticsContent: React.FC<{ onRefresh?: boolean }> = ({ onRefresh = fals
               <span className="text-sm font-medium text-orange-800">Fusion Twists</span>
             </div>
             <div className="text-right">
-              <div className="text-lg font-bold text-orange-700">{detailedStats.fusion.solved}</div>
+              <div className="text-lg font-bold text-orange-700">{stats.fusion.solved}</div>
               <div className="text-xs text-orange-600">Puzzles Completed</div>
               <div className="text-xs text-orange-500">
-                {detailedStats.fusion.attempted > 0 
-                  ? `${Math.round((detailedStats.fusion.solved / detailedStats.fusion.attempted) * 100)}% success • Avg ${detailedStats.fusion.avgGuesses} guesses`
+                {stats.fusion.played > 0 
+                  ? `${Math.round((stats.fusion.solved / stats.fusion.played) * 100)}% success • Avg ${stats.fusion.avgGuesses} guesses`
                   : 'No attempts yet'
                 }
               </div>
@@ -125,11 +112,41 @@ const StatisticsContent: React.FC<{ onRefresh?: boolean }> = ({ onRefresh = fals
           <div className="text-xs text-blue-600">Current Streak</div>
         </div>
         <div className="text-center p-3 bg-indigo-50 rounded-lg">
-          <div className="text-xl font-bold text-indigo-600">{stats.maxStreak}</div>
+          <div className="text-xl font-bold text-indigo-600">{stats.longestStreak}</div>
           <div className="text-xs text-indigo-600">Best Streak</div>
         </div>
       </div>
 
+      {/* Streak Freezes and the last two weeks of the streak */}
+      <div className="p-3 bg-cyan-50 rounded-lg">
+        <div className="flex justify-between items-center">
+          <span className="text-sm font-medium text-cyan-800">🧊 Streak Freezes</span>
+          <span className="text-lg font-bold text-cyan-700">
+            {stats.freezes}/{MAX_STREAK_FREEZES}
+          </span>
+        </div>
+        <div className="text-xs text-cyan-600 mt-1">
+          Earn one every {STREAK_DAYS_PER_FREEZE} days of streak. Missing a day uses one up automatically.
+        </div>
+        <div className="flex justify-center gap-1 mt-3">
+          {stats.history.map(day => (
+            <div
+              key={day.date}
+              title={`${day.date}: ${STREAK_DAY_LABELS[day.status]}`}
+              className={`w-4 h-4 rounded-sm ${STREAK_DAY_STYLES[day.status]}`}
+            />
+          ))}
+        </div>
+        <div className="flex justify-center gap-3 mt-2 text-xs text-gray-500">
+          {(['solved', 'frozen'] as const).map(status => (
+            <span key={status} className="flex items-center gap-1">
+              <span className={`inline-block w-2.5 h-2.5 rounded-sm ${STREAK_DAY_STYLES[status]}`} />
+              {STREAK_DAY_LABELS[status]}
+            </span>
+          ))}
+        </div>
+      </div>
+
       {/* Flawless Streak */}
       {stats.flawlessStreak > 0 && (
         <div className="text-center p-3 bg-gradient-to-r from-yellow-100 to-orange-100 rounded-lg">
@@ -145,7 +162,6 @@ const NavTabs: React.FC<NavTabsProps> = ({ currentPath }) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [showHowToPlay, setShowHowToPlay] = useState(false);
   const [showStatistics, setShowStatistics] = useState(false);
-  const [statsRefreshKey, setStatsRefreshKey] = useState(0);
   const [user] = useAuthState(getAuth());
 
   const toggleMenu = () => setIsMenuOpen(!isMenuOpen);
@@ -246,7 +262,7 @@ const NavTabs: React.FC<NavTabsProps> = ({ currentPath }) => {
                   Your Statistics
                 </DialogTitle>
               </DialogHeader>
-              <StatisticsContent key={statsRefreshKey} onRefresh={statsRefreshKey > 0} />
+              <StatisticsContent />
               <div className="text-center text-sm text-gray-500 mt-4">
                 {!user ? "Sign in with Google to sync your progress across devices!" : "Your progress is automatically saved to your Google account"}
               </div>
@@ -6,6 +6,9 @@ import Confetti from "react-confetti";
 import { Badge } from "@/components/ui/badge";
 import { Skull, Flame, Sparkles, ListIcon } from "lucide-react";
 import { calculateFusdleNumber } from "@/lib/utils";
+import { matchAnswer } from "@shared/answer-matching";
+import { getMsUntilRollover } from "@shared/puzzle-clock";
+import { getServerNow } from "@/lib/global-time";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 
 const ResultsCard: React.FC = () => {
@@ -31,24 +34,10 @@ const ResultsCard: React.FC = () => {
   });
 
   useEffect(() => {
-    // Calculate time until midnight (12 AM) EST for all users regardless of their timezone
+    // Count down to the next puzzle rollover (midnight Eastern) for all users regardless of their
+    // timezone, by the server's clock so a skewed device clock doesn't throw it off
     const calculateTimeUntilNextPuzzle = () => {
-      // Get current time
-      const now = new Date();
-      
-      // This function uses a simple approach to calculate time until midnight ET
-      // Find the current ET time to calculate when the next puzzle will be available
-      const etTimeStr = now.toLocaleString('en-US', { timeZone: 'America/New_York' });
-      const currentET = new Date(etTimeStr);
-      
-      // Create a new date for midnight tonight in ET
-      const midnightET = new Date(etTimeStr);
-      midnightET.setHours(24, 0, 0, 0); // Next midnight
-      
-      // Convert both dates to milliseconds for calculation
-      const msSinceMidnight = currentET.getTime() - new Date(etTimeStr).setHours(0, 0, 0, 0);
-      const msInDay = 24 * 60 * 60 * 1000;
-      const msUntilMidnight = msInDay - msSinceMidnight;
+      const msUntilMidnight = getMsUntilRollover(getServerNow());
       
       // Convert ms to hours, minutes, seconds
       const hours = Math.floor(msUntilMidnight / (1000 * 60 * 60));
@@ -297,10 +286,8 @@ const ResultsCard: React.FC = () => {
                     <div className="p-3 bg-gray-50 rounded-lg mt-2 max-h-52 overflow-y-auto">
                       <ul className="space-y-1.5 divide-y divide-gray-100">
                         {previousGuesses.map((guess, index) => {
-                          // Check if this is the winning guess (for the last guess only)
-                          const isWinningGuess = isWin && 
-                            index === previousGuesses.length - 1 && 
-                            guess.toLowerCase() === puzzle?.answer?.toLowerCase();
+                          // On a win the server accepted the last guess, which may be a variant of the answer
+                          const isWinningGuess = isWin && index === previousGuesses.length - 1;
                             
                           return (
                             <li 
@@ -322,11 +309,11 @@ const ResultsCard: React.FC = () => {
                           );
                         })}
                         
-                        {/* Only show the answer separately if the last guess wasn't correct */}
+                        {/* Show the official answer too when the winning guess was a variant of it */}
                         {isWin && 
                          previousGuesses.length > 0 && 
                          puzzle?.answer &&
-                         previousGuesses[previousGuesses.length - 1].toLowerCase() !== puzzle?.answer?.toLowerCase() && (
+                         !matchAnswer(previousGuesses[previousGuesses.length - 1], puzzle.answer).isExact && (
                           <li className="py-1.5 px-1 text-sm flex justify-between items-center bg-green-50 rounded mt-2">
                             <span className="font-medium text-green-700">{puzzle?.answer}</span>
                             <div className="flex items-center">
@@ -1,13 +1,20 @@
 import { useState, useEffect } from "react";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { getAuth, onAuthStateChanged, User } from "firebase/auth";
 import { app } from "@/firebase/config";
-import { LogOut, User as UserIcon, Trophy, BarChart3, Calendar, Shield, AlertTriangle, Trash2, Settings, Database, MessageSquareWarning, Users, RefreshCw } from "lucide-react";
+import { Link } from "wouter";
+import { LogOut, User as UserIcon, Trophy, BarChart3, Calendar, Shield, AlertTriangle, Trash2, Settings, Database, MessageSquareWarning, Users, RefreshCw, CalendarDays } from "lucide-react";
 import GoogleAuth from "@/components/google-auth";
-import { userDataService } from "@/lib/user-data-service";
+import { progressStore } from "@/lib/progress-store";
 import { useGameStore } from "@/lib/game-store";
+import { useRole } from "@/hooks/use-role";
+import { useProgress } from "@/hooks/use-progress";
+import { apiRequest } from "@/lib/queryClient";
+import type { MaintenanceState } from "@shared/schema";
 
 const UserMenu: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -16,6 +23,8 @@ const UserMenu: React.FC = () => {
   const [showResetConfirm, setShowResetConfirm] = useState(false);
   const [showMaintenanceToggle, setShowMaintenanceToggle] = useState(false);
   const [maintenanceMode, setMaintenanceMode] = useState(false);
+  const [maintenanceMessage, setMaintenanceMessage] = useState('');
+  const [maintenanceEta, setMaintenanceEta] = useState('');
   const [adminUserEmail, setAdminUserEmail] = useState('');
   const [showUserLookup, setShowUserLookup] = useState(false);
   // We'll call the global reset function directly when needed
@@ -28,21 +37,41 @@ const UserMenu: React.FC = () => {
     return () => unsubscribe();
   }, []);
 
-  // Check if current user is admin
-  const isAdmin = user?.email === import.meta.env.VITE_ADMIN_EMAIL;
+  // Admin tools follow the role claim the server also checks
+  const { isAdmin } = useRole();
+  const stats = useProgress();
 
-  // Load maintenance mode from localStorage
+  // Maintenance mode is stored on the server and applies to every player
   useEffect(() => {
-    const savedMaintenanceMode = localStorage.getItem('fusdle_maintenance_mode');
-    setMaintenanceMode(savedMaintenanceMode === 'true');
-  }, []);
+    if (!isAdmin || !showUserDialog) return;
+
+    apiRequest('GET', '/api/admin/maintenance')
+      .then(response => response.json())
+      .then((state: MaintenanceState) => {
+        setMaintenanceMode(state.enabled);
+        setMaintenanceMessage(state.message);
+        setMaintenanceEta(state.eta ? format(new Date(state.eta), "yyyy-MM-dd'T'HH:mm") : '');
+      })
+      .catch(error => console.error('Error loading maintenance mode:', error));
+  }, [isAdmin, showUserDialog]);
 
   // Admin functions
-  const handleToggleMaintenanceMode = () => {
+  const handleToggleMaintenanceMode = async () => {
     const newMode = !maintenanceMode;
-    setMaintenanceMode(newMode);
-    localStorage.setItem('fusdle_maintenance_mode', newMode.toString());
-    console.log(`Maintenance mode ${newMode ? 'enabled' : 'disabled'}`);
+    try {
+      const response = await apiRequest('PUT', '/api/admin/maintenance', {
+        enabled: newMode,
+        message: maintenanceMessage.trim() || undefined,
+        // The datetime input is in local time; the API takes ISO timestamps
+        eta: maintenanceEta ? new Date(maintenanceEta).toISOString() : null
+      });
+      const state: MaintenanceState = await response.json();
+      setMaintenanceMode(state.enabled);
+      console.log(`Maintenance mode ${state.enabled ? 'enabled' : 'disabled'}`);
+    } catch (error) {
+      console.error('Error changing maintenance mode:', error);
+      alert('Could not change maintenance mode. Check that you are signed in as an admin.');
+    }
   };
 
   const handleGlobalPuzzleReset = () => {
@@ -55,6 +84,9 @@ const UserMenu: React.FC = () => {
           key.includes('fusdle_game_state_') ||
           key.includes('fusdle_partial_') ||
           key.includes('fusdle_answer_') ||
+          key.includes('fusdle_game_token_') ||
+          key.includes('fusdle_letter_feedback_') ||
+          key.includes('fusdle_word_matches_') ||
           key.includes('lastCompletionDate') ||
           key.includes('gameSession_')
         )) {
@@ -94,19 +126,8 @@ const UserMenu: React.FC = () => {
 
   const handleResetStats = async () => {
     try {
-      // Reset user stats to default values
-      const defaultStats = {
-        puzzlesSolved: 0,
-        currentStreak: 0,
-        maxStreak: 0,
-        totalAttempts: 0,
-        solvedPuzzles: [],
-        lastPlayedDate: "",
-        flawlessStreak: 0,
-        hintsUsed: 0
-      };
-      
-      await userDataService.saveUserStats(defaultStats);
+      // Clears every session and the streak, here and on the account
+      await progressStore.reset();
       
       // Close all dialogs
       setShowResetConfirm(false);
@@ -178,7 +199,7 @@ const UserMenu: React.FC = () => {
                 </div>
                 <div className="flex items-center gap-2">
                   <BarChart3 className="h-4 w-4 text-green-500" />
-                  <span>Statistics being saved</span>
+                  <span>{stats.solved} solved • {stats.currentStreak} day streak</span>
                 </div>
                 <div className="flex items-center gap-2">
                   <Calendar className="h-4 w-4 text-blue-500" />
@@ -198,19 +219,53 @@ const UserMenu: React.FC = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent className="pt-0 space-y-3">
-                {/* Maintenance Mode Toggle */}
+                {/* Puzzle Authoring */}
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
-                    <MessageSquareWarning className="h-4 w-4 text-orange-500" />
-                    <span className="text-sm">Maintenance Mode</span>
+                    <CalendarDays className="h-4 w-4 text-purple-500" />
+                    <span className="text-sm">Manage Puzzles</span>
                   </div>
-                  <Button
-                    size="sm"
-                    variant={maintenanceMode ? "destructive" : "outline"}
-                    onClick={handleToggleMaintenanceMode}
-                  >
-                    {maintenanceMode ? "Disable" : "Enable"}
-                  </Button>
+                  <Link href="/admin/puzzles">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setShowUserDialog(false)}
+                    >
+                      Open
+                    </Button>
+                  </Link>
+                </div>
+
+                {/* Maintenance Mode Toggle */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <MessageSquareWarning className="h-4 w-4 text-orange-500" />
+                      <span className="text-sm">Maintenance Mode</span>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant={maintenanceMode ? "destructive" : "outline"}
+                      onClick={handleToggleMaintenanceMode}
+                    >
+                      {maintenanceMode ? "Disable" : "Enable"}
+                    </Button>
+                  </div>
+                  {!maintenanceMode && (
+                    <>
+                      <Input
+                        placeholder="Message shown to players"
+                        value={maintenanceMessage}
+                        onChange={(e) => setMaintenanceMessage(e.target.value)}
+                      />
+                      <Input
+                        type="datetime-local"
+                        aria-label="Expected back at"
+                        value={maintenanceEta}
+                        onChange={(e) => setMaintenanceEta(e.target.value)}
+                      />
+                    </>
+                  )}
                 </div>
 
                 {/* Global Puzzle Reset */}
@@ -10,11 +10,16 @@ import {
   addDoc,
   updateDoc,
   deleteDoc,
+  setDoc,
+  getCountFromServer,
+  writeBatch,
+  runTransaction,
+  increment,
   Timestamp
 } from 'firebase/firestore';
 import { db } from './config';
-import type { Puzzle, InsertPuzzle } from '@shared/schema';
-import { getGlobalDateString } from '../lib/global-time';
+import type { Puzzle, InsertPuzzle, GameSession, InsertGameSession, MaintenanceState, PuzzleSolveStats } from '@shared/schema';
+import { getPuzzleDate } from '@shared/puzzle-clock';
 
 // Patch note interface
 export interface PatchNote {
@@ -29,6 +34,27 @@ export interface PatchNote {
 // Collection references
 const puzzlesCollection = collection(db, 'puzzles');
 const patchNotesCollection = collection(db, 'patchNotes');
+const gameSessionsCollection = collection(db, 'gameSessions');
+// Running totals of finished sessions, one document per puzzle and difficulty
+const solveStatsCollection = collection(db, 'solveStats');
+// Site-wide settings, one document per setting
+const maintenanceDoc = doc(db, 'settings', 'maintenance');
+// Exists once the solve stats have been rebuilt from the stored sessions
+const solveStatsBuiltDoc = doc(db, 'settings', 'solveStats');
+
+// One game session document per player, puzzle and difficulty
+const gameSessionDocId = (playerId: string, puzzleId: number, difficulty: string): string =>
+  `${playerId}_${puzzleId}_${difficulty}`;
+
+interface SolveStatsTotals {
+  puzzleId: number;
+  difficulty: string;
+  plays: number;
+  solves: number;
+  totalAttempts: number;
+}
+
+const solveStatsDocId = (puzzleId: number, difficulty: string): string => `${puzzleId}_${difficulty}`;
 
 // Helper function to convert Firestore timestamp to ISO date string
 const timestampToDate = (timestamp: Timestamp): string => {
@@ -40,6 +66,15 @@ const dateToTimestamp = (dateStr: string): Timestamp => {
   return Timestamp.fromDate(new Date(dateStr));
 };
 
+// Timestamps bounding a puzzle day [start, end) in UTC. Puzzle dates are stored
+// as Timestamps at varying times of day (midnight, 4 AM, 8 AM UTC), so a day
+// is matched with a range query rather than equality on a single instant.
+const dayRange = (dateStr: string): [Timestamp, Timestamp] => {
+  const start = new Date(`${dateStr.split('T')[0]}T00:00:00.000Z`);
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  return [Timestamp.fromDate(start), Timestamp.fromDate(end)];
+};
+
 // Convert Firestore document to Puzzle
 const puzzleFromFirestore = (doc: any): Puzzle => {
   try {
@@ -64,11 +99,11 @@ const puzzleFromFirestore = (doc: any): Puzzle => {
         dateStr = data.date;
       } else {
         console.warn('Unknown date format:', data.date);
-        dateStr = new Date().toISOString().split('T')[0]; // Fallback to today
+        dateStr = getPuzzleDate(); // Fallback to today
       }
     } else {
       console.warn('Missing date in document:', doc.id);
-      dateStr = new Date().toISOString().split('T')[0]; // Fallback to today
+      dateStr = getPuzzleDate(); // Fallback to today
     }
     
     // Calculate wordCount if answer exists
@@ -88,8 +123,10 @@ const puzzleFromFirestore = (doc: any): Puzzle => {
       answer: data.answer || "",
       theme: data.theme || "General",
       hints: data.hints || [],
+      acceptedAnswers: data.acceptedAnswers || null,
       isFusionTwist: data.isFusionTwist || 0,
       twistType: data.twistType || null,
+      difficultyScore: data.difficultyScore ?? null,
       wordCount: wordCount
     };
   } catch (error) {
@@ -98,14 +135,16 @@ const puzzleFromFirestore = (doc: any): Puzzle => {
     return {
       id: 0,
       puzzleNumber: 0,
-      date: new Date().toISOString().split('T')[0],
+      date: getPuzzleDate(),
       difficulty: "normal",
       emojis: ["⚠️"],
       answer: "Error Loading Puzzle",
       theme: "General",
       hints: ["Error loading puzzle data"],
+      acceptedAnswers: null,
       isFusionTwist: 0,
       twistType: null,
+      difficultyScore: null,
       wordCount: 3 // Default word count for error message
     };
   }
@@ -113,11 +152,20 @@ const puzzleFromFirestore = (doc: any): Puzzle => {
 
 // Firestore Service Class
 export class FirestoreService {
-  // Get puzzle by date
-  async getPuzzleByDate(dateStr: string): Promise<Puzzle | undefined> {
-    const date = dateToTimestamp(dateStr);
-    const q = query(puzzlesCollection, where('date', '==', date));
-    const querySnapshot = await getDocs(q);
+  // Get puzzle by date (optionally by difficulty)
+  async getPuzzleByDate(dateStr: string, difficulty?: string): Promise<Puzzle | undefined> {
+    const [dayStart, dayEnd] = dayRange(dateStr);
+    const constraints = [
+      where('date', '>=', dayStart),
+      where('date', '<', dayEnd),
+      limit(1)
+    ];
+    
+    if (difficulty) {
+      constraints.unshift(where('difficulty', '==', difficulty));
+    }
+    
+    const querySnapshot = await getDocs(query(puzzlesCollection, ...constraints));
     
     if (querySnapshot.empty) {
       return undefined;
@@ -132,32 +180,28 @@ export class FirestoreService {
       const puzzleNumber = typeof id === 'string' ? parseInt(id, 10) : id;
       console.log(`Looking for fusion puzzle with ID: ${puzzleNumber}`);
       
-      // Get all puzzles
-      const allPuzzlesQuery = query(puzzlesCollection);
-      const allPuzzlesSnapshot = await getDocs(allPuzzlesQuery);
+      const fusionSnapshot = await getDocs(query(
+        puzzlesCollection,
+        where('isFusionTwist', '==', 1),
+        where('puzzleNumber', '==', puzzleNumber),
+        limit(1)
+      ));
       
-      if (allPuzzlesSnapshot.empty) {
-        console.log('No puzzles found in database');
-        return undefined;
-      }
-      
-      // Convert to array of puzzles
-      const allPuzzles = allPuzzlesSnapshot.docs.map(puzzleFromFirestore);
-      
-      // Find the fusion puzzle with the matching ID
-      const fusionPuzzle = allPuzzles.find(p => 
-        p.puzzleNumber === puzzleNumber && 
-        p.isFusionTwist === 1
-      );
-      
-      if (fusionPuzzle) {
+      if (!fusionSnapshot.empty) {
+        const fusionPuzzle = puzzleFromFirestore(fusionSnapshot.docs[0]);
         console.log(`Found fusion puzzle #${puzzleNumber} with type: ${fusionPuzzle.twistType}`);
         return fusionPuzzle;
       }
       
       // If no real fusion puzzle found, use any fusion puzzle as a fallback
-      const anyFusionPuzzle = allPuzzles.find(p => p.isFusionTwist === 1);
-      if (anyFusionPuzzle) {
+      const anyFusionSnapshot = await getDocs(query(
+        puzzlesCollection,
+        where('isFusionTwist', '==', 1),
+        limit(1)
+      ));
+      
+      if (!anyFusionSnapshot.empty) {
+        const anyFusionPuzzle = puzzleFromFirestore(anyFusionSnapshot.docs[0]);
         console.log(`Using fallback fusion puzzle #${anyFusionPuzzle.puzzleNumber} as ID ${puzzleNumber} wasn't found`);
         return {
           ...anyFusionPuzzle,
@@ -195,13 +239,16 @@ export class FirestoreService {
       return {
         id: puzzleNumber,
         puzzleNumber,
-        date: new Date().toISOString().split('T')[0],
+        date: getPuzzleDate(),
         difficulty: 'normal',
         emojis: fusion.emojis,
         answer: fusion.answer,
+        theme: 'General',
         hints: fusion.hints,
+        acceptedAnswers: null,
         isFusionTwist: 1,
         twistType: fusionType,
+        difficultyScore: null,
         wordCount: fusion.answer.split(/\s+/).length
       };
     } catch (error) {
@@ -213,100 +260,51 @@ export class FirestoreService {
   // Get today's puzzle (optionally by difficulty) using global time
   async getTodaysPuzzle(difficulty: string = 'normal'): Promise<Puzzle | undefined> {
     try {
-      // Get the current date from global time API - this ensures consistency
-      const todayStr = await getGlobalDateString();
+      const todayStr = getPuzzleDate();
       console.log(`Today's global date: ${todayStr}`);
       
-      // Convert date string to Date object for more reliable comparisons
-      const todayDate = new Date(todayStr);
-      
       // Ensure difficulty is valid
       const effectiveDifficulty = ['normal', 'hard'].includes(difficulty) ? difficulty : 'normal';
       console.log(`Looking for ${effectiveDifficulty} difficulty puzzle`);
       
-      // First get all puzzles and then filter
-      const allPuzzlesQuery = query(puzzlesCollection);
-      const allPuzzlesSnapshot = await getDocs(allPuzzlesQuery);
+      // Find the puzzle for today with the right difficulty
+      const todaysPuzzle = await this.getPuzzleByDate(todayStr, effectiveDifficulty);
       
-      if (allPuzzlesSnapshot.empty) {
-        console.log('No puzzles found in database');
-        return undefined;
+      if (todaysPuzzle) {
+        console.log(`Found today's puzzle: #${todaysPuzzle.puzzleNumber} for ${todaysPuzzle.date}`);
+        return todaysPuzzle;
       }
       
-      // Convert to array of puzzles
-      const allPuzzles = allPuzzlesSnapshot.docs.map(puzzleFromFirestore);
-      console.log(`Found ${allPuzzles.length} puzzles total`);
-      
-      // Calculate a simple date string for each puzzle (YYYY-MM-DD format without time)
-      // and create an array that includes both puzzle and simple date
-      const puzzlesWithSimpleDates = allPuzzles.map(puzzle => {
-        let simpleDateStr = '';
-        try {
-          // Extract just the date part (YYYY-MM-DD) and ignore time
-          simpleDateStr = puzzle.date.split('T')[0];
-        } catch (e) {
-          console.warn(`Error parsing date for puzzle ${puzzle.puzzleNumber}:`, e);
-          simpleDateStr = '1970-01-01'; // Use epoch as fallback
-        }
-        return { puzzle, simpleDateStr };
-      });
-      
-      // Debug: Log puzzle dates we're looking at
-      console.log(`Looking for puzzles matching ${todayStr.split('T')[0]} with ${effectiveDifficulty} difficulty`);
-      
-      // Find the puzzle for today with the right difficulty using the simple date string
-      const matchingPuzzle = puzzlesWithSimpleDates.find(p => 
-        // Compare only the YYYY-MM-DD part
-        p.simpleDateStr === todayStr.split('T')[0] && 
-        p.puzzle.difficulty === effectiveDifficulty
-      );
-      
-      if (matchingPuzzle) {
-        console.log(`Found today's puzzle: #${matchingPuzzle.puzzle.puzzleNumber} for ${matchingPuzzle.simpleDateStr}`);
-        return matchingPuzzle.puzzle;
-      }
-      
-      // If we can't find a puzzle for today, look for the puzzle with the
-      // next puzzleNumber after the last one shown
+      // If we can't find a puzzle for today, use the next scheduled puzzle
       console.log(`No puzzle found for exact date match. Looking for puzzles chronologically...`);
-      
-      // Sort puzzles by their dates
-      const sortedPuzzles = [...puzzlesWithSimpleDates]
-        .filter(p => p.puzzle.difficulty === effectiveDifficulty)
-        .sort((a, b) => {
-          // First try to sort by date
-          const dateA = new Date(a.simpleDateStr);
-          const dateB = new Date(b.simpleDateStr);
-          
-          // If dates are valid, use them
-          if (!isNaN(dateA.getTime()) && !isNaN(dateB.getTime())) {
-            return dateA.getTime() - dateB.getTime();
-          }
-          
-          // Fallback to puzzle number if dates are invalid
-          return a.puzzle.puzzleNumber - b.puzzle.puzzleNumber;
-        });
-      
-      // Find the first puzzle with a date >= today
-      const nextPuzzle = sortedPuzzles.find(p => {
-        try {
-          const puzzleDate = new Date(p.simpleDateStr);
-          return !isNaN(puzzleDate.getTime()) && puzzleDate >= todayDate;
-        } catch (e) {
-          return false;
-        }
-      });
-      
-      if (nextPuzzle) {
-        console.log(`Found chronological match: Puzzle #${nextPuzzle.puzzle.puzzleNumber} for ${nextPuzzle.simpleDateStr}`);
-        return nextPuzzle.puzzle;
+      const [todayStart] = dayRange(todayStr);
+      
+      const nextSnapshot = await getDocs(query(
+        puzzlesCollection,
+        where('difficulty', '==', effectiveDifficulty),
+        where('date', '>=', todayStart),
+        orderBy('date', 'asc'),
+        limit(1)
+      ));
+      
+      if (!nextSnapshot.empty) {
+        const nextPuzzle = puzzleFromFirestore(nextSnapshot.docs[0]);
+        console.log(`Found chronological match: Puzzle #${nextPuzzle.puzzleNumber} for ${nextPuzzle.date}`);
+        return nextPuzzle;
       }
       
       // If no puzzles for today or future, use the most recent puzzle
-      if (sortedPuzzles.length > 0) {
-        const latestPuzzle = sortedPuzzles[sortedPuzzles.length - 1];
-        console.log(`Using most recent puzzle: #${latestPuzzle.puzzle.puzzleNumber} from ${latestPuzzle.simpleDateStr}`);
-        return latestPuzzle.puzzle;
+      const latestSnapshot = await getDocs(query(
+        puzzlesCollection,
+        where('difficulty', '==', effectiveDifficulty),
+        orderBy('date', 'desc'),
+        limit(1)
+      ));
+      
+      if (!latestSnapshot.empty) {
+        const latestPuzzle = puzzleFromFirestore(latestSnapshot.docs[0]);
+        console.log(`Using most recent puzzle: #${latestPuzzle.puzzleNumber} from ${latestPuzzle.date}`);
+        return latestPuzzle;
       }
       
       console.log(`No puzzles found with ${effectiveDifficulty} difficulty`);
@@ -317,32 +315,21 @@ export class FirestoreService {
     }
   }
   
-  // Get puzzles by difficulty
+  // Get puzzles by difficulty (newest first)
   async getPuzzlesByDifficulty(difficulty: string, limitCount = 10): Promise<Puzzle[]> {
     try {
       console.log(`Getting puzzles with difficulty: ${difficulty}, limit: ${limitCount}`);
       
-      // First get all puzzles
-      const allPuzzlesQuery = query(puzzlesCollection);
-      const allPuzzlesSnapshot = await getDocs(allPuzzlesQuery);
+      const querySnapshot = await getDocs(query(
+        puzzlesCollection,
+        where('difficulty', '==', difficulty),
+        orderBy('date', 'desc'),
+        limit(limitCount)
+      ));
       
-      if (allPuzzlesSnapshot.empty) {
-        console.log('No puzzles found in database');
-        return [];
-      }
-      
-      // Convert to array of puzzles
-      const allPuzzles = allPuzzlesSnapshot.docs.map(puzzleFromFirestore);
-      console.log(`Found ${allPuzzles.length} total puzzles`);
-      
-      // Filter by difficulty and sort by date
-      const filteredPuzzles = allPuzzles
-        .filter(puzzle => puzzle.difficulty === difficulty)
-        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-        .slice(0, limitCount);
-      
-      console.log(`Returning ${filteredPuzzles.length} puzzles with difficulty ${difficulty}`);
-      return filteredPuzzles;
+      const puzzles = querySnapshot.docs.map(puzzleFromFirestore);
+      console.log(`Returning ${puzzles.length} puzzles with difficulty ${difficulty}`);
+      return puzzles;
     } catch (error) {
       console.error(`Error fetching puzzles with difficulty ${difficulty}:`, error);
       throw error;
@@ -359,31 +346,19 @@ export class FirestoreService {
       
       console.log(`Fetching puzzle with ID: ${puzzleNumber}, difficulty: ${effectiveDifficulty}`);
       
-      // First get all puzzles and then filter
-      const allPuzzlesQuery = query(puzzlesCollection);
-      const allPuzzlesSnapshot = await getDocs(allPuzzlesQuery);
+      const querySnapshot = await getDocs(query(
+        puzzlesCollection,
+        where('puzzleNumber', '==', puzzleNumber),
+        where('difficulty', '==', effectiveDifficulty),
+        limit(1)
+      ));
       
-      if (allPuzzlesSnapshot.empty) {
-        console.log('No puzzles found in database');
+      if (querySnapshot.empty) {
+        console.log(`No puzzle found with puzzleNumber: ${puzzleNumber} and difficulty: ${effectiveDifficulty}`);
         return undefined;
       }
       
-      // Convert to array of puzzles
-      const allPuzzles = allPuzzlesSnapshot.docs.map(puzzleFromFirestore);
-      
-      // Look for the puzzle with the specific ID and difficulty
-      const targetPuzzle = allPuzzles.find(p => 
-        p.puzzleNumber === puzzleNumber && 
-        p.difficulty === effectiveDifficulty
-      );
-      
-      if (targetPuzzle) {
-        console.log(`Found puzzle with ID: ${targetPuzzle.id}, difficulty: ${targetPuzzle.difficulty}`);
-        return targetPuzzle;
-      }
-      
-      console.log(`No puzzle found with puzzleNumber: ${puzzleNumber} and difficulty: ${effectiveDifficulty}`);
-      return undefined;
+      return puzzleFromFirestore(querySnapshot.docs[0]);
     } catch (error) {
       console.error(`Error fetching puzzle with ID ${id}:`, error);
       throw error;
@@ -393,84 +368,25 @@ export class FirestoreService {
   // Get puzzle archive (limited count) with global time
   async getPuzzleArchive(limitCount = 30): Promise<Puzzle[]> {
     try {
-      // Get the current date from global time API
-      const todayStr = await getGlobalDateString();
-      const todaySimple = todayStr.split('T')[0]; // Get YYYY-MM-DD format
+      const todaySimple = getPuzzleDate();
       console.log(`Getting archive puzzles, global date is: ${todaySimple}`);
       
-      // Get all puzzles
-      const allPuzzlesQuery = query(puzzlesCollection);
-      const allPuzzlesSnapshot = await getDocs(allPuzzlesQuery);
+      // Archive puzzles are the ones dated before today, newest first
+      const [todayStart] = dayRange(todaySimple);
+      const querySnapshot = await getDocs(query(
+        puzzlesCollection,
+        where('date', '<', todayStart),
+        orderBy('date', 'desc'),
+        limit(limitCount)
+      ));
       
-      if (allPuzzlesSnapshot.empty) {
-        console.log('No puzzles found in database');
-        return [];
-      }
-      
-      // Convert to array of puzzles
-      const allPuzzles = allPuzzlesSnapshot.docs.map(puzzleFromFirestore);
-      console.log(`Found ${allPuzzles.length} total puzzles`);
-      
-      // Calculate simple dates for more reliable comparison
-      const puzzlesWithSimpleDates = allPuzzles.map(puzzle => {
-        let simpleDateStr = '';
-        try {
-          // Extract just the date part (YYYY-MM-DD) and ignore time
-          simpleDateStr = puzzle.date.split('T')[0];
-        } catch (e) {
-          console.warn(`Error parsing date for puzzle ${puzzle.puzzleNumber}:`, e);
-          simpleDateStr = '1970-01-01'; // Use epoch as fallback
-        }
-        return { puzzle, simpleDateStr };
-      });
-      
-      // Filter puzzles for archive (puzzles with dates before today)
-      const archivePuzzles = puzzlesWithSimpleDates
-        .filter(({ puzzle, simpleDateStr }) => {
-          try {
-            // For debugging purposes, log puzzle details (only for first few puzzles)
-            if (puzzle.puzzleNumber <= 10) {
-              console.log(`Archive filter: Puzzle #${puzzle.puzzleNumber} (${puzzle.difficulty}): date=${simpleDateStr}, today=${todaySimple}`);
-            }
-            
-            // This is a simple string comparison - if the puzzle date is less than today's date
-            // We know the dates are in YYYY-MM-DD format, so lexicographic comparison works
-            return simpleDateStr < todaySimple;
-          } catch (err) {
-            console.error(`Date comparison error for puzzle ${puzzle.id}:`, err);
-            return false; // Exclude puzzles with invalid dates
-          }
-        })
-        .map(({ puzzle }) => puzzle) // Extract just the puzzle from the wrapper object
-        .sort((a, b) => {
-          // Sort by date (newest first) for the archive view
-          try {
-            const dateA = new Date(a.date).getTime();
-            const dateB = new Date(b.date).getTime();
-            
-            // If dates are valid, use them (newest first)
-            if (!isNaN(dateA) && !isNaN(dateB)) {
-              return dateB - dateA;
-            }
-          } catch (e) {
-            console.warn('Error sorting dates, falling back to puzzle number');
-          }
-          
-          // Fallback to puzzleNumber if dates aren't valid
-          return b.puzzleNumber - a.puzzleNumber;
-        })
-        .slice(0, limitCount);
-      
-      // Log detailed archive information
-      console.log(`Found ${archivePuzzles.length} archive puzzles out of ${allPuzzles.length} total`);
-      console.log(`Archive puzzles IDs: ${archivePuzzles.map(p => p.puzzleNumber).join(', ')}`);
+      const archivePuzzles = querySnapshot.docs.map(puzzleFromFirestore);
       
       // Count by difficulty
       const normalCount = archivePuzzles.filter(p => p.difficulty === 'normal').length;
       const hardCount = archivePuzzles.filter(p => p.difficulty === 'hard').length; 
       console.log(`Archive: ${normalCount} normal, ${hardCount} hard puzzles`);
       
-      // Return the archive puzzles
       return archivePuzzles;
     } catch (error) {
       console.error('Error fetching puzzle archive:', error);
@@ -497,12 +413,121 @@ export class FirestoreService {
       answer: puzzle.answer,
       theme: puzzle.theme || "General",
       hints: puzzle.hints || [],
+      acceptedAnswers: puzzle.acceptedAnswers ?? null,
       isFusionTwist: puzzle.isFusionTwist || 0,
       twistType: puzzle.twistType || null,
+      difficultyScore: puzzle.difficultyScore ?? null,
       wordCount: wordCount
     };
   }
 
+  // Puzzle documents have generated ids, so edits look the document up by number and difficulty
+  private async findPuzzleDoc(puzzleNumber: number, difficulty: string) {
+    const querySnapshot = await getDocs(query(
+      puzzlesCollection,
+      where('puzzleNumber', '==', puzzleNumber),
+      where('difficulty', '==', difficulty),
+      limit(1)
+    ));
+
+    return querySnapshot.empty ? undefined : querySnapshot.docs[0];
+  }
+
+  // Update a puzzle, returning undefined if it doesn't exist
+  async updatePuzzle(puzzleNumber: number, difficulty: string, updates: Partial<InsertPuzzle>): Promise<Puzzle | undefined> {
+    try {
+      const puzzleDoc = await this.findPuzzleDoc(puzzleNumber, difficulty);
+      if (!puzzleDoc) {
+        return undefined;
+      }
+
+      const { date, ...fields } = updates;
+      await updateDoc(puzzleDoc.ref, {
+        ...fields,
+        ...(date ? { date: dateToTimestamp(date) } : {})
+      });
+
+      return puzzleFromFirestore(await getDoc(puzzleDoc.ref));
+    } catch (error) {
+      console.error(`Error updating puzzle ${puzzleNumber} (${difficulty}):`, error);
+      throw error;
+    }
+  }
+
+  // Swap the schedule slots, date and puzzle number, of two puzzles in one
+  // write, so the numbers stay in date order
+  async swapPuzzles(first: Puzzle, second: Puzzle): Promise<void> {
+    try {
+      const [firstDoc, secondDoc] = await Promise.all([
+        this.findPuzzleDoc(first.puzzleNumber, first.difficulty),
+        this.findPuzzleDoc(second.puzzleNumber, second.difficulty)
+      ]);
+      if (!firstDoc || !secondDoc) {
+        throw new Error(`Puzzle #${firstDoc ? second.puzzleNumber : first.puzzleNumber} no longer exists`);
+      }
+
+      const batch = writeBatch(db);
+      batch.update(firstDoc.ref, { date: dateToTimestamp(second.date), puzzleNumber: second.puzzleNumber });
+      batch.update(secondDoc.ref, { date: dateToTimestamp(first.date), puzzleNumber: first.puzzleNumber });
+      await batch.commit();
+    } catch (error) {
+      console.error(`Error swapping puzzles ${first.puzzleNumber} and ${second.puzzleNumber}:`, error);
+      throw error;
+    }
+  }
+
+  // Delete a puzzle, returning false if it doesn't exist
+  async deletePuzzle(puzzleNumber: number, difficulty: string): Promise<boolean> {
+    try {
+      const puzzleDoc = await this.findPuzzleDoc(puzzleNumber, difficulty);
+      if (!puzzleDoc) {
+        return false;
+      }
+
+      await deleteDoc(puzzleDoc.ref);
+      return true;
+    } catch (error) {
+      console.error(`Error deleting puzzle ${puzzleNumber} (${difficulty}):`, error);
+      throw error;
+    }
+  }
+
+  // Today's and upcoming puzzles, soonest first
+  async getScheduledPuzzles(limitCount = 60): Promise<Puzzle[]> {
+    try {
+      const todaySimple = getPuzzleDate();
+      const [todayStart] = dayRange(todaySimple);
+
+      const querySnapshot = await getDocs(query(
+        puzzlesCollection,
+        where('date', '>=', todayStart),
+        orderBy('date', 'asc'),
+        limit(limitCount)
+      ));
+
+      return querySnapshot.docs.map(puzzleFromFirestore);
+    } catch (error) {
+      console.error('Error fetching scheduled puzzles:', error);
+      throw error;
+    }
+  }
+
+  // Highest puzzle number in use, for numbering new puzzles
+  async getLatestPuzzleNumber(): Promise<number> {
+    try {
+      const querySnapshot = await getDocs(query(
+        puzzlesCollection,
+        orderBy('puzzleNumber', 'desc'),
+        limit(1)
+      ));
+
+      return querySnapshot.empty ? 0 : querySnapshot.docs[0].data().puzzleNumber || 0;
+    } catch (error) {
+      console.error('Error fetching latest puzzle number:', error);
+      throw error;
+    }
+  }
+
   // Bulk create puzzles
   async bulkCreatePuzzles(puzzlesList: InsertPuzzle[]): Promise<Puzzle[]> {
     const results: Puzzle[] = [];
@@ -515,6 +540,155 @@ export class FirestoreService {
     return results;
   }
 
+  // Count all puzzles without downloading the documents
+  async countPuzzles(): Promise<number> {
+    const snapshot = await getCountFromServer(puzzlesCollection);
+    return snapshot.data().count;
+  }
+
+  // Game session methods
+  async getGameSession(playerId: string, puzzleId: number, difficulty: string): Promise<GameSession | undefined> {
+    try {
+      const docSnap = await getDoc(doc(gameSessionsCollection, gameSessionDocId(playerId, puzzleId, difficulty)));
+      return docSnap.exists() ? (docSnap.data() as GameSession) : undefined;
+    } catch (error) {
+      console.error('Error fetching game session:', error);
+      throw error;
+    }
+  }
+
+  async saveGameSession(session: InsertGameSession): Promise<GameSession> {
+    try {
+      const difficulty = session.difficulty || 'normal';
+      const docRef = doc(gameSessionsCollection, gameSessionDocId(session.playerId, session.puzzleId, difficulty));
+
+      // The session is read and the stats counted in one transaction, so two
+      // saves finishing the same session at once count it only once
+      return await runTransaction(db, async transaction => {
+        const existing = await transaction.get(docRef);
+        const previous = existing.exists() ? (existing.data() as GameSession) : undefined;
+        // Until the totals are first rebuilt, the rebuild counts every
+        // finished session itself
+        const statsBuilt = (await transaction.get(solveStatsBuiltDoc)).exists();
+        const now = new Date().toISOString();
+
+        const saved: GameSession = {
+          // Firestore has no serial ids, so sessions are numbered by creation time
+          id: previous?.id ?? Date.now(),
+          playerId: session.playerId,
+          puzzleId: session.puzzleId,
+          difficulty,
+          guesses: session.guesses,
+          hintsUsedAtAttempts: session.hintsUsedAtAttempts,
+          status: session.status || 'playing',
+          startedAt: previous?.startedAt ?? session.startedAt ?? now,
+          updatedAt: session.updatedAt ?? now,
+          completedAt: session.completedAt ?? null
+        };
+
+        transaction.set(docRef, saved);
+        // A session counts towards its puzzle's solve stats once, when it ends
+        if (statsBuilt && saved.status !== 'playing' && (!previous || previous.status === 'playing')) {
+          transaction.set(doc(solveStatsCollection, solveStatsDocId(saved.puzzleId, difficulty)), {
+            puzzleId: saved.puzzleId,
+            difficulty,
+            plays: increment(1),
+            solves: increment(saved.status === 'won' ? 1 : 0),
+            totalAttempts: increment(saved.guesses.length)
+          }, { merge: true });
+        }
+        return saved;
+      });
+    } catch (error) {
+      console.error('Error saving game session:', error);
+      throw error;
+    }
+  }
+
+  // Plays, solves and average attempts per puzzle and difficulty
+  async getSolveStats(): Promise<PuzzleSolveStats[]> {
+    try {
+      if (!(await getDoc(solveStatsBuiltDoc)).exists()) {
+        await this.rebuildSolveStats();
+      }
+
+      const querySnapshot = await getDocs(solveStatsCollection);
+      return querySnapshot.docs.map(docSnap => {
+        const totals = docSnap.data() as SolveStatsTotals;
+        return {
+          puzzleId: totals.puzzleId,
+          difficulty: totals.difficulty,
+          plays: totals.plays,
+          solves: totals.solves,
+          averageAttempts: totals.plays > 0 ? totals.totalAttempts / totals.plays : 0
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching solve stats:', error);
+      throw error;
+    }
+  }
+
+  // Count the sessions that ended before the running totals were kept. This
+  // reads every finished session, so it only runs once. Sessions don't add to
+  // the totals until the built marker is written, last, so the totals written
+  // here never overwrite counts added in the meantime.
+  private async rebuildSolveStats(): Promise<void> {
+    const querySnapshot = await getDocs(query(gameSessionsCollection, where('status', '!=', 'playing')));
+    const totals = new Map<string, SolveStatsTotals>();
+
+    for (const docSnap of querySnapshot.docs) {
+      const session = docSnap.data() as GameSession;
+      const id = solveStatsDocId(session.puzzleId, session.difficulty);
+      const entry = totals.get(id) ?? {
+        puzzleId: session.puzzleId,
+        difficulty: session.difficulty,
+        plays: 0,
+        solves: 0,
+        totalAttempts: 0
+      };
+
+      entry.plays++;
+      entry.solves += session.status === 'won' ? 1 : 0;
+      entry.totalAttempts += session.guesses.length;
+      totals.set(id, entry);
+    }
+
+    // A batch holds at most 500 writes
+    const entries = Array.from(totals.entries());
+    for (let i = 0; i < entries.length; i += 500) {
+      const batch = writeBatch(db);
+      entries.slice(i, i + 500).forEach(([id, entry]) =>
+        batch.set(doc(solveStatsCollection, id), entry, { merge: true })
+      );
+      await batch.commit();
+    }
+
+    await setDoc(solveStatsBuiltDoc, { builtAt: new Date().toISOString() });
+  }
+
+  // The stored maintenance switch, if it has ever been saved
+  async getMaintenance(): Promise<MaintenanceState | undefined> {
+    try {
+      const snapshot = await getDoc(maintenanceDoc);
+      return snapshot.exists() ? snapshot.data() as MaintenanceState : undefined;
+    } catch (error) {
+      console.error('Error fetching maintenance state:', error);
+      throw error;
+    }
+  }
+
+  async saveMaintenance(state: MaintenanceState): Promise<MaintenanceState> {
+    try {
+      const saved = { ...state, updatedAt: new Date().toISOString() };
+      await setDoc(maintenanceDoc, saved);
+      return saved;
+    } catch (error) {
+      console.error('Error saving maintenance state:', error);
+      throw error;
+    }
+  }
+
   // Patch Notes methods
   async getPatchNotes(): Promise<PatchNote[]> {
     try {
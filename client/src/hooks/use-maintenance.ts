@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { getApiBaseUrl } from "@/lib/queryClient";
+
+export interface MaintenanceNotice {
+  message: string;
+  eta: string | null;
+}
+
+// How often players check whether maintenance has started or ended
+const STATUS_POLL_MS = 60_000;
+
+// The server's maintenance notice while maintenance is on, otherwise null
+export function useMaintenance(): MaintenanceNotice | null {
+  const [notice, setNotice] = useState<MaintenanceNotice | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const checkStatus = async () => {
+      try {
+        const response = await fetch(`${getApiBaseUrl()}/api/status`);
+        const body = await response.json();
+        if (!cancelled) {
+          setNotice(response.status === 503 && body.maintenance ? body.maintenance : null);
+        }
+      } catch (error) {
+        // Being offline isn't maintenance, so keep whatever we knew last
+        console.warn('Could not check the server status:', error);
+      }
+    };
+
+    checkStatus();
+    const intervalId = setInterval(checkStatus, STATUS_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, []);
+
+  return notice;
+}
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from "react";
+import type { ProgressStats } from "@shared/progress";
+import { progressStore } from "@/lib/progress-store";
+
+// The player's stats, updated whenever their progress changes
+export function useProgress(): ProgressStats {
+  return useSyncExternalStore(
+    (listener) => progressStore.subscribe(listener),
+    () => progressStore.getStats()
+  );
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react";
+import { getAuth, onAuthStateChanged } from "firebase/auth";
+import { app } from "@/firebase/config";
+import { hasRole, type Role } from "@shared/roles";
+import { getUserRole } from "@/lib/auth";
+
+// Role of the signed-in user, undefined while signed out. The server checks
+// the same claims, so this only decides what to show.
+export function useRole() {
+  const [role, setRole] = useState<Role | undefined>(undefined);
+
+  useEffect(() => {
+    return onAuthStateChanged(getAuth(app), async (currentUser) => {
+      setRole(currentUser ? await getUserRole(currentUser) : undefined);
+    });
+  }, []);
+
+  return {
+    role,
+    isAdmin: hasRole(role, 'admin'),
+    isEditor: hasRole(role, 'editor')
+  };
+}
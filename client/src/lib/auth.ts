@@ -0,0 +1,16 @@
+import { getAuth, type User } from "firebase/auth";
+import { app } from "@/firebase/config";
+import { parseRole, type Role } from "@shared/roles";
+
+// Authorization header carrying the signed-in user's Firebase ID token, which
+// the API verifies before trusting who the caller is
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const user = getAuth(app).currentUser;
+  return user ? { Authorization: `Bearer ${await user.getIdToken()}` } : {};
+}
+
+// Role from the user's custom claims, granted with scripts/set-role.ts
+export async function getUserRole(user: User): Promise<Role> {
+  const { claims } = await user.getIdTokenResult();
+  return parseRole(claims.role);
+}
@@ -1,14 +1,14 @@
 import { create } from 'zustand';
 import { apiRequest, getApiBaseUrl } from './queryClient';
-import { updateStreak, getStreak, getFlawlessStreak, markHintsUsed } from './streak';
-import { firestoreService } from '../firebase/firestore';
-import { getGlobalDateString, shouldShowNewPuzzle } from './global-time';
+import { getCurrentPuzzleDate, getGlobalDateString, shouldShowNewPuzzle } from './global-time';
 import { calculateFusdleNumber } from './utils';
-import { userDataService } from './user-data-service';
+import { progressStore } from './progress-store';
+import { getPlayerHeaders } from './player-id';
+import type { GameSession, GameTokenErrorCode, WordFeedback } from '@shared/schema';
+import type { MatchedWord } from '@shared/answer-matching';
+import { HINT_TIERS } from '@shared/hints';
 
-// Helper functions to manage completed puzzles in localStorage
-const COMPLETED_PUZZLES_KEY = 'fusdle_completed_puzzles';
-const PUZZLE_ATTEMPTS_KEY = 'fusdle_puzzle_attempts';
+// Helper functions to manage completed puzzles, recorded in the progress store
 const PUZZLE_STATUS_KEY = 'fusdle_puzzle_status';
 
 interface CompletedPuzzleData {
@@ -19,71 +19,23 @@ interface CompletedPuzzleData {
 
 export async function saveCompletedPuzzle(puzzleId: number, attemptsCount: number, status: 'won' | 'lost', difficulty: string = 'normal'): Promise<void> {
   try {
-    // Save puzzle ID to completed list (now includes difficulty)
-    const completedPuzzleIds = getCompletedPuzzlesIds();
-    const difficultySpecificId = `${puzzleId}_${difficulty}`;
-    
-    if (!completedPuzzleIds.includes(difficultySpecificId)) {
-      completedPuzzleIds.push(difficultySpecificId);
-      localStorage.setItem(COMPLETED_PUZZLES_KEY, JSON.stringify(completedPuzzleIds));
-    }
-    
-    // Save the puzzle attempts and status data
-    const puzzleData: CompletedPuzzleData = {
-      id: puzzleId,
-      attempts: attemptsCount,
-      status: status
-    };
-    
-    const savedAttempts = getPuzzleAttemptsData();
-    // Store with difficulty-specific key
-    savedAttempts[`${puzzleId}_${difficulty}`] = puzzleData;
-    localStorage.setItem(PUZZLE_ATTEMPTS_KEY, JSON.stringify(savedAttempts));
-    
     // Mark puzzle as completed for this specific difficulty
     localStorage.setItem(`fusdle_${puzzleId}_${difficulty}_completed`, 'true');
     
-    // Track puzzle completion with user data service
     const gameStore = useGameStore.getState();
-    const hintsUsed = gameStore.revealedHints.length > 0;
     const puzzle = gameStore.puzzle;
     
-    const gameSession = {
-      puzzleId: puzzleId.toString(),
-      attempts: gameStore.previousGuesses || [],
-      solved: status === 'won',
-      usedHints: hintsUsed,
-      solvedAt: status === 'won' ? new Date().toISOString() : undefined,
-      difficulty: difficulty as 'normal' | 'hard',
+    // Recording the session also moves the streak for today's puzzle
+    await progressStore.record({
+      puzzleId,
+      difficulty: difficulty === 'hard' ? 'hard' : 'normal',
       isFusion: puzzle?.isFusionTwist === 1,
-      totalGuesses: attemptsCount
-    };
-
-    // Save to local storage first for immediate access
-    try {
-      const existingHistory = JSON.parse(localStorage.getItem('fusdle_game_history') || '[]');
-      const existingIndex = existingHistory.findIndex((h: any) => h.puzzleId === gameSession.puzzleId);
-      
-      if (existingIndex >= 0) {
-        existingHistory[existingIndex] = gameSession;
-      } else {
-        existingHistory.push(gameSession);
-      }
-      
-      localStorage.setItem('fusdle_game_history', JSON.stringify(existingHistory.slice(-100)));
-      console.log('Game session saved to local storage:', gameSession);
-    } catch (error) {
-      console.error('Error saving to local storage:', error);
-    }
-    
-    console.log('Saving puzzle completion to user data service:', gameSession);
-    
-    try {
-      await userDataService.updateStatsAfterPuzzle(gameSession);
-      console.log('Successfully saved puzzle completion to user data service');
-    } catch (error) {
-      console.error('Error saving puzzle completion to user data service:', error);
-    }
+      puzzleDate: puzzle?.date ?? null,
+      status,
+      guesses: attemptsCount,
+      usedHints: gameStore.revealedHints.length > 0,
+      completedAt: new Date().toISOString()
+    });
     
     // If normal puzzle is completed, unlock hard mode
     if (difficulty === 'normal') {
@@ -95,10 +47,7 @@ export async function saveCompletedPuzzle(puzzleId: number, attemptsCount: numbe
         localStorage.setItem('lastCompletionDate', globalDateStr);
       } catch (error) {
         console.error('Error getting global date, using local time fallback:', error);
-        // Fallback to local time if global time API fails
-        const options = { timeZone: 'America/New_York' };
-        const todayDateEST = new Date().toLocaleDateString('en-US', options);
-        localStorage.setItem('lastCompletionDate', todayDateEST);
+        localStorage.setItem('lastCompletionDate', getCurrentPuzzleDate());
       }
     }
   } catch (error) {
@@ -106,36 +55,13 @@ export async function saveCompletedPuzzle(puzzleId: number, attemptsCount: numbe
   }
 }
 
-export function getCompletedPuzzlesIds(): Array<string> {
-  try {
-    const savedPuzzles = localStorage.getItem(COMPLETED_PUZZLES_KEY);
-    return savedPuzzles ? JSON.parse(savedPuzzles) : [];
-  } catch (error) {
-    console.error('Error getting completed puzzles:', error);
-    return [];
-  }
-}
-
-export function getPuzzleAttemptsData(): Record<string, CompletedPuzzleData> {
-  try {
-    const savedData = localStorage.getItem(PUZZLE_ATTEMPTS_KEY);
-    return savedData ? JSON.parse(savedData) : {};
-  } catch (error) {
-    console.error('Error getting puzzle attempts data:', error);
-    return {};
-  }
-}
-
 export function getPuzzleData(puzzleId: number, difficulty: string = 'normal'): CompletedPuzzleData | null {
-  const attemptsData = getPuzzleAttemptsData();
-  const key = `${puzzleId}_${difficulty}`;
-  // Need to do this type of access for TypeScript
-  return key in attemptsData ? attemptsData[key] : null;
+  const session = progressStore.getSession(puzzleId, difficulty === 'hard' ? 'hard' : 'normal');
+  return session ? { id: session.puzzleId, attempts: session.guesses, status: session.status } : null;
 }
 
 export function isPuzzleCompleted(puzzleId: number, difficulty: string = 'normal'): boolean {
-  const key = `${puzzleId}_${difficulty}`;
-  return getCompletedPuzzlesIds().includes(key);
+  return getPuzzleData(puzzleId, difficulty) !== null;
 }
 
 export interface Puzzle {
@@ -144,11 +70,14 @@ export interface Puzzle {
   date: string;
   difficulty: string;
   emojis: string[];
-  answer?: string;
+  answer?: string; // Only present once the puzzle is solved or revealed
   hints?: string[];
   isFusionTwist: number;
   twistType: string | null;
   wordCount?: number;
+  wordStructure?: number[]; // Letters per word of the answer, from the server
+  hintCount?: number;
+  gameToken?: string; // Fresh signed game token issued with today's puzzle
 }
 
 interface GameState {
@@ -218,6 +147,7 @@ interface GameState {
   toggleDifficultyMode: () => void;
   shareResult: () => string;
   checkCompletedStatus: () => void;
+  syncServerSession: () => Promise<void>; // Restore progress saved on the server
   // Caching functions
   cacheCurrentGameState: () => void;
   loadGameStateFromCache: (difficulty: 'normal' | 'hard') => void;
@@ -240,12 +170,8 @@ async function shouldResetHardMode(): Promise<boolean> {
   } catch (error) {
     console.error('Error checking global time, falling back to local time:', error);
     
-    // Fallback to local time if global time check fails
-    const options = { timeZone: 'America/New_York' };
-    const todayDateEST = new Date().toLocaleDateString('en-US', options);
-    
     // If the last completion date is not today, reset hard mode
-    return lastCompletionDate !== todayDateEST;
+    return lastCompletionDate !== getCurrentPuzzleDate();
   }
 }
 
@@ -268,7 +194,125 @@ function getInitialHardModeStatus(): boolean {
   return storedValue;
 }
 
-// New function to persist current game state to localStorage
+// The server tracks progress on today's puzzle in a signed game token. The
+// latest token is kept per puzzle and difficulty so it survives reloads.
+function getGameTokenKey(puzzleId: number, difficulty: string): string {
+  return `fusdle_game_token_${puzzleId}_${difficulty}`;
+}
+
+function saveGameToken(puzzle: Puzzle, difficulty: string, token?: string): void {
+  if (token) {
+    localStorage.setItem(getGameTokenKey(puzzle.id, difficulty), token);
+  }
+}
+
+// Headers identifying the player and carrying the current game token, if we have one
+async function gameRequestHeaders(puzzle: Puzzle, difficulty: string): Promise<Record<string, string>> {
+  const token = localStorage.getItem(getGameTokenKey(puzzle.id, difficulty)) || puzzle.gameToken;
+  return {
+    ...(await getPlayerHeaders()),
+    ...(token ? { 'X-Game-Token': token } : {})
+  };
+}
+
+// Replace the stored token with a fresh one from today's puzzle, which the
+// server resumes from the player's saved session
+async function refreshGameToken(puzzle: Puzzle, difficulty: string): Promise<boolean> {
+  try {
+    const response = await fetch(`${getApiBaseUrl()}/api/puzzles/today?difficulty=${difficulty}`, {
+      headers: await getPlayerHeaders()
+    });
+    const today: Puzzle = response.ok ? await response.json() : null;
+
+    // Nothing to refresh once the puzzle has rolled over
+    if (today?.id !== puzzle.id || !today.gameToken) {
+      return false;
+    }
+
+    saveGameToken(puzzle, difficulty, today.gameToken);
+    return true;
+  } catch (error) {
+    console.error('Error refreshing game token:', error);
+    return false;
+  }
+}
+
+const RETRYABLE_TOKEN_ERRORS: GameTokenErrorCode[] = ['invalid_game_token', 'stale_game_token'];
+
+// Whether the server turned the request down over the game token itself,
+// rather than e.g. a hint that isn't unlocked yet
+async function isGameTokenError(response: Response): Promise<boolean> {
+  if (response.status !== 403) {
+    return false;
+  }
+
+  const body = await response.clone().json().catch(() => null);
+  return RETRYABLE_TOKEN_ERRORS.includes(body?.code);
+}
+
+/**
+ * Send a request carrying the game token. A token the server no longer
+ * accepts, e.g. after a restart with a new secret or a newer game in another
+ * tab, is swapped for a fresh one and the request tried once more.
+ */
+async function fetchWithGameToken(
+  puzzle: Puzzle,
+  difficulty: string,
+  send: (headers: Record<string, string>) => Promise<Response>
+): Promise<Response> {
+  const response = await send(await gameRequestHeaders(puzzle, difficulty));
+
+  if (!(await isGameTokenError(response)) || !(await refreshGameToken(puzzle, difficulty))) {
+    return response;
+  }
+
+  return send(await gameRequestHeaders(puzzle, difficulty));
+}
+
+// Hard mode asks the server for Wordle-style letter feedback. It's kept per
+// attempt so earlier guesses keep their tiles after a reload.
+function getLetterFeedbackKey(puzzleId: number, difficulty: string): string {
+  return `fusdle_letter_feedback_${puzzleId}_${difficulty}`;
+}
+
+export function getLetterFeedbackHistory(puzzleId: number, difficulty: string): Record<string, WordFeedback[]> {
+  try {
+    const saved = localStorage.getItem(getLetterFeedbackKey(puzzleId, difficulty));
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Error reading letter feedback:', error);
+    return {};
+  }
+}
+
+function saveLetterFeedback(puzzleId: number, difficulty: string, attempt: number, feedback: WordFeedback[]): void {
+  const history = getLetterFeedbackHistory(puzzleId, difficulty);
+  history[attempt.toString()] = feedback;
+  localStorage.setItem(getLetterFeedbackKey(puzzleId, difficulty), JSON.stringify(history));
+}
+
+// Answer words matched by each attempt, used to highlight earlier guesses
+// and to show how many words each attempt got in the share grid
+function getWordMatchesKey(puzzleId: number, difficulty: string): string {
+  return `fusdle_word_matches_${puzzleId}_${difficulty}`;
+}
+
+export function getWordMatchHistory(puzzleId: number, difficulty: string): Record<string, MatchedWord[]> {
+  try {
+    const saved = localStorage.getItem(getWordMatchesKey(puzzleId, difficulty));
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Error reading word matches:', error);
+    return {};
+  }
+}
+
+function saveWordMatches(puzzleId: number, difficulty: string, attempt: number, matches: MatchedWord[]): void {
+  const history = getWordMatchHistory(puzzleId, difficulty);
+  history[attempt.toString()] = matches;
+  localStorage.setItem(getWordMatchesKey(puzzleId, difficulty), JSON.stringify(history));
+}
+
 function persistGameState(state: Partial<GameState>) {
   if (!state.puzzle) return;
   
@@ -342,8 +386,8 @@ export const useGameStore = create<GameState>((set, get) => ({
   showHardModeTutorial: localStorage.getItem('fusdle_hard_tutorial_shown') !== 'true' ||
                         localStorage.getItem('fusdle_show_hard_tutorial') === 'true',
   
-  streak: getStreak(),
-  flawlessStreak: getFlawlessStreak(),
+  streak: progressStore.getStats().currentStreak,
+  flawlessStreak: progressStore.getStats().flawlessStreak,
   difficultyMode: 'normal' as 'normal' | 'hard',
   hardModeUnlocked: getInitialHardModeStatus(),
   
@@ -447,7 +491,8 @@ export const useGameStore = create<GameState>((set, get) => ({
         });
       } else {
         // Fetch the answer if not cached
-        fetch(`${getApiBaseUrl()}/api/puzzles/${puzzle.id}/answer?revealAnswer=true&difficulty=${difficultyMode}`)
+        fetchWithGameToken(puzzle, difficultyMode, headers =>
+          fetch(`${getApiBaseUrl()}/api/puzzles/${puzzle.id}/answer?difficulty=${difficultyMode}`, { headers }))
           .then(response => response.json())
           .then(data => {
             // Cache the answer with difficulty
@@ -468,6 +513,75 @@ export const useGameStore = create<GameState>((set, get) => ({
     }
   },
 
+  syncServerSession: async () => {
+    const { puzzle, difficultyMode, attempts } = get();
+    
+    if (!puzzle) return;
+    
+    try {
+      const headers = await gameRequestHeaders(puzzle, difficultyMode);
+      const fusionParam = puzzle.isFusionTwist ? '&puzzleType=fusion' : '';
+      
+      // Start or resume the server-side session for this puzzle
+      const response = await apiRequest('POST', '/api/sessions', {
+        puzzleId: puzzle.id,
+        difficulty: difficultyMode,
+        puzzleType: puzzle.isFusionTwist ? 'fusion' : 'standard'
+      }, headers);
+      const session: GameSession = await response.json();
+      
+      // Nothing to restore unless the server has seen more of this game than this browser
+      if (session.guesses.length <= attempts) return;
+      
+      console.log(`Restoring ${session.guesses.length} guesses from the server session`);
+      
+      // Re-fetch the hints that were already revealed
+      const revealedHints: string[] = [];
+      for (let hintIndex = 0; hintIndex < session.hintsUsedAtAttempts.length; hintIndex++) {
+        const hintResponse = await fetch(
+          `${getApiBaseUrl()}/api/puzzles/${puzzle.id}/hints/${hintIndex}?difficulty=${difficultyMode}${fusionParam}`,
+          { headers }
+        );
+        
+        if (!hintResponse.ok) break;
+        
+        const hintData = await hintResponse.json();
+        revealedHints.push(hintData.hint);
+      }
+      
+      const gameStatus = session.status as GameState['gameStatus'];
+      const hasCompleted = gameStatus !== 'playing';
+      
+      set({
+        attempts: session.guesses.length,
+        previousGuesses: session.guesses,
+        revealedHints,
+        hintsUsedAtAttempts: session.hintsUsedAtAttempts.slice(0, revealedHints.length),
+        gameStatus,
+        hasCompleted,
+        hasGuessedOnce: true
+      });
+      
+      // A finished game gets its answer back too
+      if (hasCompleted) {
+        const answerResponse = await fetch(
+          `${getApiBaseUrl()}/api/puzzles/${puzzle.id}/answer?difficulty=${difficultyMode}${fusionParam}`,
+          { headers }
+        );
+        
+        if (answerResponse.ok) {
+          const answerData = await answerResponse.json();
+          localStorage.setItem(`fusdle_answer_${puzzle.id}_${difficultyMode}`, answerData.answer);
+          set({ puzzle: { ...puzzle, answer: answerData.answer } });
+        }
+      }
+      
+      persistGameState(get());
+    } catch (error) {
+      console.error('Error syncing game session:', error);
+    }
+  },
+
   fetchTodaysPuzzle: async () => {
     set({ loading: true, error: null });
     try {
@@ -480,27 +594,18 @@ export const useGameStore = create<GameState>((set, get) => ({
           ? 'normal' 
           : difficultyMode;
       
-      // Try Firebase service first
-      let puzzle = null;
+      // Always go through the API so the answer and hints never reach the browser
+      const apiUrl = `${getApiBaseUrl()}/api/puzzles/today?difficulty=${effectiveDifficulty}`;
+      const response = await fetch(apiUrl, { headers: await getPlayerHeaders() });
       
-      try {
-        // Try to fetch from Firebase using our service
-        puzzle = await firestoreService.getTodaysPuzzle(effectiveDifficulty);
-      } catch (firebaseError) {
-        console.warn('Firebase fetch failed, trying API endpoint:', firebaseError);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch today's ${effectiveDifficulty} puzzle`);
       }
       
-      // If Firebase fetch fails, use our API endpoint
-      if (!puzzle) {
-        const apiUrl = `${getApiBaseUrl()}/api/puzzles/today?difficulty=${effectiveDifficulty}`;
-        const response = await fetch(apiUrl);
-        
-        if (!response.ok) {
-          throw new Error(`Failed to fetch today's ${effectiveDifficulty} puzzle`);
-        }
-        
-        puzzle = await response.json();
-      }
+      const puzzle: Puzzle = await response.json();
+      
+      // The token that came with the puzzle is the latest one the server issued
+      saveGameToken(puzzle, effectiveDifficulty, puzzle.gameToken);
       
       // Update the puzzle and mode in state
       set({ 
@@ -518,7 +623,10 @@ export const useGameStore = create<GameState>((set, get) => ({
       }));
       
       // Check if the puzzle has already been completed
-      setTimeout(() => get().checkCompletedStatus(), 10);
+      setTimeout(() => {
+        get().checkCompletedStatus();
+        get().syncServerSession();
+      }, 10);
     } catch (error) {
       console.error('Error fetching puzzle:', error);
       set({ 
@@ -548,8 +656,27 @@ export const useGameStore = create<GameState>((set, get) => ({
       // Define the storage key to use below
       const storageKey = `fusdle_partial_${puzzle.id}_${difficultyMode}`;
       
-      const response = await apiRequest('POST', apiUrl, { guess });
+      const feedbackMode = difficultyMode === 'hard' ? 'letters' : 'words';
+      const response = await fetchWithGameToken(puzzle, difficultyMode, headers => fetch(apiUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({ guess, feedbackMode })
+      }));
+      
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      
       const data = await response.json();
+      saveGameToken(puzzle, difficultyMode, data.gameToken);
+      
+      if (data.letterFeedback) {
+        saveLetterFeedback(puzzle.id, difficultyMode, attempts, data.letterFeedback);
+      }
+      
+      if (data.matchedWords?.length) {
+        saveWordMatches(puzzle.id, difficultyMode, attempts, data.matchedWords);
+      }
       
       // Update partial match feedback if it exists
       if (data.partialMatchFeedback) {
@@ -658,19 +785,12 @@ export const useGameStore = create<GameState>((set, get) => ({
       
       if (data.isCorrect) {
         // Update game state for correct guess
-        const newStreak = updateStreak(true);
-        
         // If this is a Normal mode puzzle, unlock Hard mode
         const hardModeUnlocked = difficultyMode === 'normal' || get().hardModeUnlocked;
         
-        // Get the updated flawless streak value
-        const newFlawlessStreak = getFlawlessStreak();
-        
         set({ 
           gameStatus: 'won', 
           puzzle: { ...puzzle, answer: data.answer },
-          streak: newStreak,
-          flawlessStreak: newFlawlessStreak,
           hasCompleted: true,
           hardModeUnlocked
         });
@@ -692,8 +812,20 @@ export const useGameStore = create<GameState>((set, get) => ({
         persistGameState(get());
         
         return true;
+      } else if (data.answer) {
+        // The server only reveals the answer to a wrong guess when the attempt limit is reached
+        set({ 
+          gameStatus: 'lost', 
+          puzzle: { ...puzzle, answer: data.answer },
+          hasCompleted: true
+        });
+        
+        saveCompletedPuzzle(puzzle.id, newAttempts, 'lost', difficultyMode);
+        persistGameState(get());
+        
+        return false;
       } else {
-        // Incorrect guess, but we continue with unlimited attempts model
+        // Incorrect guess, keep playing until the attempt limit (unlimited by default)
         return false;
       }
     } catch (error) {
@@ -707,9 +839,6 @@ export const useGameStore = create<GameState>((set, get) => ({
   fetchPuzzleByDifficulty: async (difficulty: string) => {
     set({ loading: true, error: null });
     try {
-      // Try Firebase service first
-      let puzzle = null;
-      
       // Fix type safety
       const safeMode = (difficulty === 'hard' || difficulty === 'normal') 
         ? difficulty 
@@ -717,42 +846,25 @@ export const useGameStore = create<GameState>((set, get) => ({
       
       console.log(`Explicitly fetching puzzle with difficulty: ${safeMode}`);
       
-      try {
-        // Try to fetch from Firebase using our service
-        puzzle = await firestoreService.getTodaysPuzzle(safeMode);
-        
-        // Log the retrieved puzzle difficulty to verify
-        if (puzzle) {
-          console.log(`Retrieved puzzle with difficulty: ${puzzle.difficulty}`);
-          
-          // Ensure the puzzle has the correct difficulty property
-          if (puzzle.difficulty !== safeMode) {
-            console.warn(`Fixing puzzle difficulty mismatch: ${puzzle.difficulty} → ${safeMode}`);
-            puzzle.difficulty = safeMode;
-          }
-        }
-      } catch (firebaseError) {
-        console.warn('Firebase fetch failed, trying API endpoint:', firebaseError);
+      // Always go through the API so the answer and hints never reach the browser
+      const apiUrl = `${getApiBaseUrl()}/api/puzzles/today?difficulty=${safeMode}`;
+      console.log(`Fetching from API with URL: ${apiUrl}`);
+      const response = await fetch(apiUrl, { headers: await getPlayerHeaders() });
+      
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${safeMode} difficulty puzzle`);
       }
       
-      // If Firebase fetch fails, use our API endpoint
-      if (!puzzle) {
-        const apiUrl = `${getApiBaseUrl()}/api/puzzles/today?difficulty=${safeMode}`;
-        console.log(`Fetching from API with URL: ${apiUrl}`);
-        const response = await fetch(apiUrl);
-        
-        if (!response.ok) {
-          throw new Error(`Failed to fetch ${safeMode} difficulty puzzle`);
-        }
-        
-        puzzle = await response.json();
-        console.log(`API returned puzzle with difficulty: ${puzzle.difficulty}`);
-        
-        // Ensure the puzzle has the correct difficulty property
-        if (puzzle.difficulty !== safeMode) {
-          console.warn(`API puzzle difficulty mismatch: ${puzzle.difficulty} → ${safeMode}`);
-          puzzle.difficulty = safeMode;
-        }
+      const puzzle: Puzzle = await response.json();
+      console.log(`API returned puzzle with difficulty: ${puzzle.difficulty}`);
+      
+      // The token that came with the puzzle is the latest one the server issued
+      saveGameToken(puzzle, safeMode, puzzle.gameToken);
+      
+      // Ensure the puzzle has the correct difficulty property
+      if (puzzle.difficulty !== safeMode) {
+        console.warn(`API puzzle difficulty mismatch: ${puzzle.difficulty} → ${safeMode}`);
+        puzzle.difficulty = safeMode;
       }
       
       // Reset game state for the new difficulty
@@ -793,7 +905,10 @@ export const useGameStore = create<GameState>((set, get) => ({
       }));
       
       // Check if the puzzle has already been completed with a longer delay
-      setTimeout(() => get().checkCompletedStatus(), 50);
+      setTimeout(() => {
+        get().checkCompletedStatus();
+        get().syncServerSession();
+      }, 50);
     } catch (error) {
       console.error(`Error fetching ${difficulty} puzzle:`, error);
       set({ 
@@ -980,8 +1095,8 @@ export const useGameStore = create<GameState>((set, get) => ({
       return null;
     }
     
-    // Check if we've already revealed all available hints
-    const totalAvailableHints = puzzle?.hints?.length || 3;
+    // Hints are revealed down the ladder, vague first, until all are shown
+    const totalAvailableHints = puzzle?.hintCount || HINT_TIERS.length;
     if (revealedHints.length >= totalAvailableHints) {
       console.log('No more hints available');
       return null;
@@ -998,7 +1113,7 @@ export const useGameStore = create<GameState>((set, get) => ({
         url += '&puzzleType=fusion';
       }
       
-      const response = await fetch(url);
+      const response = await fetchWithGameToken(puzzle, difficultyMode, headers => fetch(url, { headers }));
       
       if (!response.ok) {
         throw new Error('Failed to fetch hint');
@@ -1006,9 +1121,7 @@ export const useGameStore = create<GameState>((set, get) => ({
       
       const data = await response.json();
       const newHint = data.hint;
-      
-      // Mark that hints were used (affects flawless streak)
-      markHintsUsed();
+      saveGameToken(puzzle, difficultyMode, data.gameToken);
       
       // Reset flawless streak immediately
       const newFlawlessStreak = 0;
@@ -1037,21 +1150,22 @@ export const useGameStore = create<GameState>((set, get) => ({
     }
 
     try {
-      // Create URL for revealing answer
-      let answerUrl = `${getApiBaseUrl()}/api/puzzles/${puzzle.id}/answer?revealAnswer=true&difficulty=${difficultyMode}`;
+      // Create URL for giving up, which finishes the game and reveals the answer
+      let giveUpUrl = `${getApiBaseUrl()}/api/puzzles/${puzzle.id}/give-up?difficulty=${difficultyMode}`;
       
       // Add puzzleType parameter for fusion twist puzzles
       if (puzzle.isFusionTwist) {
-        answerUrl += '&puzzleType=fusion';
+        giveUpUrl += '&puzzleType=fusion';
       }
       
-      const answerResponse = await fetch(answerUrl);
-      
-      // Reset streak as the player gave up
-      updateStreak(false);
+      const answerResponse = await fetchWithGameToken(puzzle, difficultyMode, headers => fetch(giveUpUrl, {
+        method: 'POST',
+        headers
+      }));
       
       if (answerResponse.ok) {
         const answerData = await answerResponse.json();
+        saveGameToken(puzzle, difficultyMode, answerData.gameToken);
         
         // If this is a Normal mode puzzle, unlock Hard mode (even on give up)
         const hardModeUnlocked = difficultyMode === 'normal' || get().hardModeUnlocked;
@@ -1095,7 +1209,7 @@ export const useGameStore = create<GameState>((set, get) => ({
   resetGame: () => {
     const { puzzle, difficultyMode } = get();
     // Check if it's a new day to reset tutorial flags
-    const todayDate = new Date().toLocaleDateString('en-US', { timeZone: 'America/New_York' });
+    const todayDate = getCurrentPuzzleDate();
     const lastPlayedDate = localStorage.getItem('fusdle_last_played_date');
     
     // Clear ALL game-related storage for the current puzzle to prevent completion status persistence
@@ -1112,6 +1226,11 @@ export const useGameStore = create<GameState>((set, get) => ({
       const cachedAnswerKey = `fusdle_answer_${puzzle.id}_${difficultyMode}`;
       localStorage.removeItem(cachedAnswerKey);
       
+      // Drop the game token so the next game starts from the freshly issued one
+      localStorage.removeItem(getGameTokenKey(puzzle.id, difficultyMode));
+      localStorage.removeItem(getLetterFeedbackKey(puzzle.id, difficultyMode));
+      localStorage.removeItem(getWordMatchesKey(puzzle.id, difficultyMode));
+      
       // Also clear fusion-specific key if needed
       if (puzzle.isFusionTwist) {
         const fusionKey = `fusdle_partial_fusion_${puzzle.puzzleNumber}`;
@@ -1166,17 +1285,15 @@ export const useGameStore = create<GameState>((set, get) => ({
     const { puzzle, difficultyMode } = get();
     
     if (puzzle) {
-      // Remove this puzzle from the completed puzzles in localStorage with difficulty
-      const completedPuzzles = getPuzzleAttemptsData();
-      const key = `${puzzle.id}_${difficultyMode}`;
-      if (key in completedPuzzles) {
-        delete completedPuzzles[key];
-        localStorage.setItem('completedPuzzles', JSON.stringify(completedPuzzles));
-      }
+      // Remove this puzzle from the recorded progress for this difficulty
+      progressStore.removeSession(puzzle.id, difficultyMode);
       
       // Remove all difficulty-specific completion markers
       localStorage.removeItem(`fusdle_${puzzle.id}_${difficultyMode}_completed`);
       localStorage.removeItem(`fusdle_answer_${puzzle.id}_${difficultyMode}`);
+      localStorage.removeItem(getGameTokenKey(puzzle.id, difficultyMode));
+      localStorage.removeItem(getLetterFeedbackKey(puzzle.id, difficultyMode));
+      localStorage.removeItem(getWordMatchesKey(puzzle.id, difficultyMode));
       
       // Clear partial matches for this puzzle
       const storageKey = `fusdle_partial_${puzzle.id}_${difficultyMode}`;
@@ -1219,6 +1336,9 @@ export const useGameStore = create<GameState>((set, get) => ({
         key.includes('fusdle_game_state_') ||
         key.includes('fusdle_partial_') ||
         key.includes('fusdle_answer_') ||
+        key.includes('fusdle_game_token_') ||
+        key.includes('fusdle_letter_feedback_') ||
+        key.includes('fusdle_word_matches_') ||
         key.includes('lastCompletionDate') ||
         key.includes('gameSession_')
       )) {
@@ -1255,92 +1375,19 @@ export const useGameStore = create<GameState>((set, get) => ({
   fetchRandomPuzzle: async (puzzleType?: string) => {
     set({ loading: true, error: null });
     try {
-      // For development purposes, let's create some sample puzzles of different types
-      const samplePuzzles = {
-        normal: [
-          { 
-            id: 100, 
-            puzzleNumber: 100, 
-            date: new Date().toISOString().split('T')[0], 
-            emojis: ['🧠', '⛈️'], 
-            answer: 'brainstorm', 
-            hints: ['Think together', 'Mental weather', 'Idea generation'],
-            difficulty: 'normal',
-            isFusionTwist: 0,
-            twistType: null
-          },
-          { 
-            id: 101, 
-            puzzleNumber: 101, 
-            date: new Date().toISOString().split('T')[0], 
-            emojis: ['🌊', '🏄'], 
-            answer: 'wavesurfer', 
-            hints: ['Ocean rider', 'Crest glider', 'Water sport'],
-            difficulty: 'normal',
-            isFusionTwist: 0,
-            twistType: null
-          }
-        ],
-        hard: [
-          { 
-            id: 200, 
-            puzzleNumber: 200, 
-            date: new Date().toISOString().split('T')[0], 
-            emojis: ['🌪️', '😴', '🧿'], 
-            answer: 'dreamcatcher', 
-            hints: ['Sleep guardian', 'Nightmare filter', 'Bedside hanger'],
-            difficulty: 'hard',
-            isFusionTwist: 0,
-            twistType: null
-          },
-          { 
-            id: 201, 
-            puzzleNumber: 201, 
-            date: new Date().toISOString().split('T')[0], 
-            emojis: ['🍯', '🐻', '🌲'], 
-            answer: 'honeyforest', 
-            hints: ['Sweet woods', 'Bear\'s paradise', 'Sticky wilderness'],
-            difficulty: 'hard',
-            isFusionTwist: 0,
-            twistType: null
-          }
-        ],
-        fusion: [
-          { 
-            id: 300, 
-            puzzleNumber: 300, 
-            date: new Date().toISOString().split('T')[0], 
-            emojis: ['🐯', '🦁', '❄️'], 
-            answer: 'liontiger', 
-            hints: ['Hybrid cat', 'Mixed predator', 'Big feline blend'],
-            difficulty: 'normal',
-            isFusionTwist: 1,
-            twistType: 'Animal Fusion'
-          },
-          { 
-            id: 301, 
-            puzzleNumber: 301, 
-            date: new Date().toISOString().split('T')[0], 
-            emojis: ['🍫', '🥜', '🧈'], 
-            answer: 'peanutbuttercup', 
-            hints: ['Sweet nutty treat', 'Chocolate disk', 'Reese\'s product'],
-            difficulty: 'normal',
-            isFusionTwist: 1,
-            twistType: 'Food Fusion'
-          }
-        ]
-      };
+      // Pull a random past puzzle from the API, without its answer or hints
+      let apiUrl = `${getApiBaseUrl()}/api/puzzles/random`;
+      if (puzzleType) {
+        apiUrl += `?puzzleType=${puzzleType}`;
+      }
       
-      // Select which array to use based on puzzleType
-      const puzzleArray = puzzleType === 'hard' 
-        ? samplePuzzles.hard 
-        : (puzzleType === 'fusion' 
-          ? samplePuzzles.fusion 
-          : samplePuzzles.normal);
+      const response = await fetch(apiUrl);
       
-      // Select a random puzzle from the appropriate array
-      const randomIndex = Math.floor(Math.random() * puzzleArray.length);
-      const randomPuzzle = puzzleArray[randomIndex];
+      if (!response.ok) {
+        throw new Error('Failed to fetch random puzzle');
+      }
+      
+      const randomPuzzle: Puzzle = await response.json();
       
       // Reset game state for the new puzzle
       set({
@@ -1472,37 +1519,41 @@ export const useGameStore = create<GameState>((set, get) => ({
     // and then replace them with actual emojis at the end
     let attemptsEmojis = '';
     
+    // Multi-word answers get one square per word on each attempt, so the grid
+    // shows how many words every guess got right
+    const wordCount = puzzle.wordStructure?.length || 1;
+    const wordMatches = getWordMatchHistory(puzzle.id, difficultyMode);
+    
     // Generate emojis based on game result and attempts
     for (let i = 0; i < attempts; i++) {
+      if (i > 0 && wordCount > 1) {
+        attemptsEmojis += 'GAP';
+      }
+      
       // Last attempt handling
-      if (i === attempts - 1) {
-        if (gameStatus === 'won') {
-          // Last attempt was correct (green)
-          attemptsEmojis += 'GREEN'; // 🟩
-        } else if (gameStatus === 'gave_up') {
-          // Gave up (X)
-          attemptsEmojis += 'X'; // ❌
-        } else {
-          // Last attempt was wrong (black)
-          attemptsEmojis += 'BLACK'; // ⬛
-        }
-      } 
-      // Handle previous attempts
-      else if (partialMatches.includes(i)) {
-        // Yellow for partial matches (only if actually has a partial match)
-        attemptsEmojis += 'YELLOW'; // 🟨
+      if (i === attempts - 1 && gameStatus === 'won') {
+        // Last attempt was correct (green)
+        attemptsEmojis += 'GREEN'.repeat(wordCount); // 🟩
+      } else if (i === attempts - 1 && gameStatus === 'gave_up') {
+        // Gave up (X)
+        attemptsEmojis += 'X'; // ❌
       } else {
-        // Wrong attempt (black)
-        attemptsEmojis += 'BLACK'; // ⬛
+        // Yellow for each matched word, black for the rest. Attempts saved
+        // before word positions were tracked only record a single match.
+        const matchedIndices = (wordMatches[i.toString()] || []).map(match => match.answerIndex);
+        if (matchedIndices.length === 0 && partialMatches.includes(i)) {
+          matchedIndices.push(0);
+        }
+        
+        for (let word = 0; word < wordCount; word++) {
+          attemptsEmojis += matchedIndices.includes(word) ? 'YELLOW' : 'BLACK'; // 🟨 / ⬛
+        }
       }
-      
-      // Debug logging to track partial matches for troubleshooting
-      console.log(`Attempt ${i}: Partial Match: ${partialMatches.includes(i)}, PartialMatches: [${partialMatches.join(', ')}]`);
     }
     
     // Convert the text codes back to emojis
     let emojiString = '';
-    const emojiCodes = attemptsEmojis.match(/(FIRE|GREEN|YELLOW|BLACK|WHITE|X)/g) || [];
+    const emojiCodes = attemptsEmojis.match(/(FIRE|GREEN|YELLOW|BLACK|WHITE|GAP|X)/g) || [];
     
     emojiCodes.forEach(code => {
       switch(code) {
@@ -1524,6 +1575,9 @@ export const useGameStore = create<GameState>((set, get) => ({
         case 'X':
           emojiString += '❌';
           break;
+        case 'GAP':
+          emojiString += ' ';
+          break;
         default:
           emojiString += '⬛'; // Default to black square
       }
@@ -1540,10 +1594,10 @@ export const useGameStore = create<GameState>((set, get) => ({
     }
     
     // Add hints used info and flawless streak if applicable
-    resultLines.push(`Hints used: ${hintsUsed}/${puzzle.hints?.length || 3}`);
+    resultLines.push(`Hints used: ${hintsUsed}/${puzzle.hintCount || HINT_TIERS.length}`);
     
     // Add flawless streak info if the player has one and didn't use hints
-    const currentFlawlessStreak = getFlawlessStreak();
+    const currentFlawlessStreak = progressStore.getStats().flawlessStreak;
     if (currentFlawlessStreak > 0 && hintsUsed === 0 && gameStatus === 'won') {
       resultLines.push(`✨ Flawless streak: ${currentFlawlessStreak}`);
     }
@@ -1557,3 +1611,9 @@ export const useGameStore = create<GameState>((set, get) => ({
     return result;
   }
 }));
+
+// Keep the streaks shown in the game in step with recorded progress
+progressStore.subscribe(() => {
+  const stats = progressStore.getStats();
+  useGameStore.setState({ streak: stats.currentStreak, flawlessStreak: stats.flawlessStreak });
+});
@@ -1,44 +1,79 @@
 /**
  * Simplified Global Time Utility
  * A robust implementation focused on local date comparisons that minimizes errors
- * and external API calls, while providing reliable date transitions at midnight EST.
+ * and external API calls. The puzzle day itself comes from the shared puzzle clock,
+ * read at the server's time so a skewed device clock doesn't change the puzzle.
  */
 
+import { getPuzzleDate, type ServerTime } from '@shared/puzzle-clock';
+import { getApiBaseUrl } from './queryClient';
+
 // Local storage keys
 const LAST_PUZZLE_DATE_KEY = 'fusdle_last_puzzle_date';
 const LAST_CHECK_TIME_KEY = 'fusdle_last_check_time';
 
+// How often the clock offset is measured again, and how soon to retry when
+// the server couldn't be reached
+const CLOCK_SYNC_INTERVAL_MS = 30 * 60 * 1000;
+const CLOCK_SYNC_RETRY_MS = 60 * 1000;
+
+// Milliseconds the server clock is ahead of the device clock
+let clockOffsetMs = 0;
+let nextClockSyncAt = 0;
+let pendingClockSync: Promise<void> | null = null;
+
 /**
- * Get today's date in YYYY-MM-DD format using the most reliable methods available
- * Prioritizes browser's timezone API but includes multiple fallbacks
+ * Estimate the device clock's offset from GET /api/time. The server time is
+ * taken to be read halfway through the round trip. Until the first sync
+ * succeeds the device clock is used as is.
  */
-export async function getGlobalDateString(): Promise<string> {
-  try {
-    // Try browser timezone API (most reliable cross-browser solution)
-    const todayBrowser = formatDateYYYYMMDD(
-      new Date(new Date().toLocaleString('en-US', { timeZone: 'America/New_York' }))
-    );
-    console.log(`Today's date via browser timezone API: ${todayBrowser}`);
-    return todayBrowser;
-  } catch (error) {
-    console.warn('Browser timezone API failed, using simple date', error);
-    
-    // Fallback to a simple date (less accurate but better than nothing)
-    const todaySimple = formatDateYYYYMMDD(new Date());
-    console.log(`Today's date via simple date: ${todaySimple}`);
-    return todaySimple;
+export function syncServerClock(): Promise<void> {
+  if (pendingClockSync) {
+    return pendingClockSync;
   }
+
+  pendingClockSync = (async () => {
+    try {
+      const sentAt = Date.now();
+      const response = await fetch(`${getApiBaseUrl()}/api/time`, { cache: 'no-store' });
+      const receivedAt = Date.now();
+      if (!response.ok) {
+        throw new Error(`Time request failed with ${response.status}`);
+      }
+
+      const { serverTime }: ServerTime = await response.json();
+      clockOffsetMs = Date.parse(serverTime) - (sentAt + receivedAt) / 2;
+      nextClockSyncAt = receivedAt + CLOCK_SYNC_INTERVAL_MS;
+      console.log(`Device clock is ${Math.round(-clockOffsetMs / 1000)}s off the server`);
+    } catch (error) {
+      console.warn('Could not sync with the server clock, keeping the last offset', error);
+      nextClockSyncAt = Date.now() + CLOCK_SYNC_RETRY_MS;
+    } finally {
+      pendingClockSync = null;
+    }
+  })();
+  return pendingClockSync;
+}
+
+// The current time by the server's clock, as best we know it
+export function getServerNow(): Date {
+  return new Date(Date.now() + clockOffsetMs);
+}
+
+// Today's puzzle date by the server's clock, without waiting for a sync
+export function getCurrentPuzzleDate(): string {
+  return getPuzzleDate(getServerNow());
 }
 
 /**
- * Format a date object to YYYY-MM-DD string
+ * Get today's puzzle date in YYYY-MM-DD format by the server's clock,
+ * measuring the clock offset first when it's due
  */
-function formatDateYYYYMMDD(date: Date): string {
-  return [
-    date.getFullYear(),
-    String(date.getMonth() + 1).padStart(2, '0'),
-    String(date.getDate()).padStart(2, '0')
-  ].join('-');
+export async function getGlobalDateString(): Promise<string> {
+  if (Date.now() >= nextClockSyncAt) {
+    await syncServerClock();
+  }
+  return getCurrentPuzzleDate();
 }
 
 /**
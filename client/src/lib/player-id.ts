@@ -0,0 +1,31 @@
+import { getAuth } from "firebase/auth";
+import { app } from "@/firebase/config";
+import { getAuthHeaders } from "./auth";
+
+const PLAYER_ID_KEY = 'fusdle_player_id';
+
+/**
+ * Identifies the player to the game session API.
+ * Signed-in players use their Firebase uid so progress follows them across
+ * devices; everyone else gets an anonymous id stored in this browser.
+ */
+export function getPlayerId(): string {
+  const user = getAuth(app).currentUser;
+  if (user) {
+    return user.uid;
+  }
+
+  let playerId = localStorage.getItem(PLAYER_ID_KEY);
+  if (!playerId) {
+    playerId = crypto.randomUUID();
+    localStorage.setItem(PLAYER_ID_KEY, playerId);
+  }
+
+  return playerId;
+}
+
+// Headers identifying the player to the API. Signed-in players also send
+// their ID token, which the server uses in place of the id.
+export async function getPlayerHeaders(): Promise<Record<string, string>> {
+  return { 'X-Player-Id': getPlayerId(), ...(await getAuthHeaders()) };
+}
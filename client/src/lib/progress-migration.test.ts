@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const documents = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock("@/firebase/config", () => ({ db: {} }));
+
+vi.mock("firebase/firestore", () => ({
+  doc: (_db: unknown, collection: string, id: string) => `${collection}/${id}`,
+  getDoc: async (path: string) => ({
+    exists: () => documents.has(path),
+    data: () => documents.get(path)
+  })
+}));
+
+// 18:00 in California on March 10, already March 11 in UTC
+vi.mock("./global-time", () => ({
+  getServerNow: () => new Date('2026-03-11T01:00:00Z')
+}));
+
+import { readLegacyAccountProgress } from "./progress-migration";
+
+describe("readLegacyAccountProgress", () => {
+  beforeEach(() => {
+    documents.clear();
+  });
+
+  it("turns the UTC dates in userStats into puzzle dates", async () => {
+    documents.set('userStats/uid', { currentStreak: 3, maxStreak: 5, lastPlayedDate: '2026-03-11' });
+
+    const progress = await readLegacyAccountProgress('uid');
+    expect(progress.streak.lastSolvedDate).toBe('2026-03-10');
+  });
+
+  it("turns the UTC dates in userProgress into puzzle dates", async () => {
+    documents.set('userProgress/uid', {
+      currentStreak: 1,
+      lastPlayedDate: '2026-03-11',
+      gameHistory: [
+        { date: '2026-03-05', puzzleId: 4, solved: false },
+        { date: '2026-03-11', puzzleId: 5, solved: true }
+      ]
+    });
+
+    const progress = await readLegacyAccountProgress('uid');
+    expect(progress.streak.lastSolvedDate).toBe('2026-03-10');
+    expect(progress.sessions.map(session => [session.puzzleId, session.puzzleDate]))
+      .toEqual([[4, '2026-03-05'], [5, '2026-03-10']]);
+  });
+});
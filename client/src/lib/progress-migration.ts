@@ -0,0 +1,222 @@
+import { doc, getDoc } from "firebase/firestore";
+import { db } from "@/firebase/config";
+import { EMPTY_PROGRESS, mergeProgress, sessionKey, type PlayerProgress, type ProgressSession } from "@shared/progress";
+import { getPuzzleDate } from "@shared/puzzle-clock";
+import { EMPTY_STREAK, type StreakState } from "@shared/streak";
+import { getServerNow } from "./global-time";
+
+// Readers for the stats stores that came before the progress store: the
+// `userStats` and `userProgress` documents, and the localStorage keys written
+// by the old streak, completed-puzzle and user data helpers. Each becomes a
+// PlayerProgress so they can all be merged; the derived counts they stored
+// are dropped and recomputed from the sessions.
+
+const LEGACY_LOCAL_KEYS = [
+  'userStats',
+  'fusdle_game_history',
+  'fusdle_puzzle_attempts',
+  'fusdle_completed_puzzles',
+  'fusdle_streakCount',
+  'fusdle_longestStreak',
+  'fusdle_lastPlayedDate',
+  'fusdle_flawlessStreak',
+  'fusdle_streakFreezes',
+  'fusdle_frozenDates',
+  'fusdle_hintsUsed'
+];
+
+// The `userStats` document, also kept in localStorage for anonymous players
+interface LegacyUserStats {
+  currentStreak?: number;
+  maxStreak?: number;
+  flawlessStreak?: number;
+  solvedPuzzles?: string[];
+  lastPlayedDate?: string;
+  lastSolvedDate?: string;
+  streakFreezes?: number;
+  frozenDates?: string[];
+}
+
+// The `userProgress` document
+interface LegacyUserProgress {
+  currentStreak?: number;
+  longestStreak?: number;
+  lastPlayedDate?: string;
+  lastSolvedDate?: string;
+  gameHistory?: Array<{
+    date?: string;
+    puzzleId: number;
+    difficulty?: string;
+    solved: boolean;
+    attempts?: number;
+    hintsUsed?: number;
+  }>;
+}
+
+// Entries of the `fusdle_game_history` key
+interface LegacyHistoryEntry {
+  puzzleId: string;
+  solved: boolean;
+  usedHints?: boolean;
+  solvedAt?: string;
+  puzzleDate?: string;
+  difficulty?: string;
+  isFusion?: boolean;
+  totalGuesses?: number;
+}
+
+// Values of the `fusdle_puzzle_attempts` key, keyed by `${id}_${difficulty}`
+interface LegacyAttempts {
+  id: number;
+  attempts: number;
+  status: 'won' | 'lost';
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const value = localStorage.getItem(key);
+    return value ? JSON.parse(value) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function readNumber(key: string): number {
+  return parseInt(localStorage.getItem(key) || '0') || 0;
+}
+
+function session(puzzleId: number, difficulty: string | undefined, details: Partial<ProgressSession>): ProgressSession {
+  return {
+    puzzleId,
+    difficulty: difficulty === 'hard' ? 'hard' : 'normal',
+    isFusion: false,
+    puzzleDate: null,
+    status: 'won',
+    guesses: 0,
+    usedHints: false,
+    completedAt: null,
+    ...details
+  };
+}
+
+function progressFrom(sessions: ProgressSession[], streak: StreakState): PlayerProgress {
+  return { ...EMPTY_PROGRESS, sessions, streak };
+}
+
+// Solved puzzles kept as `${id}_${difficulty}` keys, or bare ids for normal
+// puzzles, only added where nothing better is known
+function withSolvedKeys(progress: PlayerProgress, keys: string[] = []): PlayerProgress {
+  const extra = new Map<string, ProgressSession>();
+  for (const key of keys) {
+    const [id, difficulty] = key.split('_');
+    const solved = session(parseInt(id), difficulty, {});
+    if (!isNaN(solved.puzzleId)) {
+      extra.set(sessionKey(solved), solved);
+    }
+  }
+
+  progress.sessions.forEach(existing => extra.delete(sessionKey(existing)));
+  return { ...progress, sessions: [...progress.sessions, ...Array.from(extra.values())] };
+}
+
+// The old helpers saved the UTC date of each play and of the last play. A
+// UTC date covers the end of one puzzle day and most of the next; this takes
+// the later, unless that puzzle day hasn't started yet.
+function puzzleDateOfUtcDate(date: string | null | undefined): string | null {
+  if (!date) {
+    return null;
+  }
+  const endOfDay = Date.parse(`${date}T23:59:59.999Z`);
+  return isNaN(endOfDay) ? null : getPuzzleDate(new Date(Math.min(endOfDay, getServerNow().getTime())));
+}
+
+function fromUserStats(stats: LegacyUserStats): PlayerProgress {
+  const streak: StreakState = {
+    current: stats.currentStreak || 0,
+    longest: stats.maxStreak || 0,
+    flawless: stats.flawlessStreak || 0,
+    // Stats saved before lastSolvedDate existed only know the last play
+    lastSolvedDate: stats.lastSolvedDate || ((stats.currentStreak || 0) > 0 ? puzzleDateOfUtcDate(stats.lastPlayedDate) : null),
+    freezes: stats.streakFreezes || 0,
+    frozenDates: stats.frozenDates || [],
+    day: null
+  };
+  return withSolvedKeys(progressFrom([], streak), stats.solvedPuzzles);
+}
+
+function fromUserProgress(progress: LegacyUserProgress): PlayerProgress {
+  const sessions = (progress.gameHistory ?? []).map(game => session(game.puzzleId, game.difficulty, {
+    puzzleDate: puzzleDateOfUtcDate(game.date),
+    status: game.solved ? 'won' : 'lost',
+    guesses: game.attempts || 0,
+    usedHints: (game.hintsUsed || 0) > 0
+  }));
+
+  return progressFrom(sessions, {
+    ...EMPTY_STREAK,
+    current: progress.currentStreak || 0,
+    longest: progress.longestStreak || 0,
+    lastSolvedDate: progress.lastSolvedDate ||
+      ((progress.currentStreak || 0) > 0 ? puzzleDateOfUtcDate(progress.lastPlayedDate) : null)
+  });
+}
+
+// Everything the old helpers kept in this browser's localStorage
+export function readLegacyLocalProgress(): PlayerProgress {
+  const history = readJson<LegacyHistoryEntry[]>('fusdle_game_history', []);
+  const historySessions = history
+    .filter(entry => !isNaN(parseInt(entry.puzzleId)))
+    .map(entry => session(parseInt(entry.puzzleId), entry.difficulty, {
+      isFusion: Boolean(entry.isFusion),
+      puzzleDate: entry.puzzleDate || null,
+      status: entry.solved ? 'won' : 'lost',
+      guesses: entry.totalGuesses || 0,
+      usedHints: Boolean(entry.usedHints),
+      completedAt: entry.solvedAt || null
+    }));
+
+  const attempts = readJson<Record<string, LegacyAttempts>>('fusdle_puzzle_attempts', {});
+  const attemptSessions = Object.entries(attempts).map(([key, data]) => session(data.id, key.split('_')[1], {
+    status: data.status,
+    guesses: data.attempts
+  }));
+
+  const current = readNumber('fusdle_streakCount');
+  const streakKeys = progressFrom([], {
+    current,
+    longest: readNumber('fusdle_longestStreak'),
+    flawless: readNumber('fusdle_flawlessStreak'),
+    // The last play was a solve if the streak is still going
+    lastSolvedDate: current > 0 ? puzzleDateOfUtcDate(localStorage.getItem('fusdle_lastPlayedDate')) : null,
+    freezes: readNumber('fusdle_streakFreezes'),
+    frozenDates: readJson<string[]>('fusdle_frozenDates', []),
+    day: null
+  });
+
+  const stats = readJson<LegacyUserStats | null>('userStats', null);
+  const merged = mergeProgress(
+    progressFrom([...historySessions, ...attemptSessions], EMPTY_STREAK),
+    streakKeys,
+    ...(stats ? [fromUserStats(stats)] : [])
+  );
+  return withSolvedKeys(merged, readJson<string[]>('fusdle_completed_puzzles', []));
+}
+
+export function clearLegacyLocalProgress(): void {
+  LEGACY_LOCAL_KEYS.forEach(key => localStorage.removeItem(key));
+}
+
+// The account's `userStats` and `userProgress` documents. They're left in
+// place, nothing writes them any more.
+export async function readLegacyAccountProgress(uid: string): Promise<PlayerProgress> {
+  const [stats, progress] = await Promise.all([
+    getDoc(doc(db, 'userStats', uid)),
+    getDoc(doc(db, 'userProgress', uid))
+  ]);
+
+  return mergeProgress(
+    EMPTY_PROGRESS,
+    ...(stats.exists() ? [fromUserStats(stats.data() as LegacyUserStats)] : []),
+    ...(progress.exists() ? [fromUserProgress(progress.data() as LegacyUserProgress)] : [])
+  );
+}
@@ -0,0 +1,177 @@
+import { getAuth, onAuthStateChanged, type User } from "firebase/auth";
+import { doc, getDoc, setDoc } from "firebase/firestore";
+import { app, db } from "@/firebase/config";
+import {
+  EMPTY_PROGRESS,
+  mergeProgress,
+  recordSession,
+  summarizeProgress,
+  upgradeProgress,
+  type PlayerProgress,
+  type ProgressDifficulty,
+  type ProgressSession,
+  type ProgressStats
+} from "@shared/progress";
+import { getCurrentPuzzleDate } from "./global-time";
+import { clearLegacyLocalProgress, readLegacyAccountProgress, readLegacyLocalProgress } from "./progress-migration";
+
+// Anonymous players keep their progress in this browser
+const PROGRESS_KEY = 'fusdle_progress';
+// Signed-in players keep it in playerProgress/{uid}
+const PROGRESS_COLLECTION = 'playerProgress';
+
+/**
+ * The one place player progress is read and written. Changes apply in memory
+ * straight away and are saved in the background, to localStorage while
+ * signed out and to the account while signed in. Signing in merges this
+ * browser's progress into the account.
+ */
+class ProgressStore {
+  private auth = getAuth(app);
+  private uid: string | null = null;
+  private progress: PlayerProgress;
+  private listeners = new Set<() => void>();
+  // getStats hands out the same object until something changes
+  private cachedStats: { progress: PlayerProgress; today: string; stats: ProgressStats } | null = null;
+
+  constructor() {
+    this.progress = this.loadLocal();
+    onAuthStateChanged(this.auth, (user) => {
+      this.switchAccount(user);
+    });
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getProgress(): PlayerProgress {
+    return this.progress;
+  }
+
+  getStats(): ProgressStats {
+    const today = getCurrentPuzzleDate();
+    if (this.cachedStats?.progress !== this.progress || this.cachedStats.today !== today) {
+      this.cachedStats = { progress: this.progress, today, stats: summarizeProgress(this.progress, today) };
+    }
+    return this.cachedStats.stats;
+  }
+
+  getSession(puzzleId: number, difficulty: ProgressDifficulty): ProgressSession | null {
+    return this.progress.sessions.find(session =>
+      session.puzzleId === puzzleId && session.difficulty === difficulty
+    ) ?? null;
+  }
+
+  // Record a finished puzzle. Finishing it again changes nothing.
+  async record(session: ProgressSession): Promise<void> {
+    const updated = recordSession(this.progress, session, getCurrentPuzzleDate());
+    if (updated !== this.progress) {
+      await this.update(updated);
+    }
+  }
+
+  // Forget a finished puzzle so it can be played again. The streak is kept.
+  async removeSession(puzzleId: number, difficulty: ProgressDifficulty): Promise<void> {
+    await this.update({
+      ...this.progress,
+      sessions: this.progress.sessions.filter(session =>
+        session.puzzleId !== puzzleId || session.difficulty !== difficulty
+      )
+    });
+  }
+
+  async reset(): Promise<void> {
+    await this.update({ ...EMPTY_PROGRESS, updatedAt: new Date().toISOString() });
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private async update(progress: PlayerProgress): Promise<void> {
+    this.progress = progress;
+    this.notify();
+    await this.save(progress);
+  }
+
+  private async save(progress: PlayerProgress): Promise<void> {
+    if (this.uid) {
+      try {
+        await setDoc(doc(db, PROGRESS_COLLECTION, this.uid), progress);
+        return;
+      } catch (error) {
+        // Kept locally instead, and merged into the account at the next sign in
+        console.error("Error saving progress to Firestore:", error);
+      }
+    }
+    this.saveLocal(progress);
+  }
+
+  private loadLocal(): PlayerProgress {
+    try {
+      const saved = localStorage.getItem(PROGRESS_KEY);
+      if (saved) {
+        return upgradeProgress(JSON.parse(saved));
+      }
+    } catch (error) {
+      console.error("Error reading saved progress:", error);
+      return EMPTY_PROGRESS;
+    }
+
+    // First run since the progress store: bring over the old local keys
+    const migrated = readLegacyLocalProgress();
+    this.saveLocal(migrated);
+    clearLegacyLocalProgress();
+    return migrated;
+  }
+
+  private saveLocal(progress: PlayerProgress): void {
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  }
+
+  private async loadAccount(uid: string): Promise<PlayerProgress> {
+    const saved = await getDoc(doc(db, PROGRESS_COLLECTION, uid));
+    if (saved.exists()) {
+      return upgradeProgress(saved.data() as Partial<PlayerProgress>);
+    }
+
+    // First sign in since the progress store: bring over the old documents
+    console.log('Migrating userStats and userProgress into playerProgress');
+    return readLegacyAccountProgress(uid);
+  }
+
+  private async switchAccount(user: User | null): Promise<void> {
+    if (!user) {
+      this.uid = null;
+      this.progress = this.loadLocal();
+      this.notify();
+      return;
+    }
+
+    try {
+      const account = await this.loadAccount(user.uid);
+      // Signed out or switched accounts while loading
+      if (this.auth.currentUser?.uid !== user.uid) {
+        return;
+      }
+
+      // This browser's progress, including anything finished while loading,
+      // now belongs to the account
+      const merged = mergeProgress(account, this.loadLocal(), this.progress);
+      await setDoc(doc(db, PROGRESS_COLLECTION, user.uid), merged);
+      this.saveLocal(EMPTY_PROGRESS);
+      this.uid = user.uid;
+      this.progress = merged;
+      this.notify();
+    } catch (error) {
+      // Carry on with this browser's progress until the account can be reached
+      console.error("Error loading progress from Firestore:", error);
+    }
+  }
+}
+
+export const progressStore = new ProgressStore();
@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { getAuthHeaders } from "./auth";
 
 // Helper to get the base URL for API requests depending on the environment
 export function getApiBaseUrl(): string {
@@ -23,13 +24,15 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers: Record<string, string> = {},
 ): Promise<Response> {
   // Normalize the URL with the correct base for the current environment
   const apiUrl = url.startsWith('http') ? url : `${getApiBaseUrl()}${url}`;
   
+  const authHeaders = await getAuthHeaders();
   const res = await fetch(apiUrl, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { "Content-Type": "application/json", ...authHeaders, ...headers } : { ...authHeaders, ...headers },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -49,6 +52,7 @@ export const getQueryFn: <T>(options: {
     const apiUrl = url.startsWith('http') ? url : `${getApiBaseUrl()}${url}`;
     
     const res = await fetch(apiUrl, {
+      headers: await getAuthHeaders(),
       credentials: "include",
     });
 
@@ -0,0 +1,503 @@
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown, Calendar as CalendarIcon, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
+import { getAuth, onAuthStateChanged, User } from "firebase/auth";
+import { app } from "@/firebase/config";
+import GoogleAuth from "@/components/google-auth";
+import EmojiDisplay from "@/components/emoji-display";
+import Hints from "@/components/hints";
+import { firestoreService } from "@/firebase/firestore";
+import { apiRequest, getApiBaseUrl } from "@/lib/queryClient";
+import { getCurrentPuzzleDate } from "@/lib/global-time";
+import type { Puzzle, PuzzleEdit } from "@shared/schema";
+
+type Difficulty = 'normal' | 'hard';
+
+// Puzzle dates are plain yyyy-MM-dd strings; the calendar works in local dates
+const toCalendarDate = (dateStr: string): Date => new Date(`${dateStr.split('T')[0]}T00:00:00`);
+const fromCalendarDate = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Emojis are typed separated by spaces so multi-codepoint emojis stay intact
+const parseEmojis = (text: string): string[] => text.trim().split(/\s+/).filter(Boolean);
+const parseAcceptedAnswers = (text: string): string[] =>
+  text.split(',').map(answer => answer.trim()).filter(Boolean);
+
+const AdminPuzzles: React.FC = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [puzzles, setPuzzles] = useState<Puzzle[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingPuzzle, setEditingPuzzle] = useState<Puzzle | null>(null);
+  const [showEditDialog, setShowEditDialog] = useState(false);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const { toast } = useToast();
+
+  // Form state
+  const [date, setDate] = useState(getCurrentPuzzleDate());
+  const [difficulty, setDifficulty] = useState<Difficulty>('normal');
+  const [emojiText, setEmojiText] = useState("");
+  const [answer, setAnswer] = useState("");
+  const [theme, setTheme] = useState("");
+  const [hints, setHints] = useState<string[]>(["", "", ""]);
+  const [acceptedAnswersText, setAcceptedAnswersText] = useState("");
+  const [isFusionTwist, setIsFusionTwist] = useState(false);
+  const [twistType, setTwistType] = useState("");
+
+  useEffect(() => {
+    const auth = getAuth(app);
+    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
+      setUser(currentUser);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  // Editors and admins can change the schedule; the admin API enforces the same
+  const { isEditor } = useRole();
+
+  const loadPuzzles = async () => {
+    setLoading(true);
+    try {
+      setPuzzles(await firestoreService.getScheduledPuzzles());
+    } catch (error) {
+      console.error('Error loading scheduled puzzles:', error);
+      toast({
+        title: "Error loading puzzles",
+        description: "Failed to load scheduled puzzles.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isEditor) {
+      loadPuzzles();
+    }
+  }, [isEditor]);
+
+  const resetForm = () => {
+    setEditingPuzzle(null);
+    setDate(getCurrentPuzzleDate());
+    setDifficulty('normal');
+    setEmojiText("");
+    setAnswer("");
+    setTheme("");
+    setHints(["", "", ""]);
+    setAcceptedAnswersText("");
+    setIsFusionTwist(false);
+    setTwistType("");
+  };
+
+  const startCreating = () => {
+    resetForm();
+    setShowEditDialog(true);
+  };
+
+  const startEditing = (puzzle: Puzzle) => {
+    setEditingPuzzle(puzzle);
+    setDate(puzzle.date.split('T')[0]);
+    setDifficulty(puzzle.difficulty === 'hard' ? 'hard' : 'normal');
+    setEmojiText(puzzle.emojis.join(' '));
+    setAnswer(puzzle.answer);
+    setTheme(puzzle.theme);
+    setHints(puzzle.hints.length > 0 ? [...puzzle.hints] : [""]);
+    setAcceptedAnswersText((puzzle.acceptedAnswers ?? []).join(', '));
+    setIsFusionTwist(puzzle.isFusionTwist === 1);
+    setTwistType(puzzle.twistType ?? "");
+    setShowEditDialog(true);
+  };
+
+  const formValues = (): PuzzleEdit => ({
+    date,
+    difficulty,
+    emojis: parseEmojis(emojiText),
+    answer: answer.trim(),
+    theme: theme.trim() || "General",
+    hints: hints.map(hint => hint.trim()).filter(Boolean),
+    acceptedAnswers: parseAcceptedAnswers(acceptedAnswersText),
+    isFusionTwist: isFusionTwist ? 1 : 0,
+    twistType: isFusionTwist ? twistType.trim() || null : null
+  });
+
+  const handleSave = async () => {
+    const values = formValues();
+
+    if (values.emojis.length === 0 || !values.answer || values.hints.length === 0) {
+      toast({
+        title: "Missing fields",
+        description: "A puzzle needs emojis, an answer and at least one hint.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // One puzzle per difficulty per day
+    const clash = puzzles.find(p =>
+      p.date.split('T')[0] === values.date &&
+      p.difficulty === values.difficulty &&
+      p.puzzleNumber !== editingPuzzle?.puzzleNumber
+    );
+    if (clash) {
+      toast({
+        title: "Date already taken",
+        description: `Puzzle #${clash.puzzleNumber} is already scheduled for ${values.date}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      // Changes go through the API, which numbers and scores the puzzle and
+      // purges the server's puzzle cache
+      if (editingPuzzle) {
+        await apiRequest('PUT', `${getApiBaseUrl()}/api/admin/puzzles/${editingPuzzle.puzzleNumber}`, values);
+      } else {
+        await apiRequest('POST', `${getApiBaseUrl()}/api/admin/puzzles`, values);
+      }
+
+      await loadPuzzles();
+      setShowEditDialog(false);
+
+      toast({
+        title: editingPuzzle ? "Puzzle updated" : "Puzzle scheduled",
+        description: `"${values.answer}" is scheduled for ${values.date}.`,
+      });
+      resetForm();
+    } catch (error) {
+      console.error('Error saving puzzle:', error);
+      toast({
+        title: "Error saving puzzle",
+        description: "Failed to save the puzzle. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (puzzle: Puzzle) => {
+    if (!window.confirm(`Delete puzzle #${puzzle.puzzleNumber} ("${puzzle.answer}")?`)) {
+      return;
+    }
+
+    try {
+      await apiRequest('DELETE', `${getApiBaseUrl()}/api/admin/puzzles/${puzzle.puzzleNumber}`);
+      setPuzzles(prev => prev.filter(p => !(p.puzzleNumber === puzzle.puzzleNumber && p.difficulty === puzzle.difficulty)));
+
+      toast({
+        title: "Puzzle deleted",
+        description: `Puzzle #${puzzle.puzzleNumber} has been removed from the schedule.`,
+      });
+    } catch (error) {
+      console.error('Error deleting puzzle:', error);
+      toast({
+        title: "Error deleting puzzle",
+        description: "Failed to delete the puzzle. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Reordering swaps dates and puzzle numbers with the neighbouring puzzle of
+  // the same difficulty
+  const handleMove = async (puzzle: Puzzle, direction: -1 | 1) => {
+    const sameDifficulty = puzzles.filter(p => p.difficulty === puzzle.difficulty);
+    const index = sameDifficulty.findIndex(p => p.puzzleNumber === puzzle.puzzleNumber);
+    const neighbour = sameDifficulty[index + direction];
+
+    if (!neighbour) {
+      return;
+    }
+
+    try {
+      await apiRequest('POST', `${getApiBaseUrl()}/api/admin/puzzles/${puzzle.puzzleNumber}/swap`, { with: neighbour.puzzleNumber });
+      await loadPuzzles();
+    } catch (error) {
+      console.error('Error reordering puzzles:', error);
+      toast({
+        title: "Error reordering puzzles",
+        description: "Failed to swap puzzle dates. Please reload and check the schedule.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateHint = (index: number, value: string) => {
+    setHints(prev => prev.map((hint, i) => (i === index ? value : hint)));
+  };
+
+  if (!isEditor) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4">
+        <h1 className="text-2xl font-bold">Puzzle Admin</h1>
+        <p className="text-gray-600">
+          {user ? "This page is only available to editors and admins." : "Sign in with an editor or admin account to manage puzzles."}
+        </p>
+        {!user && <GoogleAuth compact={true} showBenefits={false} />}
+      </div>
+    );
+  }
+
+  const previewEmojis = parseEmojis(emojiText);
+  const previewHints = hints.map(hint => hint.trim()).filter(Boolean);
+
+  return (
+    <motion.div
+      className="space-y-6"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-2xl font-bold">Puzzle Admin</h1>
+            <p className="text-gray-600 mt-1">Today's and upcoming puzzles</p>
+          </div>
+          <Button size="sm" onClick={startCreating}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Puzzle
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {loading ? (
+            <p className="text-center text-gray-500 py-8">Loading puzzles...</p>
+          ) : puzzles.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No puzzles scheduled.</p>
+          ) : (
+            puzzles.map((puzzle) => (
+              <Card key={`${puzzle.puzzleNumber}-${puzzle.difficulty}`}>
+                <CardHeader className="pb-2">
+                  <div className="flex justify-between items-start">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <CardTitle className="text-base">#{puzzle.puzzleNumber}</CardTitle>
+                        <Badge variant={puzzle.difficulty === 'hard' ? 'destructive' : 'secondary'}>
+                          {puzzle.difficulty === 'hard' ? '💀 Hard' : '🎯 Normal'}
+                        </Badge>
+                        {puzzle.isFusionTwist === 1 && <Badge variant="outline">Fusion</Badge>}
+                      </div>
+                      <div className="flex items-center gap-1 text-sm text-gray-500">
+                        <CalendarIcon className="h-3 w-3" />
+                        {format(toCalendarDate(puzzle.date), "MMM d, yyyy")}
+                      </div>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => handleMove(puzzle, -1)}>
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleMove(puzzle, 1)}>
+                        <ArrowDown className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(puzzle)}>
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(puzzle)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="pt-0">
+                  <div className="text-2xl">{puzzle.emojis.join(' ')}</div>
+                  <div className="text-sm text-gray-700 mt-1">
+                    <span className="font-semibold">{puzzle.answer}</span>
+                    <span className="text-gray-500"> · {puzzle.theme} · {puzzle.hints.length} hints</span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+
+      <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingPuzzle ? `Edit Puzzle #${editingPuzzle.puzzleNumber}` : 'New Puzzle'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {/* Live preview as players will see it */}
+            <div className="border rounded-md bg-gray-50 px-3">
+              {previewEmojis.length > 0 ? (
+                <EmojiDisplay emojis={previewEmojis} />
+              ) : (
+                <p className="text-gray-500 italic py-6 text-center">Emoji preview will appear here...</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium mb-1">Date</label>
+                <Popover open={showDatePicker} onOpenChange={setShowDatePicker}>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="w-full justify-start font-normal">
+                      <CalendarIcon className="h-4 w-4 mr-2" />
+                      {format(toCalendarDate(date), "MMM d, yyyy")}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0">
+                    <Calendar
+                      mode="single"
+                      selected={toCalendarDate(date)}
+                      onSelect={(selected) => {
+                        if (selected) {
+                          setDate(fromCalendarDate(selected));
+                          setShowDatePicker(false);
+                        }
+                      }}
+                      modifiers={{
+                        scheduled: puzzles
+                          .filter(p => p.difficulty === difficulty)
+                          .map(p => toCalendarDate(p.date))
+                      }}
+                      modifiersClassNames={{ scheduled: "font-bold underline" }}
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Difficulty</label>
+                <select
+                  value={difficulty}
+                  onChange={(e) => setDifficulty(e.target.value as Difficulty)}
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                >
+                  <option value="normal">🎯 Normal</option>
+                  <option value="hard">💀 Hard</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Emojis (separated by spaces)</label>
+              <Input
+                value={emojiText}
+                onChange={(e) => setEmojiText(e.target.value)}
+                placeholder="e.g., 🍎 🥧"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium mb-1">Answer</label>
+                <Input
+                  value={answer}
+                  onChange={(e) => setAnswer(e.target.value)}
+                  placeholder="e.g., Apple Pie"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Theme</label>
+                <Input
+                  value={theme}
+                  onChange={(e) => setTheme(e.target.value)}
+                  placeholder="e.g., Food"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Also accept (comma separated)</label>
+              <Input
+                value={acceptedAnswersText}
+                onChange={(e) => setAcceptedAnswersText(e.target.value)}
+                placeholder="e.g., Apple Tart, Applepie"
+              />
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <label className="block text-sm font-medium">Hints</label>
+                <Button type="button" variant="outline" size="sm" onClick={() => setHints(prev => [...prev, ""])}>
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Hint
+                </Button>
+              </div>
+              <div className="space-y-2">
+                {hints.map((hint, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      value={hint}
+                      onChange={(e) => updateHint(index, e.target.value)}
+                      placeholder={`Hint ${index + 1}`}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={hints.length === 1}
+                      onClick={() => setHints(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              {previewHints.length > 0 && (
+                <div className="mt-3">
+                  <Hints hints={previewHints} />
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={isFusionTwist}
+                  onChange={(e) => setIsFusionTwist(e.target.checked)}
+                />
+                Fusion twist
+              </label>
+              {isFusionTwist && (
+                <Input
+                  value={twistType}
+                  onChange={(e) => setTwistType(e.target.value)}
+                  placeholder="Twist type"
+                  className="flex-1"
+                />
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={(e) => {
+                  e.preventDefault();
+                  setShowEditDialog(false);
+                  resetForm();
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={(e) => {
+                  e.preventDefault();
+                  handleSave();
+                }}
+              >
+                {editingPuzzle ? 'Update' : 'Schedule'} Puzzle
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  );
+};
+
+export default AdminPuzzles;
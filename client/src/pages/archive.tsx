@@ -6,7 +6,6 @@ import { Skull, Flame, Sparkles } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { useQuery } from "@tanstack/react-query";
 import { navigationState, updateNavigationState } from "@/lib/queryClient";
-import { firestoreService } from "@/firebase/firestore";
 import { getApiBaseUrl } from "@/lib/queryClient";
 import { calculateFusdleNumber } from "@/lib/utils";
 import { getGlobalDateString } from "@/lib/global-time";
@@ -28,9 +27,6 @@ type DifficultyFilter = 'normal' | 'hard' | 'fusion';
 const Archive: React.FC = () => {
   const [activeTab, setActiveTab] = useState<DifficultyFilter>('normal');
   const [currentDate, setCurrentDate] = useState<string>("");
-  const [firebaseArchiveData, setFirebaseArchiveData] = useState<ArchivePuzzle[] | null>(null);
-  const [isFirebaseLoading, setIsFirebaseLoading] = useState(true);
-  const [firebaseError, setFirebaseError] = useState<Error | null>(null);
   
   // Fetch the current date for archive filtering - remove the hardcoded date
   useEffect(() => {
@@ -50,49 +46,11 @@ const Archive: React.FC = () => {
     fetchCurrentDate();
   }, []);
   
-  // Direct Firebase data fetch (this runs on every mount)
-  useEffect(() => {
-    async function fetchFirebaseArchive() {
-      setIsFirebaseLoading(true);
-      try {
-        console.log("Directly fetching Firebase archive data on mount");
-        const archivePuzzles = await firestoreService.getPuzzleArchive(30);
-        if (archivePuzzles && archivePuzzles.length > 0) {
-          console.log(`Direct Firebase fetch successful: ${archivePuzzles.length} puzzles`);
-          setFirebaseArchiveData(archivePuzzles);
-          
-          // Also update navigation state for future use
-          updateNavigationState({
-            archiveLoaded: true,
-            archiveData: archivePuzzles
-          });
-        } else {
-          console.log("Firebase fetch returned no puzzles, falling back to cached data");
-          setFirebaseArchiveData(null);
-        }
-      } catch (error) {
-        console.warn("Error fetching Firebase archive:", error);
-        setFirebaseError(error as Error);
-        setFirebaseArchiveData(null);
-      } finally {
-        setIsFirebaseLoading(false);
-      }
-    }
-    
-    fetchFirebaseArchive();
-  }, []);
-  
-  // Fallback to React Query if direct Firebase fetch fails
-  const { data: archivePuzzles, isLoading: isQueryLoading, error: queryError } = useQuery({
+  // Past puzzles come from the API; firestore.rules keep the puzzles
+  // collection closed so upcoming answers can't be read
+  const { data: displayPuzzles, isLoading, error } = useQuery({
     queryKey: ['/api/puzzles/archive'],
     queryFn: async () => {
-      // If direct Firebase fetch was successful, return that data
-      if (firebaseArchiveData && firebaseArchiveData.length > 0) {
-        console.log("Using directly fetched Firebase data");
-        return firebaseArchiveData;
-      }
-      
-      console.log("Using cached or API archive data as fallback");
       // Try using preloaded data from navigation state
       if (navigationState.archiveLoaded && navigationState.archiveData) {
         console.log("Using preloaded archive data from navigation state");
@@ -118,15 +76,7 @@ const Archive: React.FC = () => {
       return apiData;
     },
     staleTime: 1000 * 60, // 1 minute
-    enabled: !isFirebaseLoading && firebaseArchiveData === null, // Only run if direct fetch failed
   });
-  
-  // Combined loading and error states
-  const isLoading = isFirebaseLoading || isQueryLoading;
-  const error = firebaseError || queryError;
-  
-  // Combined data source with priority to Firebase direct fetch
-  const displayPuzzles = firebaseArchiveData || archivePuzzles;
 
   if (isLoading) {
     return (
@@ -165,7 +115,6 @@ const Archive: React.FC = () => {
 
   // Filter puzzles based on active tab and current date
   const getFilteredPuzzles = () => {
-    // Use displayPuzzles (combined from Firebase and cache) as source
     const puzzlesToFilter = displayPuzzles || [];
     
     if (puzzlesToFilter.length === 0) {
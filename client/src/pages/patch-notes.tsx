@@ -14,6 +14,8 @@ import GoogleAuth from "@/components/google-auth";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { firestoreService, type PatchNote } from "@/firebase/firestore";
+import { getUserRole } from "@/lib/auth";
+import { hasRole } from "@shared/roles";
 
 const PatchNotes: React.FC = () => {
   const [patchNotes, setPatchNotes] = useState<PatchNote[]>([]);
@@ -30,20 +32,14 @@ const PatchNotes: React.FC = () => {
   const [type, setType] = useState<PatchNote['type']>('feature');
   const [isPreviewMode, setIsPreviewMode] = useState(false);
 
-  // List of admin email addresses (you can modify this list)
-  const adminEmails = [
-    // Add your Gmail address here
-    import.meta.env.VITE_ADMIN_EMAIL || "your-email@gmail.com"
-  ];
-
-  // Listen for authentication state changes
+  // Listen for authentication state changes. Only admins may edit patch
+  // notes; the role claim is checked again by the Firestore rules.
   useEffect(() => {
     const auth = getAuth();
-    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
+    const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
       setUser(currentUser);
       if (currentUser) {
-        // Check if user email is in admin list
-        const isUserAdmin = adminEmails.includes(currentUser.email || "");
+        const isUserAdmin = hasRole(await getUserRole(currentUser), 'admin');
         setIsAdmin(isUserAdmin);
         
         // Only show toast once when first becoming admin
@@ -69,8 +65,8 @@ const PatchNotes: React.FC = () => {
         const notes = await firestoreService.getPatchNotes();
         setPatchNotes(notes);
         
-        // If no notes exist, create some initial ones
-        if (notes.length === 0) {
+        // If no notes exist, an admin creates some initial ones
+        if (notes.length === 0 && isAdmin) {
           const defaultNotes = [
             {
               title: 'Welcome to Fusdle Patch Notes',
@@ -109,7 +105,7 @@ Stay tuned for more exciting features coming soon!`,
     };
     
     loadPatchNotes();
-  }, [toast]);
+  }, [toast, isAdmin]);
 
   // Add new patch note
   const handleAddNote = async () => {
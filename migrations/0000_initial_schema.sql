@@ -0,0 +1,37 @@
+CREATE TABLE "game_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"player_id" text NOT NULL,
+	"puzzle_id" integer NOT NULL,
+	"difficulty" text DEFAULT 'normal' NOT NULL,
+	"guesses" text[] NOT NULL,
+	"hints_used_at_attempts" integer[] NOT NULL,
+	"status" text DEFAULT 'playing' NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "puzzles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"puzzle_number" integer NOT NULL,
+	"date" date NOT NULL,
+	"difficulty" text DEFAULT 'normal' NOT NULL,
+	"emojis" text[] NOT NULL,
+	"answer" text NOT NULL,
+	"theme" text NOT NULL,
+	"hints" text[] NOT NULL,
+	"accepted_answers" text[],
+	"is_fusion_twist" integer DEFAULT 0 NOT NULL,
+	"twist_type" text,
+	"difficulty_score" integer,
+	CONSTRAINT "puzzles_puzzle_number_unique" UNIQUE("puzzle_number")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "game_sessions_player_puzzle_idx" ON "game_sessions" USING btree ("player_id","puzzle_id","difficulty");
\ No newline at end of file
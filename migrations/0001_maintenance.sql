@@ -0,0 +1,7 @@
+CREATE TABLE "maintenance" (
+	"id" integer PRIMARY KEY NOT NULL,
+	"enabled" boolean DEFAULT false NOT NULL,
+	"message" text NOT NULL,
+	"eta" timestamp with time zone,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
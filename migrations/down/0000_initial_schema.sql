@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS "game_sessions_player_puzzle_idx";--> statement-breakpoint
+DROP TABLE IF EXISTS "users";--> statement-breakpoint
+DROP TABLE IF EXISTS "puzzles";--> statement-breakpoint
+DROP TABLE IF EXISTS "game_sessions";
@@ -1,6 +1,7 @@
 import './load-firebase-env'; // Load environment variables first
 import { initializeApp } from 'firebase/app';
 import { getFirestore, collection, addDoc, Timestamp } from 'firebase/firestore';
+import { getPuzzleDate } from '../shared/puzzle-clock';
 
 // Firebase configuration
 const firebaseConfig = {
@@ -24,21 +25,11 @@ const dateToTimestamp = (dateStr: string): Timestamp => {
   return Timestamp.fromDate(date);
 };
 
-// Get today's date in YYYY-MM-DD format
-const getTodayDate = (): string => {
-  // Get current date in EST timezone
-  const options = { timeZone: 'America/New_York' };
-  const today = new Date().toLocaleDateString('en-US', options);
-  // Convert MM/DD/YYYY to YYYY-MM-DD
-  const parts = today.split('/');
-  return `${parts[2]}-${parts[0].padStart(2, '0')}-${parts[1].padStart(2, '0')}`;
-};
-
 // Add test puzzles to Firebase
 async function addTestPuzzles() {
   try {
     console.log('Adding test puzzles to Firebase...');
-    const today = getTodayDate();
+    const today = getPuzzleDate();
     
     // Add a normal difficulty puzzle for today
     const normalPuzzle = {
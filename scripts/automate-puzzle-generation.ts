@@ -67,23 +67,16 @@ async function checkAndGeneratePuzzles() {
     if (daysRemaining < 14) {
       console.log('Less than 14 days of puzzles remaining. Generating new puzzles...');
       
-      // Create a temporary config file to store the new start date
       const newStartDate = addDays(latestDate, 1); // Start one day after the last puzzle
-      const configPath = path.join(__dirname, 'temp-puzzle-config.json');
-      
-      fs.writeFileSync(
-        configPath,
-        JSON.stringify({
-          startDate: newStartDate.toISOString(),
-          daysToGenerate: 90
-        })
-      );
       
       // Run the puzzle generation script
-      await runPuzzleGenerator(newStartDate);
+      const generated = await runPuzzleGenerator(newStartDate);
       
-      // Clean up the temporary config file
-      fs.unlinkSync(configPath);
+      // The generator exits non-zero when the batch fails calendar validation
+      if (!generated) {
+        console.error('Puzzle generation failed. No new puzzles were published.');
+        return;
+      }
       
       console.log('Puzzle generation completed successfully!');
       console.log(`Next generation should be scheduled for around: ${format(addDays(newStartDate, 76), 'yyyy-MM-dd')} (14 days before puzzles run out)`);
@@ -98,15 +91,12 @@ async function checkAndGeneratePuzzles() {
 // Function to run the puzzle generator script with the new start date
 async function runPuzzleGenerator(startDate: Date) {
   try {
-    // Modify the environment variable for the start date
-    process.env.FUSDLE_START_DATE = startDate.toISOString();
-    
     // Run the puzzle generator script
     console.log(`Running puzzle generator starting from ${format(startDate, 'yyyy-MM-dd')}...`);
     
     // Create arguments for the generator script
-    const scriptPath = path.join(__dirname, 'generate-90-day-puzzles.ts');
-    const command = `npx tsx ${scriptPath} --startDate=${startDate.toISOString()} --days=90`;
+    const scriptPath = path.join(__dirname, 'generate-puzzles.ts');
+    const command = `npx tsx ${scriptPath} --from=${format(startDate, 'yyyy-MM-dd')} --days=90 --sink=firestore`;
     
     // Execute the command
     const { stdout, stderr } = await execAsync(command);
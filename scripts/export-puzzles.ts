@@ -0,0 +1,56 @@
+/**
+ * Fusdle Puzzle Export
+ * Writes every puzzle in the configured storage backend to a CSV or JSON
+ * file that can be edited in a spreadsheet and imported again with
+ * import-puzzles.ts.
+ *
+ * Usage:
+ *   npx tsx scripts/export-puzzles.ts [--out=puzzles.csv] [--format=csv|json]
+ *
+ * The format follows the --out extension, defaulting to JSON. Without --out
+ * the puzzles are printed to stdout.
+ */
+
+import * as fs from 'fs';
+import * as dotenv from 'dotenv';
+import { createRepository } from '../server/repository';
+import { exportPuzzles, loadAllPuzzles, puzzleFileFormat, type PuzzleFileFormat } from '../server/puzzle-transfer';
+
+// Load environment variables
+dotenv.config();
+
+// Read a --name=value argument
+function getArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.slice(2).find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+async function main() {
+  const out = getArg('out');
+  const format = getArg('format');
+
+  if (format && !['csv', 'json'].includes(format)) {
+    console.error('Usage: export-puzzles.ts [--out=<file>] [--format=csv|json]');
+    process.exit(2);
+  }
+
+  const puzzles = await loadAllPuzzles(await createRepository());
+  const output = exportPuzzles(
+    puzzles,
+    (format as PuzzleFileFormat | undefined) ?? (out ? puzzleFileFormat(out) : 'json')
+  );
+
+  if (out) {
+    fs.writeFileSync(out, output);
+    console.log(`Exported ${puzzles.length} puzzles to ${out}`);
+  } else {
+    process.stdout.write(output);
+  }
+
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('Error exporting puzzles:', error);
+  process.exit(2);
+});
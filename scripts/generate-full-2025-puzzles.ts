@@ -1,1009 +0,0 @@
-/**
- * Fusdle Puzzle Generator for the rest of 2025
- * This script generates puzzles from April 21, 2025 to December 31, 2025
- * Ensuring:
- * - Every day has 1 normal puzzle and 1 hard puzzle
- * - Fusion twist puzzles appear twice every 7 days
- */
-
-import { addDays, differenceInDays, format, setHours, setMinutes, setSeconds, setMilliseconds } from 'date-fns';
-import { initializeApp } from 'firebase/app';
-import { getFirestore, collection, doc, setDoc, deleteDoc, getDocs, query, orderBy, limit } from 'firebase/firestore';
-import { createOrderedEmojis } from '../server/ordered-emoji-generator';
-import * as dotenv from 'dotenv';
-
-// Load environment variables
-dotenv.config();
-
-// Firebase configuration
-const firebaseConfig = {
-  apiKey: process.env.VITE_FIREBASE_API_KEY,
-  authDomain: `${process.env.VITE_FIREBASE_PROJECT_ID}.firebaseapp.com`,
-  projectId: process.env.VITE_FIREBASE_PROJECT_ID,
-  storageBucket: `${process.env.VITE_FIREBASE_PROJECT_ID}.appspot.com`,
-  appId: process.env.VITE_FIREBASE_APP_ID
-};
-
-// Initialize Firebase
-const app = initializeApp(firebaseConfig);
-const db = getFirestore(app);
-const puzzlesCollection = collection(db, 'puzzles');
-
-// Set starting puzzle number - we'll determine this from the database
-let nextPuzzleNumber = 1;
-
-// Set start and end dates
-const START_DATE = new Date('2025-04-21T00:00:00.000Z');
-const END_DATE = new Date('2025-12-31T23:59:59.999Z');
-
-// Calculate the number of days
-const DAYS_TO_GENERATE = differenceInDays(END_DATE, START_DATE) + 1;
-
-// Configure time zone offset to match 4:00 AM UTC-4
-const TIME_ZONE_OFFSET = 4; // UTC-4 (Eastern Daylight Time)
-
-// Helper function to get a random integer
-function getRandomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
-// Helper function to get an ISO date string at 4:00 AM UTC-4
-function getDateStringAt4AM(date: Date): string {
-  // Set to 4:00 AM in UTC-4, which is 8:00 AM UTC
-  const dateAt4AM = setMilliseconds(setSeconds(setMinutes(setHours(date, 8), 0), 0), 0);
-  return dateAt4AM.toISOString();
-}
-
-// Helper function to get random item from array without repetition
-function getRandomUniqueItem<T>(items: T[], usedItems: Set<number>): [T, number] {
-  if (usedItems.size >= items.length) {
-    // Reset if all items have been used
-    usedItems.clear();
-  }
-  
-  let index: number;
-  do {
-    index = Math.floor(Math.random() * items.length);
-  } while (usedItems.has(index));
-  
-  usedItems.add(index);
-  return [items[index], index];
-}
-
-// Helper function to generate hints for a given answer
-function generateHints(answer: string): string[] {
-  const lowerAnswer = answer.toLowerCase();
-  
-  // Simple hint generation logic - could be made more sophisticated
-  const hints = [
-    `Starts with "${lowerAnswer.charAt(0)}"`,
-    `Has ${lowerAnswer.split(' ').length} word(s)`,
-    `Contains ${lowerAnswer.length} letters`
-  ];
-  
-  return hints;
-}
-
-// Predefined content banks for different puzzle types - these are expanded to have many more options
-const normalPuzzles = [
-  { answer: "Sunlight", difficulty: "normal" },
-  { answer: "Keyboard", difficulty: "normal" },
-  { answer: "Bicycle", difficulty: "normal" },
-  { answer: "Coffee Cup", difficulty: "normal" },
-  { answer: "Window View", difficulty: "normal" },
-  { answer: "Book Club", difficulty: "normal" },
-  { answer: "Ocean Wave", difficulty: "normal" },
-  { answer: "Guitar Solo", difficulty: "normal" },
-  { answer: "Night Sky", difficulty: "normal" },
-  { answer: "Raincoat", difficulty: "normal" },
-  { answer: "Train Station", difficulty: "normal" },
-  { answer: "Breakfast", difficulty: "normal" },
-  { answer: "Headphones", difficulty: "normal" },
-  { answer: "Garden Path", difficulty: "normal" },
-  { answer: "Digital Camera", difficulty: "normal" },
-  { answer: "Desk Lamp", difficulty: "normal" },
-  { answer: "Board Game", difficulty: "normal" },
-  { answer: "Cupcake", difficulty: "normal" },
-  { answer: "Wallet", difficulty: "normal" },
-  { answer: "Smartphone", difficulty: "normal" },
-  { answer: "Shopping List", difficulty: "normal" },
-  { answer: "Door Handle", difficulty: "normal" },
-  { answer: "Running Shoes", difficulty: "normal" },
-  { answer: "Paper Clip", difficulty: "normal" },
-  { answer: "Tree Shade", difficulty: "normal" },
-  { answer: "Sun Hat", difficulty: "normal" },
-  { answer: "Ball Game", difficulty: "normal" },
-  { answer: "Dance Floor", difficulty: "normal" },
-  { answer: "Movie Time", difficulty: "normal" },
-  { answer: "Backpack", difficulty: "normal" },
-  { answer: "Sunshine", difficulty: "normal" },
-  { answer: "Pencil Case", difficulty: "normal" },
-  { answer: "Mail Box", difficulty: "normal" },
-  { answer: "Lunch Break", difficulty: "normal" },
-  { answer: "Gift Card", difficulty: "normal" },
-  { answer: "Bus Stop", difficulty: "normal" },
-  { answer: "Water Bottle", difficulty: "normal" },
-  { answer: "Alarm Clock", difficulty: "normal" },
-  { answer: "Toothbrush", difficulty: "normal" },
-  { answer: "Wall Picture", difficulty: "normal" },
-  { answer: "Time Travel", difficulty: "normal" },
-  { answer: "Dog Walk", difficulty: "normal" },
-  { answer: "Beach Day", difficulty: "normal" },
-  { answer: "Snow Fall", difficulty: "normal" },
-  { answer: "City Lights", difficulty: "normal" },
-  { answer: "Apple Pie", difficulty: "normal" },
-  { answer: "Key Chain", difficulty: "normal" },
-  { answer: "Star Gaze", difficulty: "normal" },
-  { answer: "Book Mark", difficulty: "normal" },
-  { answer: "Map Search", difficulty: "normal" },
-  { answer: "Bird Song", difficulty: "normal" },
-  { answer: "Fish Bowl", difficulty: "normal" },
-  { answer: "Home Office", difficulty: "normal" },
-  { answer: "Cat Nap", difficulty: "normal" },
-  { answer: "Voice Mail", difficulty: "normal" },
-  { answer: "Wind Chime", difficulty: "normal" },
-  { answer: "Tea Time", difficulty: "normal" },
-  { answer: "Bike Ride", difficulty: "normal" },
-  { answer: "Hand Shake", difficulty: "normal" },
-  { answer: "Road Trip", difficulty: "normal" },
-  { answer: "Day Dream", difficulty: "normal" },
-  { answer: "Bell Ring", difficulty: "normal" },
-  { answer: "Hair Cut", difficulty: "normal" },
-  { answer: "Pool Party", difficulty: "normal" },
-  { answer: "Bread Loaf", difficulty: "normal" },
-  { answer: "Cool Breeze", difficulty: "normal" },
-  { answer: "Farm House", difficulty: "normal" },
-  { answer: "Fresh Start", difficulty: "normal" },
-  { answer: "Game Night", difficulty: "normal" },
-  { answer: "Hand Wash", difficulty: "normal" },
-  { answer: "Ice Cream", difficulty: "normal" },
-  { answer: "Juice Box", difficulty: "normal" },
-  { answer: "Kitchen Sink", difficulty: "normal" },
-  { answer: "Laptop Case", difficulty: "normal" },
-  { answer: "Morning Walk", difficulty: "normal" },
-  { answer: "New Shoes", difficulty: "normal" },
-  { answer: "Old Books", difficulty: "normal" },
-  { answer: "Park Bench", difficulty: "normal" },
-  { answer: "Quick Lunch", difficulty: "normal" },
-  { answer: "Rain Boots", difficulty: "normal" },
-  { answer: "Smart Watch", difficulty: "normal" },
-  { answer: "Table Lamp", difficulty: "normal" },
-  { answer: "Umbrella Stand", difficulty: "normal" },
-  { answer: "Video Call", difficulty: "normal" },
-  { answer: "Warm Socks", difficulty: "normal" },
-  { answer: "Yoga Mat", difficulty: "normal" },
-  { answer: "Zoo Visit", difficulty: "normal" },
-  { answer: "Art Class", difficulty: "normal" },
-  { answer: "Bath Towel", difficulty: "normal" },
-  { answer: "Clean Dish", difficulty: "normal" },
-  { answer: "Desk Chair", difficulty: "normal" },
-  { answer: "Evening News", difficulty: "normal" },
-  { answer: "Food Truck", difficulty: "normal" },
-  { answer: "Glass Door", difficulty: "normal" },
-  { answer: "House Plant", difficulty: "normal" },
-  { answer: "Iron Skillet", difficulty: "normal" },
-  { answer: "Jam Jar", difficulty: "normal" },
-  { answer: "Kite Flying", difficulty: "normal" },
-  { answer: "Lawn Mower", difficulty: "normal" },
-  { answer: "Music Box", difficulty: "normal" },
-  { answer: "Night Light", difficulty: "normal" },
-  { answer: "Oil Change", difficulty: "normal" },
-  { answer: "Plant Pot", difficulty: "normal" },
-  { answer: "Quiet Room", difficulty: "normal" },
-  { answer: "Rice Bowl", difficulty: "normal" },
-  { answer: "Soup Spoon", difficulty: "normal" },
-  { answer: "TV Remote", difficulty: "normal" },
-  { answer: "Under Bed", difficulty: "normal" },
-  { answer: "Vase Flower", difficulty: "normal" },
-  { answer: "Wool Sweater", difficulty: "normal" },
-  { answer: "X Ray Film", difficulty: "normal" },
-  { answer: "Yard Work", difficulty: "normal" },
-  { answer: "Zip Line", difficulty: "normal" },
-  { answer: "Air Fryer", difficulty: "normal" },
-  { answer: "Book Shelf", difficulty: "normal" },
-  { answer: "Cookie Jar", difficulty: "normal" },
-  { answer: "Door Bell", difficulty: "normal" },
-  { answer: "Egg Timer", difficulty: "normal" },
-  { answer: "Foam Roller", difficulty: "normal" },
-  { answer: "Gold Watch", difficulty: "normal" },
-  { answer: "Hair Brush", difficulty: "normal" },
-  { answer: "Ice Bucket", difficulty: "normal" },
-  { answer: "Jam Toast", difficulty: "normal" },
-  { answer: "Kids Room", difficulty: "normal" },
-  { answer: "Lamp Light", difficulty: "normal" },
-  { answer: "Milk Carton", difficulty: "normal" },
-  { answer: "Note Pad", difficulty: "normal" },
-  { answer: "Oven Mitt", difficulty: "normal" },
-  { answer: "Phone Call", difficulty: "normal" },
-  { answer: "Quilt Cover", difficulty: "normal" },
-  { answer: "Rain Coat", difficulty: "normal" },
-  { answer: "Salt Shaker", difficulty: "normal" },
-  { answer: "Tea Kettle", difficulty: "normal" },
-  { answer: "USB Cable", difficulty: "normal" },
-  { answer: "Vase Stand", difficulty: "normal" },
-  { answer: "Wood Table", difficulty: "normal" },
-  { answer: "Yoga Class", difficulty: "normal" },
-  { answer: "Zoom Meeting", difficulty: "normal" },
-  { answer: "Art Gallery", difficulty: "normal" },
-  { answer: "Bike Trail", difficulty: "normal" },
-  { answer: "Cake Slice", difficulty: "normal" },
-  { answer: "Dish Soap", difficulty: "normal" },
-  { answer: "Egg Salad", difficulty: "normal" },
-  { answer: "Fish Tank", difficulty: "normal" },
-  { answer: "Gift Wrap", difficulty: "normal" },
-  { answer: "Hot Cocoa", difficulty: "normal" },
-  { answer: "Ink Pen", difficulty: "normal" },
-  { answer: "Jam Session", difficulty: "normal" },
-  { answer: "Kids Movie", difficulty: "normal" },
-  { answer: "Lake View", difficulty: "normal" },
-  { answer: "Moon Light", difficulty: "normal" },
-  { answer: "News Feed", difficulty: "normal" },
-  { answer: "Olive Oil", difficulty: "normal" },
-  { answer: "Pizza Box", difficulty: "normal" },
-  { answer: "Quiz Show", difficulty: "normal" },
-  { answer: "Road Map", difficulty: "normal" },
-  { answer: "Sun Glasses", difficulty: "normal" },
-  { answer: "Tool Box", difficulty: "normal" },
-  { answer: "Used Book", difficulty: "normal" },
-  { answer: "Video Game", difficulty: "normal" },
-  { answer: "Wine Glass", difficulty: "normal" },
-  { answer: "Xmas Tree", difficulty: "normal" },
-  { answer: "Yard Sale", difficulty: "normal" },
-  { answer: "Zoo Keeper", difficulty: "normal" },
-  { answer: "Arm Chair", difficulty: "normal" },
-  { answer: "Bird House", difficulty: "normal" },
-  { answer: "Car Radio", difficulty: "normal" },
-  { answer: "Dish Rack", difficulty: "normal" },
-  { answer: "Eye Drops", difficulty: "normal" },
-  { answer: "Family Photo", difficulty: "normal" },
-  { answer: "Golf Club", difficulty: "normal" },
-  { answer: "Hat Rack", difficulty: "normal" },
-  { answer: "Ice Skate", difficulty: "normal" },
-  { answer: "Jump Rope", difficulty: "normal" },
-  { answer: "Kite String", difficulty: "normal" },
-  { answer: "Lamp Shade", difficulty: "normal" },
-  { answer: "Mail Slot", difficulty: "normal" },
-  { answer: "News Paper", difficulty: "normal" },
-  { answer: "Oven Door", difficulty: "normal" },
-  { answer: "Paint Brush", difficulty: "normal" },
-  { answer: "Quilt Stitch", difficulty: "normal" },
-  { answer: "Rock Garden", difficulty: "normal" },
-  { answer: "Swim Lane", difficulty: "normal" },
-  { answer: "Tent Pole", difficulty: "normal" },
-  { answer: "USB Drive", difficulty: "normal" },
-  { answer: "Vest Pocket", difficulty: "normal" },
-  { answer: "Wall Clock", difficulty: "normal" },
-  { answer: "Yarn Ball", difficulty: "normal" },
-  { answer: "Zip Code", difficulty: "normal" },
-  { answer: "Award Show", difficulty: "normal" },
-  { answer: "Bath Robe", difficulty: "normal" }
-];
-
-const hardPuzzles = [
-  { answer: "Quantum Physics", difficulty: "hard" },
-  { answer: "Artificial Intelligence", difficulty: "hard" },
-  { answer: "Molecular Gastronomy", difficulty: "hard" },
-  { answer: "Constitutional Amendment", difficulty: "hard" },
-  { answer: "Interstellar Nebula", difficulty: "hard" },
-  { answer: "Archaeological Excavation", difficulty: "hard" },
-  { answer: "Photosynthesis Process", difficulty: "hard" },
-  { answer: "Neuroscience Research", difficulty: "hard" },
-  { answer: "Cryptocurrency Exchange", difficulty: "hard" },
-  { answer: "Renewable Energy Sources", difficulty: "hard" },
-  { answer: "Biodiversity Conservation", difficulty: "hard" },
-  { answer: "International Relations", difficulty: "hard" },
-  { answer: "Statistical Analysis", difficulty: "hard" },
-  { answer: "Philosophical Debate", difficulty: "hard" },
-  { answer: "Machine Learning Algorithm", difficulty: "hard" },
-  { answer: "Linguistic Anthropology", difficulty: "hard" },
-  { answer: "Biochemical Reaction", difficulty: "hard" },
-  { answer: "Cybersecurity Protocol", difficulty: "hard" },
-  { answer: "Economic Forecasting", difficulty: "hard" },
-  { answer: "Geopolitical Strategy", difficulty: "hard" },
-  { answer: "Psychological Experiment", difficulty: "hard" },
-  { answer: "Architectural Innovation", difficulty: "hard" },
-  { answer: "Sustainable Development", difficulty: "hard" },
-  { answer: "Theoretical Framework", difficulty: "hard" },
-  { answer: "Historical Perspective", difficulty: "hard" },
-  { answer: "Manufacturing Process", difficulty: "hard" },
-  { answer: "Environmental Impact", difficulty: "hard" },
-  { answer: "Educational Reform", difficulty: "hard" },
-  { answer: "Virtual Reality Experience", difficulty: "hard" },
-  { answer: "Global Pandemic Response", difficulty: "hard" },
-  { answer: "Legal Jurisprudence", difficulty: "hard" },
-  { answer: "Critical Infrastructure", difficulty: "hard" },
-  { answer: "Financial Investment", difficulty: "hard" },
-  { answer: "Evolutionary Biology", difficulty: "hard" },
-  { answer: "Diplomatic Relations", difficulty: "hard" },
-  { answer: "Digital Transformation", difficulty: "hard" },
-  { answer: "Ethical Consideration", difficulty: "hard" },
-  { answer: "Cognitive Development", difficulty: "hard" },
-  { answer: "Geological Formation", difficulty: "hard" },
-  { answer: "Agricultural Innovation", difficulty: "hard" },
-  { answer: "Mechanical Engineering", difficulty: "hard" },
-  { answer: "Cultural Anthropology", difficulty: "hard" },
-  { answer: "Mathematical Equation", difficulty: "hard" },
-  { answer: "Political Campaign", difficulty: "hard" },
-  { answer: "Industrial Revolution", difficulty: "hard" },
-  { answer: "Astronomical Observation", difficulty: "hard" },
-  { answer: "Behavioral Economics", difficulty: "hard" },
-  { answer: "Pharmaceutical Research", difficulty: "hard" },
-  { answer: "Meteorological Forecast", difficulty: "hard" },
-  { answer: "Transportation Infrastructure", difficulty: "hard" },
-  { answer: "Sociological Perspective", difficulty: "hard" },
-  { answer: "Technological Innovation", difficulty: "hard" },
-  { answer: "Corporate Strategy", difficulty: "hard" },
-  { answer: "Creative Expression", difficulty: "hard" },
-  { answer: "Scientific Method", difficulty: "hard" },
-  { answer: "Healthcare Management", difficulty: "hard" },
-  { answer: "Athletic Performance", difficulty: "hard" },
-  { answer: "Nutritional Guidelines", difficulty: "hard" },
-  { answer: "Theatrical Production", difficulty: "hard" },
-  { answer: "Commercial Transaction", difficulty: "hard" },
-  { answer: "Musical Composition", difficulty: "hard" },
-  { answer: "Historical Documentation", difficulty: "hard" },
-  { answer: "Geographical Exploration", difficulty: "hard" },
-  { answer: "International Diplomacy", difficulty: "hard" },
-  { answer: "Psychological Assessment", difficulty: "hard" },
-  { answer: "Mechanical Automation", difficulty: "hard" },
-  { answer: "Electronic Communication", difficulty: "hard" },
-  { answer: "Educational Curriculum", difficulty: "hard" },
-  { answer: "Medical Diagnosis", difficulty: "hard" },
-  { answer: "Regulatory Compliance", difficulty: "hard" },
-  { answer: "Cosmological Expansion", difficulty: "hard" },
-  { answer: "Neurological Pathways", difficulty: "hard" },
-  { answer: "Quantum Entanglement", difficulty: "hard" },
-  { answer: "Algorithmic Complexity", difficulty: "hard" },
-  { answer: "Biomechanical Engineering", difficulty: "hard" },
-  { answer: "Computational Linguistics", difficulty: "hard" },
-  { answer: "Developmental Psychology", difficulty: "hard" },
-  { answer: "Electrochemical Reaction", difficulty: "hard" },
-  { answer: "Fundamental Principles", difficulty: "hard" },
-  { answer: "Geometric Proportions", difficulty: "hard" },
-  { answer: "Hydrological Processes", difficulty: "hard" },
-  { answer: "Immunological Response", difficulty: "hard" },
-  { answer: "Jurisprudential Theory", difficulty: "hard" },
-  { answer: "Kinematic Equations", difficulty: "hard" },
-  { answer: "Lithospheric Plates", difficulty: "hard" },
-  { answer: "Meteorological Systems", difficulty: "hard" },
-  { answer: "Neurochemical Transmission", difficulty: "hard" },
-  { answer: "Organizational Hierarchy", difficulty: "hard" },
-  { answer: "Paleontological Discovery", difficulty: "hard" },
-  { answer: "Quantum Field Theory", difficulty: "hard" },
-  { answer: "Retrospective Analysis", difficulty: "hard" },
-  { answer: "Socioeconomic Patterns", difficulty: "hard" },
-  { answer: "Thermodynamic Equilibrium", difficulty: "hard" },
-  { answer: "Ultrastructural Components", difficulty: "hard" },
-  { answer: "Virtualization Technology", difficulty: "hard" },
-  { answer: "Wavelength Modulation", difficulty: "hard" },
-  { answer: "Xenobiotic Metabolism", difficulty: "hard" },
-  { answer: "Zoological Classification", difficulty: "hard" },
-  { answer: "Anthropological Research", difficulty: "hard" },
-  { answer: "Biomedical Engineering", difficulty: "hard" },
-  { answer: "Crystallographic Structure", difficulty: "hard" },
-  { answer: "Demographic Transition", difficulty: "hard" },
-  { answer: "Ecological Restoration", difficulty: "hard" },
-  { answer: "Forensic Investigation", difficulty: "hard" },
-  { answer: "Gravitational Potential", difficulty: "hard" },
-  { answer: "Hydroponic Cultivation", difficulty: "hard" },
-  { answer: "Indigenous Preservation", difficulty: "hard" },
-  { answer: "Journalistic Integrity", difficulty: "hard" },
-  { answer: "Kinesthetic Awareness", difficulty: "hard" },
-  { answer: "Lexicographical Arrangement", difficulty: "hard" },
-  { answer: "Metamorphic Transition", difficulty: "hard" },
-  { answer: "Neoclassical Architecture", difficulty: "hard" },
-  { answer: "Operational Excellence", difficulty: "hard" },
-  { answer: "Physiological Adaptation", difficulty: "hard" },
-  { answer: "Qualitative Assessment", difficulty: "hard" },
-  { answer: "Radiometric Dating", difficulty: "hard" },
-  { answer: "Systematic Evaluation", difficulty: "hard" },
-  { answer: "Technological Convergence", difficulty: "hard" },
-  { answer: "Urban Infrastructure", difficulty: "hard" },
-  { answer: "Vaccination Protocol", difficulty: "hard" },
-  { answer: "Watershed Management", difficulty: "hard" },
-  { answer: "Xenolinguistic Studies", difficulty: "hard" },
-  { answer: "Yield Optimization", difficulty: "hard" },
-  { answer: "Zoomorphic Symbolism", difficulty: "hard" },
-  { answer: "Astronomical Phenomena", difficulty: "hard" },
-  { answer: "Biochemical Pathway", difficulty: "hard" },
-  { answer: "Constitutional Convention", difficulty: "hard" },
-  { answer: "Diplomatic Negotiations", difficulty: "hard" },
-  { answer: "Electroencephalography", difficulty: "hard" },
-  { answer: "Fibonacci Sequence", difficulty: "hard" },
-  { answer: "Geospatial Analysis", difficulty: "hard" },
-  { answer: "Hydrodynamic Principles", difficulty: "hard" },
-  { answer: "Immunocompromised System", difficulty: "hard" },
-  { answer: "Juxtaposition Technique", difficulty: "hard" },
-  { answer: "Kaleidoscopic Pattern", difficulty: "hard" },
-  { answer: "Logarithmic Scaling", difficulty: "hard" },
-  { answer: "Multidisciplinary Approach", difficulty: "hard" },
-  { answer: "Neurotransmitter Function", difficulty: "hard" },
-  { answer: "Organizational Psychology", difficulty: "hard" },
-  { answer: "Poststructuralist Theory", difficulty: "hard" },
-  { answer: "Quantitative Research", difficulty: "hard" },
-  { answer: "Recombinant Technology", difficulty: "hard" },
-  { answer: "Superconducting Material", difficulty: "hard" },
-  { answer: "Transcendental Meditation", difficulty: "hard" },
-  { answer: "Universal Healthcare", difficulty: "hard" },
-  { answer: "Vibrational Frequency", difficulty: "hard" },
-  { answer: "Waveform Synthesis", difficulty: "hard" },
-  { answer: "Xerographic Process", difficulty: "hard" },
-  { answer: "Yellowstone Ecosystem", difficulty: "hard" },
-  { answer: "Zymurgical Process", difficulty: "hard" }
-];
-
-const fusionPuzzles = [
-  { 
-    answer: "Brunch", 
-    isFusionTwist: 1,
-    twistType: "Word Fusion",
-    hint: "breakfast + lunch" 
-  },
-  { 
-    answer: "Spork", 
-    isFusionTwist: 1,
-    twistType: "Object Fusion",
-    hint: "spoon + fork" 
-  },
-  { 
-    answer: "Liger", 
-    isFusionTwist: 1,
-    twistType: "Animal Fusion",
-    hint: "lion + tiger" 
-  },
-  { 
-    answer: "Smog", 
-    isFusionTwist: 1,
-    twistType: "Environment Fusion",
-    hint: "smoke + fog" 
-  },
-  { 
-    answer: "Motel", 
-    isFusionTwist: 1,
-    twistType: "Building Fusion",
-    hint: "motor + hotel" 
-  },
-  { 
-    answer: "Podcast", 
-    isFusionTwist: 1,
-    twistType: "Media Fusion",
-    hint: "iPod + broadcast" 
-  },
-  { 
-    answer: "Dramedy", 
-    isFusionTwist: 1,
-    twistType: "Genre Fusion",
-    hint: "drama + comedy" 
-  },
-  { 
-    answer: "Cronut", 
-    isFusionTwist: 1,
-    twistType: "Food Fusion",
-    hint: "croissant + donut" 
-  },
-  { 
-    answer: "Chortle", 
-    isFusionTwist: 1,
-    twistType: "Sound Fusion",
-    hint: "chuckle + snort" 
-  },
-  { 
-    answer: "Sitcom", 
-    isFusionTwist: 1,
-    twistType: "TV Fusion",
-    hint: "situation + comedy" 
-  },
-  { 
-    answer: "Workaholic", 
-    isFusionTwist: 1,
-    twistType: "Behavior Fusion",
-    hint: "work + alcoholic" 
-  },
-  { 
-    answer: "Staycation", 
-    isFusionTwist: 1,
-    twistType: "Travel Fusion",
-    hint: "stay + vacation" 
-  },
-  { 
-    answer: "Mocktail", 
-    isFusionTwist: 1,
-    twistType: "Drink Fusion",
-    hint: "mock + cocktail" 
-  },
-  { 
-    answer: "Webinar", 
-    isFusionTwist: 1,
-    twistType: "Education Fusion",
-    hint: "web + seminar" 
-  },
-  { 
-    answer: "Cosplay", 
-    isFusionTwist: 1,
-    twistType: "Entertainment Fusion",
-    hint: "costume + play" 
-  },
-  { 
-    answer: "Biopic", 
-    isFusionTwist: 1,
-    twistType: "Movie Fusion",
-    hint: "biographical + picture" 
-  },
-  { 
-    answer: "Infomercial", 
-    isFusionTwist: 1,
-    twistType: "Advertising Fusion",
-    hint: "information + commercial" 
-  },
-  { 
-    answer: "Emoticon", 
-    isFusionTwist: 1,
-    twistType: "Digital Fusion",
-    hint: "emotion + icon" 
-  },
-  { 
-    answer: "Netiquette", 
-    isFusionTwist: 1,
-    twistType: "Internet Fusion",
-    hint: "internet + etiquette" 
-  },
-  { 
-    answer: "Glamping", 
-    isFusionTwist: 1,
-    twistType: "Lifestyle Fusion",
-    hint: "glamorous + camping" 
-  },
-  { 
-    answer: "Jeggings", 
-    isFusionTwist: 1,
-    twistType: "Fashion Fusion",
-    hint: "jeans + leggings" 
-  },
-  { 
-    answer: "Cyberpunk", 
-    isFusionTwist: 1,
-    twistType: "Culture Fusion",
-    hint: "cybernetics + punk" 
-  },
-  { 
-    answer: "Telemedicine", 
-    isFusionTwist: 1,
-    twistType: "Healthcare Fusion",
-    hint: "telecommunications + medicine" 
-  },
-  { 
-    answer: "Hangry", 
-    isFusionTwist: 1,
-    twistType: "Emotion Fusion",
-    hint: "hungry + angry" 
-  },
-  { 
-    answer: "Edutainment", 
-    isFusionTwist: 1,
-    twistType: "Content Fusion",
-    hint: "education + entertainment" 
-  },
-  { 
-    answer: "Frankenfood", 
-    isFusionTwist: 1,
-    twistType: "Cuisine Fusion",
-    hint: "Frankenstein + food" 
-  },
-  { 
-    answer: "Bromance", 
-    isFusionTwist: 1,
-    twistType: "Relationship Fusion",
-    hint: "brother + romance" 
-  },
-  { 
-    answer: "Frenemy", 
-    isFusionTwist: 1,
-    twistType: "Social Fusion",
-    hint: "friend + enemy" 
-  },
-  { 
-    answer: "Chillax", 
-    isFusionTwist: 1,
-    twistType: "Action Fusion",
-    hint: "chill + relax" 
-  },
-  { 
-    answer: "Affluenza", 
-    isFusionTwist: 1,
-    twistType: "Society Fusion",
-    hint: "affluence + influenza" 
-  },
-  { 
-    answer: "Hackathon", 
-    isFusionTwist: 1,
-    twistType: "Tech Fusion",
-    hint: "hack + marathon" 
-  },
-  { 
-    answer: "Ginormous", 
-    isFusionTwist: 1,
-    twistType: "Size Fusion",
-    hint: "gigantic + enormous" 
-  },
-  { 
-    answer: "Kidult", 
-    isFusionTwist: 1,
-    twistType: "Age Fusion",
-    hint: "kid + adult" 
-  },
-  { 
-    answer: "Shopaholic", 
-    isFusionTwist: 1,
-    twistType: "Habit Fusion",
-    hint: "shopping + alcoholic" 
-  },
-  { 
-    answer: "Guesstimate", 
-    isFusionTwist: 1,
-    twistType: "Calculation Fusion",
-    hint: "guess + estimate" 
-  },
-  { 
-    answer: "Screenager", 
-    isFusionTwist: 1,
-    twistType: "Generation Fusion",
-    hint: "screen + teenager" 
-  },
-  { 
-    answer: "Metrosexual", 
-    isFusionTwist: 1,
-    twistType: "Identity Fusion",
-    hint: "metropolitan + heterosexual" 
-  },
-  { 
-    answer: "Jazzercise", 
-    isFusionTwist: 1,
-    twistType: "Fitness Fusion",
-    hint: "jazz + exercise" 
-  },
-  { 
-    answer: "Chocoholic", 
-    isFusionTwist: 1,
-    twistType: "Food Fusion",
-    hint: "chocolate + alcoholic" 
-  },
-  { 
-    answer: "Bootylicious", 
-    isFusionTwist: 1,
-    twistType: "Appearance Fusion",
-    hint: "booty + delicious" 
-  },
-  { 
-    answer: "Carjacking", 
-    isFusionTwist: 1,
-    twistType: "Crime Fusion",
-    hint: "car + hijacking" 
-  },
-  { 
-    answer: "Skort", 
-    isFusionTwist: 1,
-    twistType: "Clothing Fusion",
-    hint: "skirt + shorts" 
-  },
-  { 
-    answer: "Vlog", 
-    isFusionTwist: 1,
-    twistType: "Media Fusion",
-    hint: "video + blog" 
-  },
-  { 
-    answer: "Malware", 
-    isFusionTwist: 1,
-    twistType: "Computer Fusion",
-    hint: "malicious + software" 
-  },
-  { 
-    answer: "Freemium", 
-    isFusionTwist: 1,
-    twistType: "Business Fusion",
-    hint: "free + premium" 
-  },
-  { 
-    answer: "Pixel", 
-    isFusionTwist: 1,
-    twistType: "Tech Fusion",
-    hint: "picture + element" 
-  },
-  { 
-    answer: "Brexit", 
-    isFusionTwist: 1,
-    twistType: "Political Fusion",
-    hint: "Britain + exit" 
-  },
-  { 
-    answer: "Athleisure", 
-    isFusionTwist: 1,
-    twistType: "Fashion Fusion",
-    hint: "athletic + leisure" 
-  },
-  { 
-    answer: "Turducken", 
-    isFusionTwist: 1,
-    twistType: "Food Fusion",
-    hint: "turkey + duck + chicken" 
-  },
-  { 
-    answer: "Rockumentary", 
-    isFusionTwist: 1,
-    twistType: "Film Fusion",
-    hint: "rock + documentary" 
-  },
-  { 
-    answer: "Gaydar", 
-    isFusionTwist: 1,
-    twistType: "Ability Fusion",
-    hint: "gay + radar" 
-  },
-  { 
-    answer: "Telethon", 
-    isFusionTwist: 1,
-    twistType: "Event Fusion",
-    hint: "television + marathon" 
-  },
-  { 
-    answer: "Flexitarian", 
-    isFusionTwist: 1,
-    twistType: "Diet Fusion",
-    hint: "flexible + vegetarian" 
-  },
-  { 
-    answer: "Bollywood", 
-    isFusionTwist: 1,
-    twistType: "Cinema Fusion",
-    hint: "Bombay + Hollywood" 
-  },
-  { 
-    answer: "Animatronic", 
-    isFusionTwist: 1,
-    twistType: "Technology Fusion",
-    hint: "animated + electronic" 
-  },
-  { 
-    answer: "Televangelist", 
-    isFusionTwist: 1,
-    twistType: "Religion Fusion",
-    hint: "television + evangelist" 
-  },
-  { 
-    answer: "Automagically", 
-    isFusionTwist: 1,
-    twistType: "Process Fusion",
-    hint: "automatic + magically" 
-  },
-  { 
-    answer: "Tanzanite", 
-    isFusionTwist: 1,
-    twistType: "Mineral Fusion",
-    hint: "Tanzania + azurite" 
-  },
-  { 
-    answer: "Camcorder", 
-    isFusionTwist: 1,
-    twistType: "Device Fusion",
-    hint: "camera + recorder" 
-  },
-  { 
-    answer: "Tofurkey", 
-    isFusionTwist: 1,
-    twistType: "Food Fusion",
-    hint: "tofu + turkey" 
-  },
-  { 
-    answer: "Cyborg", 
-    isFusionTwist: 1,
-    twistType: "Being Fusion",
-    hint: "cybernetic + organism" 
-  }
-];
-
-// Track used puzzles to avoid duplicates
-const usedNormalIndexes = new Set<number>();
-const usedHardIndexes = new Set<number>();
-const usedFusionIndexes = new Set<number>();
-
-// Function to find highest puzzle number
-async function getStartingPuzzleNumber() {
-  try {
-    const latestPuzzlesQuery = query(
-      puzzlesCollection,
-      orderBy("puzzleNumber", "desc"),
-      limit(1)
-    );
-    
-    const latestPuzzlesSnapshot = await getDocs(latestPuzzlesQuery);
-    
-    if (!latestPuzzlesSnapshot.empty) {
-      const latestPuzzle = latestPuzzlesSnapshot.docs[0].data();
-      return latestPuzzle.puzzleNumber + 1;
-    }
-    
-    return 1; // If no puzzles exist, start from 1
-  } catch (error) {
-    console.error("Error finding highest puzzle number:", error);
-    return 1;
-  }
-}
-
-// Generate an array of puzzles for the desired number of days
-async function generatePuzzles() {
-  // Get the current highest puzzle number
-  nextPuzzleNumber = await getStartingPuzzleNumber();
-  
-  console.log(`Starting puzzle generation for ${DAYS_TO_GENERATE} days...`);
-  console.log(`Starting from date: ${START_DATE.toISOString()}`);
-  console.log(`Next puzzle number: ${nextPuzzleNumber}`);
-  
-  const allPuzzles = [];
-  
-  // Weekly distribution of fusion puzzles - every week will have 2 fusion puzzles
-  for (let week = 0; week < Math.ceil(DAYS_TO_GENERATE / 7); week++) {
-    // Select 2 random days in this week for fusion puzzles
-    const fusionDays = new Set<number>();
-    while (fusionDays.size < 2) {
-      const randomDay = getRandomInt(0, 6);
-      fusionDays.add(randomDay);
-    }
-    
-    // Process each day in the week
-    for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek++) {
-      const currentDayIndex = week * 7 + dayOfWeek;
-      if (currentDayIndex >= DAYS_TO_GENERATE) break;
-      
-      const currentDate = addDays(START_DATE, currentDayIndex);
-      const dateString = getDateStringAt4AM(currentDate);
-      
-      // Create a normal puzzle for this day
-      const [normalPuzzle, normalIndex] = getRandomUniqueItem(normalPuzzles, usedNormalIndexes);
-      const normalEmojis = createOrderedEmojis(normalPuzzle.answer);
-      const normalHints = generateHints(normalPuzzle.answer);
-      const normalWordCount = normalPuzzle.answer.trim().split(/\s+/).length;
-      
-      const normalPuzzleObj = {
-        puzzleNumber: nextPuzzleNumber++,
-        date: dateString,
-        difficulty: "normal",
-        emojis: normalEmojis,
-        answer: normalPuzzle.answer,
-        hints: normalHints,
-        isFusionTwist: 0,
-        twistType: null,
-        wordCount: normalWordCount
-      };
-      
-      allPuzzles.push(normalPuzzleObj);
-      console.log(`Created Normal puzzle for ${format(currentDate, 'yyyy-MM-dd')} (${normalPuzzle.answer})`);
-      
-      // Determine if this is a fusion day
-      const isFusionDay = fusionDays.has(dayOfWeek);
-      
-      if (isFusionDay) {
-        // Create a fusion puzzle on this day (for hard difficulty)
-        const [fusionPuzzle, fusionIndex] = getRandomUniqueItem(fusionPuzzles, usedFusionIndexes);
-        
-        // Generate hints
-        const hints = [
-          fusionPuzzle.hint,
-          `Fusion of words or concepts`,
-          `Twist type: ${fusionPuzzle.twistType}`
-        ];
-        
-        // Create emojis that logically match the answer
-        const emojis = createOrderedEmojis(fusionPuzzle.answer);
-        
-        // Calculate word count
-        const wordCount = fusionPuzzle.answer.trim().split(/\s+/).length;
-        
-        // Create fusion puzzle
-        const fusionPuzzleObj = {
-          puzzleNumber: nextPuzzleNumber++,
-          date: dateString,
-          difficulty: "hard", // Always make fusion puzzles the hard puzzle for that day
-          emojis,
-          answer: fusionPuzzle.answer,
-          hints,
-          isFusionTwist: 1,
-          twistType: fusionPuzzle.twistType,
-          wordCount
-        };
-        
-        allPuzzles.push(fusionPuzzleObj);
-        console.log(`Created Fusion Twist puzzle for ${format(currentDate, 'yyyy-MM-dd')} (${fusionPuzzle.answer})`);
-      } else {
-        // Create a regular hard puzzle for this day
-        const [hardPuzzle, hardIndex] = getRandomUniqueItem(hardPuzzles, usedHardIndexes);
-        const hardEmojis = createOrderedEmojis(hardPuzzle.answer);
-        const hardHints = generateHints(hardPuzzle.answer);
-        const hardWordCount = hardPuzzle.answer.trim().split(/\s+/).length;
-        
-        const hardPuzzleObj = {
-          puzzleNumber: nextPuzzleNumber++,
-          date: dateString,
-          difficulty: "hard",
-          emojis: hardEmojis,
-          answer: hardPuzzle.answer,
-          hints: hardHints,
-          isFusionTwist: 0,
-          twistType: null,
-          wordCount: hardWordCount
-        };
-        
-        allPuzzles.push(hardPuzzleObj);
-        console.log(`Created Hard puzzle for ${format(currentDate, 'yyyy-MM-dd')} (${hardPuzzle.answer})`);
-      }
-    }
-  }
-  
-  return allPuzzles;
-}
-
-// Function to upload puzzles to Firestore
-async function uploadPuzzlesToFirestore(puzzles: any[]) {
-  console.log(`Uploading ${puzzles.length} puzzles to Firestore...`);
-  
-  const batch = [];
-  for (const puzzle of puzzles) {
-    const docId = `puzzle_${puzzle.puzzleNumber}_${puzzle.difficulty}`;
-    batch.push(
-      setDoc(doc(puzzlesCollection, docId), {
-        ...puzzle,
-        date: new Date(puzzle.date) // Convert string to Firestore timestamp
-      })
-    );
-  }
-  
-  await Promise.all(batch);
-  console.log('All puzzles uploaded successfully!');
-}
-
-// Main function to run the script
-async function main() {
-  try {
-    console.log('Starting Fusdle puzzle generator for the rest of 2025...');
-    console.log(`Will generate puzzles from ${format(START_DATE, 'yyyy-MM-dd')} to ${format(END_DATE, 'yyyy-MM-dd')}`);
-    console.log(`Total days to generate: ${DAYS_TO_GENERATE}`);
-    
-    // Ask if user wants to clear existing puzzles
-    const args = process.argv.slice(2);
-    let shouldClearExisting = false;
-    
-    if (args.includes('--clear') || args.includes('-c')) {
-      shouldClearExisting = true;
-      console.log('Will clear existing puzzles before generating new ones.');
-    } else {
-      console.log('Will append to existing puzzles. Use --clear or -c flag to clear existing puzzles.');
-    }
-    
-    if (shouldClearExisting) {
-      console.log('Clearing existing puzzles from Firestore...');
-      const existingPuzzles = await getDocs(query(puzzlesCollection));
-      
-      const deletePromises = [];
-      existingPuzzles.forEach((document) => {
-        deletePromises.push(deleteDoc(doc(puzzlesCollection, document.id)));
-      });
-      
-      await Promise.all(deletePromises);
-      console.log(`Cleared ${existingPuzzles.size} existing puzzles.`);
-    }
-    
-    // Generate new puzzles
-    const puzzles = await generatePuzzles();
-    
-    // Upload to Firestore
-    await uploadPuzzlesToFirestore(puzzles);
-    
-    console.log('Puzzle generation and upload complete!');
-    console.log(`Generated ${puzzles.length} puzzles covering ${DAYS_TO_GENERATE} days.`);
-    console.log(`Puzzle coverage: ${format(START_DATE, 'yyyy-MM-dd')} to ${format(END_DATE, 'yyyy-MM-dd')}`);
-  } catch (error) {
-    console.error('Error in puzzle generation:', error);
-  }
-}
-
-// Run the script
-main();
\ No newline at end of file
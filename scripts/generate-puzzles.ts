@@ -0,0 +1,145 @@
+/**
+ * Fusdle Puzzle Generator
+ * Builds a run of daily puzzles from a source, checks it against the calendar
+ * rules and writes it to a sink:
+ * - Every day has 1 normal and 1 hard puzzle
+ * - Fusion twists appear --fusion-per-week times every 7 days
+ * - Puzzle numbers continue from the sink's highest number
+ *
+ * Usage:
+ *   npx tsx scripts/generate-puzzles.ts [--from=YYYY-MM-DD] [--days=90]
+ *     [--source=bank|file|ordered] [--file=puzzles.csv]
+ *     [--sink=firestore|postgres|memory|json] [--out=puzzles.json]
+ *     [--start-number=N] [--fusion-per-week=2] [--repeat-days=90]
+ *     [--dry-run] [--force]
+ *
+ * --from defaults to today (Eastern Time) and --sink to PUZZLE_STORAGE.
+ * --source=ordered regenerates every emoji sequence with the ordered emoji
+ * generator, from --file if given or the built-in bank otherwise.
+ * --dry-run prints the puzzles and validation report without writing anything.
+ * --force writes a batch even if it fails validation.
+ */
+
+import { z } from 'zod';
+import * as dotenv from 'dotenv';
+import { createRepository, getStorageBackend, type StorageBackend } from '../server/repository';
+import { getPuzzleDate } from '../shared/puzzle-clock';
+import { runPipeline, type PuzzleSink, type PuzzleSource } from '../server/puzzle-pipeline';
+import { bankSource, fileSource, orderedEmojiSource } from '../server/puzzle-sources';
+import { jsonFileSink, repositorySink } from '../server/puzzle-sinks';
+
+// Load environment variables
+dotenv.config();
+
+// Read a --name=value argument
+function getArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.slice(2).find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+const optionsSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  days: z.coerce.number().int().positive().default(90),
+  source: z.enum(['bank', 'file', 'ordered']).default('bank'),
+  file: z.string().optional(),
+  sink: z.enum(['firestore', 'postgres', 'memory', 'json']).optional(),
+  out: z.string().optional(),
+  startNumber: z.coerce.number().int().positive().optional(),
+  fusionPerWeek: z.coerce.number().int().nonnegative().optional(),
+  repeatDays: z.coerce.number().int().nonnegative().optional()
+});
+
+type GeneratorOptions = z.infer<typeof optionsSchema>;
+
+function createSource(options: GeneratorOptions): PuzzleSource {
+  if (options.source === 'file' && !options.file) {
+    throw new Error('--source=file needs --file=<path to .json or .csv>');
+  }
+
+  const base = options.file ? fileSource(options.file) : bankSource();
+  return options.source === 'ordered' ? orderedEmojiSource(base) : base;
+}
+
+async function createSink(options: GeneratorOptions): Promise<PuzzleSink> {
+  if (options.sink === 'json') {
+    if (!options.out) {
+      throw new Error('--sink=json needs --out=<path to .json>');
+    }
+    return jsonFileSink(options.out);
+  }
+
+  const backend: StorageBackend = options.sink ?? getStorageBackend();
+  return repositorySink(await createRepository(backend), backend);
+}
+
+async function main() {
+  const parsed = optionsSchema.safeParse({
+    from: getArg('from'),
+    days: getArg('days'),
+    source: getArg('source'),
+    file: getArg('file'),
+    sink: getArg('sink'),
+    out: getArg('out'),
+    startNumber: getArg('start-number'),
+    fusionPerWeek: getArg('fusion-per-week'),
+    repeatDays: getArg('repeat-days')
+  });
+
+  if (!parsed.success) {
+    console.error('Invalid options. Dates must be YYYY-MM-DD and counts whole numbers.');
+    process.exit(2);
+  }
+
+  const options = parsed.data;
+  const dryRun = process.argv.includes('--dry-run');
+  const source = createSource(options);
+  const sink = await createSink(options);
+  const from = options.from ?? getPuzzleDate();
+
+  console.log(`Generating ${options.days} days of puzzles from ${from} using ${source.name}...`);
+
+  const { puzzles, report, written } = await runPipeline({
+    source,
+    sink: dryRun ? undefined : sink,
+    history: sink,
+    from,
+    days: options.days,
+    // A dry run still numbers puzzles the way a real run against the sink would
+    startNumber: options.startNumber ?? (dryRun ? await sink.nextPuzzleNumber() : undefined),
+    fusionPerWeek: options.fusionPerWeek,
+    force: process.argv.includes('--force'),
+    validation: { answerRepeatDays: options.repeatDays }
+  });
+
+  if (dryRun) {
+    for (const puzzle of puzzles) {
+      const fusion = puzzle.isFusionTwist ? ` [${puzzle.twistType}]` : '';
+      console.log(
+        `#${puzzle.puzzleNumber} ${puzzle.date} ${puzzle.difficulty.padEnd(6)} ` +
+        `${puzzle.emojis.join('')}  ${puzzle.answer}${fusion}`
+      );
+    }
+  }
+
+  if (report.ok) {
+    console.log(`Batch of ${puzzles.length} puzzles passed calendar validation.`);
+  } else {
+    console.log(`Batch failed calendar validation with ${report.violations.length} problems:`);
+    report.violations.forEach(violation => console.log(`  [${violation.code}] ${violation.message}`));
+  }
+
+  if (dryRun) {
+    console.log(`Dry run: nothing was written to ${sink.name}.`);
+  } else if (written > 0) {
+    console.log(`Wrote ${written} puzzles to ${sink.name}.`);
+  } else {
+    console.log(`Nothing was written to ${sink.name}. Use --force to write anyway.`);
+  }
+
+  process.exit(report.ok || written > 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Error generating puzzles:', error);
+  process.exit(2);
+});
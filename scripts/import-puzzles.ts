@@ -0,0 +1,82 @@
+/**
+ * Fusdle Puzzle Import
+ * Loads puzzles from a CSV or JSON file into the configured storage backend.
+ * Every row is validated against the puzzle schema, and the import is
+ * refused if any row is invalid, repeats an answer or reuses a puzzle number.
+ *
+ * Usage:
+ *   npx tsx scripts/import-puzzles.ts --file=puzzles.csv [--format=csv|json]
+ *     [--upsert] [--dry-run] [--json]
+ *
+ * --upsert replaces puzzles whose puzzle number already exists.
+ * --dry-run reports what would happen without writing anything.
+ * The backend is selected by PUZZLE_STORAGE. Exits with code 1 when rows are
+ * rejected and 2 on bad options or other errors.
+ */
+
+import * as fs from 'fs';
+import * as dotenv from 'dotenv';
+import { createRepository } from '../server/repository';
+import {
+  importPuzzles,
+  puzzleFileFormat,
+  readPuzzleRecords,
+  type PuzzleFileFormat,
+  type PuzzleImportReport
+} from '../server/puzzle-transfer';
+
+// Load environment variables
+dotenv.config();
+
+// Read a --name=value argument
+function getArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.slice(2).find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+function printReport(report: PuzzleImportReport) {
+  console.log(`Read ${report.total} puzzles`);
+
+  if (!report.ok) {
+    console.log(`Found ${report.errors.length} problems, nothing was imported:`);
+    for (const error of report.errors) {
+      console.log(`  row ${error.row}${error.field ? ` (${error.field})` : ''}: ${error.message}`);
+    }
+    return;
+  }
+
+  const verb = report.dryRun ? 'Would create' : 'Created';
+  console.log(`${verb} ${report.created} and ${report.dryRun ? 'update' : 'updated'} ${report.updated} puzzles.`);
+}
+
+async function main() {
+  const file = getArg('file');
+  const format = getArg('format');
+
+  if (!file || (format && !['csv', 'json'].includes(format))) {
+    console.error('Usage: import-puzzles.ts --file=<puzzles.csv|puzzles.json> [--format=csv|json] [--upsert] [--dry-run]');
+    process.exit(2);
+  }
+
+  const records = readPuzzleRecords(
+    fs.readFileSync(file, 'utf-8'),
+    (format as PuzzleFileFormat | undefined) ?? puzzleFileFormat(file)
+  );
+  const report = await importPuzzles(await createRepository(), records, {
+    upsert: process.argv.includes('--upsert'),
+    dryRun: process.argv.includes('--dry-run')
+  });
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  process.exit(report.ok ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Error importing puzzles:', error);
+  process.exit(2);
+});
@@ -0,0 +1,74 @@
+/**
+ * Fusdle Database Migrations
+ * Applies, rolls back and reports the versioned Postgres migrations in
+ * migrations/. Up scripts are generated from shared/schema.ts with
+ * `npm run db:generate`; each needs a hand-written down script in
+ * migrations/down/ with the same file name.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate.ts [up|down|status|baseline] [--json]
+ *
+ * up (the default) applies every pending migration. down rolls back the most
+ * recent one. status lists migrations and schema drift, exiting with code 1
+ * when the database is out of date. baseline records every migration as
+ * applied, for databases created before migrations existed.
+ * Requires DATABASE_URL. Exits with code 2 on errors.
+ */
+
+import * as dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+const COMMANDS = ['up', 'down', 'status', 'baseline'];
+
+async function main() {
+  const command = process.argv.slice(2).find(arg => !arg.startsWith('--')) ?? 'up';
+  if (!COMMANDS.includes(command)) {
+    console.error(`Unknown command "${command}". Expected one of: ${COMMANDS.join(', ')}`);
+    process.exit(2);
+  }
+
+  // Loaded after dotenv so DATABASE_URL is set when the pool is created
+  const migrations = await import('../server/migrations');
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrations.runMigrations();
+      console.log(applied.length > 0 ? `Applied ${applied.join(', ')}` : 'No pending migrations.');
+      break;
+    }
+    case 'down': {
+      const rolledBack = await migrations.rollbackMigration();
+      console.log(rolledBack ? `Rolled back ${rolledBack}` : 'No applied migrations to roll back.');
+      break;
+    }
+    case 'baseline': {
+      const recorded = await migrations.baselineMigrations();
+      console.log(recorded.length > 0 ? `Recorded ${recorded.join(', ')} as applied` : 'Every migration is already recorded.');
+      break;
+    }
+    case 'status': {
+      const status = await migrations.getMigrationStatus();
+      if (process.argv.includes('--json')) {
+        console.log(JSON.stringify(status, null, 2));
+      } else {
+        for (const migration of status.migrations) {
+          console.log(`${migration.applied ? 'applied' : 'pending'}  ${migration.tag}${migration.hasDown ? '' : ' (no down script)'}`);
+        }
+        for (const problem of migrations.describeDrift(status.drift)) {
+          console.log(`drift    ${problem}`);
+        }
+        console.log(status.upToDate ? 'Database schema is up to date.' : 'Database schema is out of date.');
+      }
+      process.exit(status.upToDate ? 0 : 1);
+    }
+  }
+
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('Error running migrations:', error);
+  process.exit(2);
+});
@@ -4,6 +4,6 @@ echo "Loading environment variables..."
 npx tsx scripts/load-env.ts
 
 echo "Generating puzzles..."
-npx tsx scripts/generate-firebase-puzzles.ts
+npx tsx scripts/generate-puzzles.ts --sink=firestore
 
 echo "Script completed!"
\ No newline at end of file
@@ -0,0 +1,44 @@
+/**
+ * Fusdle Puzzle Scoring
+ * Recomputes the difficulty score of every stored puzzle. New puzzles are
+ * scored from their content when they're generated; once a puzzle has enough
+ * finished games, this folds in its solve rate and average attempts.
+ *
+ * Usage:
+ *   npx tsx scripts/score-puzzles.ts [--dry-run] [--json]
+ *
+ * --dry-run lists the scores that would change without saving them.
+ * The backend is selected by PUZZLE_STORAGE. Exits with code 2 on errors.
+ */
+
+import * as dotenv from 'dotenv';
+import { createRepository } from '../server/repository';
+import { rescorePuzzles } from '../server/difficulty-score';
+
+// Load environment variables
+dotenv.config();
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const changed = await rescorePuzzles(await createRepository(), { dryRun });
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(changed, null, 2));
+    return;
+  }
+
+  for (const puzzle of changed) {
+    const previous = puzzle.previousScore ?? '-';
+    const basis = puzzle.plays > 0 ? `${puzzle.plays} plays` : 'content only';
+    console.log(
+      `#${puzzle.puzzleNumber} ${puzzle.difficulty.padEnd(6)} ${String(previous).padStart(3)} -> ${String(puzzle.score).padStart(3)}  ${puzzle.answer} (${basis})`
+    );
+  }
+
+  console.log(`${dryRun ? 'Would update' : 'Updated'} ${changed.length} puzzle scores.`);
+}
+
+main().catch(error => {
+  console.error('Error scoring puzzles:', error);
+  process.exit(2);
+});
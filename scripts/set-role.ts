@@ -0,0 +1,56 @@
+/**
+ * Fusdle Role Assignment
+ * Grants a Firebase user the admin, editor or player role by setting the
+ * `role` custom claim that the API and firestore.rules check.
+ *
+ * Usage:
+ *   npx tsx scripts/set-role.ts --email=someone@example.com --role=admin
+ *   npx tsx scripts/set-role.ts --uid=<firebase uid> --role=editor
+ *
+ * Requires FIREBASE_SERVICE_ACCOUNT. The user has to sign out and back in
+ * (or wait up to an hour for their token to refresh) before the role applies.
+ * Exits with code 2 on errors.
+ */
+
+import * as dotenv from 'dotenv';
+import { getAuth } from 'firebase-admin/auth';
+import { ROLES, type Role } from '../shared/roles';
+import { getAdminApp, hasServiceAccount } from '../server/firebase-admin';
+
+// Load environment variables
+dotenv.config();
+
+// Read a --name=value argument
+function getArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.slice(2).find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+async function main() {
+  const role = getArg('role') as Role | undefined;
+  const email = getArg('email');
+  const uid = getArg('uid');
+
+  if (!role || !ROLES.includes(role) || (!email && !uid)) {
+    console.error(`Usage: set-role.ts (--email=<email> | --uid=<uid>) --role=<${ROLES.join('|')}>`);
+    process.exit(2);
+  }
+
+  if (!hasServiceAccount()) {
+    console.error('FIREBASE_SERVICE_ACCOUNT must be set to change user roles');
+    process.exit(2);
+  }
+
+  const auth = getAuth(getAdminApp());
+  const user = uid ? await auth.getUser(uid) : await auth.getUserByEmail(email!);
+  // Players need no claim, so that role clears it
+  const { role: _previous, ...claims } = user.customClaims ?? {};
+  await auth.setCustomUserClaims(user.uid, role === 'player' ? claims : { ...claims, role });
+
+  console.log(`${user.email ?? user.uid} is now ${role === 'admin' ? 'an' : 'a'} ${role}.`);
+}
+
+main().catch(error => {
+  console.error('Error setting role:', error);
+  process.exit(2);
+});
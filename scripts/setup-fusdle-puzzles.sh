@@ -42,7 +42,7 @@ fi
 
 # Display options
 echo "What would you like to do?"
-echo "1. Generate 90 days of puzzles (starting from April 21, 2025)"
+echo "1. Generate 90 days of puzzles (starting today)"
 echo "2. Generate 90 days of puzzles (starting from a custom date)"
 echo "3. Set up automation for puzzle generation every 90 days"
 echo "4. Help / Instructions"
@@ -52,8 +52,8 @@ read -p "Enter your choice (1-5): " choice
 
 case $choice in
     1)
-        echo -e "${GREEN}Generating 90 days of puzzles starting from April 21, 2025...${NC}"
-        npx tsx scripts/generate-90-day-puzzles.ts
+        echo -e "${GREEN}Generating 90 days of puzzles starting today...${NC}"
+        npx tsx scripts/generate-puzzles.ts --days=90 --sink=firestore
         ;;
     2)
         echo -e "${BLUE}Enter a custom start date (format: YYYY-MM-DD):${NC}"
@@ -65,9 +65,8 @@ case $choice in
             exit 1
         fi
         
-        # Set custom date as an environment variable and run
         echo -e "${GREEN}Generating 90 days of puzzles starting from $custom_date...${NC}"
-        FUSDLE_START_DATE=$custom_date npx tsx scripts/generate-90-day-puzzles.ts
+        npx tsx scripts/generate-puzzles.ts --from=$custom_date --days=90 --sink=firestore
         ;;
     3)
         echo -e "${GREEN}Setting up automation for puzzle generation...${NC}"
@@ -92,8 +91,9 @@ case $choice in
         echo "   - New puzzles are automatically generated when less than 14 days remain"
         echo ""
         echo "3. Customization:"
-        echo "   - You can modify the puzzle content in scripts/generate-90-day-puzzles.ts"
-        echo "   - Adjust the difficulty levels, answers, hints, or fusion twist types"
+        echo "   - You can modify the puzzle content in server/puzzle-bank.ts"
+        echo "   - Or generate from your own file: --source=file --file=puzzles.csv"
+        echo "   - Preview any run first with --dry-run"
         echo ""
         echo "4. Managing Puzzles:"
         echo "   - All puzzles are stored in the 'puzzles' collection in Firestore"
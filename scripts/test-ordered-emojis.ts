@@ -1,5 +1,6 @@
-import { generatePuzzles } from "../server/puzzle-generator-ordered";
-import { createOrderedEmojis } from "../server/ordered-emoji-generator";
+import { explainOrderedEmojis } from "../server/ordered-emoji-generator";
+import { buildCalendar } from "../server/puzzle-pipeline";
+import { PUZZLE_BANK } from "../server/puzzle-bank";
 
 // Example answers to test with
 const testAnswers = [
@@ -20,13 +21,19 @@ const testAnswers = [
 ];
 
 console.log("=== TESTING ORDERED EMOJI GENERATOR ===");
-console.log("This script demonstrates how the emoji order now matches the word order in answers");
+console.log("This script demonstrates how the emoji order matches the word order in answers,");
+console.log("and which keyword from server/emoji-keywords.ts produced each emoji");
 console.log("");
 
 testAnswers.forEach(answer => {
-  const emojis = createOrderedEmojis(answer);
+  const mappings = explainOrderedEmojis(answer);
   console.log(`Answer: "${answer}"`);
-  console.log(`Emojis: ${emojis.join(" ")}`);
+  console.log(`Emojis: ${mappings.map(mapping => mapping.emoji).join(" ")}`);
+  mappings.forEach(mapping => {
+    const source = mapping.keyword ? `"${mapping.keyword}" (${mapping.match})` : mapping.match;
+    const alternatives = mapping.alternatives.length ? `, alternatives ${mapping.alternatives.join(" ")}` : "";
+    console.log(`  ${mapping.word} -> ${mapping.emoji} via ${source}${alternatives}`);
+  });
   console.log("");
 });
 
@@ -34,7 +41,7 @@ console.log("=== GENERATING SAMPLE PUZZLES ===");
 console.log("Generating 5 sample puzzles with ordered emojis:");
 console.log("");
 
-const samplePuzzles = generatePuzzles(5);
+const samplePuzzles = buildCalendar(PUZZLE_BANK, { from: "2025-01-01", days: 3, startNumber: 1 }).slice(0, 5);
 samplePuzzles.forEach((puzzle, index) => {
   console.log(`Puzzle #${index + 1}:`);
   console.log(`Answer: "${puzzle.answer}"`);
@@ -0,0 +1,85 @@
+/**
+ * Fusdle Calendar Validator
+ * Checks the puzzle calendar's invariants and exits non-zero on any violation:
+ * - Every date has exactly 1 normal and 1 hard puzzle
+ * - Puzzle numbers are unique and contiguous
+ * - No answer repeats within --repeat-days days
+ * - Fusion twists appear --fusion-per-week times every 7 days
+ *
+ * Usage:
+ *   npx tsx scripts/validate-calendar.ts [--from=YYYY-MM-DD] [--to=YYYY-MM-DD]
+ *     [--repeat-days=90] [--fusion-per-week=2] [--file=puzzles.json] [--json]
+ *
+ * Without --file the calendar is read from the backend selected by PUZZLE_STORAGE.
+ */
+
+import * as fs from 'fs';
+import * as dotenv from 'dotenv';
+import { createRepository } from '../server/repository';
+import {
+  calendarHealthQuerySchema,
+  validateCalendar,
+  validateStoredCalendar,
+  type CalendarPuzzle,
+  type CalendarReport
+} from '../server/calendar-validator';
+
+// Load environment variables
+dotenv.config();
+
+// Read a --name=value argument
+function getArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.slice(2).find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+function printReport(report: CalendarReport) {
+  console.log(`Checked ${report.puzzleCount} puzzles from ${report.from} to ${report.to}`);
+
+  if (report.ok) {
+    console.log('Calendar is healthy.');
+    return;
+  }
+
+  console.log(`Found ${report.violations.length} problems:`);
+  for (const violation of report.violations) {
+    console.log(`  [${violation.code}] ${violation.message}`);
+  }
+}
+
+async function main() {
+  const options = calendarHealthQuerySchema.safeParse({
+    from: getArg('from'),
+    to: getArg('to'),
+    answerRepeatDays: getArg('repeat-days'),
+    fusionPerWeek: getArg('fusion-per-week')
+  });
+
+  if (!options.success) {
+    console.error('Invalid options. Dates must be YYYY-MM-DD and counts whole numbers.');
+    process.exit(2);
+  }
+
+  const file = getArg('file');
+  let report: CalendarReport;
+
+  if (file) {
+    const puzzles: CalendarPuzzle[] = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    report = validateCalendar(puzzles, options.data);
+  } else {
+    report = await validateStoredCalendar(await createRepository(), options.data);
+  }
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  process.exit(report.ok ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Error validating calendar:', error);
+  process.exit(2);
+});
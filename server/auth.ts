@@ -0,0 +1,54 @@
+import type { Request, Response, NextFunction } from "express";
+import { hasRole, parseRole, type Role } from "@shared/roles";
+import { verifyIdToken } from "./firebase-admin";
+
+// A caller whose Firebase ID token verified
+export interface AuthUser {
+  uid: string;
+  email?: string;
+  role: Role;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthUser;
+    }
+  }
+}
+
+const BEARER_PREFIX = 'Bearer ';
+
+/**
+ * Verify the Firebase ID token in the Authorization header, if there is one,
+ * and attach the caller to `req.auth`. Requests without a token carry on
+ * anonymously; a token that doesn't verify is rejected outright.
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  const header = req.get('authorization');
+  if (!header?.startsWith(BEARER_PREFIX)) {
+    return next();
+  }
+
+  try {
+    const decoded = await verifyIdToken(header.slice(BEARER_PREFIX.length).trim());
+    req.auth = { uid: decoded.uid, email: decoded.email, role: parseRole(decoded.role) };
+    next();
+  } catch (error) {
+    console.warn('Rejected Firebase ID token:', error instanceof Error ? error.message : error);
+    res.status(401).json({ error: 'Invalid or expired sign-in token' });
+  }
+}
+
+// Only let signed-in callers with at least the given role through
+export function requireRole(role: Role) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth) {
+      return res.status(401).json({ error: 'Sign in required' });
+    }
+    if (!hasRole(req.auth.role, role)) {
+      return res.status(403).json({ error: `Requires the ${role} role` });
+    }
+    next();
+  };
+}
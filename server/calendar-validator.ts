@@ -0,0 +1,239 @@
+import { z } from "zod";
+import type { InsertPuzzle } from "@shared/schema";
+import { canonicalAnswer } from "@shared/answer-matching";
+import { addPuzzleDays, getPuzzleDate, puzzleDaysBetween } from "@shared/puzzle-clock";
+import type { PuzzleRepository } from "./storage";
+
+// Machine-readable codes for each calendar rule
+export type CalendarViolationCode =
+  | 'missing_puzzle'          // A date has no puzzle for a difficulty
+  | 'duplicate_puzzle'        // A date has more than one puzzle for a difficulty
+  | 'unknown_difficulty'      // A puzzle isn't 'normal' or 'hard'
+  | 'duplicate_puzzle_number' // Two puzzles share a puzzleNumber
+  | 'puzzle_number_gap'       // puzzleNumbers skip one or more values
+  | 'repeated_answer'         // An answer comes back too soon
+  | 'fusion_cadence';         // A week has the wrong number of fusion twists
+
+export interface CalendarViolation {
+  code: CalendarViolationCode;
+  message: string;
+  date?: string;
+  difficulty?: string;
+  puzzleNumbers?: number[];
+}
+
+export interface CalendarValidationOptions {
+  // Date range to check (YYYY-MM-DD), defaults to the puzzles' own range
+  from?: string;
+  to?: string;
+  // Minimum days before an answer may be used again
+  answerRepeatDays?: number;
+  // Fusion twists expected in each 7-day block counted from `from`
+  fusionPerWeek?: number;
+}
+
+export interface CalendarReport {
+  ok: boolean;
+  from: string;
+  to: string;
+  puzzleCount: number;
+  violations: CalendarViolation[];
+}
+
+// The fields the rules look at, so generated batches can be checked before they're saved
+export type CalendarPuzzle = Pick<InsertPuzzle, 'puzzleNumber' | 'date' | 'difficulty' | 'answer' | 'isFusionTwist'>;
+
+// Query string accepted by the calendar health endpoint
+export const calendarHealthQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  answerRepeatDays: z.coerce.number().int().nonnegative().optional(),
+  fusionPerWeek: z.coerce.number().int().nonnegative().optional()
+});
+
+export const DEFAULT_ANSWER_REPEAT_DAYS = 90;
+export const DEFAULT_FUSION_PER_WEEK = 2;
+
+const DIFFICULTIES = ['normal', 'hard'];
+
+const puzzleDate = (puzzle: CalendarPuzzle): string => puzzle.date.split('T')[0];
+
+/**
+ * Check a set of puzzles against the calendar's rules: one normal and one
+ * hard puzzle per date, unique and contiguous puzzle numbers, no answer
+ * repeated within `answerRepeatDays`, and `fusionPerWeek` fusion twists in
+ * every full week. Only puzzles dated within [from, to] are checked, but
+ * puzzles in the `answerRepeatDays` before `from` still count as recent
+ * uses of their answers.
+ */
+export function validateCalendar(
+  allPuzzles: CalendarPuzzle[],
+  options: CalendarValidationOptions = {}
+): CalendarReport {
+  const answerRepeatDays = options.answerRepeatDays ?? DEFAULT_ANSWER_REPEAT_DAYS;
+  const fusionPerWeek = options.fusionPerWeek ?? DEFAULT_FUSION_PER_WEEK;
+  const dates = allPuzzles.map(puzzleDate).sort();
+  const from = options.from ?? dates[0] ?? getPuzzleDate();
+  const lastDate = dates[dates.length - 1];
+  const to = options.to ?? (lastDate && lastDate > from ? lastDate : from);
+
+  const puzzles = allPuzzles
+    .filter(puzzle => puzzleDate(puzzle) >= from && puzzleDate(puzzle) <= to)
+    .sort((a, b) => puzzleDate(a).localeCompare(puzzleDate(b)) || a.puzzleNumber - b.puzzleNumber);
+  const violations: CalendarViolation[] = [];
+
+  // One puzzle per difficulty per date
+  const byDateAndDifficulty = new Map<string, CalendarPuzzle[]>();
+  for (const puzzle of puzzles) {
+    const difficulty = puzzle.difficulty || 'normal';
+
+    if (!DIFFICULTIES.includes(difficulty)) {
+      violations.push({
+        code: 'unknown_difficulty',
+        message: `Puzzle #${puzzle.puzzleNumber} has unknown difficulty "${difficulty}"`,
+        date: puzzleDate(puzzle),
+        difficulty,
+        puzzleNumbers: [puzzle.puzzleNumber]
+      });
+      continue;
+    }
+
+    const key = `${puzzleDate(puzzle)}:${difficulty}`;
+    byDateAndDifficulty.set(key, [...(byDateAndDifficulty.get(key) ?? []), puzzle]);
+  }
+
+  const dayCount = puzzleDaysBetween(from, to) + 1;
+
+  for (let day = 0; day < dayCount; day++) {
+    const date = addPuzzleDays(from, day);
+
+    for (const difficulty of DIFFICULTIES) {
+      const scheduled = byDateAndDifficulty.get(`${date}:${difficulty}`) ?? [];
+
+      if (scheduled.length === 0) {
+        violations.push({
+          code: 'missing_puzzle',
+          message: `No ${difficulty} puzzle on ${date}`,
+          date,
+          difficulty
+        });
+      } else if (scheduled.length > 1) {
+        violations.push({
+          code: 'duplicate_puzzle',
+          message: `${scheduled.length} ${difficulty} puzzles on ${date}`,
+          date,
+          difficulty,
+          puzzleNumbers: scheduled.map(puzzle => puzzle.puzzleNumber)
+        });
+      }
+    }
+  }
+
+  // Puzzle numbers are unique and run without gaps
+  const numbers = puzzles.map(puzzle => puzzle.puzzleNumber).sort((a, b) => a - b);
+  for (let i = 1; i < numbers.length; i++) {
+    if (numbers[i] === numbers[i - 1]) {
+      if (numbers[i] !== numbers[i - 2]) {
+        violations.push({
+          code: 'duplicate_puzzle_number',
+          message: `Puzzle number ${numbers[i]} is used more than once`,
+          puzzleNumbers: [numbers[i]]
+        });
+      }
+    } else if (numbers[i] !== numbers[i - 1] + 1) {
+      violations.push({
+        code: 'puzzle_number_gap',
+        message: `Puzzle numbers jump from ${numbers[i - 1]} to ${numbers[i]}`,
+        puzzleNumbers: [numbers[i - 1], numbers[i]]
+      });
+    }
+  }
+
+  // Answers don't come back within answerRepeatDays, comparing them the way guesses are matched
+  const repeatFrom = addPuzzleDays(from, -answerRepeatDays);
+  const recent = allPuzzles
+    .filter(puzzle => puzzleDate(puzzle) >= repeatFrom && puzzleDate(puzzle) < from)
+    .sort((a, b) => puzzleDate(a).localeCompare(puzzleDate(b)));
+  const lastUsed = new Map(recent.map(puzzle => [canonicalAnswer(puzzle.answer), puzzle]));
+  for (const puzzle of puzzles) {
+    const answer = canonicalAnswer(puzzle.answer);
+    const previous = lastUsed.get(answer);
+
+    if (previous) {
+      const gap = puzzleDaysBetween(puzzleDate(previous), puzzleDate(puzzle));
+      if (gap < answerRepeatDays) {
+        violations.push({
+          code: 'repeated_answer',
+          message: `"${puzzle.answer}" is used again after ${gap} days (minimum ${answerRepeatDays})`,
+          date: puzzleDate(puzzle),
+          difficulty: puzzle.difficulty,
+          puzzleNumbers: [previous.puzzleNumber, puzzle.puzzleNumber]
+        });
+      }
+    }
+
+    lastUsed.set(answer, puzzle);
+  }
+
+  // Fusion twists follow their weekly cadence. A trailing partial week may
+  // have fewer, but never more.
+  for (let weekStart = 0; weekStart < dayCount; weekStart += 7) {
+    const weekFrom = addPuzzleDays(from, weekStart);
+    const weekTo = addPuzzleDays(from, Math.min(weekStart + 6, dayCount - 1));
+    const isFullWeek = weekStart + 7 <= dayCount;
+    const fusions = puzzles.filter(puzzle =>
+      puzzle.isFusionTwist === 1 && puzzleDate(puzzle) >= weekFrom && puzzleDate(puzzle) <= weekTo
+    );
+
+    if (fusions.length > fusionPerWeek || (isFullWeek && fusions.length < fusionPerWeek)) {
+      violations.push({
+        code: 'fusion_cadence',
+        message: `${fusions.length} fusion twists in the week of ${weekFrom} (expected ${fusionPerWeek})`,
+        date: weekFrom,
+        puzzleNumbers: fusions.map(puzzle => puzzle.puzzleNumber)
+      });
+    }
+  }
+
+  return {
+    ok: violations.length === 0,
+    from,
+    to,
+    puzzleCount: puzzles.length,
+    violations
+  };
+}
+
+// Puzzles loaded per difficulty when checking a stored calendar
+const CALENDAR_FETCH_LIMIT = 1000;
+
+// Puzzles stored in a repository dated within [from, to]
+export async function getStoredPuzzles(
+  repository: PuzzleRepository,
+  from: string,
+  to: string
+): Promise<CalendarPuzzle[]> {
+  const [normal, hard] = await Promise.all(
+    DIFFICULTIES.map(difficulty => repository.getPuzzlesByDifficulty(difficulty, CALENDAR_FETCH_LIMIT))
+  );
+
+  return [...normal, ...hard].filter(puzzle => puzzleDate(puzzle) >= from && puzzleDate(puzzle) <= to);
+}
+
+/**
+ * Validate the calendar held in a repository. Without a range this checks
+ * today through the last scheduled puzzle, which is what players will see.
+ */
+export async function validateStoredCalendar(
+  repository: PuzzleRepository,
+  options: CalendarValidationOptions = {}
+): Promise<CalendarReport> {
+  const [normal, hard] = await Promise.all(
+    DIFFICULTIES.map(difficulty => repository.getPuzzlesByDifficulty(difficulty, CALENDAR_FETCH_LIMIT))
+  );
+
+  return validateCalendar([...normal, ...hard], {
+    ...options,
+    from: options.from ?? getPuzzleDate()
+  });
+}
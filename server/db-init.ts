@@ -1,44 +1,28 @@
-import { db } from "./db";
-import { sql } from "drizzle-orm";
-import { generatePuzzles } from "./puzzle-generator-fixed";
+import { getPuzzleDate } from "@shared/puzzle-clock";
+import { buildCalendar } from "./puzzle-pipeline";
+import { PUZZLE_BANK } from "./puzzle-bank";
 import { storage } from "./storage";
+import { runMigrations } from "./migrations";
 
 async function initializeDatabase() {
   try {
     console.log("Starting database initialization...");
     
-    // Push the schema to the database using drizzle-orm
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS "users" (
-        "id" SERIAL PRIMARY KEY,
-        "username" TEXT NOT NULL UNIQUE,
-        "password" TEXT NOT NULL
-      );
-      
-      CREATE TABLE IF NOT EXISTS "puzzles" (
-        "id" SERIAL PRIMARY KEY,
-        "puzzle_number" INTEGER NOT NULL UNIQUE,
-        "date" DATE NOT NULL,
-        "emojis" TEXT[] NOT NULL,
-        "answer" TEXT NOT NULL,
-        "hints" TEXT[] NOT NULL
-      );
-    `);
-    
-    console.log("Database tables created successfully!");
+    // Create or upgrade the tables with the versioned migrations
+    const applied = await runMigrations();
+    console.log(applied.length > 0 ? `Applied migrations: ${applied.join(', ')}` : "Database schema is up to date.");
     
     // Check if puzzles already exist
-    const existingPuzzles = await db.execute(sql`SELECT COUNT(*) FROM puzzles`);
-    const puzzleCount = parseInt(existingPuzzles.rows[0].count.toString());
+    const puzzleCount = await storage.countPuzzles();
     
     if (puzzleCount > 0) {
       console.log(`Database already has ${puzzleCount} puzzles.`);
       process.exit(0);
     }
     
-    // Generate and insert 100 puzzles (using 100 instead of 1000 to speed up the process)
-    console.log("Generating 100 puzzles...");
-    const puzzles = generatePuzzles(100);
+    // Generate 50 days of puzzles from today (kept short to speed up the process)
+    console.log("Generating 50 days of puzzles...");
+    const puzzles = buildCalendar(PUZZLE_BANK, { from: getPuzzleDate(), days: 50, startNumber: 1 });
     console.log(`Generated ${puzzles.length} puzzles.`);
     
     // Insert puzzles into the database
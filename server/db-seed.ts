@@ -1,14 +1,16 @@
+import { getPuzzleDate } from "@shared/puzzle-clock";
 import { db } from "./db";
-import { generatePuzzles } from "./puzzle-generator";
+import { buildCalendar } from "./puzzle-pipeline";
+import { PUZZLE_BANK } from "./puzzle-bank";
 import { storage } from "./storage";
 
 async function seedDatabase() {
   try {
     console.log("Starting database seeding process...");
     
-    // Generate 1000 puzzles
+    // Generate 500 days of puzzles (1000 puzzles) from today
     console.log("Generating 1000 puzzles...");
-    const puzzles = generatePuzzles(1000);
+    const puzzles = buildCalendar(PUZZLE_BANK, { from: getPuzzleDate(), days: 500, startNumber: 1 });
     console.log(`Generated ${puzzles.length} puzzles.`);
     
     // Insert puzzles into the database
@@ -17,7 +19,7 @@ async function seedDatabase() {
     console.log(`Successfully inserted ${insertedPuzzles.length} puzzles into the database.`);
     
     // Get today's puzzle to verify
-    const today = new Date().toISOString().split('T')[0];
+    const today = getPuzzleDate();
     console.log(`Verifying today's puzzle (${today})...`);
     const todaysPuzzle = await storage.getTodaysPuzzle();
     
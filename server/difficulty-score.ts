@@ -0,0 +1,163 @@
+import type { InsertPuzzle, PuzzleSolveStats } from "@shared/schema";
+import { normalizeAnswer } from "@shared/answer-matching";
+import { explainOrderedEmojis } from "./ordered-emoji-generator";
+import { loadAllPuzzles } from "./puzzle-transfer";
+import type { PuzzleRepository } from "./storage";
+
+// Numeric puzzle difficulty from 0 (easiest) to 100. A new puzzle is scored
+// from its content alone; once enough players have finished it, how they
+// actually did takes over most of the score.
+
+// Content factors run from 0 (makes the puzzle easier) to 1 (makes it harder)
+export interface DifficultyFactors {
+  answerLength: number;
+  wordCount: number;
+  emojiAmbiguity: number;
+  hintVagueness: number;
+  // Only present once the puzzle has enough finished sessions: the share of
+  // them that were solved, and average guesses scaled from 0 to 1
+  solveRate?: number;
+  averageAttempts?: number;
+}
+
+export interface DifficultyScore {
+  score: number;
+  factors: DifficultyFactors;
+  // Finished sessions the score is based on, 0 for content-only scores
+  plays: number;
+}
+
+export type ScoredPuzzle = Pick<InsertPuzzle, 'answer' | 'emojis' | 'hints'>;
+
+// Finished sessions needed before solve data is used
+export const MIN_SOLVE_SAMPLE = 20;
+
+const CONTENT_WEIGHTS = {
+  answerLength: 0.3,
+  wordCount: 0.15,
+  emojiAmbiguity: 0.35,
+  hintVagueness: 0.2
+};
+
+// Share of the score taken by solve data once there's enough of it
+const HISTORY_WEIGHT = 0.6;
+
+// Letter and word counts at which the length factors max out
+const SHORT_ANSWER = 4;
+const LONG_ANSWER = 20;
+const MAX_WORDS = 4;
+// Average guesses at which the attempts factor maxes out
+const MAX_AVERAGE_ATTEMPTS = 8;
+
+// Hints that hand over letters, rhymes or counts narrow the answer down
+const SPECIFIC_HINT = /letter|starts with|rhymes with|\bwords?\b|\+/i;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Share of emojis with no keyword tying them to a word of the answer
+function emojiAmbiguity(answer: string, emojis: string[]): number {
+  if (emojis.length === 0) {
+    return 1;
+  }
+
+  const direct = new Set(
+    explainOrderedEmojis(answer)
+      .filter(mapping => mapping.match !== 'fallback')
+      .flatMap(mapping => [mapping.emoji, ...mapping.alternatives])
+  );
+
+  return emojis.filter(emoji => !direct.has(emoji)).length / emojis.length;
+}
+
+// Share of hints that don't give away letters, rhymes, counts or answer words
+function hintVagueness(answer: string, hints: string[]): number {
+  if (hints.length === 0) {
+    return 1;
+  }
+
+  const answerWords = normalizeAnswer(answer).split(' ').filter(word => word.length > 2);
+  const isSpecific = (hint: string) => {
+    const words = normalizeAnswer(hint).split(' ');
+    return SPECIFIC_HINT.test(hint) || answerWords.some(word => words.includes(word));
+  };
+
+  return hints.filter(hint => !isSpecific(hint)).length / hints.length;
+}
+
+/**
+ * Score a puzzle's difficulty. Without solve stats, or with fewer than
+ * MIN_SOLVE_SAMPLE finished sessions, the score comes from answer length,
+ * word count, emoji ambiguity and hint specificity; after that, solve rate
+ * and average attempts make up most of it.
+ */
+export function scorePuzzle(puzzle: ScoredPuzzle, stats?: PuzzleSolveStats): DifficultyScore {
+  const letters = normalizeAnswer(puzzle.answer).replace(/ /g, '').length;
+  const words = normalizeAnswer(puzzle.answer).split(' ').filter(Boolean).length;
+
+  const factors: DifficultyFactors = {
+    answerLength: clamp((letters - SHORT_ANSWER) / (LONG_ANSWER - SHORT_ANSWER)),
+    wordCount: clamp((words - 1) / (MAX_WORDS - 1)),
+    emojiAmbiguity: emojiAmbiguity(puzzle.answer, puzzle.emojis),
+    hintVagueness: hintVagueness(puzzle.answer, puzzle.hints)
+  };
+
+  let score =
+    factors.answerLength * CONTENT_WEIGHTS.answerLength +
+    factors.wordCount * CONTENT_WEIGHTS.wordCount +
+    factors.emojiAmbiguity * CONTENT_WEIGHTS.emojiAmbiguity +
+    factors.hintVagueness * CONTENT_WEIGHTS.hintVagueness;
+
+  const plays = stats && stats.plays >= MIN_SOLVE_SAMPLE ? stats.plays : 0;
+  if (stats && plays > 0) {
+    factors.solveRate = stats.solves / stats.plays;
+    factors.averageAttempts = clamp((stats.averageAttempts - 1) / (MAX_AVERAGE_ATTEMPTS - 1));
+
+    const history = (1 - factors.solveRate) * 0.6 + factors.averageAttempts * 0.4;
+    score = score * (1 - HISTORY_WEIGHT) + history * HISTORY_WEIGHT;
+  }
+
+  return { score: Math.round(score * 100), factors, plays };
+}
+
+export interface RescoredPuzzle {
+  puzzleNumber: number;
+  answer: string;
+  difficulty: string;
+  previousScore: number | null;
+  score: number;
+  plays: number;
+}
+
+/**
+ * Score every stored puzzle again with the latest solve stats and save the
+ * scores that changed. With `dryRun` nothing is written.
+ */
+export async function rescorePuzzles(
+  repository: PuzzleRepository,
+  options: { dryRun?: boolean } = {}
+): Promise<RescoredPuzzle[]> {
+  const [puzzles, solveStats] = await Promise.all([loadAllPuzzles(repository), repository.getSolveStats()]);
+  const statsByPuzzle = new Map(solveStats.map(stats => [`${stats.puzzleId}:${stats.difficulty}`, stats]));
+  const changed: RescoredPuzzle[] = [];
+
+  for (const puzzle of puzzles) {
+    const { score, plays } = scorePuzzle(puzzle, statsByPuzzle.get(`${puzzle.id}:${puzzle.difficulty}`));
+    if (score === puzzle.difficultyScore) {
+      continue;
+    }
+
+    if (!options.dryRun) {
+      await repository.updatePuzzle(puzzle.puzzleNumber, { difficultyScore: score });
+    }
+    changed.push({
+      puzzleNumber: puzzle.puzzleNumber,
+      answer: puzzle.answer,
+      difficulty: puzzle.difficulty,
+      previousScore: puzzle.difficultyScore,
+      score,
+      plays
+    });
+  }
+
+  return changed;
+}
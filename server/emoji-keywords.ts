@@ -0,0 +1,724 @@
+// Bundled emoji keyword dataset used by the offline emoji generator.
+// Each emoji lists its keywords, most specific first: the first keyword is
+// the emoji's name. Keywords are lowercase and singular, and may be phrases
+// ("ice cream") that match consecutive words of an answer.
+export const EMOJI_KEYWORDS: Record<string, string[]> = {
+  // Time
+  "⌚": ["watch", "wristwatch", "time"],
+  "⏰": ["alarm clock", "alarm", "clock", "wake", "time"],
+  "⏳": ["hourglass", "timer", "wait", "time"],
+  "⏱️": ["stopwatch", "timer", "speed", "quick"],
+  "🕐": ["clock", "hour", "time", "o'clock"],
+  "📅": ["calendar", "date", "day", "schedule", "appointment"],
+  "🗓️": ["planner", "schedule", "calendar", "agenda"],
+  "🎂": ["birthday", "birthday cake", "cake", "candle", "celebration"],
+  "🎄": ["christmas", "xmas", "christmas tree", "holiday"],
+  "🎃": ["halloween", "pumpkin", "jack o lantern"],
+
+  // Sky and weather
+  "☀️": ["sun", "sunny", "sunshine", "sunlight", "summer", "bright", "day"],
+  "🌞": ["sunshine", "sun", "smile", "warm"],
+  "🌅": ["sunrise", "dawn", "morning", "sunset"],
+  "🌄": ["mountain sunrise", "sunrise", "morning"],
+  "🌇": ["sunset", "dusk", "evening", "city sunset"],
+  "🌆": ["evening", "cityscape", "dusk"],
+  "🌃": ["night", "city night", "starry night", "nightlife"],
+  "🌙": ["moon", "crescent", "night", "lunar", "sleep"],
+  "🌕": ["full moon", "moon", "lunar"],
+  "⭐": ["star", "favorite", "excellence", "gold star"],
+  "🌟": ["glowing star", "shine", "star", "sparkle"],
+  "🌠": ["shooting star", "wish", "meteor"],
+  "✨": ["sparkles", "sparkle", "magic", "new", "shiny", "glitter", "experience"],
+  "🌌": ["galaxy", "milky way", "universe", "cosmos", "cosmology", "interstellar", "nebula"],
+  "☁️": ["cloud", "cloudy", "overcast", "sky"],
+  "🌧️": ["rain", "rainy", "shower", "drizzle"],
+  "☔": ["umbrella", "rain", "wet"],
+  "⛈️": ["storm", "thunderstorm", "thunder"],
+  "⚡": ["lightning", "electricity", "electric", "power", "energy", "volt", "quick", "fast"],
+  "❄️": ["snowflake", "snow", "cold", "winter", "ice", "frozen"],
+  "⛄": ["snowman", "snow", "winter"],
+  "🌨️": ["snowfall", "snow", "blizzard"],
+  "🌬️": ["wind", "breeze", "blow", "gust", "air"],
+  "🌪️": ["tornado", "twister", "whirlwind"],
+  "🌫️": ["fog", "mist", "haze", "smog"],
+  "🌈": ["rainbow", "colors", "color", "spectrum", "pride", "kaleidoscope", "kaleidoscopic"],
+  "🌡️": ["thermometer", "temperature", "heat", "thermodynamic", "climate"],
+  "🔥": ["fire", "flame", "hot", "burn", "heat", "lit", "metabolism"],
+  "💧": ["droplet", "drop", "water", "liquid", "hydro", "hydration"],
+  "🌊": ["wave", "ocean", "sea", "surf", "tide", "water"],
+
+  // Plants and nature
+  "🌳": ["tree", "oak", "shade", "forest", "wood"],
+  "🌲": ["evergreen", "pine", "forest", "tree"],
+  "🌴": ["palm tree", "palm", "tropical", "island"],
+  "🌵": ["cactus", "desert"],
+  "🌱": ["seedling", "sprout", "plant", "grow", "growth", "green", "sustainable", "cultivation", "eco"],
+  "🌿": ["herb", "leaf", "nature", "botanical", "green", "organic"],
+  "🍃": ["leaves", "leaf", "breeze", "nature"],
+  "🍂": ["fallen leaf", "autumn", "fall"],
+  "🍁": ["maple leaf", "maple", "canada", "autumn"],
+  "🪴": ["potted plant", "house plant", "houseplant", "plant", "pot"],
+  "🌸": ["cherry blossom", "blossom", "flower", "spring"],
+  "🌺": ["hibiscus", "flower", "tropical"],
+  "🌹": ["rose", "flower", "romance"],
+  "🌻": ["sunflower", "flower", "garden"],
+  "🌷": ["tulip", "flower", "spring"],
+  "💐": ["bouquet", "flowers", "flower", "vase", "arrangement"],
+  "🍄": ["mushroom", "fungus", "toadstool"],
+  "🪨": ["rock", "stone", "boulder", "geology", "mineral", "lithosphere", "lithospheric", "crust"],
+  "⛰️": ["mountain", "peak", "climbing", "hill"],
+  "🏔️": ["snow capped mountain", "mountain", "alpine", "summit"],
+  "🌋": ["volcano", "eruption", "lava", "magma"],
+  "🏜️": ["desert", "dune", "sand"],
+  "🏝️": ["desert island", "island", "beach", "vacation"],
+  "🏞️": ["national park", "park", "lake", "valley", "scenery", "yellowstone"],
+  "🌍": ["earth", "globe", "world", "global", "planet", "international", "geography", "environment"],
+  "🗺️": ["map", "world map", "geography", "atlas", "geospatial"],
+  "🧭": ["compass", "navigation", "direction", "exploration", "orientation"],
+
+  // Animals
+  "🐶": ["dog", "puppy", "pet"],
+  "🐕": ["dog walk", "dog", "walk"],
+  "🐱": ["cat", "kitten", "kitty", "pet"],
+  "🐈": ["cat", "feline"],
+  "🐭": ["mouse", "rodent"],
+  "🐰": ["rabbit", "bunny", "easter"],
+  "🦊": ["fox", "sly", "firefox"],
+  "🐻": ["bear", "teddy"],
+  "🐼": ["panda"],
+  "🐨": ["koala"],
+  "🐯": ["tiger", "stripes"],
+  "🦁": ["lion", "king", "pride", "liger"],
+  "🐮": ["cow", "milk", "dairy", "farm"],
+  "🐷": ["pig", "pork", "farm"],
+  "🐸": ["frog", "toad", "amphibian"],
+  "🐵": ["monkey", "ape", "primate"],
+  "🐔": ["chicken", "hen", "poultry"],
+  "🐧": ["penguin", "antarctic"],
+  "🐦": ["bird", "tweet", "song bird"],
+  "🦜": ["parrot", "talk", "bird"],
+  "🦉": ["owl", "wise", "night owl", "wisdom"],
+  "🦅": ["eagle", "freedom", "soar"],
+  "🦆": ["duck", "quack"],
+  "🦃": ["turkey", "thanksgiving", "turducken", "tofurkey"],
+  "🐝": ["bee", "honeybee", "busy", "pollination"],
+  "🦋": ["butterfly", "metamorphosis", "metamorphic", "transformation", "transform"],
+  "🐛": ["caterpillar", "bug", "worm", "bookworm"],
+  "🐞": ["ladybug", "beetle", "bug"],
+  "🕷️": ["spider", "web"],
+  "🐢": ["turtle", "tortoise", "slow"],
+  "🐍": ["snake", "serpent", "python"],
+  "🦖": ["dinosaur", "t rex", "fossil", "paleontology", "extinct"],
+  "🐙": ["octopus", "tentacle"],
+  "🐟": ["fish", "fishing"],
+  "🐠": ["tropical fish", "fish", "aquarium", "fish bowl"],
+  "🐬": ["dolphin", "marine"],
+  "🐳": ["whale", "ocean"],
+  "🦈": ["shark", "jaws"],
+  "🐴": ["horse", "pony", "equine"],
+  "🦄": ["unicorn", "fantasy", "fairy"],
+  "🐺": ["wolf", "werewolf", "howl"],
+  "🦓": ["zebra", "stripe"],
+  "🦒": ["giraffe", "tall"],
+  "🐘": ["elephant", "memory", "giant", "huge", "ginormous"],
+  "🐑": ["sheep", "wool", "lamb"],
+  "🦙": ["llama", "alpaca"],
+  "🐾": ["paw prints", "paw", "pet", "animal", "zoo", "zoology", "zoological"],
+
+  // Food
+  "🍎": ["apple", "red apple", "fruit", "teacher"],
+  "🍏": ["green apple", "apple"],
+  "🍌": ["banana", "fruit"],
+  "🍊": ["orange", "tangerine", "citrus"],
+  "🍋": ["lemon", "sour", "citrus"],
+  "🍇": ["grapes", "grape", "vineyard"],
+  "🍓": ["strawberry", "berry", "jam"],
+  "🍒": ["cherry", "cherries"],
+  "🍑": ["peach"],
+  "🍍": ["pineapple", "tropical"],
+  "🥥": ["coconut", "tropical"],
+  "🥑": ["avocado", "guacamole"],
+  "🍅": ["tomato", "ketchup"],
+  "🥕": ["carrot", "vegetable"],
+  "🌽": ["corn", "maize", "harvest", "agriculture", "agricultural"],
+  "🥦": ["broccoli", "vegetable", "vegetarian", "flexitarian"],
+  "🥔": ["potato", "spud"],
+  "🫒": ["olive", "olive oil"],
+  "🍞": ["bread", "loaf", "bakery", "toast"],
+  "🥖": ["baguette", "bread loaf", "french bread"],
+  "🥐": ["croissant", "pastry", "bakery"],
+  "🥞": ["pancakes", "pancake", "breakfast", "brunch"],
+  "🧇": ["waffle", "breakfast"],
+  "🧈": ["butter", "dairy"],
+  "🥚": ["egg", "eggs"],
+  "🍳": ["cooking", "fried egg", "frying pan", "skillet", "breakfast", "kitchen"],
+  "🥓": ["bacon", "breakfast"],
+  "🍔": ["burger", "hamburger", "fast food"],
+  "🍟": ["french fries", "fries", "fryer", "air fryer"],
+  "🍕": ["pizza", "pizza slice", "slice", "pepperoni"],
+  "🌭": ["hot dog", "sausage"],
+  "🥪": ["sandwich", "lunch"],
+  "🌮": ["taco", "mexican"],
+  "🌯": ["burrito", "wrap"],
+  "🥗": ["salad", "green salad", "healthy", "lettuce", "nutrition", "nutritional"],
+  "🍝": ["spaghetti", "pasta", "noodles"],
+  "🍜": ["ramen", "noodle soup", "noodles"],
+  "🍲": ["soup", "stew", "pot", "hot pot"],
+  "🍛": ["curry", "curry rice"],
+  "🍚": ["rice", "cooked rice", "rice bowl"],
+  "🍣": ["sushi", "fish"],
+  "🍤": ["shrimp", "prawn", "tempura"],
+  "🧂": ["salt", "salt shaker", "shaker", "seasoning"],
+  "🍦": ["ice cream", "soft serve", "cone"],
+  "🍨": ["ice cream bowl", "gelato", "sundae"],
+  "🍩": ["doughnut", "donut", "cronut"],
+  "🍪": ["cookie", "cookies", "biscuit"],
+  "🍰": ["cake", "shortcake", "slice of cake", "dessert"],
+  "🧁": ["cupcake", "muffin"],
+  "🥧": ["pie", "apple pie", "pastry", "tart"],
+  "🍫": ["chocolate", "chocolate bar", "cocoa", "chocoholic"],
+  "🍬": ["candy", "sweet"],
+  "🍭": ["lollipop", "sweet"],
+  "🍯": ["honey", "honey pot", "sweet"],
+  "🥜": ["peanut", "nut"],
+  "🧀": ["cheese", "cheddar"],
+  "🥛": ["milk", "glass of milk", "milk carton", "dairy"],
+  "☕": ["coffee", "hot beverage", "coffee cup", "espresso", "cafe", "tea", "cocoa"],
+  "🍵": ["tea", "green tea", "tea time", "teacup", "matcha"],
+  "🫖": ["teapot", "tea", "kettle"],
+  "🧃": ["juice box", "juice", "box"],
+  "🥤": ["cup with straw", "soda", "drink", "smoothie", "cup"],
+  "🧋": ["bubble tea", "boba"],
+  "🍹": ["tropical drink", "cocktail", "mocktail"],
+  "🍸": ["cocktail", "martini"],
+  "🍷": ["wine", "wine glass", "red wine"],
+  "🍺": ["beer", "pub", "brewery", "zymurgy"],
+  "🍾": ["champagne", "bottle", "celebration", "toast"],
+  "🍽️": ["plate", "plates", "dinner", "meal", "dining", "restaurant", "gastronomy", "table", "feed"],
+  "🍴": ["fork and knife", "fork", "knife", "cutlery", "eat", "food"],
+  "🥄": ["spoon", "spork", "stir"],
+  "🔪": ["kitchen knife", "knife", "chef", "cut"],
+  "🫙": ["jar", "jam jar", "preserve", "container"],
+  "🥣": ["bowl", "cereal", "bowl with spoon"],
+  "🍱": ["bento box", "bento", "lunch box", "lunch"],
+  "🥘": ["paella", "shallow pan", "casserole", "dish"],
+  "🫕": ["fondue", "pot"],
+
+  // People and emotion
+  "😊": ["smile", "happy", "smiling", "pleased", "emoticon", "expression"],
+  "😄": ["grin", "laugh", "joy", "chortle"],
+  "😂": ["tears of joy", "laughing", "lol", "funny", "comedy"],
+  "😢": ["crying", "sad", "tear"],
+  "😡": ["angry", "rage", "mad", "hangry"],
+  "😴": ["sleeping", "sleep", "nap", "tired", "snooze"],
+  "😎": ["cool", "sunglasses", "chill", "chillax"],
+  "🤔": ["thinking", "think", "thought", "consideration", "ponder", "wonder", "philosophy", "philosophical", "guess", "guesstimate"],
+  "🤯": ["mind blown", "mind", "shock", "brainstorm"],
+  "😱": ["scream", "fear", "horror"],
+  "🥰": ["in love", "love", "adore", "romance"],
+  "😍": ["heart eyes", "crush", "love"],
+  "😇": ["halo", "angel", "innocent", "integrity"],
+  "🤖": ["robot", "bot", "artificial", "android", "automation", "automaton", "animatronic", "cyborg"],
+  "👽": ["alien", "extraterrestrial", "ufo", "xeno"],
+  "👻": ["ghost", "spooky", "boo"],
+  "💀": ["skull", "death", "dead"],
+  "🤡": ["clown", "circus"],
+  "🧠": ["brain", "mind", "intelligence", "neuro", "neuroscience", "neurology", "cognitive", "cognition", "smart", "psychology", "psychological", "behavior", "behavioral", "electroencephalography"],
+  "👁️": ["eye", "vision", "see", "observation", "view", "watch", "perspective"],
+  "👀": ["eyes", "look", "gaze", "gazing", "staring", "view", "awareness"],
+  "👂": ["ear", "listen", "hear"],
+  "👃": ["nose", "smell"],
+  "👄": ["mouth", "lips", "kiss"],
+  "👅": ["tongue", "taste", "linguistic", "linguistics", "language"],
+  "🦷": ["tooth", "teeth", "dentist", "dental"],
+  "🦴": ["bone", "skeleton", "fossil"],
+  "💪": ["flexed biceps", "strong", "strength", "muscle", "power", "arm", "fitness"],
+  "🦾": ["mechanical arm", "prosthetic", "bionic", "biomechanical"],
+  "✋": ["raised hand", "hand", "stop", "high five"],
+  "👋": ["waving hand", "wave", "hello", "goodbye", "visit"],
+  "🤝": ["handshake", "hand shake", "agreement", "deal", "partnership", "relations", "negotiation", "diplomacy", "diplomatic", "meeting"],
+  "👏": ["clapping", "applause", "clap", "bravo"],
+  "🙏": ["folded hands", "pray", "please", "thanks", "meditation"],
+  "👍": ["thumbs up", "like", "approve", "good"],
+  "✌️": ["victory hand", "peace", "victory"],
+  "🤞": ["crossed fingers", "luck", "hope"],
+  "✍️": ["writing hand", "write", "writing", "author", "signature"],
+  "💅": ["nail polish", "manicure", "glam", "glamour"],
+  "👶": ["baby", "infant", "newborn"],
+  "🧒": ["child", "kid", "kids", "young"],
+  "👦": ["boy", "son"],
+  "👧": ["girl", "daughter"],
+  "🧑": ["person", "adult", "human"],
+  "👨‍👩‍👧": ["family", "parents", "household"],
+  "👥": ["people", "group", "social", "community", "demographic", "population", "society", "sociology", "sociological", "anthropology", "anthropological", "convention"],
+  "👴": ["old man", "grandfather", "elderly", "old"],
+  "👵": ["old woman", "grandmother", "granny"],
+  "👑": ["crown", "king", "queen", "royal", "royalty"],
+  "🧙": ["wizard", "mage", "sorcerer", "magic"],
+  "🧚": ["fairy", "fairy tale", "pixie"],
+  "🧛": ["vampire", "dracula"],
+  "🧟": ["zombie", "undead", "frankenfood"],
+  "🧜": ["mermaid", "merperson"],
+  "🦸": ["superhero", "hero", "cape"],
+  "👮": ["police officer", "police", "cop", "law enforcement"],
+  "🕵️": ["detective", "investigation", "spy", "sleuth", "forensic", "case"],
+  "👷": ["construction worker", "builder", "construction", "engineering", "infrastructure"],
+  "🧑‍🍳": ["cook", "chef", "culinary"],
+  "🧑‍🌾": ["farmer", "gardener", "agriculture"],
+  "🧑‍🏫": ["teacher", "professor", "education", "educational", "curriculum", "class", "lesson"],
+  "🧑‍🎓": ["student", "graduate", "graduation", "learning"],
+  "🧑‍⚕️": ["health worker", "doctor", "nurse", "healthcare", "physician"],
+  "🧑‍🔬": ["scientist", "researcher", "research", "scientific", "laboratory"],
+  "🧑‍💻": ["technologist", "coder", "programmer", "developer", "hacker", "hackathon"],
+  "🧑‍🚀": ["astronaut", "space", "cosmonaut"],
+  "🧑‍🎤": ["singer", "rock star", "musician", "performer", "singing"],
+  "🧑‍🎨": ["artist", "painter", "creative"],
+  "🧑‍⚖️": ["judge", "justice", "jurisprudence", "jurisprudential", "court"],
+  "💃": ["dancer", "dance", "dancing", "salsa"],
+  "🕺": ["dancing man", "disco", "dance floor"],
+  "🏃": ["runner", "running", "run", "jog", "race", "athletic", "motion", "kinematic"],
+  "🚶": ["walking", "walk", "stroll", "pedestrian", "hike"],
+  "🧘": ["yoga", "meditation", "zen", "calm", "mindfulness", "quiet", "mat"],
+  "🏊": ["swimmer", "swimming", "swim", "pool"],
+  "🏄": ["surfer", "surfing", "surf"],
+  "🚴": ["cyclist", "cycling", "bike ride", "bicycling"],
+  "🧗": ["climber", "climbing", "rock climbing"],
+  "⛹️": ["basketball player", "ball game", "athlete"],
+  "🤸": ["cartwheel", "gymnastics", "jump", "jazzercise", "kinesthetic", "exercise"],
+  "🏋️": ["weightlifter", "weightlifting", "gym", "workout", "athleisure"],
+  "🛀": ["bath", "bathtub", "bathing", "bath time"],
+  "🚿": ["shower", "wash", "bathroom"],
+  "🛌": ["sleeping person", "bed", "rest", "bedtime"],
+  "💑": ["couple", "dating", "date", "romance", "relationship"],
+  "💏": ["kiss", "couple kiss"],
+  "👫": ["friends", "friendship", "pair", "bromance", "frenemy"],
+
+  // Hearts and symbols
+  "❤️": ["red heart", "heart", "love", "health"],
+  "💔": ["broken heart", "heartbreak"],
+  "💕": ["two hearts", "love", "affection"],
+  "💯": ["hundred points", "perfect", "score", "excellence"],
+  "💢": ["anger", "angry"],
+  "💥": ["collision", "boom", "explosion", "impact", "crash", "big bang", "break"],
+  "💫": ["dizzy", "star", "orbit"],
+  "💦": ["sweat droplets", "splash", "water"],
+  "💨": ["dashing away", "dash", "fast", "wind", "air"],
+  "💬": ["speech balloon", "chat", "talk", "message", "communication", "conversation", "speech", "debate", "response", "reply"],
+  "💭": ["thought balloon", "thought", "dream", "daydream", "imagine", "theory", "theoretical"],
+  "💤": ["zzz", "sleep", "nap"],
+  "☮️": ["peace symbol", "peace"],
+  "☯️": ["yin yang", "balance", "equilibrium", "harmony", "juxtaposition"],
+  "♻️": ["recycling", "recycle", "renewable", "sustainability", "reuse", "eco", "conservation", "ecology", "ecological"],
+  "⚖️": ["balance scale", "scale", "justice", "law", "legal", "equality", "fair", "proportion", "ethics", "ethical", "regulation", "regulatory", "compliance"],
+  "⚕️": ["medical symbol", "medical", "medicine", "health", "healthcare", "diagnosis", "telemedicine"],
+  "⚛️": ["atom", "atomic", "physics", "quantum", "nuclear", "molecular", "particle", "electron"],
+  "✅": ["check mark", "done", "complete", "correct", "approval", "evaluation", "assessment", "compliance"],
+  "❌": ["cross mark", "wrong", "no", "cancel", "x"],
+  "❓": ["question", "question mark", "quiz", "mystery", "unknown", "phenomenon", "phenomena"],
+  "❗": ["exclamation", "important", "alert", "warning"],
+  "➕": ["plus", "add", "addition"],
+  "➗": ["divide", "division", "math"],
+  "✖️": ["multiply", "multiplication", "times"],
+  "🔁": ["repeat", "loop", "cycle", "sequence", "iteration", "pattern"],
+  "🔄": ["counterclockwise arrows", "refresh", "update", "change", "reform", "transition", "exchange", "conversion", "revolution"],
+  "🔀": ["shuffle", "random", "mix", "remix", "fusion"],
+  "➡️": ["right arrow", "next", "forward", "direction", "path", "pathway", "approach"],
+  "⬆️": ["up arrow", "up", "rise", "increase"],
+  "⬇️": ["down arrow", "down", "under", "fall", "decrease"],
+  "🔝": ["top", "best", "peak"],
+  "🆕": ["new button", "new", "fresh"],
+  "🆒": ["cool button", "cool"],
+  "🆓": ["free button", "free", "freemium"],
+  "🔞": ["no one under eighteen", "adult", "eighteen"],
+  "🚫": ["prohibited", "forbidden", "ban", "not allowed"],
+  "⛔": ["no entry", "blocked"],
+  "⚠️": ["warning", "caution", "danger", "risk", "hazard", "critical"],
+  "🔰": ["beginner", "novice", "learner"],
+  "♾️": ["infinity", "forever", "endless", "universal"],
+  "🎌": ["crossed flags", "japan", "celebration"],
+  "🏳️": ["white flag", "surrender"],
+  "🏁": ["checkered flag", "finish", "race", "finish line", "start", "starting line"],
+  "🇬🇧": ["united kingdom", "britain", "british", "uk", "brexit"],
+  "🇪🇺": ["european union", "europe", "eu"],
+  "🇮🇳": ["india", "indian", "bollywood"],
+  "🇺🇸": ["united states", "usa", "america", "american"],
+  "🇫🇷": ["france", "french"],
+  "🇹🇿": ["tanzania", "tanzanite"],
+
+  // Activities, sports and games
+  "⚽": ["soccer", "football", "ball", "goal"],
+  "🏀": ["basketball", "hoop", "ball"],
+  "🏈": ["american football", "football"],
+  "⚾": ["baseball", "ball game"],
+  "🎾": ["tennis", "racket"],
+  "🏐": ["volleyball", "beach volleyball"],
+  "🏓": ["ping pong", "table tennis", "paddle"],
+  "🏸": ["badminton"],
+  "⛳": ["golf", "flag in hole", "golf course"],
+  "🏌️": ["golfer", "golf"],
+  "🥊": ["boxing glove", "boxing", "fight", "punch"],
+  "🥋": ["martial arts", "karate", "judo"],
+  "⛸️": ["ice skate", "ice skating", "skate", "skating"],
+  "🛼": ["roller skate", "roller skating", "roller", "skate"],
+  "🛹": ["skateboard", "skateboarding", "skate"],
+  "🎿": ["ski", "skiing"],
+  "🏂": ["snowboarder", "snowboard"],
+  "🎣": ["fishing pole", "fishing", "pole", "rod"],
+  "🥅": ["goal net", "goal", "net", "goalkeeper", "keeper"],
+  "🏆": ["trophy", "award", "winner", "champion", "prize", "victory", "excellence"],
+  "🥇": ["gold medal", "gold", "first place", "medal"],
+  "🏅": ["sports medal", "medal", "award"],
+  "🎖️": ["military medal", "honor", "medal"],
+  "🎯": ["direct hit", "target", "bullseye", "dart", "aim", "goal", "strategy", "precision"],
+  "🎮": ["video game", "gaming", "game", "controller", "gamer", "console"],
+  "🕹️": ["joystick", "arcade", "game"],
+  "🎲": ["game die", "dice", "board game", "chance", "luck", "random"],
+  "♟️": ["chess pawn", "chess", "strategy", "geopolitics", "geopolitical", "tactic"],
+  "🧩": ["puzzle piece", "puzzle", "jigsaw", "components", "component", "complexity", "integration", "multidisciplinary"],
+  "🃏": ["joker", "wild card", "card game"],
+  "🎴": ["flower playing cards", "playing card", "card"],
+  "🀄": ["mahjong", "tile"],
+  "🎰": ["slot machine", "slot", "casino", "gamble", "jackpot"],
+  "🎳": ["bowling", "bowl", "strike"],
+  "🪁": ["kite", "flying kite", "fly"],
+  "🎈": ["balloon", "party", "floating"],
+  "🎉": ["party popper", "party", "celebration", "congratulations", "celebrate"],
+  "🎊": ["confetti ball", "confetti", "festival"],
+  "🎁": ["wrapped gift", "gift", "present", "gift card", "surprise"],
+  "🎀": ["ribbon", "bow", "wrap"],
+  "🎟️": ["admission ticket", "ticket", "admission"],
+  "🎫": ["ticket", "pass", "voucher"],
+  "🎪": ["circus tent", "circus", "carnival", "fair", "attraction"],
+  "🎭": ["performing arts", "theater", "theatre", "drama", "theatrical", "acting", "mask", "cosplay", "performance"],
+  "🎨": ["artist palette", "art", "paint", "painting", "palette", "creativity", "creative", "color"],
+  "🖼️": ["framed picture", "picture", "painting", "frame", "framework", "gallery", "art gallery", "wall picture"],
+  "🧵": ["thread", "sewing", "string", "stitch"],
+  "🧶": ["yarn", "knitting", "wool", "ball of yarn", "sweater"],
+  "🪡": ["sewing needle", "needle", "stitch", "embroidery"],
+  "🪢": ["knot", "rope", "tie", "entanglement"],
+  "🎤": ["microphone", "mic", "karaoke", "sing", "singing", "song", "podcast", "voice"],
+  "🎧": ["headphone", "headphones", "listen", "earphones", "audio"],
+  "🎼": ["musical score", "sheet music", "composition", "compose", "score"],
+  "🎵": ["musical note", "music", "note", "melody", "song", "tune", "musical"],
+  "🎶": ["musical notes", "music", "harmony", "notes", "chime"],
+  "🎷": ["saxophone", "sax", "jazz"],
+  "🎸": ["guitar", "guitar solo", "rock", "rock music", "rockumentary", "punk"],
+  "🎹": ["musical keyboard", "piano", "keyboard", "keys"],
+  "🎺": ["trumpet", "horn", "fanfare"],
+  "🎻": ["violin", "fiddle", "orchestra", "classical"],
+  "🥁": ["drum", "drums", "drumbeat", "rhythm"],
+  "🪘": ["long drum", "conga"],
+  "🔔": ["bell", "ring", "notification", "alert", "bell ring"],
+  "🎐": ["wind chime", "chime"],
+  "📯": ["postal horn", "horn"],
+  "📻": ["radio", "broadcast", "frequency", "transmission"],
+  "🎬": ["clapper board", "film", "movie", "cinema", "director", "production", "biopic"],
+  "🎥": ["movie camera", "film", "camcorder", "filming", "video", "vlog", "documentary"],
+  "🍿": ["popcorn", "movie", "movie time", "snack"],
+  "📺": ["television", "tv", "show", "sitcom", "telethon", "infomercial", "televangelist", "dramedy"],
+  "📷": ["camera", "photo", "photography", "picture", "snapshot", "digital camera"],
+  "📸": ["camera with flash", "selfie", "photo", "flash"],
+  "📹": ["video camera", "camcorder", "video"],
+  "📼": ["videocassette", "vhs", "tape", "retro"],
+  "💿": ["optical disk", "cd", "disc", "album"],
+  "🎞️": ["film frames", "film", "reel", "retrospective"],
+
+  // Travel and places
+  "🏠": ["house", "home", "housing", "household", "residence"],
+  "🏡": ["house with garden", "home", "garden", "yard", "cottage", "lawn"],
+  "🏘️": ["neighborhood", "houses", "suburb"],
+  "🏚️": ["derelict house", "abandoned", "haunted house"],
+  "🏢": ["office building", "office", "corporate", "business", "company", "headquarters"],
+  "🏣": ["post office", "mail"],
+  "🏥": ["hospital", "clinic", "emergency", "healthcare"],
+  "🏦": ["bank", "finance", "financial", "investment"],
+  "🏨": ["hotel", "motel", "resort", "lodging"],
+  "🏪": ["convenience store", "store", "shop", "market", "retail"],
+  "🏫": ["school", "classroom", "education", "educational"],
+  "🏛️": ["classical building", "museum", "government", "political", "politics", "history", "historical", "neoclassical", "architecture", "constitution", "constitutional"],
+  "🏗️": ["building construction", "construction", "crane", "development", "architectural", "infrastructure", "structure"],
+  "🏭": ["factory", "industry", "industrial", "manufacturing", "production", "plant"],
+  "🏰": ["castle", "palace", "fortress", "kingdom"],
+  "⛪": ["church", "religion", "worship"],
+  "🕌": ["mosque", "islam"],
+  "🛕": ["hindu temple", "temple"],
+  "⛩️": ["shinto shrine", "shrine", "torii"],
+  "🗼": ["tower", "tokyo tower"],
+  "🗽": ["statue of liberty", "liberty", "new york", "freedom"],
+  "🗿": ["moai", "statue", "monument", "easter island"],
+  "🏟️": ["stadium", "arena", "sports"],
+  "🎡": ["ferris wheel", "amusement park", "fair", "carnival"],
+  "🎢": ["roller coaster", "theme park", "thrill", "ride"],
+  "⛲": ["fountain", "park"],
+  "⛺": ["tent", "camping", "camp", "glamping"],
+  "🏕️": ["camping", "campsite", "outdoors"],
+  "🏖️": ["beach with umbrella", "beach", "beach day", "vacation", "summer", "staycation"],
+  "🌉": ["bridge at night", "bridge", "connection"],
+  "🌁": ["foggy", "fog", "smog"],
+  "🏙️": ["cityscape", "city", "urban", "skyline", "downtown", "metropolitan", "metro"],
+  "🌐": ["globe with meridians", "internet", "web", "www", "network", "online", "browser", "global", "netiquette", "webinar"],
+  "🛣️": ["motorway", "highway", "road", "road trip", "lane", "drive"],
+  "🛤️": ["railway track", "railway", "track", "trail"],
+  "🚂": ["locomotive", "train", "steam train", "railroad"],
+  "🚆": ["train", "rail", "commute", "transportation", "transport"],
+  "🚉": ["station", "train station", "platform"],
+  "🚇": ["metro", "subway", "underground"],
+  "🚌": ["bus", "school bus", "bus stop"],
+  "🚏": ["bus stop", "stop"],
+  "🚕": ["taxi", "cab"],
+  "🚗": ["automobile", "car", "drive", "driving", "carjacking", "vehicle"],
+  "🚙": ["suv", "car"],
+  "🚚": ["delivery truck", "truck", "delivery", "moving", "food truck"],
+  "🚜": ["tractor", "farm", "farming", "mower", "lawn mower"],
+  "🏎️": ["racing car", "race car", "racing", "speed"],
+  "🏍️": ["motorcycle", "motorbike"],
+  "🛵": ["motor scooter", "scooter", "vespa"],
+  "🚲": ["bicycle", "bike", "cycle", "bike trail"],
+  "🛴": ["kick scooter", "scooter"],
+  "🚨": ["police light", "siren", "emergency", "alarm"],
+  "🚦": ["traffic light", "traffic", "signal"],
+  "🚧": ["construction sign", "roadwork", "under construction"],
+  "⚓": ["anchor", "harbor", "port", "nautical"],
+  "⛵": ["sailboat", "sailing", "boat", "yacht"],
+  "🚤": ["speedboat", "boat", "motorboat"],
+  "🛳️": ["passenger ship", "cruise", "ship"],
+  "🚢": ["ship", "ocean liner", "shipping"],
+  "✈️": ["airplane", "plane", "flight", "flying", "travel", "air travel", "airport"],
+  "🛫": ["departure", "takeoff", "trip"],
+  "🛬": ["arrival", "landing"],
+  "🪂": ["parachute", "skydiving"],
+  "🚁": ["helicopter", "chopper"],
+  "🚀": ["rocket", "launch", "space", "rocket science", "startup", "expansion", "innovation"],
+  "🛸": ["flying saucer", "ufo", "alien"],
+  "🛰️": ["satellite", "orbit", "gps", "remote"],
+  "🧳": ["luggage", "suitcase", "travel", "trip", "packing"],
+  "🎒": ["backpack", "school bag", "rucksack", "backpacking"],
+
+  // Objects and household
+  "⌛": ["hourglass done", "time up", "deadline"],
+  "📱": ["mobile phone", "smartphone", "phone", "cell phone", "mobile", "app", "iphone"],
+  "📲": ["phone call", "call", "calling"],
+  "☎️": ["telephone", "phone", "landline", "call"],
+  "📞": ["telephone receiver", "call", "phone call", "hotline"],
+  "📟": ["pager", "beeper"],
+  "📠": ["fax machine", "fax", "xerographic", "copy"],
+  "🔋": ["battery", "charge", "power", "energy", "potential", "electrochemical"],
+  "🔌": ["electric plug", "plug", "cable", "electricity", "usb"],
+  "💻": ["laptop", "computer", "computing", "computational", "virtual", "digital", "software", "tech", "technology", "technological", "cyber"],
+  "🖥️": ["desktop computer", "computer", "monitor", "desktop", "screen", "desk", "pixel"],
+  "⌨️": ["keyboard", "typing", "type", "code"],
+  "🖱️": ["computer mouse", "mouse", "click"],
+  "🖨️": ["printer", "print", "printing"],
+  "💾": ["floppy disk", "save", "data", "storage", "backup"],
+  "💽": ["computer disk", "minidisc", "disk"],
+  "📀": ["dvd", "disc"],
+  "🧮": ["abacus", "calculation", "counting", "arithmetic", "math", "mathematics", "mathematical", "logarithmic", "computation", "quantitative", "algorithm", "algorithmic", "equation", "formula"],
+  "🔍": ["magnifying glass", "search", "find", "zoom", "inspect", "investigation", "discovery", "examine", "analysis", "qualitative", "source"],
+  "🔎": ["magnifying glass right", "search", "zoom", "detail"],
+  "🔬": ["microscope", "science", "biology", "lab", "laboratory", "microbiology", "research", "ultrastructural", "crystallographic"],
+  "🔭": ["telescope", "astronomy", "astronomical", "stargazing", "star gaze", "observatory", "observation", "cosmological"],
+  "📡": ["satellite antenna", "antenna", "signal", "broadcast", "transmission", "radar", "gaydar"],
+  "🧪": ["test tube", "chemistry", "chemical", "experiment", "lab", "reaction", "biochemical", "neurochemical", "synthesis"],
+  "🧫": ["petri dish", "bacteria", "culture", "microbe", "vaccination", "immunology", "immunological"],
+  "🧬": ["dna", "genetics", "gene", "genome", "biology", "bio", "evolution", "evolutionary", "recombinant", "biodiversity", "biomedical", "life science"],
+  "💉": ["syringe", "vaccine", "vaccination", "injection", "shot", "immunization"],
+  "💊": ["pill", "medicine", "drug", "pharmacy", "pharmaceutical", "tablet", "capsule"],
+  "🩺": ["stethoscope", "doctor", "checkup", "diagnosis", "medical"],
+  "🩹": ["adhesive bandage", "bandage", "injury", "first aid"],
+  "🩸": ["drop of blood", "blood", "donation"],
+  "🦠": ["microbe", "virus", "germ", "bacteria", "pandemic", "epidemic", "infection", "immunocompromised", "xenobiotic", "malware"],
+  "😷": ["face mask", "mask", "sick", "pandemic", "quarantine"],
+  "💡": ["light bulb", "idea", "light", "bright idea", "lamp", "innovation", "invention", "insight"],
+  "🔦": ["flashlight", "torch", "light"],
+  "🕯️": ["candle", "candlelight", "wax"],
+  "🪔": ["diya lamp", "oil lamp", "diwali"],
+  "🛋️": ["couch", "sofa", "lounge", "living room"],
+  "🪑": ["chair", "seat", "bench"],
+  "🛏️": ["bed", "bedroom", "sleep", "mattress", "quilt", "blanket"],
+  "🚪": ["door", "door handle", "entrance", "exit", "doorway", "room"],
+  "🪟": ["window", "window view", "pane"],
+  "🪞": ["mirror", "reflection", "vanity"],
+  "🚽": ["toilet", "restroom", "bathroom"],
+  "🛁": ["bathtub", "bath", "tub"],
+  "🧼": ["soap", "bar of soap", "wash", "clean", "hand wash", "hygiene"],
+  "🧽": ["sponge", "clean", "cleaning", "scrub", "wash"],
+  "🧹": ["broom", "sweep", "cleaning", "housekeeping", "chore"],
+  "🧺": ["basket", "laundry", "picnic"],
+  "🧻": ["roll of paper", "toilet paper", "paper towel", "towel"],
+  "🪥": ["toothbrush", "brush teeth", "brush", "dental care"],
+  "🪒": ["razor", "shave", "shaving", "haircut"],
+  "🧴": ["lotion bottle", "lotion", "sunscreen", "shampoo", "bottle"],
+  "🧯": ["fire extinguisher", "extinguisher", "fire safety"],
+  "🪣": ["bucket", "pail"],
+  "🧸": ["teddy bear", "toy", "plush", "stuffed animal", "kidult"],
+  "🪆": ["nesting dolls", "matryoshka", "russian doll", "hierarchy"],
+  "🔑": ["key", "password", "unlock", "access", "key chain", "solution"],
+  "🗝️": ["old key", "antique key", "secret"],
+  "🔒": ["locked", "lock", "security", "secure", "private", "privacy", "protection", "cybersecurity", "password"],
+  "🔓": ["unlocked", "open", "unlock"],
+  "🛡️": ["shield", "defense", "protection", "guard", "security", "preservation", "protocol"],
+  "⚔️": ["crossed swords", "battle", "war", "conflict", "fight"],
+  "🔨": ["hammer", "build", "tool", "construction", "repair"],
+  "🪛": ["screwdriver", "tool", "fix"],
+  "🔧": ["wrench", "tool", "spanner", "fix", "maintenance", "mechanical", "mechanic", "engineering", "restoration", "restore"],
+  "🔩": ["nut and bolt", "bolt", "hardware", "mechanical"],
+  "⚙️": ["gear", "cog", "machine", "machinery", "settings", "mechanism", "process", "system", "operational", "optimization", "function", "method"],
+  "🧰": ["toolbox", "tools", "kit", "toolkit", "technique"],
+  "🧲": ["magnet", "magnetic", "attraction", "gravitational", "superconductor", "superconducting"],
+  "🪜": ["ladder", "climb", "step", "scaling", "hierarchy"],
+  "⛓️": ["chains", "chain", "link", "blockchain"],
+  "🔗": ["link", "chain", "connection", "network", "url", "convergence"],
+  "📎": ["paperclip", "paper clip", "clip", "attachment"],
+  "📌": ["pushpin", "pin", "location", "note"],
+  "📍": ["round pushpin", "location", "place", "map pin", "geospatial"],
+  "✂️": ["scissors", "cut", "haircut", "cutting"],
+  "📏": ["straight ruler", "ruler", "measure", "measurement", "geometry", "geometric", "length", "scale", "line"],
+  "📐": ["triangular ruler", "triangle", "geometry", "angle", "architecture", "design"],
+  "✏️": ["pencil", "draw", "sketch", "edit", "write"],
+  "🖊️": ["pen", "ballpoint", "write", "sign"],
+  "🖋️": ["fountain pen", "ink", "calligraphy", "signature"],
+  "🖍️": ["crayon", "coloring", "kids"],
+  "🖌️": ["paintbrush", "paint brush", "brush", "paint"],
+  "📝": ["memo", "note", "notes", "list", "shopping list", "to do", "documentation", "write", "writing", "journal", "journalistic"],
+  "📄": ["page", "document", "paper", "sheet", "file"],
+  "📃": ["page with curl", "document", "paper", "contract", "transaction"],
+  "📑": ["bookmark tabs", "tabs", "index", "classification"],
+  "🔖": ["bookmark", "book mark", "tag", "label", "mark"],
+  "🏷️": ["label", "tag", "price", "sale"],
+  "📋": ["clipboard", "checklist", "list", "agenda", "guidelines", "report", "session"],
+  "🗂️": ["card index dividers", "organize", "organization", "organizational", "folder", "archive", "category"],
+  "📁": ["file folder", "folder", "file", "directory"],
+  "🗄️": ["file cabinet", "filing", "records", "archive", "rack"],
+  "🗃️": ["card file box", "box", "records"],
+  "🗑️": ["wastebasket", "trash", "garbage", "rubbish", "bin"],
+  "📦": ["package", "box", "parcel", "shipping", "delivery", "mail box"],
+  "📫": ["closed mailbox", "mailbox", "mail box", "mail", "post"],
+  "📬": ["mailbox with mail", "mail", "inbox"],
+  "📮": ["postbox", "letter box", "post"],
+  "✉️": ["envelope", "letter", "mail", "email", "voice mail"],
+  "📧": ["email", "e mail", "inbox", "message"],
+  "📨": ["incoming envelope", "incoming mail", "message"],
+  "📚": ["books", "book", "library", "reading", "study", "studies", "literature", "book club", "learning", "reader", "bookshelf", "shelf"],
+  "📖": ["open book", "book", "read", "reading", "story", "novel", "lexicographical"],
+  "📕": ["closed book", "book", "textbook"],
+  "📓": ["notebook", "journal", "diary", "pad", "notepad"],
+  "📔": ["decorated notebook", "notebook", "diary"],
+  "📒": ["ledger", "accounting", "bookkeeping"],
+  "📰": ["newspaper", "news", "press", "journalism", "journalistic", "headline"],
+  "🗞️": ["rolled newspaper", "news", "paper"],
+  "📜": ["scroll", "ancient", "document", "history", "historical", "law", "amendment", "constitution", "principle"],
+  "💼": ["briefcase", "work", "business", "job", "office", "career", "management", "corporate", "case"],
+  "📊": ["bar chart", "chart", "statistics", "statistical", "data", "analytics", "analysis", "graph", "quantitative", "demographic"],
+  "📈": ["chart increasing", "growth", "increase", "trend", "progress", "stock market", "economy", "economic", "economics", "forecast", "forecasting", "investment", "development"],
+  "📉": ["chart decreasing", "decline", "decrease", "loss", "recession"],
+  "🧾": ["receipt", "bill", "invoice", "transaction"],
+  "💰": ["money bag", "money", "wealth", "rich", "fortune", "finance", "financial", "affluence", "affluenza"],
+  "💵": ["dollar", "cash", "money", "bill", "payment"],
+  "💳": ["credit card", "card", "payment", "bank card", "gift card", "purchase"],
+  "🪙": ["coin", "currency", "cryptocurrency", "bitcoin", "token"],
+  "💎": ["gem", "diamond", "jewel", "precious", "crystal", "tanzanite"],
+  "💍": ["ring", "engagement", "wedding", "jewelry"],
+  "👛": ["purse", "coin purse", "wallet"],
+  "👝": ["clutch bag", "pouch", "wallet"],
+  "🛍️": ["shopping bags", "shopping", "shop", "sale", "shopaholic", "mall", "retail"],
+  "🛒": ["shopping cart", "cart", "groceries", "supermarket", "shopping"],
+  "🎓": ["graduation cap", "graduation", "education", "educational", "academic", "degree", "college", "university", "school", "scholar", "class", "edutainment"],
+  "🗳️": ["ballot box", "vote", "voting", "election", "campaign", "political", "democracy"],
+  "📢": ["loudspeaker", "announcement", "public address", "campaign", "megaphone", "broadcast"],
+  "📣": ["megaphone", "cheer", "announce", "promotion", "commercial", "advertising"],
+  "🔊": ["speaker high volume", "loud", "sound", "speaker", "volume", "audio"],
+  "🔇": ["muted speaker", "mute", "silent", "quiet"],
+  "💇": ["haircut", "hair", "salon", "barber", "hairdresser"],
+  "🚰": ["potable water", "sink", "tap", "faucet"],
+  "🧍": ["standing person", "stand", "stand up", "standing"],
+  "🤐": ["zipper mouth", "zip", "zipper", "secret", "silence"],
+  "♣️": ["club suit", "club", "card suit"],
+  "♨️": ["hot springs", "steam", "oven", "sauna"],
+  "🤏": ["pinching hand", "tiny", "small", "little", "mini"],
+  "🌾": ["sheaf of rice", "field", "grain", "wheat", "yield", "harvest", "crop"],
+  "🪶": ["feather", "indigenous", "quill", "light"],
+  "🫀": ["anatomical heart", "anatomy", "physiology", "physiological", "organ", "cardiac"],
+  "🦎": ["lizard", "chameleon", "adaptation", "adapt", "reptile"],
+  "🧿": ["nazar amulet", "evil eye", "protection", "charm"],
+  "🔮": ["crystal ball", "fortune", "future", "prediction", "forecast", "magic"],
+  "🪄": ["magic wand", "magic", "wand", "spell", "automagically"],
+  "🏺": ["amphora", "vase", "pottery", "archaeology", "archaeological", "ancient"],
+  "⚱️": ["urn", "vase"],
+  "⛏️": ["pick", "mining", "dig", "excavation", "archaeology", "archaeological", "paleontological"],
+  "🧱": ["brick", "wall", "building", "structure", "masonry", "foundation", "fundamental", "material"],
+  "🪵": ["wood", "log", "timber", "lumber"],
+  "🛢️": ["oil drum", "oil", "petroleum", "barrel", "fuel", "tank"],
+  "⛽": ["fuel pump", "gas station", "gas", "fuel", "energy"],
+  "🔆": ["bright button", "brightness", "sunlight", "solar", "ray"],
+  "🪫": ["low battery", "drained", "tired"],
+  "📶": ["antenna bars", "signal", "wifi", "reception", "wavelength", "frequency"],
+  "〰️": ["wavy dash", "wave", "waveform", "vibration", "vibrational", "modulation", "oscillation"],
+  "🔢": ["input numbers", "numbers", "number", "digit", "fibonacci", "sequence"],
+  "🔣": ["input symbols", "symbols", "symbolism"],
+  "🔤": ["input latin letters", "alphabet", "letters", "abc", "spelling"],
+  "🆗": ["ok button", "ok", "okay"],
+  "🔠": ["input latin uppercase", "uppercase", "capital"],
+  "🧊": ["ice", "ice cube", "cold", "frozen", "cube"],
+  "🎩": ["top hat", "hat", "formal", "magician", "gentleman"],
+  "👒": ["womans hat", "sun hat", "hat", "summer"],
+  "🧢": ["billed cap", "cap", "baseball cap", "hat"],
+  "⛑️": ["rescue worker helmet", "helmet", "rescue"],
+  "👓": ["glasses", "eyeglasses", "spectacles", "nerd", "reader"],
+  "🕶️": ["sunglasses", "shades", "cool"],
+  "🥽": ["goggles", "safety goggles", "swim goggles", "virtual reality", "vr"],
+  "👔": ["necktie", "tie", "shirt", "business", "office", "formal"],
+  "👕": ["t shirt", "shirt", "tee", "clothing", "casual"],
+  "👖": ["jeans", "denim", "pants", "jeggings", "pocket"],
+  "🧣": ["scarf", "winter", "warm"],
+  "🧤": ["gloves", "glove", "mitt", "mitten", "oven mitt"],
+  "🧥": ["coat", "jacket", "raincoat", "overcoat"],
+  "🧦": ["socks", "sock", "stockings"],
+  "👗": ["dress", "gown", "fashion"],
+  "👘": ["kimono", "robe"],
+  "🥻": ["sari", "saree"],
+  "🩱": ["one piece swimsuit", "swimsuit", "swimwear"],
+  "🩳": ["shorts", "summer", "skort"],
+  "👙": ["bikini", "swimwear", "beach"],
+  "🦺": ["safety vest", "vest", "high visibility"],
+  "👚": ["blouse", "top", "clothes"],
+  "👜": ["handbag", "bag", "purse"],
+  "👟": ["running shoe", "sneaker", "shoe", "shoes", "trainer", "running shoes"],
+  "👞": ["mans shoe", "shoe", "dress shoe"],
+  "👠": ["high heeled shoe", "heels", "stiletto"],
+  "👢": ["womans boot", "boot", "boots", "rain boots"],
+  "🥾": ["hiking boot", "boot", "hiking"],
+  "🩴": ["thong sandal", "flip flop", "sandal"],
+  "☂️": ["umbrella", "rain", "cover"],
+  "🌂": ["closed umbrella", "umbrella"],
+  "🧷": ["safety pin", "pin", "diaper"],
+  "🪝": ["hook", "hanger", "catch"],
+  "🪤": ["mouse trap", "trap", "bait"],
+  "🪃": ["boomerang", "return", "comeback"],
+  "🛎️": ["bellhop bell", "service", "reception", "hotel"],
+  "🕰️": ["mantelpiece clock", "clock", "antique", "time", "grandfather clock"],
+  "⏲️": ["timer clock", "timer", "kitchen timer", "countdown"],
+  "🎛️": ["control knobs", "controls", "mixer", "settings"],
+  "🎚️": ["level slider", "volume", "slider", "level"],
+  "🥡": ["takeout box", "takeout", "take away", "chinese food"],
+  "🫧": ["bubbles", "bubble", "foam", "soap", "clean", "floating"],
+  "🧨": ["firecracker", "dynamite", "explosive", "boom"],
+  "🎆": ["fireworks", "celebration", "new year"],
+  "🎇": ["sparkler", "fireworks"],
+  "🏮": ["red paper lantern", "lantern", "lamp"],
+  "🪅": ["pinata", "party"],
+  "🪩": ["mirror ball", "disco ball", "disco", "dance"],
+  "🎏": ["carp streamer", "windsock"],
+  "🧧": ["red envelope", "gift money"],
+  "🪀": ["yo yo", "toy"],
+  "🥏": ["flying disc", "frisbee"],
+  "🎽": ["running shirt", "marathon"],
+  "🛷": ["sled", "sledding", "toboggan"],
+  "🥌": ["curling stone", "curling"],
+  "🤿": ["diving mask", "snorkel", "scuba"]
+};
+
+// Words that carry no picture of their own and are skipped when an answer is
+// turned into emojis
+export const EMOJI_STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'and', 'or', 'in', 'on', 'at', 'to', 'for', 'with', 'by', 'from', 'as', 'is'
+]);
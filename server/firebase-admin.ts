@@ -0,0 +1,61 @@
+import { cert, getApps, initializeApp, type App } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+
+// Firebase Admin is used to verify players' ID tokens and, when a service
+// account is configured, to let the server through the Firestore rules.
+// FIREBASE_SERVICE_ACCOUNT holds the service account key JSON; without it
+// tokens can still be verified, since that only needs the project id.
+
+// Claim on the server's own token, checked by firestore.rules
+export const SERVER_CLAIM = 'server';
+const SERVER_UID = 'fusdle-server';
+
+let adminApp: App | undefined;
+
+function readServiceAccount(): Record<string, string> | undefined {
+  const json = process.env.FIREBASE_SERVICE_ACCOUNT;
+  if (!json) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new Error('FIREBASE_SERVICE_ACCOUNT must be the service account key as JSON');
+  }
+}
+
+export function hasServiceAccount(): boolean {
+  return Boolean(process.env.FIREBASE_SERVICE_ACCOUNT);
+}
+
+export function getAdminApp(): App {
+  if (adminApp) {
+    return adminApp;
+  }
+
+  const serviceAccount = readServiceAccount();
+  const projectId = serviceAccount?.project_id || process.env.VITE_FIREBASE_PROJECT_ID;
+  if (!projectId) {
+    throw new Error('Set VITE_FIREBASE_PROJECT_ID or FIREBASE_SERVICE_ACCOUNT to verify Firebase sign-ins');
+  }
+
+  adminApp = getApps()[0] ?? initializeApp({
+    projectId,
+    ...(serviceAccount ? { credential: cert(serviceAccount) } : {})
+  });
+  return adminApp;
+}
+
+export async function verifyIdToken(idToken: string) {
+  return getAuth(getAdminApp()).verifyIdToken(idToken);
+}
+
+/**
+ * Mint a custom token for the server itself, carrying the claim that
+ * firestore.rules trusts for puzzle and game session writes. Needs a
+ * service account, since custom tokens are signed with its key.
+ */
+export async function createServerToken(): Promise<string> {
+  return getAuth(getAdminApp()).createCustomToken(SERVER_UID, { [SERVER_CLAIM]: true });
+}
@@ -0,0 +1,146 @@
+import type {
+  User, InsertUser, Puzzle, InsertPuzzle, GameSession, InsertGameSession, PuzzleSolveStats, MaintenanceState
+} from "@shared/schema";
+import { getAuth, signInWithCustomToken } from "firebase/auth";
+import { app } from "../client/src/firebase/config";
+import { firestoreService, type PatchNote } from "../client/src/firebase/firestore";
+import { createServerToken, hasServiceAccount } from "./firebase-admin";
+import type { PuzzleRepository } from "./storage";
+import { MAINTENANCE_OFF, normalizeDifficulty } from "./repository";
+
+// Firestore-backed repository. Puzzle ids are puzzle numbers, and player
+// accounts live in Firebase Auth rather than in a users collection.
+export class FirestoreStorage implements PuzzleRepository {
+  /**
+   * Sign the server in to Firestore before using it. firestore.rules only
+   * let the server read puzzles and write puzzles and game sessions, so
+   * without a service account the repository can't serve the game.
+   */
+  static async connect(): Promise<FirestoreStorage> {
+    if (hasServiceAccount()) {
+      await signInWithCustomToken(getAuth(app), await createServerToken());
+    } else {
+      console.warn('FIREBASE_SERVICE_ACCOUNT is not set; Firestore will reject the server\'s puzzle reads and all its writes');
+    }
+    return new FirestoreStorage();
+  }
+
+  async getUser(_id: number): Promise<User | undefined> {
+    return undefined;
+  }
+
+  async getUserByUsername(_username: string): Promise<User | undefined> {
+    return undefined;
+  }
+
+  async createUser(_user: InsertUser): Promise<User> {
+    throw new Error('User accounts are managed by Firebase Auth, not the puzzle repository');
+  }
+
+  async getPuzzleByDate(date: string, difficulty?: string): Promise<Puzzle | undefined> {
+    return firestoreService.getPuzzleByDate(date, difficulty && normalizeDifficulty(difficulty));
+  }
+
+  async getPuzzleById(id: number, difficulty?: string): Promise<Puzzle | undefined> {
+    return firestoreService.getPuzzleById(id, normalizeDifficulty(difficulty));
+  }
+
+  async getFusionPuzzleById(id: number): Promise<Puzzle | undefined> {
+    return firestoreService.getFusionPuzzleById(id);
+  }
+
+  async getTodaysPuzzle(difficulty?: string): Promise<Puzzle | undefined> {
+    return firestoreService.getTodaysPuzzle(normalizeDifficulty(difficulty));
+  }
+
+  async getPuzzlesByDifficulty(difficulty: string, limitCount = 10): Promise<Puzzle[]> {
+    return firestoreService.getPuzzlesByDifficulty(difficulty, limitCount);
+  }
+
+  async getPuzzleArchive(limitCount = 30): Promise<Puzzle[]> {
+    return firestoreService.getPuzzleArchive(limitCount);
+  }
+
+  async countPuzzles(): Promise<number> {
+    return firestoreService.countPuzzles();
+  }
+
+  async getPatchNotes(): Promise<PatchNote[]> {
+    return firestoreService.getPatchNotes();
+  }
+
+  async getGameSession(playerId: string, puzzleId: number, difficulty: string): Promise<GameSession | undefined> {
+    return firestoreService.getGameSession(playerId, puzzleId, difficulty);
+  }
+
+  async saveGameSession(session: InsertGameSession): Promise<GameSession> {
+    return firestoreService.saveGameSession(session);
+  }
+
+  async getSolveStats(): Promise<PuzzleSolveStats[]> {
+    return firestoreService.getSolveStats();
+  }
+
+  async getMaintenance(): Promise<MaintenanceState> {
+    return (await firestoreService.getMaintenance()) ?? MAINTENANCE_OFF;
+  }
+
+  async saveMaintenance(state: MaintenanceState): Promise<MaintenanceState> {
+    return firestoreService.saveMaintenance(state);
+  }
+
+  async ensureSchema(): Promise<void> {
+    // Firestore collections are created on first write
+  }
+
+  async createPuzzle(puzzle: InsertPuzzle): Promise<Puzzle> {
+    return firestoreService.createPuzzle(puzzle);
+  }
+
+  async bulkCreatePuzzles(puzzlesList: InsertPuzzle[]): Promise<Puzzle[]> {
+    return firestoreService.bulkCreatePuzzles(puzzlesList);
+  }
+
+  async updatePuzzle(puzzleNumber: number, updates: Partial<InsertPuzzle>): Promise<Puzzle | undefined> {
+    // Puzzle numbers are unique across difficulties, so at most one of these matches
+    for (const difficulty of ['normal', 'hard']) {
+      const updated = await firestoreService.updatePuzzle(puzzleNumber, difficulty, updates);
+      if (updated) {
+        return updated;
+      }
+    }
+
+    return undefined;
+  }
+
+  async deletePuzzle(puzzleNumber: number): Promise<boolean> {
+    for (const difficulty of ['normal', 'hard']) {
+      if (await firestoreService.deletePuzzle(puzzleNumber, difficulty)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  async swapPuzzles(firstNumber: number, secondNumber: number): Promise<boolean> {
+    const [first, second] = await Promise.all([this.findByNumber(firstNumber), this.findByNumber(secondNumber)]);
+
+    if (!first || !second) {
+      return false;
+    }
+
+    await firestoreService.swapPuzzles(first, second);
+    return true;
+  }
+
+  // Puzzle numbers are unique across difficulties, so at most one matches
+  private async findByNumber(puzzleNumber: number): Promise<Puzzle | undefined> {
+    const [normal, hard] = await Promise.all([
+      firestoreService.getPuzzleById(puzzleNumber, 'normal'),
+      firestoreService.getPuzzleById(puzzleNumber, 'hard')
+    ]);
+
+    return normal ?? hard;
+  }
+}
@@ -0,0 +1,75 @@
+import type { Request } from "express";
+import type { GameSession, InsertGameSession, Puzzle } from "@shared/schema";
+import type { PuzzleRepository } from "./storage";
+
+// Anonymous players identify themselves in this header with an id kept by
+// the browser. Signed-in players are identified by the uid of their verified
+// ID token instead, so nobody can act as them by sending their uid here.
+export const PLAYER_ID_HEADER = 'x-player-id';
+
+// Anonymous ids are random UUIDs, which can never be a Firebase uid
+const ANONYMOUS_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function getPlayerId(req: Request): string | undefined {
+  if (req.auth) {
+    return req.auth.uid;
+  }
+
+  const playerId = req.get(PLAYER_ID_HEADER);
+  return playerId && ANONYMOUS_ID_PATTERN.test(playerId) ? playerId : undefined;
+}
+
+function newGameSession(playerId: string, puzzle: Puzzle): InsertGameSession {
+  return {
+    playerId,
+    puzzleId: puzzle.id,
+    difficulty: puzzle.difficulty,
+    guesses: [],
+    hintsUsedAtAttempts: [],
+    status: 'playing'
+  };
+}
+
+// Load a player's session for a puzzle, starting an empty one if they have none
+export async function startGameSession(
+  repository: PuzzleRepository,
+  playerId: string,
+  puzzle: Puzzle
+): Promise<GameSession> {
+  const existing = await repository.getGameSession(playerId, puzzle.id, puzzle.difficulty);
+  return existing ?? repository.saveGameSession(newGameSession(playerId, puzzle));
+}
+
+/**
+ * Apply a change to a player's session and save it. Errors are logged rather
+ * than thrown so that a storage hiccup never blocks a guess or hint.
+ */
+export async function updateGameSession(
+  repository: PuzzleRepository,
+  playerId: string | undefined,
+  puzzle: Puzzle,
+  update: (session: InsertGameSession) => Partial<InsertGameSession>
+): Promise<GameSession | undefined> {
+  if (!playerId) {
+    return undefined;
+  }
+
+  try {
+    const existing = await repository.getGameSession(playerId, puzzle.id, puzzle.difficulty);
+    // The id is assigned by the backend, so it's dropped before saving
+    const { id: _id, ...current } = existing ?? { id: undefined, ...newGameSession(playerId, puzzle) };
+    const changes = update(current);
+    const now = new Date().toISOString();
+    const finished = current.status === 'playing' && changes.status && changes.status !== 'playing';
+
+    return await repository.saveGameSession({
+      ...current,
+      ...changes,
+      updatedAt: now,
+      completedAt: finished ? now : current.completedAt
+    });
+  } catch (error) {
+    console.error('Error saving game session:', error);
+    return undefined;
+  }
+}
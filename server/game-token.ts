@@ -0,0 +1,176 @@
+import crypto from "crypto";
+import type { GameSession, Puzzle } from "@shared/schema";
+
+export type GameTokenStatus = 'playing' | 'won' | 'lost' | 'gave_up';
+
+// Progress through one puzzle, carried by the client and signed by the server
+export interface GameTokenState {
+  puzzleId: number;
+  difficulty: string;
+  date: string;
+  attempts: number;
+  hintsRevealed: number;
+  status: GameTokenStatus;
+  issuedAt: number;
+  // Picked by the server when the game starts and kept by every token after,
+  // so a game is stored and checked for staleness even without a player id
+  sessionId: string;
+  // The player the token was issued to, when they sent a player id
+  playerId?: string;
+}
+
+// Clients send their current token in this header on guess, hint and answer requests
+export const GAME_TOKEN_HEADER = 'x-game-token';
+
+let secret: string | undefined;
+
+// Tokens are signed with GAME_TOKEN_SECRET. Without it a random secret is
+// used, which is fine for development but invalidates tokens on restart, so
+// production refuses to run without one.
+function getSecret(): string {
+  if (!secret) {
+    secret = process.env.GAME_TOKEN_SECRET;
+
+    if (!secret) {
+      if (process.env.NODE_ENV === 'production' || process.env.VERCEL) {
+        throw new Error('GAME_TOKEN_SECRET must be set in production');
+      }
+
+      console.warn('GAME_TOKEN_SECRET is not set, using a random secret for game tokens');
+      secret = crypto.randomBytes(32).toString('hex');
+    }
+  }
+
+  return secret;
+}
+
+// Optional attempt limit from PUZZLE_MAX_ATTEMPTS, unlimited when unset
+export function getMaxAttempts(): number | undefined {
+  const maxAttempts = parseInt(process.env.PUZZLE_MAX_ATTEMPTS || '');
+  return maxAttempts > 0 ? maxAttempts : undefined;
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+export function encodeGameToken(state: GameTokenState): string {
+  const payload = Buffer.from(JSON.stringify(state)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+// Start a game for a puzzle, picking up from the player's saved session if
+// any. Pass the sessionId of an earlier token to carry on that game.
+export function issueGameToken(
+  puzzle: Puzzle,
+  playerId?: string,
+  session?: GameSession,
+  sessionId: string = crypto.randomUUID()
+): string {
+  return encodeGameToken({
+    puzzleId: puzzle.id,
+    difficulty: puzzle.difficulty,
+    date: puzzle.date.split('T')[0],
+    attempts: session?.guesses.length ?? 0,
+    hintsRevealed: session?.hintsUsedAtAttempts.length ?? 0,
+    status: (session?.status as GameTokenStatus | undefined) ?? 'playing',
+    issuedAt: Date.now(),
+    sessionId,
+    ...(playerId ? { playerId } : {})
+  });
+}
+
+/**
+ * Check a token's signature and that it was issued for this puzzle, on its
+ * date, to this player. Returns undefined for anything tampered with,
+ * malformed or foreign.
+ */
+export function verifyGameToken(token: string | undefined, puzzle: Puzzle, playerId?: string): GameTokenState | undefined {
+  if (!token) {
+    return undefined;
+  }
+
+  const [payload, signature] = token.split('.');
+
+  if (!payload || !signature) {
+    return undefined;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return undefined;
+  }
+
+  try {
+    const state = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as GameTokenState;
+
+    if (state.puzzleId !== puzzle.id || state.difficulty !== puzzle.difficulty) {
+      return undefined;
+    }
+
+    if (state.date !== puzzle.date.split('T')[0] || state.playerId !== playerId || !state.sessionId) {
+      return undefined;
+    }
+
+    return state;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Who a token's game is saved for: the player it was issued to, or for
+ * anonymous games an id made from the token's sessionId. Taken from the
+ * signed token rather than the request, so dropping or changing the player
+ * id header can't get round the saved session.
+ */
+export function gameTokenOwner(state: GameTokenState): string {
+  return state.playerId ?? `game:${state.sessionId}`;
+}
+
+/**
+ * Whether a token is older than the game's saved session, which means it
+ * has been replayed: an earlier token sent again after later guesses, hints
+ * or the end of the game. A token ahead of the session is fine, since a
+ * failed session save shouldn't lock the player out.
+ */
+export function isStaleGameToken(state: GameTokenState, session: GameSession): boolean {
+  return state.attempts < session.guesses.length ||
+    state.hintsRevealed < session.hintsUsedAtAttempts.length ||
+    (state.status === 'playing' && session.status !== 'playing');
+}
+
+// Record a guess, finishing the game when it's correct or the attempt limit is hit
+export function recordGuess(state: GameTokenState, isCorrect: boolean): GameTokenState {
+  const attempts = state.attempts + 1;
+  const maxAttempts = getMaxAttempts();
+  let status: GameTokenStatus = 'playing';
+
+  if (isCorrect) {
+    status = 'won';
+  } else if (maxAttempts && attempts >= maxAttempts) {
+    status = 'lost';
+  }
+
+  return { ...state, attempts, status };
+}
+
+// Hints unlock one per guess and must be revealed in order
+export function canRevealHint(state: GameTokenState, hintIndex: number): boolean {
+  return hintIndex <= state.hintsRevealed && hintIndex < state.attempts;
+}
+
+export function recordHint(state: GameTokenState, hintIndex: number): GameTokenState {
+  return { ...state, hintsRevealed: Math.max(state.hintsRevealed, hintIndex + 1) };
+}
+
+export function recordGiveUp(state: GameTokenState): GameTokenState {
+  return { ...state, status: 'gave_up' };
+}
+
+// The answer is only released once the game is over
+export function isGameFinished(state: GameTokenState): boolean {
+  return state.status !== 'playing';
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { buildHintLadder, hintOverridesFromList } from "./hint-builder";
+import { PUZZLE_BANK } from "./puzzle-bank";
+
+const STRUCTURE_HINT = /^(One|Two|Three|Four|Five|Six|\d+) words?$|letters in total$/;
+
+describe("buildHintLadder", () => {
+  it("leads with ideas rather than the answer's shape", () => {
+    const [vague, medium] = buildHintLadder({ answer: 'Ocean Wave' });
+
+    expect(vague).toMatch(/^Think: /);
+    expect(medium).not.toMatch(STRUCTURE_HINT);
+    expect(`${vague} ${medium}`.toLowerCase()).not.toMatch(/ocean|wave/);
+  });
+
+  it("prefers the category and fusion twist for the vague hint", () => {
+    expect(buildHintLadder({ answer: 'Ocean Wave', theme: 'Nature' })[0]).toBe('Category: Nature');
+    expect(buildHintLadder({ answer: 'Brunch', isFusion: true, twistType: 'Word Fusion' })[0])
+      .toBe('Word Fusion twist: two ideas blended into one word');
+  });
+
+  it("falls back to the answer's shape when nothing else fits", () => {
+    expect(buildHintLadder({ answer: 'Zxqv Blorp' })).toEqual([
+      'Two words',
+      '9 letters in total',
+      'The words start with "Z", "B"'
+    ]);
+  });
+
+  it("keeps author hints and fills in the tiers they skipped", () => {
+    const ladder = buildHintLadder({ answer: 'Ocean Wave' }, hintOverridesFromList(['', 'Surfers ride it']));
+
+    expect(ladder[1]).toBe('Surfers ride it');
+    expect(ladder[0]).not.toMatch(/surfer|ride/i);
+  });
+
+  it("gives most bank puzzles hints beyond the answer's shape", () => {
+    const ladders = Object.entries(PUZZLE_BANK).flatMap(([pool, candidates]) =>
+      candidates.map(candidate => buildHintLadder({ ...candidate, isFusion: pool === 'fusion' }, candidate.hints))
+    );
+    const structural = ladders.filter(ladder => ladder.slice(0, 2).some(hint => STRUCTURE_HINT.test(hint)));
+
+    expect(structural.length).toBeLessThan(ladders.length / 10);
+  });
+});
@@ -0,0 +1,205 @@
+import { HINT_TIERS, type HintTier } from "@shared/hints";
+import { normalizeAnswer, singularize } from "@shared/answer-matching";
+import { EMOJI_KEYWORDS } from "./emoji-keywords";
+import { explainOrderedEmojis, type EmojiMatch } from "./ordered-emoji-generator";
+
+// Builds the vague, medium and revealing hints for a puzzle from templates.
+// Authors can override any tier; the templates fill in the rest.
+
+export type HintOverrides = Partial<Record<HintTier, string>>;
+
+export interface HintSubject {
+  answer: string;
+  theme?: string;
+  twistType?: string | null;
+  isFusion?: boolean;
+}
+
+interface HintTemplate {
+  name: string;
+  tier: HintTier;
+  // Returns nothing when the template has nothing to say about this answer.
+  // `avoid` holds words from the author's own hints, which shouldn't be
+  // given away by an earlier tier.
+  build(subject: HintSubject, words: string[], avoid: Set<string>): string | undefined;
+}
+
+const NUMBER_WORDS = ['Zero', 'One', 'Two', 'Three', 'Four', 'Five', 'Six'];
+
+function countWords(count: number, singular: string): string {
+  const number = NUMBER_WORDS[count] ?? String(count);
+  return `${number} ${singular}${count === 1 ? '' : 's'}`;
+}
+
+function letterCount(words: string[]): number {
+  return words.join('').replace(/[^a-z]/g, '').length;
+}
+
+// Single words from the emoji keyword dataset, used as a rhyming dictionary
+const RHYME_VOCABULARY = Array.from(new Set(
+  Object.values(EMOJI_KEYWORDS).flat().filter(keyword => /^[a-z]{3,}$/.test(keyword))
+)).sort((a, b) => a.length - b.length || a.localeCompare(b));
+
+// Ending that has to match for two words to rhyme: from the last vowel
+// group, or the one before it for longer words ("reaction" -> "action")
+function rhymeKey(word: string): string | undefined {
+  const vowelGroupStarts: number[] = [];
+  for (let i = 0; i < word.length; i++) {
+    if (/[aeiouy]/.test(word[i]) && (i === 0 || !/[aeiouy]/.test(word[i - 1]))) {
+      vowelGroupStarts.push(i);
+    }
+  }
+
+  if (vowelGroupStarts.length === 0) {
+    return undefined;
+  }
+
+  const fromEnd = vowelGroupStarts.length > 1 && word.length > 5 ? 2 : 1;
+  return word.slice(vowelGroupStarts[vowelGroupStarts.length - fromEnd]);
+}
+
+function findRhyme(word: string, avoid: Set<string>): string | undefined {
+  const key = rhymeKey(word);
+  if (!key || key.length < 2) {
+    return undefined;
+  }
+
+  return RHYME_VOCABULARY.find(candidate =>
+    candidate !== word &&
+    !avoid.has(candidate) &&
+    !candidate.includes(word) &&
+    !word.includes(candidate) &&
+    rhymeKey(candidate) === key
+  );
+}
+
+const DIRECT_MATCHES: EmojiMatch[] = ['phrase', 'name', 'keyword', 'stem'];
+
+// Keywords listed with the emojis the answer maps to, one list per emoji,
+// leaving out anything that gives away an answer word or an avoided word.
+// Lists run from specific to general, as in the dataset.
+function relatedKeywords(subject: HintSubject, words: string[], avoid: Set<string>): string[][] {
+  const answerWords = words.map(singularize);
+  const givesAway = (keyword: string) => keyword.split(' ').some(part =>
+    avoid.has(part) || answerWords.some(word => word.includes(part) || part.includes(word))
+  );
+
+  // Compound and partial matches only share letters with the answer
+  // ("breakfast" -> "break"), so their keywords would mislead
+  return explainOrderedEmojis(subject.answer)
+    .filter(mapping => DIRECT_MATCHES.includes(mapping.match))
+    .map(mapping => (EMOJI_KEYWORDS[mapping.emoji] ?? []).filter(keyword => !givesAway(keyword)))
+    .filter(keywords => keywords.length > 0);
+}
+
+// One keyword per emoji, without repeats
+function pickKeywords(lists: string[][], pick: (keywords: string[]) => string | undefined): string[] {
+  return Array.from(new Set(lists.map(pick).filter((keyword): keyword is string => !!keyword)));
+}
+
+// Tried in order; each tier uses the first template that has something to say
+const HINT_TEMPLATES: HintTemplate[] = [
+  {
+    name: 'fusion',
+    tier: 'vague',
+    build: subject => subject.isFusion
+      ? `${subject.twistType || 'Word Fusion'} twist: two ideas blended into one word`
+      : undefined
+  },
+  {
+    name: 'category',
+    tier: 'vague',
+    build: subject => subject.theme && subject.theme !== 'General'
+      ? `Category: ${subject.theme}`
+      : undefined
+  },
+  {
+    // The most general idea behind each emoji, like a category
+    name: 'association',
+    tier: 'vague',
+    build: (subject, words, avoid) => {
+      const keywords = pickKeywords(relatedKeywords(subject, words, avoid), list => list[list.length - 1]);
+      return keywords.length > 0 ? `Think: ${keywords.join(', ')}` : undefined;
+    }
+  },
+  {
+    // The letter placeholders already show the answer's shape, so the
+    // structure templates are only a last resort
+    name: 'word count',
+    tier: 'vague',
+    build: (_subject, words) => countWords(words.length, 'word')
+  },
+  {
+    name: 'rhyme',
+    tier: 'medium',
+    build: (_subject, words, avoid) => {
+      const last = words[words.length - 1];
+      const rhyme = last && findRhyme(last, avoid);
+      if (!rhyme) {
+        return undefined;
+      }
+      return words.length > 1 ? `The last word rhymes with "${rhyme}"` : `Rhymes with "${rhyme}"`;
+    }
+  },
+  {
+    // A closer idea behind each emoji than the vague hint's
+    name: 'close association',
+    tier: 'medium',
+    build: (subject, words, avoid) => {
+      const keywords = pickKeywords(relatedKeywords(subject, words, avoid), list => list.length > 1 ? list[0] : undefined);
+      return keywords.length > 0 ? `Think: ${keywords.join(', ')}` : undefined;
+    }
+  },
+  {
+    name: 'letter count',
+    tier: 'medium',
+    build: (_subject, words) => `${letterCount(words)} letters in total`
+  },
+  {
+    name: 'first letter',
+    tier: 'revealing',
+    build: (_subject, words) => words.length > 1
+      ? `The words start with ${words.map(word => `"${word.charAt(0).toUpperCase()}"`).join(', ')}`
+      : `Starts with "${words[0].charAt(0).toUpperCase()}" and has ${letterCount(words)} letters`
+  }
+];
+
+/**
+ * Read hints written as a plain list, such as a puzzle file's "|"-separated
+ * hints column, as overrides for the vague, medium and revealing tiers in
+ * that order. Blank entries leave the tier to the templates.
+ */
+export function hintOverridesFromList(hints: string[] | undefined): HintOverrides | undefined {
+  const overrides: HintOverrides = {};
+
+  HINT_TIERS.forEach((tier, index) => {
+    const hint = hints?.[index]?.trim();
+    if (hint) {
+      overrides[tier] = hint;
+    }
+  });
+
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
+}
+
+// The hint ladder for a puzzle: one hint per tier, vague first
+export function buildHintLadder(subject: HintSubject, overrides: HintOverrides = {}): string[] {
+  const words = normalizeAnswer(subject.answer).split(' ').filter(Boolean);
+  const avoid = new Set(Object.values(overrides).flatMap(hint => normalizeAnswer(hint ?? '').split(' ')));
+
+  return HINT_TIERS.map(tier => {
+    const override = overrides[tier]?.trim();
+    if (override) {
+      return override;
+    }
+
+    for (const template of HINT_TEMPLATES.filter(template => template.tier === tier)) {
+      const hint = template.build(subject, words, avoid);
+      if (hint) {
+        return hint;
+      }
+    }
+
+    throw new Error(`No hint template produced a ${tier} hint for "${subject.answer}"`);
+  });
+}
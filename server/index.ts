@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
-import { registerRoutes as registerPostgresRoutes } from "./routes";
-import { registerRoutes as registerFirebaseRoutes } from "./firebase-routes";
+import { registerRoutes } from "./routes";
+import { createRepository, getStorageBackend } from "./repository";
+import { CachedPuzzleRepository } from "./puzzle-cache";
 import { setupVite, serveStatic, log } from "./vite";
 import path from "path";
 
@@ -42,18 +43,23 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  // Now that Firebase permissions are updated, we can use Firebase for all environments
-  let server;
-  
-  try {
-    // Attempt to use Firebase routes first
-    server = await registerFirebaseRoutes(app);
-    console.log('Firebase routes registered successfully');
-  } catch (error) {
-    // Fallback to PostgreSQL routes if Firebase fails
-    console.error('Error registering Firebase routes, falling back to PostgreSQL:', error);
-    server = await registerPostgresRoutes(app);
+  // The storage backend is chosen by config (PUZZLE_STORAGE), defaulting to Firestore
+  const backend = getStorageBackend();
+  if (backend === 'postgres') {
+    // Refuse to serve against a database with pending migrations or a drifted schema
+    const { assertSchemaUpToDate } = await import("./migrations");
+    try {
+      await assertSchemaUpToDate();
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
   }
+  // Today's puzzles are served from an in-process cache that clears at the ET rollover
+  const repository = new CachedPuzzleRepository(await createRepository(backend));
+  log(`using ${backend} puzzle storage`);
+
+  const server = await registerRoutes(app, repository);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
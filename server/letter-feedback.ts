@@ -0,0 +1,84 @@
+import type { LetterFeedback, LetterState, WordFeedback } from "@shared/schema";
+import { getWordStructure } from "../client/src/lib/letter-placeholders";
+
+// Letters of each word, matching the slots from getWordStructure
+function toSlotWords(text: string): string[] {
+  return text
+    .split(/\s+/)
+    .map(word => word.replace(/[^a-zA-Z]/g, '').toLowerCase())
+    .filter(word => word.length > 0);
+}
+
+/**
+ * Fill the answer's word slots with the guess. A guess with the same number
+ * of words fills the slots word by word, anything else is laid out letter
+ * by letter across the slots, as if typed into the placeholders.
+ */
+function fillSlots(guess: string, structure: number[]): string[] {
+  const guessWords = toSlotWords(guess);
+
+  if (guessWords.length === structure.length) {
+    return guessWords.map((word, i) => word.slice(0, structure[i]));
+  }
+
+  let letters = guessWords.join('');
+  return structure.map(length => {
+    const word = letters.slice(0, length);
+    letters = letters.slice(length);
+    return word;
+  });
+}
+
+/**
+ * Wordle-style feedback for a guess. Each letter is correct (right slot),
+ * present (elsewhere in the answer, counting repeats) or absent, and the
+ * slots line up with the answer's letter placeholders.
+ */
+export function getLetterFeedback(guess: string, answer: string): WordFeedback[] {
+  const structure = getWordStructure(answer);
+  const answerWords = toSlotWords(answer);
+  const guessWords = fillSlots(guess, structure);
+
+  const answerLetters = answerWords.join('').split('');
+  const guessLetters = structure.flatMap((length, i) =>
+    Array.from({ length }, (_, j) => guessWords[i][j] || '')
+  );
+
+  // First pass: exact positions, and a pool of the answer letters left over
+  const states: LetterState[] = guessLetters.map((letter, i) =>
+    letter && letter === answerLetters[i] ? 'correct' : 'absent'
+  );
+  const remaining = new Map<string, number>();
+  answerLetters.forEach((letter, i) => {
+    if (states[i] !== 'correct') {
+      remaining.set(letter, (remaining.get(letter) || 0) + 1);
+    }
+  });
+
+  // Second pass: misplaced letters, each answer letter used at most once
+  guessLetters.forEach((letter, i) => {
+    const count = remaining.get(letter) || 0;
+    if (letter && states[i] !== 'correct' && count > 0) {
+      states[i] = 'present';
+      remaining.set(letter, count - 1);
+    }
+  });
+
+  let offset = 0;
+  return structure.map((length, i) => {
+    const letters: LetterFeedback[] = guessLetters
+      .slice(offset, offset + length)
+      .map((letter, j) => ({ letter, state: states[offset + j] }));
+    offset += length;
+
+    const word = guessWords[i];
+    let state: LetterState = 'absent';
+    if (word === answerWords[i]) {
+      state = 'correct';
+    } else if (word && answerWords.includes(word)) {
+      state = 'present';
+    }
+
+    return { word, state, letters };
+  });
+}
@@ -0,0 +1,71 @@
+import type { Request, Response, NextFunction } from "express";
+import type { MaintenanceState } from "@shared/schema";
+import { hasRole } from "@shared/roles";
+import type { PuzzleRepository } from "./storage";
+import { MAINTENANCE_OFF } from "./repository";
+
+// How long the stored flag is trusted before it's read again, so the guard
+// doesn't hit storage on every puzzle request. Changes made through this
+// switch apply immediately; other server instances catch up within this.
+const MAINTENANCE_TTL_MS = 15_000;
+
+// Answer 503 with the maintenance message and ETA, plus any extra fields
+export function sendMaintenance(res: Response, state: MaintenanceState, extra: Record<string, unknown> = {}) {
+  const secondsUntilEta = state.eta ? Math.ceil((Date.parse(state.eta) - Date.now()) / 1000) : 0;
+  if (secondsUntilEta > 0) {
+    res.set('Retry-After', String(secondsUntilEta));
+  }
+
+  res.status(503).json({
+    ...extra,
+    error: state.message,
+    maintenance: { message: state.message, eta: state.eta }
+  });
+}
+
+/**
+ * The server-stored maintenance flag. While it's on, the routes behind
+ * `guard` answer 503 with the message and ETA instead of serving puzzles,
+ * except to editors, who keep playing so they can check their work.
+ */
+export class MaintenanceSwitch {
+  private state: MaintenanceState | undefined;
+  private loadedAt = 0;
+
+  constructor(private repository: PuzzleRepository) {}
+
+  async current(): Promise<MaintenanceState> {
+    if (this.state && Date.now() - this.loadedAt < MAINTENANCE_TTL_MS) {
+      return this.state;
+    }
+
+    try {
+      this.state = await this.repository.getMaintenance();
+    } catch (error) {
+      // A storage hiccup shouldn't take the whole game offline
+      console.error('Error reading maintenance state:', error);
+      this.state = this.state ?? MAINTENANCE_OFF;
+    }
+    this.loadedAt = Date.now();
+    return this.state;
+  }
+
+  async update(changes: Partial<MaintenanceState> & { enabled: boolean }): Promise<MaintenanceState> {
+    const previous = await this.current();
+    this.state = await this.repository.saveMaintenance({ ...previous, ...changes });
+    this.loadedAt = Date.now();
+    return this.state;
+  }
+
+  guard = async (req: Request, res: Response, next: NextFunction) => {
+    if (hasRole(req.auth?.role, 'editor')) {
+      return next();
+    }
+
+    const state = await this.current();
+    if (!state.enabled) {
+      return next();
+    }
+    sendMaintenance(res, state);
+  };
+}
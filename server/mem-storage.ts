@@ -0,0 +1,248 @@
+import fs from "fs";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  insertPuzzleSchema,
+  type User, type InsertUser,
+  type Puzzle, type InsertPuzzle,
+  type GameSession, type InsertGameSession, type PuzzleSolveStats,
+  type MaintenanceState
+} from "@shared/schema";
+import { addPuzzleDays, getPuzzleDate } from "@shared/puzzle-clock";
+import type { PatchNote } from "../client/src/firebase/firestore";
+import type { PuzzleRepository } from "./storage";
+import { MAINTENANCE_OFF, normalizeDifficulty, summarizeSolveStats, withWordCount } from "./repository";
+import { buildCalendar } from "./puzzle-pipeline";
+import { PUZZLE_BANK } from "./puzzle-bank";
+
+const puzzleFixtureSchema = z.array(insertPuzzleSchema);
+
+const gameSessionKey = (playerId: string, puzzleId: number, difficulty: string) =>
+  `${playerId}:${puzzleId}:${difficulty}`;
+
+// In-memory repository seeded from a JSON fixture or the puzzle generator.
+// Nothing is persisted, so the whole API can run offline without any
+// database or cloud credentials.
+export class MemStorage implements PuzzleRepository {
+  private users = new Map<number, User>();
+  private puzzles = new Map<number, Puzzle>();
+  private patchNotes: PatchNote[] = [];
+  private gameSessions = new Map<string, GameSession>();
+  private maintenance: MaintenanceState = MAINTENANCE_OFF;
+  private nextUserId = 1;
+  private nextPuzzleId = 1;
+  private nextGameSessionId = 1;
+
+  constructor(seedPuzzles: InsertPuzzle[] = []) {
+    seedPuzzles.forEach(puzzle => this.insertPuzzle(puzzle));
+  }
+
+  /**
+   * Load puzzles from a JSON fixture: an array of InsertPuzzle objects.
+   * The file is validated against insertPuzzleSchema so a typo fails fast.
+   */
+  static fromFixture(filePath: string): MemStorage {
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const result = puzzleFixtureSchema.safeParse(raw);
+
+    if (!result.success) {
+      throw new Error(`Invalid puzzle fixture ${filePath}: ${fromZodError(result.error).message}`);
+    }
+
+    console.log(`Loaded ${result.data.length} puzzles from fixture ${filePath}`);
+    return new MemStorage(result.data);
+  }
+
+  /**
+   * Build a calendar from the built-in puzzle bank: one normal and one hard
+   * puzzle per day, starting `daysBefore` days before today so both the
+   * archive and today's puzzle are populated.
+   */
+  static fromGenerator(days = 60, daysBefore = 30): MemStorage {
+    const from = addPuzzleDays(getPuzzleDate(), -daysBefore);
+    const seedPuzzles = buildCalendar(PUZZLE_BANK, { from, days, startNumber: 1 });
+
+    console.log(`Generated ${seedPuzzles.length} in-memory puzzles starting ${from}`);
+    return new MemStorage(seedPuzzles);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user: User = { ...insertUser, id: this.nextUserId++ };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getPuzzleByDate(date: string, difficulty?: string): Promise<Puzzle | undefined> {
+    const dateStr = date.split('T')[0];
+    return this.allPuzzles().find(puzzle =>
+      puzzle.date === dateStr &&
+      (!difficulty || puzzle.difficulty === normalizeDifficulty(difficulty))
+    );
+  }
+
+  async getPuzzleById(id: number, difficulty?: string): Promise<Puzzle | undefined> {
+    const puzzle = this.puzzles.get(id);
+
+    if (puzzle && difficulty && puzzle.difficulty !== normalizeDifficulty(difficulty)) {
+      return undefined;
+    }
+
+    return puzzle;
+  }
+
+  async getFusionPuzzleById(id: number): Promise<Puzzle | undefined> {
+    const puzzle = this.puzzles.get(id);
+    return puzzle?.isFusionTwist === 1 ? puzzle : undefined;
+  }
+
+  async getTodaysPuzzle(difficulty?: string): Promise<Puzzle | undefined> {
+    const effectiveDifficulty = normalizeDifficulty(difficulty);
+    const todaysPuzzle = await this.getPuzzleByDate(getPuzzleDate(), effectiveDifficulty);
+
+    if (todaysPuzzle) {
+      return todaysPuzzle;
+    }
+
+    // Same fallback as the database: the earliest puzzle of this difficulty
+    return this.allPuzzles()
+      .filter(puzzle => puzzle.difficulty === effectiveDifficulty)
+      .sort((a, b) => a.date.localeCompare(b.date))[0];
+  }
+
+  async getPuzzlesByDifficulty(difficulty: string, limitCount = 10): Promise<Puzzle[]> {
+    return this.allPuzzles()
+      .filter(puzzle => puzzle.difficulty === difficulty)
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, limitCount);
+  }
+
+  async getPuzzleArchive(limitCount = 30): Promise<Puzzle[]> {
+    const today = getPuzzleDate();
+
+    return this.allPuzzles()
+      .filter(puzzle => puzzle.date < today)
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, limitCount);
+  }
+
+  async countPuzzles(): Promise<number> {
+    return this.puzzles.size;
+  }
+
+  async getPatchNotes(): Promise<PatchNote[]> {
+    return [...this.patchNotes].sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  async getGameSession(playerId: string, puzzleId: number, difficulty: string): Promise<GameSession | undefined> {
+    return this.gameSessions.get(gameSessionKey(playerId, puzzleId, difficulty));
+  }
+
+  async saveGameSession(session: InsertGameSession): Promise<GameSession> {
+    const key = gameSessionKey(session.playerId, session.puzzleId, session.difficulty || 'normal');
+    const existing = this.gameSessions.get(key);
+    const now = new Date().toISOString();
+
+    const saved: GameSession = {
+      id: existing?.id ?? this.nextGameSessionId++,
+      playerId: session.playerId,
+      puzzleId: session.puzzleId,
+      difficulty: session.difficulty || 'normal',
+      guesses: session.guesses,
+      hintsUsedAtAttempts: session.hintsUsedAtAttempts,
+      status: session.status || 'playing',
+      startedAt: existing?.startedAt ?? session.startedAt ?? now,
+      updatedAt: session.updatedAt ?? now,
+      completedAt: session.completedAt ?? null
+    };
+
+    this.gameSessions.set(key, saved);
+    return saved;
+  }
+
+  async getSolveStats(): Promise<PuzzleSolveStats[]> {
+    return summarizeSolveStats(Array.from(this.gameSessions.values()));
+  }
+
+  async getMaintenance(): Promise<MaintenanceState> {
+    return this.maintenance;
+  }
+
+  async saveMaintenance(state: MaintenanceState): Promise<MaintenanceState> {
+    this.maintenance = { ...state, updatedAt: new Date().toISOString() };
+    return this.maintenance;
+  }
+
+  async ensureSchema(): Promise<void> {
+    // Nothing to prepare for in-memory maps
+  }
+
+  async createPuzzle(insertPuzzle: InsertPuzzle): Promise<Puzzle> {
+    return this.insertPuzzle(insertPuzzle);
+  }
+
+  async bulkCreatePuzzles(puzzlesList: InsertPuzzle[]): Promise<Puzzle[]> {
+    return puzzlesList.map(puzzle => this.insertPuzzle(puzzle));
+  }
+
+  async updatePuzzle(puzzleNumber: number, updates: Partial<InsertPuzzle>): Promise<Puzzle | undefined> {
+    const existing = this.allPuzzles().find(puzzle => puzzle.puzzleNumber === puzzleNumber);
+
+    if (!existing) {
+      return undefined;
+    }
+
+    const updated = withWordCount({ ...existing, ...updates });
+    this.puzzles.set(existing.id, updated);
+    return updated;
+  }
+
+  async deletePuzzle(puzzleNumber: number): Promise<boolean> {
+    const existing = this.allPuzzles().find(puzzle => puzzle.puzzleNumber === puzzleNumber);
+    return existing ? this.puzzles.delete(existing.id) : false;
+  }
+
+  async swapPuzzles(firstNumber: number, secondNumber: number): Promise<boolean> {
+    const first = this.allPuzzles().find(puzzle => puzzle.puzzleNumber === firstNumber);
+    const second = this.allPuzzles().find(puzzle => puzzle.puzzleNumber === secondNumber);
+
+    if (!first || !second) {
+      return false;
+    }
+
+    this.puzzles.set(first.id, { ...first, date: second.date, puzzleNumber: second.puzzleNumber });
+    this.puzzles.set(second.id, { ...second, date: first.date, puzzleNumber: first.puzzleNumber });
+    return true;
+  }
+
+  private insertPuzzle(insertPuzzle: InsertPuzzle): Puzzle {
+    const puzzle = withWordCount({
+      id: this.nextPuzzleId++,
+      puzzleNumber: insertPuzzle.puzzleNumber,
+      date: insertPuzzle.date,
+      difficulty: insertPuzzle.difficulty || 'normal',
+      emojis: insertPuzzle.emojis,
+      answer: insertPuzzle.answer,
+      theme: insertPuzzle.theme || 'General',
+      hints: insertPuzzle.hints,
+      acceptedAnswers: insertPuzzle.acceptedAnswers ?? null,
+      isFusionTwist: insertPuzzle.isFusionTwist || 0,
+      twistType: insertPuzzle.twistType || null,
+      difficultyScore: insertPuzzle.difficultyScore ?? null
+    });
+
+    this.puzzles.set(puzzle.id, puzzle);
+    return puzzle;
+  }
+
+  private allPuzzles(): Puzzle[] {
+    return Array.from(this.puzzles.values());
+  }
+}
@@ -0,0 +1,260 @@
+import fs from "fs";
+import path from "path";
+import { is, sql } from "drizzle-orm";
+import { PgTable, getTableConfig } from "drizzle-orm/pg-core";
+import { readMigrationFiles } from "drizzle-orm/migrator";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import * as schema from "@shared/schema";
+import { db } from "./db";
+
+// Versioned Postgres migrations. Up scripts are generated from
+// shared/schema.ts by drizzle-kit (`npm run db:generate`) into migrations/;
+// the matching down scripts are written by hand in migrations/down/ with the
+// same file name. Applied migrations are tracked by drizzle in
+// drizzle.__drizzle_migrations, keyed by the journal timestamp.
+
+export const MIGRATIONS_FOLDER = path.resolve(process.cwd(), 'migrations');
+const DOWN_FOLDER = path.join(MIGRATIONS_FOLDER, 'down');
+const STATEMENT_BREAKPOINT = '--> statement-breakpoint';
+
+export interface MigrationInfo {
+  tag: string;
+  createdAt: number;
+  applied: boolean;
+  hasDown: boolean;
+}
+
+// A difference between the Drizzle schema and the live database
+export interface SchemaDrift {
+  table: string;
+  column?: string;
+  problem: 'missing_table' | 'missing_column' | 'type_mismatch' | 'nullability_mismatch';
+  expected?: string;
+  actual?: string;
+}
+
+export interface MigrationStatus {
+  // True when every migration is applied and the schema matches
+  upToDate: boolean;
+  migrations: MigrationInfo[];
+  pending: string[];
+  drift: SchemaDrift[];
+}
+
+interface JournalEntry {
+  idx: number;
+  tag: string;
+  when: number;
+}
+
+function readJournal(): JournalEntry[] {
+  const journalPath = path.join(MIGRATIONS_FOLDER, 'meta', '_journal.json');
+  const journal = JSON.parse(fs.readFileSync(journalPath, 'utf-8')) as { entries: JournalEntry[] };
+  return [...journal.entries].sort((a, b) => a.idx - b.idx);
+}
+
+function downScriptPath(tag: string): string {
+  return path.join(DOWN_FOLDER, `${tag}.sql`);
+}
+
+// Journal timestamps of the migrations recorded as applied
+async function appliedTimestamps(): Promise<Set<number>> {
+  const table = await db.execute(sql`SELECT to_regclass('drizzle.__drizzle_migrations') AS name`);
+  if (!table.rows[0]?.name) {
+    return new Set();
+  }
+
+  const applied = await db.execute(sql`SELECT created_at FROM drizzle.__drizzle_migrations`);
+  return new Set(applied.rows.map(row => Number(row.created_at)));
+}
+
+async function listMigrations(): Promise<MigrationInfo[]> {
+  const applied = await appliedTimestamps();
+
+  return readJournal().map(entry => ({
+    tag: entry.tag,
+    createdAt: entry.when,
+    applied: applied.has(entry.when),
+    hasDown: fs.existsSync(downScriptPath(entry.tag))
+  }));
+}
+
+// Column types as information_schema reports them, in drizzle's spelling
+const UDT_TYPES: Record<string, string> = {
+  int4: 'integer',
+  _int4: 'integer[]',
+  text: 'text',
+  _text: 'text[]',
+  date: 'date',
+  timestamp: 'timestamp',
+  timestamptz: 'timestamp with time zone',
+  bool: 'boolean'
+};
+
+function expectedType(sqlType: string): string {
+  return sqlType === 'serial' ? 'integer' : sqlType;
+}
+
+/**
+ * Compare the live database with the Drizzle schema. Missing tables and
+ * columns, and columns whose type or nullability differ, are reported;
+ * extra columns in the database are left alone.
+ */
+export async function checkSchemaDrift(): Promise<SchemaDrift[]> {
+  const result = await db.execute(sql`
+    SELECT table_name, column_name, udt_name, is_nullable
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+  `);
+
+  const live = new Map<string, Map<string, { type: string; nullable: boolean }>>();
+  for (const row of result.rows) {
+    const columns = live.get(String(row.table_name)) ?? new Map();
+    const udt = String(row.udt_name);
+    columns.set(String(row.column_name), { type: UDT_TYPES[udt] ?? udt, nullable: row.is_nullable === 'YES' });
+    live.set(String(row.table_name), columns);
+  }
+
+  const drift: SchemaDrift[] = [];
+  for (const table of Object.values(schema as Record<string, unknown>).filter((value): value is PgTable => is(value, PgTable))) {
+    const config = getTableConfig(table);
+    const liveColumns = live.get(config.name);
+    if (!liveColumns) {
+      drift.push({ table: config.name, problem: 'missing_table' });
+      continue;
+    }
+
+    for (const column of config.columns) {
+      const liveColumn = liveColumns.get(column.name);
+      const type = expectedType(column.getSQLType());
+      if (!liveColumn) {
+        drift.push({ table: config.name, column: column.name, problem: 'missing_column', expected: type });
+      } else if (liveColumn.type !== type) {
+        drift.push({ table: config.name, column: column.name, problem: 'type_mismatch', expected: type, actual: liveColumn.type });
+      } else if (liveColumn.nullable === column.notNull) {
+        drift.push({
+          table: config.name,
+          column: column.name,
+          problem: 'nullability_mismatch',
+          expected: column.notNull ? 'not null' : 'nullable',
+          actual: liveColumn.nullable ? 'nullable' : 'not null'
+        });
+      }
+    }
+  }
+
+  return drift;
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  const migrations = await listMigrations();
+  const pending = migrations.filter(migration => !migration.applied).map(migration => migration.tag);
+  // Drift is only meaningful once the migrations have created the tables
+  const drift = pending.length === 0 ? await checkSchemaDrift() : [];
+
+  return { upToDate: pending.length === 0 && drift.length === 0, migrations, pending, drift };
+}
+
+// Apply every pending migration and return the tags that were applied
+export async function runMigrations(): Promise<string[]> {
+  const pending = (await listMigrations()).filter(migration => !migration.applied);
+  if (pending.length > 0) {
+    await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+  }
+  return pending.map(migration => migration.tag);
+}
+
+/**
+ * Undo the most recently applied migration with its down script. Returns the
+ * tag that was rolled back, or nothing when no migration is applied.
+ */
+export async function rollbackMigration(): Promise<string | undefined> {
+  const last = (await listMigrations()).filter(migration => migration.applied).pop();
+  if (!last) {
+    return undefined;
+  }
+
+  if (!last.hasDown) {
+    throw new Error(`Migration ${last.tag} has no down script at ${downScriptPath(last.tag)}`);
+  }
+
+  const statements = fs.readFileSync(downScriptPath(last.tag), 'utf-8')
+    .split(STATEMENT_BREAKPOINT)
+    .map(statement => statement.trim())
+    .filter(Boolean);
+
+  await db.transaction(async tx => {
+    for (const statement of statements) {
+      await tx.execute(sql.raw(statement));
+    }
+    await tx.execute(sql`DELETE FROM drizzle.__drizzle_migrations WHERE created_at = ${last.createdAt}`);
+  });
+
+  return last.tag;
+}
+
+/**
+ * Record every migration as applied without running it, for databases whose
+ * tables were created before migrations existed (e.g. with `drizzle-kit
+ * push`). Refuses when the schema has drifted, since the migrations would
+ * then describe tables that don't match.
+ */
+export async function baselineMigrations(): Promise<string[]> {
+  const drift = await checkSchemaDrift();
+  if (drift.length > 0) {
+    throw new Error(`Cannot baseline a database whose schema has drifted: ${describeDrift(drift).join('; ')}`);
+  }
+
+  const pending = (await listMigrations()).filter(migration => !migration.applied);
+  const hashes = new Map(
+    readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER }).map(migration => [migration.folderMillis, migration.hash])
+  );
+
+  await db.execute(sql`CREATE SCHEMA IF NOT EXISTS drizzle`);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS drizzle.__drizzle_migrations (
+      id SERIAL PRIMARY KEY,
+      hash text NOT NULL,
+      created_at bigint
+    )
+  `);
+  for (const migration of pending) {
+    await db.execute(sql`
+      INSERT INTO drizzle.__drizzle_migrations (hash, created_at)
+      VALUES (${hashes.get(migration.createdAt) ?? ''}, ${migration.createdAt})
+    `);
+  }
+
+  return pending.map(migration => migration.tag);
+}
+
+export function describeDrift(drift: SchemaDrift[]): string[] {
+  return drift.map(entry => {
+    const target = entry.column ? `${entry.table}.${entry.column}` : entry.table;
+    switch (entry.problem) {
+      case 'missing_table':
+        return `table ${target} is missing`;
+      case 'missing_column':
+        return `column ${target} (${entry.expected}) is missing`;
+      default:
+        return `column ${target} is ${entry.actual}, expected ${entry.expected}`;
+    }
+  });
+}
+
+/**
+ * Throw when migrations are pending or the schema has drifted, so the server
+ * refuses to start against a database it can't write to.
+ */
+export async function assertSchemaUpToDate(): Promise<void> {
+  const status = await getMigrationStatus();
+  if (status.upToDate) {
+    return;
+  }
+
+  const problems = [
+    ...status.pending.map(tag => `migration ${tag} is not applied`),
+    ...describeDrift(status.drift)
+  ];
+  throw new Error(`Database schema is out of date (${problems.join('; ')}). Run \`npm run db:migrate\`.`);
+}
@@ -1,163 +1,207 @@
-
-import { Configuration, OpenAIApi } from "openai";
 import { InsertPuzzle } from "@shared/schema";
+import { normalizeAnswer, singularize } from "@shared/answer-matching";
+import { EMOJI_KEYWORDS, EMOJI_STOP_WORDS } from "./emoji-keywords";
+
+// Offline emoji generator. Each answer word is looked up in the bundled
+// keyword dataset and mapped to one emoji, in the same order as the words,
+// so generation needs no network access or API key.
+
+// How a word was matched, most specific first
+export type EmojiMatch = 'phrase' | 'name' | 'keyword' | 'stem' | 'compound' | 'partial' | 'fallback';
+
+// One emoji of a generated sequence and why it was picked
+export interface EmojiMapping {
+  word: string;
+  emoji: string;
+  keyword: string | null;
+  match: EmojiMatch;
+  alternatives: string[];
+}
+
+interface KeywordCandidate {
+  emoji: string;
+  keyword: string;
+  // Position of the keyword in the emoji's list; 0 is the emoji's name
+  position: number;
+  // Total keywords of the emoji; fewer means a more specific emoji
+  breadth: number;
+  order: number;
+}
+
+const FALLBACK_EMOJI = "🎯";
+const MAX_PHRASE_WORDS = 3;
+const MIN_STEM_LENGTH = 5;
+const MIN_PART_LENGTH = 3;
+const MIN_PARTIAL_LENGTH = 5;
+const MAX_ALTERNATIVES = 3;
+
+// Derivational endings stripped before comparing stems, longest first
+const SUFFIXES = [
+  'ational', 'ically', 'ation', 'ition', 'istry', 'ical', 'ious', 'ment', 'ness',
+  'ial', 'ous', 'ive', 'ing', 'ity', 'ist', 'ism', 'ics', 'ic', 'al', 'ar', 'er',
+  'ed', 'ly', 'y', 'e'
+];
+
+function normalizeWord(word: string): string {
+  return singularize(word);
+}
 
-const emojiMap: { [key: string]: string[] } = {
-  // Time related
-  time: ["⌚", "⏰", "⏳", "🕐"],
-  morning: ["🌅", "☀️", "🌄"],
-  night: ["🌙", "🌚", "🌃"],
-  
-  // Nature
-  nature: ["🌲", "🌺", "🌿", "🍃"],
-  tree: ["🌳", "🌲", "🎄"],
-  flower: ["🌸", "🌺", "🌹"],
-  plant: ["🌱", "🪴", "🌿"],
-  
-  // Weather
-  weather: ["☀️", "🌧️", "❄️", "⛈️"],
-  sun: ["☀️", "🌞", "🌅"],
-  rain: ["🌧️", "☔", "⛈️"],
-  snow: ["❄️", "⛄", "🌨️"],
-  
-  // Animals
-  animals: ["🐶", "🐱", "🐯", "🦁"],
-  dog: ["🐕", "🐶", "🐩"],
-  cat: ["🐱", "🐈", "😺"],
-  bird: ["🐦", "🦜", "🦢"],
-  
-  // Food & Drink
-  food: ["🍎", "🍕", "🍔", "🥗"],
-  fruit: ["🍎", "🍌", "🍊"],
-  drink: ["🥤", "☕", "🍺"],
-  meal: ["🍽️", "🍴", "🥘"],
-  
-  // Activities
-  activities: ["🏃", "🎮", "📚", "🎨"],
-  sport: ["⚽", "🏀", "🎾"],
-  game: ["🎮", "🎲", "🎯"],
-  art: ["🎨", "🖼️", "🎭"],
-  
-  // Emotions
-  emotions: ["😊", "😢", "😡", "🥰"],
-  happy: ["😊", "😄", "🥳"],
-  sad: ["😢", "😭", "🥺"],
-  love: ["❤️", "💕", "💝"],
-  
-  // Objects
-  objects: ["📱", "💻", "🎮", "📷"],
-  tech: ["💻", "📱", "⌚"],
-  book: ["📚", "📖", "📕"],
-  music: ["🎵", "🎶", "🎼"],
-  
-  // Places
-  places: ["🏠", "🏢", "🏫", "🏭"],
-  home: ["🏠", "🏡", "🏘️"],
-  office: ["🏢", "🏣", "🏪"],
-  school: ["🏫", "🎓", "📚"],
-  
-  // Transportation
-  transport: ["🚗", "✈️", "🚂", "🚢"],
-  car: ["🚗", "🚙", "🚘"],
-  plane: ["✈️", "🛩️", "🛫"],
-  ship: ["🚢", "⛴️", "🛥️"],
-  
-  // Science & Tech
-  science: ["🔬", "🧪", "🔭"],
-  computer: ["💻", "🖥️", "⌨️"],
-  phone: ["📱", "☎️", "📞"],
-  
-  // Work & Study
-  work: ["💼", "👔", "💻"],
-  study: ["📚", "✏️", "📝"],
-  write: ["✍️", "📝", "🖊️"],
-  
-  // Abstract Concepts
-  mind: ["🧠", "💭", "💡"],
-  idea: ["💡", "✨", "💭"],
-  dream: ["💭", "🌙", "✨"],
-  power: ["💪", "⚡", "🔋"]
-};
-
-function getWordContext(word: string): string[] {
-  const lowerWord = word.toLowerCase();
-  let contexts: string[] = [];
-
-  // Check word against our categories
-  for (const [category, emojis] of Object.entries(emojiMap)) {
-    if (lowerWord.includes(category)) {
-      contexts.push(...emojis);
+function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
     }
   }
+  return word;
+}
+
+function addCandidate(index: Map<string, KeywordCandidate[]>, key: string, candidate: KeywordCandidate) {
+  const list = index.get(key) ?? [];
+  if (!list.some(existing => existing.emoji === candidate.emoji)) {
+    list.push(candidate);
+    index.set(key, list);
+  }
+}
+
+// Exact keywords, stems of single-word keywords, and single-word keywords
+// long enough to match as a prefix ("hydro" in "hydroponic"), built once
+// from the dataset
+const keywordIndex = new Map<string, KeywordCandidate[]>();
+const stemIndex = new Map<string, KeywordCandidate[]>();
+const partialKeywords: string[] = [];
+
+Object.entries(EMOJI_KEYWORDS).forEach(([emoji, keywords], order) => {
+  keywords.forEach((rawKeyword, position) => {
+    const keyword = normalizeAnswer(rawKeyword).split(' ').map(normalizeWord).join(' ');
+    const candidate = { emoji, keyword, position, breadth: keywords.length, order };
+    addCandidate(keywordIndex, keyword, candidate);
 
-  // Specific word mappings for common terms
-  const specificMappings: { [key: string]: string[] } = {
-    brain: ["🧠", "💭"],
-    smart: ["🧠", "💡"],
-    digital: ["💻", "📱"],
-    virtual: ["💻", "🌐"],
-    cloud: ["☁️", "💭"],
-    data: ["💾", "📊"],
-    social: ["👥", "🤝"],
-    network: ["🌐", "🔗"],
-    security: ["🔒", "🛡️"],
-    peace: ["🕊️", "☮️"],
-    space: ["🚀", "🌠"],
-    earth: ["🌍", "🌎"],
-    market: ["🏪", "💹"],
-    money: ["💰", "💵"],
-    health: ["❤️", "🏥"],
-    medical: ["⚕️", "💊"],
-    education: ["📚", "🎓"],
-    communication: ["💬", "📱"],
-    green: ["🌿", "🌱"],
-    eco: ["🌱", "♻️"],
-    quantum: ["⚛️", "🔬"],
-    artificial: ["🤖", "💻"],
-    intelligence: ["🧠", "💡"]
+    if (!keyword.includes(' ')) {
+      addCandidate(stemIndex, stem(keyword), candidate);
+      if (keyword.length >= MIN_PARTIAL_LENGTH && !partialKeywords.includes(keyword)) {
+        partialKeywords.push(keyword);
+      }
+    }
+  });
+});
+
+// Longest keywords first so partial matches pick the most specific one
+partialKeywords.sort((a, b) => b.length - a.length);
+
+function rankCandidates(candidates: KeywordCandidate[]): KeywordCandidate[] {
+  return [...candidates].sort((a, b) =>
+    a.position - b.position || a.breadth - b.breadth || a.order - b.order
+  );
+}
+
+// Pick the best-ranked emoji that hasn't been used yet, keeping the rest as
+// alternatives for review
+function toMapping(
+  word: string,
+  candidates: KeywordCandidate[],
+  match: EmojiMatch,
+  used: Set<string>
+): EmojiMapping {
+  const ranked = rankCandidates(candidates);
+  const chosen = ranked.find(candidate => !used.has(candidate.emoji)) ?? ranked[0];
+  used.add(chosen.emoji);
+
+  return {
+    word,
+    emoji: chosen.emoji,
+    keyword: chosen.keyword,
+    match: match === 'keyword' && chosen.position === 0 ? 'name' : match,
+    alternatives: ranked
+      .filter(candidate => candidate.emoji !== chosen.emoji)
+      .slice(0, MAX_ALTERNATIVES)
+      .map(candidate => candidate.emoji)
   };
+}
 
-  // Check for specific word matches
-  for (const [key, wordEmojis] of Object.entries(specificMappings)) {
-    if (lowerWord.includes(key)) {
-      contexts.push(...wordEmojis);
+// Split a word into two keywords, e.g. "sunflower" -> "sun" + "flower"
+function findCompound(word: string): [string, string] | undefined {
+  for (let split = word.length - MIN_PART_LENGTH; split >= MIN_PART_LENGTH; split--) {
+    const head = word.slice(0, split);
+    const tail = normalizeWord(word.slice(split));
+    if (keywordIndex.has(head) && keywordIndex.has(tail)) {
+      return [head, tail];
     }
   }
+  return undefined;
+}
+
+// A lone word is split into a compound before exact matches are tried, so a
+// one-word answer like "Bookworm" still gets an emoji per part
+function mapWord(word: string, used: Set<string>, preferCompound = false): EmojiMapping[] {
+  const normalized = normalizeWord(word);
+  const compound = findCompound(normalized);
+
+  if (compound && preferCompound) {
+    return compound.map(part => toMapping(word, keywordIndex.get(part)!, 'compound', used));
+  }
+
+  const exact = keywordIndex.get(normalized);
+  if (exact) {
+    return [toMapping(word, exact, 'keyword', used)];
+  }
+
+  const stemmed = stemIndex.get(stem(normalized));
+  if (stemmed) {
+    return [toMapping(word, stemmed, 'stem', used)];
+  }
 
-  return contexts.length > 0 ? contexts : ["🎯"]; // Changed fallback emoji to be more neutral
+  if (compound) {
+    return compound.map(part => toMapping(word, keywordIndex.get(part)!, 'compound', used));
+  }
+
+  const partial = partialKeywords.find(keyword => normalized.startsWith(keyword));
+  if (partial) {
+    return [toMapping(word, keywordIndex.get(partial)!, 'partial', used)];
+  }
+
+  return [{ word, emoji: FALLBACK_EMOJI, keyword: null, match: 'fallback', alternatives: [] }];
 }
 
-function analyzePhrase(phrase: string): string[] {
-  const words = phrase.split(/\s+/);
-  const allContexts: string[][] = words.map(word => getWordContext(word));
-  
-  // Select most relevant emoji for each word, prioritizing non-duplicate emojis
-  const selectedEmojis: string[] = [];
-  const usedEmojis = new Set<string>();
-  
-  allContexts.forEach(contexts => {
-    // Try to find an unused emoji first
-    let selectedEmoji = contexts.find(emoji => !usedEmojis.has(emoji));
-    
-    // If all emojis are used, just take the first one
-    if (!selectedEmoji && contexts.length > 0) {
-      selectedEmoji = contexts[0];
+/**
+ * Explain how an answer maps to emojis, one entry per emoji in answer order.
+ * A multi-word keyword ("ice cream") is used only when one of its words has
+ * no keyword of its own, so most answers keep one emoji per word.
+ */
+export function explainOrderedEmojis(answer: string): EmojiMapping[] {
+  const words = normalizeAnswer(answer).split(' ').filter(Boolean);
+  const contentWords = words.filter(word => !EMOJI_STOP_WORDS.has(word));
+  const used = new Set<string>();
+  const mappings: EmojiMapping[] = [];
+
+  for (let i = 0; i < words.length; ) {
+    const phraseLength = [MAX_PHRASE_WORDS, 2].find(length => {
+      const span = words.slice(i, i + length);
+      return span.length === length &&
+        keywordIndex.has(span.map(normalizeWord).join(' ')) &&
+        span.some(word => !keywordIndex.has(normalizeWord(word)));
+    });
+
+    if (phraseLength) {
+      const span = words.slice(i, i + phraseLength);
+      const candidates = keywordIndex.get(span.map(normalizeWord).join(' '))!;
+      mappings.push(toMapping(span.join(' '), candidates, 'phrase', used));
+      i += phraseLength;
+      continue;
     }
-    
-    // If we found an emoji, add it
-    if (selectedEmoji) {
-      selectedEmojis.push(selectedEmoji);
-      usedEmojis.add(selectedEmoji);
-    } else {
-      selectedEmojis.push("🎯"); // Use target emoji as fallback
+
+    if (!EMOJI_STOP_WORDS.has(words[i])) {
+      mappings.push(...mapWord(words[i], used, contentWords.length === 1));
     }
-  });
-  
-  return selectedEmojis;
+    i++;
+  }
+
+  return mappings.length > 0
+    ? mappings
+    : [{ word: answer, emoji: FALLBACK_EMOJI, keyword: null, match: 'fallback', alternatives: [] }];
 }
 
 export function createOrderedEmojis(answer: string): string[] {
-  return analyzePhrase(answer);
+  return explainOrderedEmojis(answer).map(mapping => mapping.emoji);
 }
 
 export function processPuzzlesWithOrderedEmojis(puzzles: InsertPuzzle[]): InsertPuzzle[] {
@@ -0,0 +1,537 @@
+import type { CandidatePools, PuzzleCandidate } from "./puzzle-pipeline";
+
+// The built-in puzzle bank used by the generation pipeline, collected from
+// the banks that used to be copied between generation scripts. Most entries
+// are just answers; the pipeline fills in emojis and hints.
+
+// Hand-made puzzles with their own emojis and a hand-written hint for each tier
+const CURATED_NORMAL: PuzzleCandidate[] = [
+  {
+    answer: "Housekeeping",
+    emojis: ["🏡", "🧹"],
+    hints: {
+      vague: "A service that maintains cleanliness",
+      medium: "Found in hotels and private homes",
+      revealing: "Combines where you live with what you do to maintain it"
+    }
+  },
+  {
+    answer: "Bookworm",
+    emojis: ["🐍", "📚"],
+    hints: {
+      vague: "Someone who loves reading",
+      medium: "Not actually related to reptiles",
+      revealing: "A metaphorical creature that consumes literature"
+    }
+  },
+  {
+    answer: "Apple pie",
+    emojis: ["🍎", "🥧"],
+    hints: {
+      vague: "A classic American dessert",
+      medium: "Made with fruit and pastry",
+      revealing: "Often served with ice cream"
+    }
+  },
+  {
+    answer: "Sunglasses",
+    emojis: ["☀️", "🕶️"],
+    hints: {
+      vague: "Eye protection on bright days",
+      medium: "Fashion accessory for the beach",
+      revealing: "Blocks UV rays from damaging your vision"
+    }
+  },
+  {
+    answer: "Fire extinguisher",
+    emojis: ["🔥", "🧯"],
+    hints: {
+      vague: "Safety device for emergencies",
+      medium: "Sprays to stop flames",
+      revealing: "Red canister found in buildings"
+    }
+  },
+  {
+    answer: "Brainstorm",
+    emojis: ["🧠", "💨"],
+    hints: {
+      vague: "A creative thinking session",
+      medium: "When ideas flow rapidly",
+      revealing: "A mental weather phenomenon"
+    }
+  },
+  {
+    answer: "Surfing",
+    emojis: ["🌊", "🏄"],
+    hints: {
+      vague: "Riding on ocean waves",
+      medium: "Popular beach sport",
+      revealing: "Requires balance on a board"
+    }
+  },
+  {
+    answer: "Butter toast",
+    emojis: ["🧈", "🍞"],
+    hints: {
+      vague: "Common breakfast item",
+      medium: "Spread on warm bread",
+      revealing: "Crispy and savory morning food"
+    }
+  },
+  {
+    answer: "Werewolf",
+    emojis: ["🌙", "🐺"],
+    hints: {
+      vague: "Mythical creature that transforms",
+      medium: "Affected by the full moon",
+      revealing: "Human by day, animal by night"
+    }
+  },
+  {
+    answer: "Tooth fairy",
+    emojis: ["🦷", "🧚"],
+    hints: {
+      vague: "Mythical being that visits children",
+      medium: "Collects dental remains",
+      revealing: "Leaves money under pillows"
+    }
+  }
+];
+
+const NORMAL_ANSWERS = [
+  "Sunlight",
+  "Keyboard",
+  "Bicycle",
+  "Coffee Cup",
+  "Window View",
+  "Book Club",
+  "Ocean Wave",
+  "Guitar Solo",
+  "Night Sky",
+  "Raincoat",
+  "Train Station",
+  "Breakfast",
+  "Headphones",
+  "Garden Path",
+  "Digital Camera",
+  "Desk Lamp",
+  "Board Game",
+  "Cupcake",
+  "Wallet",
+  "Smartphone",
+  "Shopping List",
+  "Door Handle",
+  "Running Shoes",
+  "Paper Clip",
+  "Tree Shade",
+  "Sun Hat",
+  "Ball Game",
+  "Dance Floor",
+  "Movie Time",
+  "Backpack",
+  "Sunshine",
+  "Pencil Case",
+  "Mail Box",
+  "Lunch Break",
+  "Gift Card",
+  "Bus Stop",
+  "Water Bottle",
+  "Alarm Clock",
+  "Toothbrush",
+  "Wall Picture",
+  "Time Travel",
+  "Dog Walk",
+  "Beach Day",
+  "Snow Fall",
+  "City Lights",
+  "Key Chain",
+  "Star Gaze",
+  "Book Mark",
+  "Map Search",
+  "Bird Song",
+  "Fish Bowl",
+  "Home Office",
+  "Cat Nap",
+  "Voice Mail",
+  "Wind Chime",
+  "Tea Time",
+  "Bike Ride",
+  "Hand Shake",
+  "Road Trip",
+  "Day Dream",
+  "Bell Ring",
+  "Hair Cut",
+  "Pool Party",
+  "Bread Loaf",
+  "Cool Breeze",
+  "Farm House",
+  "Fresh Start",
+  "Game Night",
+  "Hand Wash",
+  "Ice Cream",
+  "Juice Box",
+  "Kitchen Sink",
+  "Laptop Case",
+  "Morning Walk",
+  "New Shoes",
+  "Old Books",
+  "Park Bench",
+  "Quick Lunch",
+  "Rain Boots",
+  "Smart Watch",
+  "Table Lamp",
+  "Umbrella Stand",
+  "Video Call",
+  "Warm Socks",
+  "Yoga Mat",
+  "Zoo Visit",
+  "Art Class",
+  "Bath Towel",
+  "Clean Dish",
+  "Desk Chair",
+  "Evening News",
+  "Food Truck",
+  "Glass Door",
+  "House Plant",
+  "Iron Skillet",
+  "Jam Jar",
+  "Kite Flying",
+  "Lawn Mower",
+  "Music Box",
+  "Night Light",
+  "Oil Change",
+  "Plant Pot",
+  "Quiet Room",
+  "Rice Bowl",
+  "Soup Spoon",
+  "TV Remote",
+  "Under Bed",
+  "Vase Flower",
+  "Wool Sweater",
+  "X Ray Film",
+  "Yard Work",
+  "Zip Line",
+  "Air Fryer",
+  "Book Shelf",
+  "Cookie Jar",
+  "Door Bell",
+  "Egg Timer",
+  "Foam Roller",
+  "Gold Watch",
+  "Hair Brush",
+  "Ice Bucket",
+  "Jam Toast",
+  "Kids Room",
+  "Lamp Light",
+  "Milk Carton",
+  "Note Pad",
+  "Oven Mitt",
+  "Phone Call",
+  "Quilt Cover",
+  "Salt Shaker",
+  "Tea Kettle",
+  "USB Cable",
+  "Vase Stand",
+  "Wood Table",
+  "Yoga Class",
+  "Zoom Meeting",
+  "Art Gallery",
+  "Bike Trail",
+  "Cake Slice",
+  "Dish Soap",
+  "Egg Salad",
+  "Fish Tank",
+  "Gift Wrap",
+  "Hot Cocoa",
+  "Ink Pen",
+  "Jam Session",
+  "Kids Movie",
+  "Lake View",
+  "Moon Light",
+  "News Feed",
+  "Olive Oil",
+  "Pizza Box",
+  "Quiz Show",
+  "Road Map",
+  "Tool Box",
+  "Used Book",
+  "Video Game",
+  "Wine Glass",
+  "Xmas Tree",
+  "Yard Sale",
+  "Zoo Keeper",
+  "Arm Chair",
+  "Bird House",
+  "Car Radio",
+  "Dish Rack",
+  "Eye Drops",
+  "Family Photo",
+  "Golf Club",
+  "Hat Rack",
+  "Ice Skate",
+  "Jump Rope",
+  "Kite String",
+  "Lamp Shade",
+  "Mail Slot",
+  "News Paper",
+  "Oven Door",
+  "Paint Brush",
+  "Quilt Stitch",
+  "Rock Garden",
+  "Swim Lane",
+  "Tent Pole",
+  "USB Drive",
+  "Vest Pocket",
+  "Wall Clock",
+  "Yarn Ball",
+  "Zip Code",
+  "Award Show",
+  "Bath Robe",
+  "Birthday cake",
+  "Digital mind",
+  "Mobile home",
+  "Time keeper",
+  "Password protection",
+  "Burger king",
+  "Rainbow colors",
+  "Drama call",
+  "Magic medicine",
+  "Singing shower",
+  "Rocket science",
+  "Love attraction",
+  "Tiny musician",
+  "Rock climbing",
+  "Firefox browser",
+  "Floating boat",
+  "Robot gardener",
+  "Water park",
+  "Dream catcher",
+  "Star gazing",
+  "Family dinner",
+  "Heart break",
+  "Mind reader"
+];
+
+const HARD_ANSWERS = [
+  "Quantum Physics",
+  "Artificial Intelligence",
+  "Molecular Gastronomy",
+  "Constitutional Amendment",
+  "Interstellar Nebula",
+  "Archaeological Excavation",
+  "Photosynthesis Process",
+  "Neuroscience Research",
+  "Cryptocurrency Exchange",
+  "Renewable Energy Sources",
+  "Biodiversity Conservation",
+  "International Relations",
+  "Statistical Analysis",
+  "Philosophical Debate",
+  "Machine Learning Algorithm",
+  "Linguistic Anthropology",
+  "Biochemical Reaction",
+  "Cybersecurity Protocol",
+  "Economic Forecasting",
+  "Geopolitical Strategy",
+  "Psychological Experiment",
+  "Architectural Innovation",
+  "Sustainable Development",
+  "Theoretical Framework",
+  "Historical Perspective",
+  "Manufacturing Process",
+  "Environmental Impact",
+  "Educational Reform",
+  "Virtual Reality Experience",
+  "Global Pandemic Response",
+  "Legal Jurisprudence",
+  "Critical Infrastructure",
+  "Financial Investment",
+  "Evolutionary Biology",
+  "Diplomatic Relations",
+  "Digital Transformation",
+  "Ethical Consideration",
+  "Cognitive Development",
+  "Geological Formation",
+  "Agricultural Innovation",
+  "Mechanical Engineering",
+  "Cultural Anthropology",
+  "Mathematical Equation",
+  "Political Campaign",
+  "Industrial Revolution",
+  "Astronomical Observation",
+  "Behavioral Economics",
+  "Pharmaceutical Research",
+  "Meteorological Forecast",
+  "Transportation Infrastructure",
+  "Sociological Perspective",
+  "Technological Innovation",
+  "Corporate Strategy",
+  "Creative Expression",
+  "Scientific Method",
+  "Healthcare Management",
+  "Athletic Performance",
+  "Nutritional Guidelines",
+  "Theatrical Production",
+  "Commercial Transaction",
+  "Musical Composition",
+  "Historical Documentation",
+  "Geographical Exploration",
+  "International Diplomacy",
+  "Psychological Assessment",
+  "Mechanical Automation",
+  "Electronic Communication",
+  "Educational Curriculum",
+  "Medical Diagnosis",
+  "Regulatory Compliance",
+  "Cosmological Expansion",
+  "Neurological Pathways",
+  "Quantum Entanglement",
+  "Algorithmic Complexity",
+  "Biomechanical Engineering",
+  "Computational Linguistics",
+  "Developmental Psychology",
+  "Electrochemical Reaction",
+  "Fundamental Principles",
+  "Geometric Proportions",
+  "Hydrological Processes",
+  "Immunological Response",
+  "Jurisprudential Theory",
+  "Kinematic Equations",
+  "Lithospheric Plates",
+  "Meteorological Systems",
+  "Neurochemical Transmission",
+  "Organizational Hierarchy",
+  "Paleontological Discovery",
+  "Quantum Field Theory",
+  "Retrospective Analysis",
+  "Socioeconomic Patterns",
+  "Thermodynamic Equilibrium",
+  "Ultrastructural Components",
+  "Virtualization Technology",
+  "Wavelength Modulation",
+  "Xenobiotic Metabolism",
+  "Zoological Classification",
+  "Anthropological Research",
+  "Biomedical Engineering",
+  "Crystallographic Structure",
+  "Demographic Transition",
+  "Ecological Restoration",
+  "Forensic Investigation",
+  "Gravitational Potential",
+  "Hydroponic Cultivation",
+  "Indigenous Preservation",
+  "Journalistic Integrity",
+  "Kinesthetic Awareness",
+  "Lexicographical Arrangement",
+  "Metamorphic Transition",
+  "Neoclassical Architecture",
+  "Operational Excellence",
+  "Physiological Adaptation",
+  "Qualitative Assessment",
+  "Radiometric Dating",
+  "Systematic Evaluation",
+  "Technological Convergence",
+  "Urban Infrastructure",
+  "Vaccination Protocol",
+  "Watershed Management",
+  "Xenolinguistic Studies",
+  "Yield Optimization",
+  "Zoomorphic Symbolism",
+  "Astronomical Phenomena",
+  "Biochemical Pathway",
+  "Constitutional Convention",
+  "Diplomatic Negotiations",
+  "Electroencephalography",
+  "Fibonacci Sequence",
+  "Geospatial Analysis",
+  "Hydrodynamic Principles",
+  "Immunocompromised System",
+  "Juxtaposition Technique",
+  "Kaleidoscopic Pattern",
+  "Logarithmic Scaling",
+  "Multidisciplinary Approach",
+  "Neurotransmitter Function",
+  "Organizational Psychology",
+  "Poststructuralist Theory",
+  "Quantitative Research",
+  "Recombinant Technology",
+  "Superconducting Material",
+  "Transcendental Meditation",
+  "Universal Healthcare",
+  "Vibrational Frequency",
+  "Waveform Synthesis",
+  "Xerographic Process",
+  "Yellowstone Ecosystem",
+  "Zymurgical Process"
+];
+
+// Fusion twists, with the clue that explains the fusion as the revealing hint
+const FUSION: PuzzleCandidate[] = [
+  { answer: "Brunch", twistType: "Word Fusion", hints: { revealing: "breakfast + lunch" } },
+  { answer: "Spork", twistType: "Object Fusion", hints: { revealing: "spoon + fork" } },
+  { answer: "Liger", twistType: "Animal Fusion", hints: { revealing: "lion + tiger" } },
+  { answer: "Smog", twistType: "Environment Fusion", hints: { revealing: "smoke + fog" } },
+  { answer: "Motel", twistType: "Building Fusion", hints: { revealing: "motor + hotel" } },
+  { answer: "Podcast", twistType: "Media Fusion", hints: { revealing: "iPod + broadcast" } },
+  { answer: "Dramedy", twistType: "Genre Fusion", hints: { revealing: "drama + comedy" } },
+  { answer: "Cronut", twistType: "Food Fusion", hints: { revealing: "croissant + donut" } },
+  { answer: "Chortle", twistType: "Sound Fusion", hints: { revealing: "chuckle + snort" } },
+  { answer: "Sitcom", twistType: "TV Fusion", hints: { revealing: "situation + comedy" } },
+  { answer: "Workaholic", twistType: "Behavior Fusion", hints: { revealing: "work + alcoholic" } },
+  { answer: "Staycation", twistType: "Travel Fusion", hints: { revealing: "stay + vacation" } },
+  { answer: "Mocktail", twistType: "Drink Fusion", hints: { revealing: "mock + cocktail" } },
+  { answer: "Webinar", twistType: "Education Fusion", hints: { revealing: "web + seminar" } },
+  { answer: "Cosplay", twistType: "Entertainment Fusion", hints: { revealing: "costume + play" } },
+  { answer: "Biopic", twistType: "Movie Fusion", hints: { revealing: "biographical + picture" } },
+  { answer: "Infomercial", twistType: "Advertising Fusion", hints: { revealing: "information + commercial" } },
+  { answer: "Emoticon", twistType: "Digital Fusion", hints: { revealing: "emotion + icon" } },
+  { answer: "Netiquette", twistType: "Internet Fusion", hints: { revealing: "internet + etiquette" } },
+  { answer: "Glamping", twistType: "Lifestyle Fusion", hints: { revealing: "glamorous + camping" } },
+  { answer: "Jeggings", twistType: "Fashion Fusion", hints: { revealing: "jeans + leggings" } },
+  { answer: "Cyberpunk", twistType: "Culture Fusion", hints: { revealing: "cybernetics + punk" } },
+  { answer: "Telemedicine", twistType: "Healthcare Fusion", hints: { revealing: "telecommunications + medicine" } },
+  { answer: "Hangry", twistType: "Emotion Fusion", hints: { revealing: "hungry + angry" } },
+  { answer: "Edutainment", twistType: "Content Fusion", hints: { revealing: "education + entertainment" } },
+  { answer: "Frankenfood", twistType: "Cuisine Fusion", hints: { revealing: "Frankenstein + food" } },
+  { answer: "Bromance", twistType: "Relationship Fusion", hints: { revealing: "brother + romance" } },
+  { answer: "Frenemy", twistType: "Social Fusion", hints: { revealing: "friend + enemy" } },
+  { answer: "Chillax", twistType: "Action Fusion", hints: { revealing: "chill + relax" } },
+  { answer: "Affluenza", twistType: "Society Fusion", hints: { revealing: "affluence + influenza" } },
+  { answer: "Hackathon", twistType: "Tech Fusion", hints: { revealing: "hack + marathon" } },
+  { answer: "Ginormous", twistType: "Size Fusion", hints: { revealing: "gigantic + enormous" } },
+  { answer: "Kidult", twistType: "Age Fusion", hints: { revealing: "kid + adult" } },
+  { answer: "Shopaholic", twistType: "Habit Fusion", hints: { revealing: "shopping + alcoholic" } },
+  { answer: "Guesstimate", twistType: "Calculation Fusion", hints: { revealing: "guess + estimate" } },
+  { answer: "Screenager", twistType: "Generation Fusion", hints: { revealing: "screen + teenager" } },
+  { answer: "Metrosexual", twistType: "Identity Fusion", hints: { revealing: "metropolitan + heterosexual" } },
+  { answer: "Jazzercise", twistType: "Fitness Fusion", hints: { revealing: "jazz + exercise" } },
+  { answer: "Chocoholic", twistType: "Food Fusion", hints: { revealing: "chocolate + alcoholic" } },
+  { answer: "Bootylicious", twistType: "Appearance Fusion", hints: { revealing: "booty + delicious" } },
+  { answer: "Carjacking", twistType: "Crime Fusion", hints: { revealing: "car + hijacking" } },
+  { answer: "Skort", twistType: "Clothing Fusion", hints: { revealing: "skirt + shorts" } },
+  { answer: "Vlog", twistType: "Media Fusion", hints: { revealing: "video + blog" } },
+  { answer: "Malware", twistType: "Computer Fusion", hints: { revealing: "malicious + software" } },
+  { answer: "Freemium", twistType: "Business Fusion", hints: { revealing: "free + premium" } },
+  { answer: "Pixel", twistType: "Tech Fusion", hints: { revealing: "picture + element" } },
+  { answer: "Brexit", twistType: "Political Fusion", hints: { revealing: "Britain + exit" } },
+  { answer: "Athleisure", twistType: "Fashion Fusion", hints: { revealing: "athletic + leisure" } },
+  { answer: "Turducken", twistType: "Food Fusion", hints: { revealing: "turkey + duck + chicken" } },
+  { answer: "Rockumentary", twistType: "Film Fusion", hints: { revealing: "rock + documentary" } },
+  { answer: "Gaydar", twistType: "Ability Fusion", hints: { revealing: "gay + radar" } },
+  { answer: "Telethon", twistType: "Event Fusion", hints: { revealing: "television + marathon" } },
+  { answer: "Flexitarian", twistType: "Diet Fusion", hints: { revealing: "flexible + vegetarian" } },
+  { answer: "Bollywood", twistType: "Cinema Fusion", hints: { revealing: "Bombay + Hollywood" } },
+  { answer: "Animatronic", twistType: "Technology Fusion", hints: { revealing: "animated + electronic" } },
+  { answer: "Televangelist", twistType: "Religion Fusion", hints: { revealing: "television + evangelist" } },
+  { answer: "Automagically", twistType: "Process Fusion", hints: { revealing: "automatic + magically" } },
+  { answer: "Tanzanite", twistType: "Mineral Fusion", hints: { revealing: "Tanzania + azurite" } },
+  { answer: "Camcorder", twistType: "Device Fusion", hints: { revealing: "camera + recorder" } },
+  { answer: "Tofurkey", twistType: "Food Fusion", hints: { revealing: "tofu + turkey" } },
+  { answer: "Cyborg", twistType: "Being Fusion", hints: { revealing: "cybernetic + organism" } }
+];
+
+export const PUZZLE_BANK: CandidatePools = {
+  normal: [...CURATED_NORMAL, ...NORMAL_ANSWERS.map(answer => ({ answer }))],
+  hard: HARD_ANSWERS.map(answer => ({ answer })),
+  fusion: FUSION
+};
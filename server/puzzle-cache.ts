@@ -0,0 +1,237 @@
+import type {
+  User, InsertUser, Puzzle, InsertPuzzle, GameSession, InsertGameSession, PuzzleSolveStats, MaintenanceState
+} from "@shared/schema";
+import { getPuzzleDate } from "@shared/puzzle-clock";
+import type { PatchNote } from "../client/src/firebase/firestore";
+import type { PuzzleRepository } from "./storage";
+import { normalizeDifficulty } from "./repository";
+
+export interface PuzzleCacheStats {
+  puzzleDate: string;
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+/**
+ * In-process cache for today's puzzles, keyed by the ET puzzle date.
+ * Every read checks the current puzzle date first, so the cache empties
+ * itself at the daily rollover without any timers.
+ */
+export class PuzzleCache {
+  private puzzleDate = getPuzzleDate();
+  private entries = new Map<string, Puzzle>();
+  private hits = 0;
+  private misses = 0;
+
+  get(key: string): Puzzle | undefined {
+    this.rollOverIfNeeded();
+    const puzzle = this.entries.get(key);
+
+    if (puzzle) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+
+    return puzzle;
+  }
+
+  set(key: string, puzzle: Puzzle): void {
+    this.rollOverIfNeeded();
+    this.entries.set(key, puzzle);
+  }
+
+  // Today's date as seen by the cache
+  getPuzzleDate(): string {
+    this.rollOverIfNeeded();
+    return this.puzzleDate;
+  }
+
+  // Drop every cached puzzle, returning how many entries were removed
+  purge(): number {
+    const purged = this.entries.size;
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    return purged;
+  }
+
+  getStats(): PuzzleCacheStats {
+    this.rollOverIfNeeded();
+    return {
+      puzzleDate: this.puzzleDate,
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses
+    };
+  }
+
+  private rollOverIfNeeded(): void {
+    const today = getPuzzleDate();
+
+    if (today !== this.puzzleDate) {
+      console.log(`Puzzle date rolled over from ${this.puzzleDate} to ${today}, clearing puzzle cache`);
+      this.puzzleDate = today;
+      this.purge();
+    }
+  }
+}
+
+export const puzzleCache = new PuzzleCache();
+
+// Cache keys for the three ways today's puzzles are looked up
+const todayKey = (difficulty: string) => `today:${difficulty}`;
+const idKey = (id: number, difficulty: string) => `id:${id}:${difficulty}`;
+const fusionKey = (id: number) => `fusion:${id}`;
+
+/**
+ * Repository decorator that serves today's normal, hard and fusion puzzles
+ * from a PuzzleCache. Only puzzles dated today are cached, so archive
+ * lookups still go to the backend.
+ */
+export class CachedPuzzleRepository implements PuzzleRepository {
+  constructor(
+    private readonly repository: PuzzleRepository,
+    private readonly cache: PuzzleCache = puzzleCache
+  ) {}
+
+  async getTodaysPuzzle(difficulty?: string): Promise<Puzzle | undefined> {
+    const effectiveDifficulty = normalizeDifficulty(difficulty);
+    const cached = this.cache.get(todayKey(effectiveDifficulty));
+
+    if (cached) {
+      return cached;
+    }
+
+    const puzzle = await this.repository.getTodaysPuzzle(effectiveDifficulty);
+
+    if (puzzle) {
+      this.cache.set(todayKey(effectiveDifficulty), puzzle);
+      // Prime the id lookups used by the guess, hint and answer routes
+      this.cache.set(idKey(puzzle.id, effectiveDifficulty), puzzle);
+      if (puzzle.isFusionTwist === 1) {
+        this.cache.set(fusionKey(puzzle.id), puzzle);
+      }
+    }
+
+    return puzzle;
+  }
+
+  async getPuzzleById(id: number, difficulty?: string): Promise<Puzzle | undefined> {
+    const effectiveDifficulty = normalizeDifficulty(difficulty);
+    const cached = this.cache.get(idKey(id, effectiveDifficulty));
+
+    if (cached) {
+      return cached;
+    }
+
+    const puzzle = await this.repository.getPuzzleById(id, difficulty);
+    this.cacheIfToday(idKey(id, effectiveDifficulty), puzzle);
+    return puzzle;
+  }
+
+  async getFusionPuzzleById(id: number): Promise<Puzzle | undefined> {
+    const cached = this.cache.get(fusionKey(id));
+
+    if (cached) {
+      return cached;
+    }
+
+    const puzzle = await this.repository.getFusionPuzzleById(id);
+    this.cacheIfToday(fusionKey(id), puzzle);
+    return puzzle;
+  }
+
+  async createPuzzle(puzzle: InsertPuzzle): Promise<Puzzle> {
+    const created = await this.repository.createPuzzle(puzzle);
+    this.cache.purge();
+    return created;
+  }
+
+  async bulkCreatePuzzles(puzzlesList: InsertPuzzle[]): Promise<Puzzle[]> {
+    const created = await this.repository.bulkCreatePuzzles(puzzlesList);
+    this.cache.purge();
+    return created;
+  }
+
+  async updatePuzzle(puzzleNumber: number, updates: Partial<InsertPuzzle>): Promise<Puzzle | undefined> {
+    const updated = await this.repository.updatePuzzle(puzzleNumber, updates);
+    this.cache.purge();
+    return updated;
+  }
+
+  async deletePuzzle(puzzleNumber: number): Promise<boolean> {
+    const deleted = await this.repository.deletePuzzle(puzzleNumber);
+    this.cache.purge();
+    return deleted;
+  }
+
+  async swapPuzzles(firstNumber: number, secondNumber: number): Promise<boolean> {
+    const swapped = await this.repository.swapPuzzles(firstNumber, secondNumber);
+    this.cache.purge();
+    return swapped;
+  }
+
+  getUser(id: number): Promise<User | undefined> {
+    return this.repository.getUser(id);
+  }
+
+  getUserByUsername(username: string): Promise<User | undefined> {
+    return this.repository.getUserByUsername(username);
+  }
+
+  createUser(user: InsertUser): Promise<User> {
+    return this.repository.createUser(user);
+  }
+
+  getPuzzleByDate(date: string, difficulty?: string): Promise<Puzzle | undefined> {
+    return this.repository.getPuzzleByDate(date, difficulty);
+  }
+
+  getPuzzleArchive(limit?: number): Promise<Puzzle[]> {
+    return this.repository.getPuzzleArchive(limit);
+  }
+
+  getPuzzlesByDifficulty(difficulty: string, limit?: number): Promise<Puzzle[]> {
+    return this.repository.getPuzzlesByDifficulty(difficulty, limit);
+  }
+
+  countPuzzles(): Promise<number> {
+    return this.repository.countPuzzles();
+  }
+
+  getPatchNotes(): Promise<PatchNote[]> {
+    return this.repository.getPatchNotes();
+  }
+
+  getGameSession(playerId: string, puzzleId: number, difficulty: string): Promise<GameSession | undefined> {
+    return this.repository.getGameSession(playerId, puzzleId, difficulty);
+  }
+
+  saveGameSession(session: InsertGameSession): Promise<GameSession> {
+    return this.repository.saveGameSession(session);
+  }
+
+  getSolveStats(): Promise<PuzzleSolveStats[]> {
+    return this.repository.getSolveStats();
+  }
+
+  getMaintenance(): Promise<MaintenanceState> {
+    return this.repository.getMaintenance();
+  }
+
+  saveMaintenance(state: MaintenanceState): Promise<MaintenanceState> {
+    return this.repository.saveMaintenance(state);
+  }
+
+  ensureSchema(): Promise<void> {
+    return this.repository.ensureSchema();
+  }
+
+  private cacheIfToday(key: string, puzzle: Puzzle | undefined): void {
+    if (puzzle && puzzle.date.split('T')[0] === this.cache.getPuzzleDate()) {
+      this.cache.set(key, puzzle);
+    }
+  }
+}
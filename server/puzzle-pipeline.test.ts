@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { canonicalAnswer } from "@shared/answer-matching";
+import { addPuzzleDays } from "@shared/puzzle-clock";
+import { buildCalendar, runPipeline, type CandidatePools } from "./puzzle-pipeline";
+import { PUZZLE_BANK } from "./puzzle-bank";
+import { bankSource } from "./puzzle-sources";
+import { jsonFileSink } from "./puzzle-sinks";
+import { validateCalendar } from "./calendar-validator";
+
+describe("buildCalendar", () => {
+  it("fills every day with a normal and a hard puzzle", () => {
+    const puzzles = buildCalendar(PUZZLE_BANK, { from: '2026-01-01', days: 14, startNumber: 10 });
+
+    expect(puzzles).toHaveLength(28);
+    expect(puzzles.map(puzzle => puzzle.puzzleNumber)).toEqual(Array.from({ length: 28 }, (_, i) => 10 + i));
+    expect(puzzles.filter(puzzle => puzzle.date === '2026-01-14').map(puzzle => puzzle.difficulty).sort())
+      .toEqual(['hard', 'normal']);
+  });
+
+  it("rejects candidates that share a canonical answer", () => {
+    const pools: CandidatePools = {
+      normal: [{ answer: 'Rain Coat' }, { answer: 'Bicycle' }],
+      hard: [{ answer: 'Raincoats' }],
+      fusion: []
+    };
+
+    expect(() => buildCalendar(pools, { from: '2026-01-01', days: 1, startNumber: 1 }))
+      .toThrow('"Raincoats" (same as "Rain Coat")');
+  });
+
+  it("doesn't repeat answers across a long calendar", () => {
+    const puzzles = buildCalendar(PUZZLE_BANK, { from: '2026-01-01', days: 500, startNumber: 1 });
+
+    expect(validateCalendar(puzzles).violations).toEqual([]);
+  });
+
+  it("skips answers used recently before the calendar", () => {
+    const pools: CandidatePools = {
+      normal: [{ answer: 'Bicycle' }, { answer: 'Keyboard' }],
+      hard: [{ answer: 'Quantum Physics' }],
+      fusion: []
+    };
+    const recent = [{ answer: 'bicycles', date: '2025-12-31' }];
+
+    const puzzles = buildCalendar(pools, { from: '2026-01-01', days: 1, startNumber: 1, answerRepeatDays: 30, recent });
+    expect(puzzles.map(puzzle => puzzle.answer).sort()).toEqual(['Keyboard', 'Quantum Physics']);
+
+    expect(() => buildCalendar(pools, { from: '2026-01-01', days: 2, startNumber: 1, answerRepeatDays: 30, recent }))
+      .toThrow("No normal puzzles left for 2026-01-0");
+  });
+
+  it("has no duplicate answers in the built-in bank", () => {
+    const answers = [...PUZZLE_BANK.normal, ...PUZZLE_BANK.hard, ...PUZZLE_BANK.fusion]
+      .map(candidate => canonicalAnswer(candidate.answer));
+
+    expect(new Set(answers).size).toBe(answers.length);
+  });
+});
+
+describe("runPipeline", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'puzzle-pipeline-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("publishes two 90-day batches in a row into the same sink", async () => {
+    const sink = jsonFileSink(path.join(dir, 'puzzles.json'));
+
+    const first = await runPipeline({ source: bankSource(), sink, from: '2026-01-01', days: 90 });
+    expect(first.report.violations).toEqual([]);
+    expect(first.written).toBe(180);
+
+    const second = await runPipeline({ source: bankSource(), sink, from: addPuzzleDays('2026-01-01', 90), days: 90 });
+    expect(second.report.violations).toEqual([]);
+    expect(second.written).toBe(180);
+    expect(second.puzzles[0].puzzleNumber).toBe(181);
+
+    // Each batch keeps its own fusion weeks, so only answers are checked across both
+    const stored = await sink.storedPuzzles('2026-01-01', '2026-12-31');
+    expect(validateCalendar(stored).violations.filter(violation => violation.code === 'repeated_answer')).toEqual([]);
+  });
+});
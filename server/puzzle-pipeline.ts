@@ -0,0 +1,301 @@
+import type { InsertPuzzle } from "@shared/schema";
+import { addPuzzleDays, puzzleDaysBetween } from "@shared/puzzle-clock";
+import { canonicalAnswer } from "@shared/answer-matching";
+import { createOrderedEmojis } from "./ordered-emoji-generator";
+import { buildHintLadder, type HintOverrides } from "./hint-builder";
+import { scorePuzzle } from "./difficulty-score";
+import {
+  DEFAULT_ANSWER_REPEAT_DAYS,
+  DEFAULT_FUSION_PER_WEEK,
+  validateCalendar,
+  type CalendarPuzzle,
+  type CalendarReport,
+  type CalendarValidationOptions
+} from "./calendar-validator";
+
+// A puzzle idea before it's been given a date and number. Anything left out
+// is filled in by the pipeline, including any hint tier the author skipped.
+export interface PuzzleCandidate {
+  answer: string;
+  emojis?: string[];
+  hints?: HintOverrides;
+  theme?: string;
+  acceptedAnswers?: string[];
+  twistType?: string | null;
+}
+
+// Candidates for each kind of daily slot
+export interface CandidatePools {
+  normal: PuzzleCandidate[];
+  hard: PuzzleCandidate[];
+  fusion: PuzzleCandidate[];
+}
+
+// Where puzzles come from: the built-in bank, a file, ...
+export interface PuzzleSource {
+  name: string;
+  load(): Promise<CandidatePools>;
+}
+
+// Where finished puzzles go: a database, Firestore, a file, ...
+export interface PuzzleSink {
+  name: string;
+  // Number to give the first new puzzle so numbering stays contiguous
+  nextPuzzleNumber(): Promise<number>;
+  write(puzzles: InsertPuzzle[]): Promise<number>;
+  // Puzzles already stored with dates within [from, to]
+  storedPuzzles(from: string, to: string): Promise<CalendarPuzzle[]>;
+}
+
+export interface CalendarOptions {
+  // First date to fill (YYYY-MM-DD) and how many days
+  from: string;
+  days: number;
+  startNumber: number;
+  // Fusion twists per 7-day block, and which difficulty they replace
+  fusionPerWeek?: number;
+  fusionSlot?: 'normal' | 'hard';
+  // Minimum days before an answer may be used again, counting the puzzles
+  // already on the calendar before `from`
+  answerRepeatDays?: number;
+  recent?: Pick<CalendarPuzzle, 'answer' | 'date'>[];
+  random?: () => number;
+}
+
+// Hand out candidates in a random order, reshuffling once the pool is used
+// up. `lastUsed` holds the last day offset each canonical answer can fall on
+// and is shared by all pickers; a candidate is skipped while its answer is
+// within `repeatDays` of the earliest day the pick can land on. Returns
+// undefined when every candidate is still too recent.
+function createPicker(
+  pool: PuzzleCandidate[],
+  random: () => number,
+  repeatDays: number,
+  lastUsed: Map<string, number>
+) {
+  let queue: PuzzleCandidate[] = [];
+
+  const shuffle = () => {
+    queue = [...pool];
+    for (let i = queue.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [queue[i], queue[j]] = [queue[j], queue[i]];
+    }
+  };
+
+  const findFree = (earliest: number) => queue.findLastIndex(candidate => {
+    const last = lastUsed.get(canonicalAnswer(candidate.answer));
+    return last === undefined || earliest - last >= repeatDays;
+  });
+
+  return (earliest: number, latest: number): PuzzleCandidate | undefined => {
+    let index = findFree(earliest);
+    if (index < 0) {
+      shuffle();
+      index = findFree(earliest);
+    }
+    if (index < 0) {
+      return undefined;
+    }
+
+    const [candidate] = queue.splice(index, 1);
+    lastUsed.set(canonicalAnswer(candidate.answer), latest);
+    return candidate;
+  };
+}
+
+// Two candidates with the same canonical answer ("Rain Coat" and "Raincoat")
+// would be the same puzzle twice, so a source that has them is rejected
+function assertUniqueAnswers(pools: CandidatePools) {
+  const seen = new Map<string, string>();
+  const duplicates: string[] = [];
+
+  for (const candidate of [...pools.normal, ...pools.hard, ...pools.fusion]) {
+    const key = canonicalAnswer(candidate.answer);
+    const first = seen.get(key);
+
+    if (first === undefined) {
+      seen.set(key, candidate.answer);
+    } else {
+      duplicates.push(`"${candidate.answer}" (same as "${first}")`);
+    }
+  }
+
+  if (duplicates.length > 0) {
+    throw new Error(`Duplicate puzzle answers: ${duplicates.join(', ')}`);
+  }
+}
+
+// Pick `count` distinct day offsets out of `length` days
+function pickDays(length: number, count: number, random: () => number): Set<number> {
+  const days = Array.from({ length }, (_, i) => i);
+  const picked = new Set<number>();
+
+  while (picked.size < Math.min(count, length)) {
+    picked.add(days.splice(Math.floor(random() * days.length), 1)[0]);
+  }
+
+  return picked;
+}
+
+type PuzzleContent = Omit<InsertPuzzle, 'puzzleNumber' | 'date'>;
+
+// Everything about a puzzle except where it sits on the calendar
+function toPuzzleContent(candidate: PuzzleCandidate, difficulty: string, isFusion: boolean): PuzzleContent {
+  const content = {
+    difficulty,
+    emojis: candidate.emojis?.length ? candidate.emojis : createOrderedEmojis(candidate.answer),
+    answer: candidate.answer,
+    theme: candidate.theme || 'General',
+    hints: buildHintLadder({ ...candidate, isFusion }, candidate.hints),
+    acceptedAnswers: candidate.acceptedAnswers ?? null,
+    isFusionTwist: isFusion ? 1 : 0,
+    twistType: isFusion ? candidate.twistType || 'Word Fusion' : null
+  };
+
+  return { ...content, difficultyScore: scorePuzzle(content).score };
+}
+
+// Order a slot's puzzles for the week so harder and easier days alternate,
+// starting with the hardest when `hardFirst` is set
+function balanceWeek(week: PuzzleContent[], hardFirst: boolean): PuzzleContent[] {
+  const sorted = [...week].sort((a, b) => (a.difficultyScore ?? 0) - (b.difficultyScore ?? 0));
+  const balanced: PuzzleContent[] = [];
+  let takeHard = hardFirst;
+
+  while (sorted.length > 0) {
+    balanced.push((takeHard ? sorted.pop() : sorted.shift())!);
+    takeHard = !takeHard;
+  }
+
+  return balanced;
+}
+
+/**
+ * Lay candidates out on the calendar: one normal and one hard puzzle per day,
+ * numbered in order, with `fusionPerWeek` fusion twists in each 7-day block
+ * taking the `fusionSlot` difficulty on their days. Within each block the
+ * puzzles are ordered by difficulty score so hard days don't bunch up, and
+ * the normal and hard slots alternate out of step so no day is hard in both.
+ * Answers aren't used again within `answerRepeatDays`, including answers in
+ * `recent`. Throws if two candidates share an answer or a pool runs out of
+ * answers that haven't been used recently.
+ */
+export function buildCalendar(pools: CandidatePools, options: CalendarOptions): InsertPuzzle[] {
+  assertUniqueAnswers(pools);
+
+  const random = options.random ?? Math.random;
+  const fusionPerWeek = pools.fusion.length > 0 ? options.fusionPerWeek ?? DEFAULT_FUSION_PER_WEEK : 0;
+  const fusionSlot = options.fusionSlot ?? 'hard';
+  const repeatDays = options.answerRepeatDays ?? DEFAULT_ANSWER_REPEAT_DAYS;
+  // Day offsets from `from`, so recent answers sit at negative offsets
+  const lastUsed = new Map<string, number>();
+  for (const puzzle of [...(options.recent ?? [])].sort((a, b) => a.date.localeCompare(b.date))) {
+    lastUsed.set(canonicalAnswer(puzzle.answer), puzzleDaysBetween(options.from, puzzle.date.split('T')[0]));
+  }
+  const pickers = {
+    normal: createPicker(pools.normal, random, repeatDays, lastUsed),
+    hard: createPicker(pools.hard, random, repeatDays, lastUsed),
+    fusion: createPicker(pools.fusion, random, repeatDays, lastUsed)
+  };
+  const usedUp = (kind: string, date: string) =>
+    new Error(`No ${kind} puzzles left for ${date} whose answers haven't been used in the last ${repeatDays} days`);
+  const puzzles: InsertPuzzle[] = [];
+  let puzzleNumber = options.startNumber;
+
+  for (let weekStart = 0; weekStart < options.days; weekStart += 7) {
+    const weekLength = Math.min(7, options.days - weekStart);
+    const fusionDays = pickDays(weekLength, fusionPerWeek, random);
+    const dateOf = (day: number) => addPuzzleDays(options.from, weekStart + day);
+    const isFusionDay = (difficulty: string, day: number) => difficulty === fusionSlot && fusionDays.has(day);
+    const week: Record<'normal' | 'hard', PuzzleContent[]> = { normal: [], hard: [] };
+
+    for (const difficulty of ['normal', 'hard'] as const) {
+      const picked: PuzzleContent[] = [];
+
+      for (let day = 0; day < weekLength; day++) {
+        if (isFusionDay(difficulty, day)) {
+          continue;
+        }
+
+        // Balancing may move the pick anywhere within the week
+        const candidate = pickers[difficulty](weekStart, weekStart + weekLength - 1);
+        if (!candidate) {
+          throw usedUp(difficulty, dateOf(day));
+        }
+        picked.push(toPuzzleContent(candidate, difficulty, false));
+      }
+
+      week[difficulty] = balanceWeek(picked, difficulty === 'hard');
+    }
+
+    for (let day = 0; day < weekLength; day++) {
+      const date = dateOf(day);
+
+      for (const difficulty of ['normal', 'hard'] as const) {
+        let content: PuzzleContent;
+
+        if (isFusionDay(difficulty, day)) {
+          const candidate = pickers.fusion(weekStart + day, weekStart + day);
+          if (!candidate) {
+            throw usedUp('fusion', date);
+          }
+          content = toPuzzleContent(candidate, difficulty, true);
+        } else {
+          content = week[difficulty].shift()!;
+        }
+
+        puzzles.push({ ...content, puzzleNumber: puzzleNumber++, date });
+      }
+    }
+  }
+
+  return puzzles;
+}
+
+export interface PipelineOptions extends Omit<CalendarOptions, 'startNumber'> {
+  source: PuzzleSource;
+  // Without a sink the run is a dry run
+  sink?: PuzzleSink;
+  // Where to look up the puzzles before `from` that answers mustn't repeat,
+  // defaults to the sink
+  history?: PuzzleSink;
+  startNumber?: number;
+  // Write even when the batch fails calendar validation
+  force?: boolean;
+  validation?: Omit<CalendarValidationOptions, 'from' | 'to'>;
+}
+
+export interface PipelineResult {
+  puzzles: InsertPuzzle[];
+  report: CalendarReport;
+  written: number;
+}
+
+/**
+ * Generate puzzles from a source, validate them as a calendar and write them
+ * to a sink. Answers stored in the `answerRepeatDays` before the batch are
+ * skipped when picking and checked again by validation. A batch that breaks
+ * the calendar rules is not written unless `force` is set.
+ */
+export async function runPipeline(options: PipelineOptions): Promise<PipelineResult> {
+  const { source, sink, history = sink, force, validation, ...calendar } = options;
+  const startNumber = options.startNumber ?? (sink ? await sink.nextPuzzleNumber() : 1);
+  const answerRepeatDays = validation?.answerRepeatDays ?? DEFAULT_ANSWER_REPEAT_DAYS;
+  const recent = history && answerRepeatDays > 0
+    ? await history.storedPuzzles(addPuzzleDays(calendar.from, -answerRepeatDays), addPuzzleDays(calendar.from, -1))
+    : [];
+  const puzzles = buildCalendar(await source.load(), { ...calendar, startNumber, answerRepeatDays, recent });
+  const report = validateCalendar([...recent, ...puzzles], {
+    ...validation,
+    from: calendar.from,
+    to: addPuzzleDays(calendar.from, calendar.days - 1),
+    fusionPerWeek: calendar.fusionPerWeek ?? validation?.fusionPerWeek
+  });
+
+  if (!sink || (!report.ok && !force)) {
+    return { puzzles, report, written: 0 };
+  }
+
+  return { puzzles, report, written: await sink.write(puzzles) };
+}
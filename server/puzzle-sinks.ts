@@ -0,0 +1,58 @@
+import fs from "fs";
+import type { InsertPuzzle } from "@shared/schema";
+import type { PuzzleRepository } from "./storage";
+import type { PuzzleSink } from "./puzzle-pipeline";
+import { getStoredPuzzles } from "./calendar-validator";
+
+// Continue numbering after the highest puzzle already stored
+export async function highestPuzzleNumber(repository: PuzzleRepository): Promise<number> {
+  const [normal, hard] = await Promise.all([
+    repository.getPuzzlesByDifficulty('normal', 1),
+    repository.getPuzzlesByDifficulty('hard', 1)
+  ]);
+
+  return Math.max(0, ...[...normal, ...hard].map(puzzle => puzzle.puzzleNumber));
+}
+
+// Write puzzles through a PuzzleRepository (Postgres, Firestore or memory)
+export function repositorySink(repository: PuzzleRepository, name: string): PuzzleSink {
+  return {
+    name,
+    async nextPuzzleNumber() {
+      return (await highestPuzzleNumber(repository)) + 1;
+    },
+    async write(puzzles: InsertPuzzle[]) {
+      await repository.ensureSchema();
+      return (await repository.bulkCreatePuzzles(puzzles)).length;
+    },
+    async storedPuzzles(from: string, to: string) {
+      return getStoredPuzzles(repository, from, to);
+    }
+  };
+}
+
+/**
+ * Write puzzles to a JSON file that can be loaded with PUZZLE_FIXTURE or
+ * checked with validate-calendar --file. An existing file is appended to.
+ */
+export function jsonFileSink(filePath: string): PuzzleSink {
+  const readExisting = (): InsertPuzzle[] =>
+    fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : [];
+
+  return {
+    name: `json:${filePath}`,
+    async nextPuzzleNumber() {
+      return Math.max(0, ...readExisting().map(puzzle => puzzle.puzzleNumber)) + 1;
+    },
+    async write(puzzles: InsertPuzzle[]) {
+      fs.writeFileSync(filePath, JSON.stringify([...readExisting(), ...puzzles], null, 2) + '\n');
+      return puzzles.length;
+    },
+    async storedPuzzles(from: string, to: string) {
+      return readExisting().filter(puzzle => {
+        const date = puzzle.date.split('T')[0];
+        return date >= from && date <= to;
+      });
+    }
+  };
+}
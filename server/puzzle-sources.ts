@@ -0,0 +1,107 @@
+import fs from "fs";
+import { createOrderedEmojis } from "./ordered-emoji-generator";
+import { hintOverridesFromList } from "./hint-builder";
+import { PUZZLE_BANK } from "./puzzle-bank";
+import { puzzleFileFormat, readPuzzleRecords } from "./puzzle-transfer";
+import type { CandidatePools, PuzzleCandidate, PuzzleSource } from "./puzzle-pipeline";
+
+// One row of a puzzle file. Emojis and hints may be lists or, as in CSV,
+// space- and "|"-separated strings.
+interface PuzzleFileRow {
+  difficulty?: string;
+  answer?: string;
+  emojis?: string | string[];
+  hints?: string | string[];
+  theme?: string;
+  acceptedAnswers?: string | string[];
+  isFusionTwist?: string | number | boolean;
+  twistType?: string | null;
+}
+
+// The built-in bank of curated answers
+export function bankSource(): PuzzleSource {
+  return {
+    name: 'bank',
+    async load() {
+      return PUZZLE_BANK;
+    }
+  };
+}
+
+function toList(value: string | string[] | undefined, separator: RegExp): string[] | undefined {
+  const list = Array.isArray(value) ? value : value?.split(separator);
+  const cleaned = list?.map(item => item.trim()).filter(Boolean);
+  return cleaned?.length ? cleaned : undefined;
+}
+
+function isFusionRow(row: PuzzleFileRow): boolean {
+  const flag = String(row.isFusionTwist ?? '').toLowerCase();
+  return row.difficulty === 'fusion' || ['1', 'true', 'yes'].includes(flag) || !!row.twistType;
+}
+
+/**
+ * Group file rows into candidate pools. Fusion rows are marked with
+ * isFusionTwist, a twistType or difficulty "fusion"; the rest go by difficulty.
+ */
+export function rowsToPools(rows: PuzzleFileRow[], fileName = 'puzzle file'): CandidatePools {
+  const pools: CandidatePools = { normal: [], hard: [], fusion: [] };
+
+  rows.forEach((row, index) => {
+    if (!row.answer?.trim()) {
+      throw new Error(`${fileName}: row ${index + 1} has no answer`);
+    }
+
+    const candidate: PuzzleCandidate = {
+      answer: row.answer.trim(),
+      emojis: toList(row.emojis, /\s+/),
+      // Blank entries are kept so each hint stays in its tier's position
+      hints: hintOverridesFromList(typeof row.hints === 'string' ? row.hints.split('|') : row.hints),
+      theme: row.theme || undefined,
+      acceptedAnswers: toList(row.acceptedAnswers, /\|/),
+      twistType: row.twistType || undefined
+    };
+
+    if (isFusionRow(row)) {
+      pools.fusion.push(candidate);
+    } else if (row.difficulty === 'hard') {
+      pools.hard.push(candidate);
+    } else {
+      pools.normal.push(candidate);
+    }
+  });
+
+  return pools;
+}
+
+/**
+ * Candidates from a .json file (an array of rows) or a .csv file with a
+ * header row, e.g. difficulty,answer,emojis,hints,theme,twistType. Files
+ * written by export-puzzles.ts work too; their dates and numbers are ignored.
+ */
+export function fileSource(filePath: string): PuzzleSource {
+  return {
+    name: `file:${filePath}`,
+    async load() {
+      const records = readPuzzleRecords(fs.readFileSync(filePath, 'utf-8'), puzzleFileFormat(filePath));
+      return rowsToPools(records.map(record => record.values as PuzzleFileRow), filePath);
+    }
+  };
+}
+
+// Wrap another source and give every candidate fresh ordered emojis
+export function orderedEmojiSource(inner: PuzzleSource): PuzzleSource {
+  const withOrderedEmojis = (candidates: PuzzleCandidate[]) =>
+    candidates.map(candidate => ({ ...candidate, emojis: createOrderedEmojis(candidate.answer) }));
+
+  return {
+    name: `ordered:${inner.name}`,
+    async load() {
+      const pools = await inner.load();
+      return {
+        normal: withOrderedEmojis(pools.normal),
+        hard: withOrderedEmojis(pools.hard),
+        fusion: withOrderedEmojis(pools.fusion)
+      };
+    }
+  };
+}
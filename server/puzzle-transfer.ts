@@ -0,0 +1,360 @@
+import path from "path";
+import { z } from "zod";
+import { insertPuzzleSchema, type InsertPuzzle, type Puzzle } from "@shared/schema";
+import { canonicalAnswer } from "@shared/answer-matching";
+import type { PuzzleRepository } from "./storage";
+
+export type PuzzleFileFormat = 'csv' | 'json';
+
+// Columns written to and read from CSV puzzle files, in order
+export const PUZZLE_COLUMNS = [
+  'puzzleNumber',
+  'date',
+  'difficulty',
+  'answer',
+  'emojis',
+  'hints',
+  'theme',
+  'acceptedAnswers',
+  'isFusionTwist',
+  'twistType',
+  'difficultyScore'
+] as const;
+
+// One puzzle as read from a file, before validation. `row` is the CSV line
+// number (the header is line 1) or the 1-based position in a JSON array.
+export interface PuzzleFileRecord {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+export interface PuzzleImportError {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface PuzzleImportOptions {
+  // Replace puzzles whose puzzleNumber already exists instead of rejecting them
+  upsert?: boolean;
+  // Validate and report without writing anything
+  dryRun?: boolean;
+}
+
+export interface PuzzleImportReport {
+  ok: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  dryRun: boolean;
+  errors: PuzzleImportError[];
+}
+
+// Query string accepted by the import endpoint
+export const puzzleImportQuerySchema = z.object({
+  format: z.enum(['csv', 'json']).optional(),
+  upsert: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+  dryRun: z.enum(['true', 'false']).optional().transform(value => value === 'true')
+});
+
+// Puzzles loaded per difficulty when exporting or checking for collisions
+const PUZZLE_FETCH_LIMIT = 10000;
+
+export function puzzleFileFormat(filePath: string): PuzzleFileFormat {
+  return path.extname(filePath).toLowerCase() === '.csv' ? 'csv' : 'json';
+}
+
+// Split a CSV line into fields, honouring double-quoted fields and "" escapes
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields.map(value => value.trim());
+}
+
+// Read a CSV file with a header row. Blank lines are skipped but still counted
+// so row numbers match the spreadsheet.
+function parseCsv(content: string): PuzzleFileRecord[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const columns = parseCsvLine(lines[0] ?? '');
+  const records: PuzzleFileRecord[] = [];
+
+  lines.slice(1).forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+
+    const values = parseCsvLine(line);
+    records.push({
+      row: index + 2,
+      values: Object.fromEntries(columns.map((column, i) => [column, values[i] ?? '']))
+    });
+  });
+
+  return records;
+}
+
+/**
+ * Read the puzzle records in a CSV or JSON file. JSON may already be parsed,
+ * as it is when it arrives as a request body. Throws if the file isn't a
+ * CSV with a header row or a JSON array.
+ */
+export function readPuzzleRecords(input: unknown, format: PuzzleFileFormat): PuzzleFileRecord[] {
+  if (format === 'csv') {
+    if (typeof input !== 'string') {
+      throw new Error('CSV puzzles must be sent as text');
+    }
+    return parseCsv(input);
+  }
+
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+  if (!Array.isArray(data)) {
+    throw new Error('JSON puzzles must be an array');
+  }
+
+  return data.map((values, index) => ({ row: index + 1, values }));
+}
+
+// Lists may be arrays or, as in CSV, strings split on `separator`
+function toList(value: unknown, separator: RegExp): string[] | undefined {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value.split(separator).map(item => item.trim()).filter(Boolean);
+  }
+  return undefined;
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+// Turn a file record's loose values into the shape insertPuzzleSchema expects
+function toPuzzleInput(values: Record<string, unknown>): Record<string, unknown> {
+  const flag = String(values.isFusionTwist ?? '').toLowerCase();
+  const acceptedAnswers = toList(values.acceptedAnswers, /\|/);
+
+  return {
+    puzzleNumber: isBlank(values.puzzleNumber) ? undefined : Number(values.puzzleNumber),
+    date: typeof values.date === 'string' ? values.date.split('T')[0] : values.date,
+    difficulty: isBlank(values.difficulty) ? 'normal' : values.difficulty,
+    emojis: toList(values.emojis, /\s+/),
+    answer: typeof values.answer === 'string' ? values.answer.trim() : values.answer,
+    theme: isBlank(values.theme) ? 'General' : values.theme,
+    hints: toList(values.hints, /\|/) ?? [],
+    acceptedAnswers: acceptedAnswers?.length ? acceptedAnswers : null,
+    isFusionTwist: ['1', 'true', 'yes'].includes(flag) ? 1 : 0,
+    twistType: isBlank(values.twistType) ? null : values.twistType,
+    difficultyScore: isBlank(values.difficultyScore) ? null : Number(values.difficultyScore)
+  };
+}
+
+/**
+ * Validate file records against insertPuzzleSchema and the calendar's basic
+ * rules. Every problem is reported with its row so a whole spreadsheet can be
+ * fixed in one pass.
+ */
+export function validatePuzzleRecords(records: PuzzleFileRecord[]): {
+  puzzles: { row: number; puzzle: InsertPuzzle }[];
+  errors: PuzzleImportError[];
+} {
+  const puzzles: { row: number; puzzle: InsertPuzzle }[] = [];
+  const errors: PuzzleImportError[] = [];
+  const rowByNumber = new Map<number, number>();
+  const rowByAnswer = new Map<string, number>();
+
+  for (const { row, values } of records) {
+    const input = toPuzzleInput(values);
+    const result = insertPuzzleSchema.safeParse(input);
+    const rowErrors: PuzzleImportError[] = result.success
+      ? []
+      : result.error.issues.map(issue => ({ row, field: issue.path.join('.') || undefined, message: issue.message }));
+
+    if (typeof input.date === 'string' && !/^\d{4}-\d{2}-\d{2}$/.test(input.date)) {
+      rowErrors.push({ row, field: 'date', message: 'Date must be YYYY-MM-DD' });
+    }
+    if (!['normal', 'hard'].includes(String(input.difficulty))) {
+      rowErrors.push({ row, field: 'difficulty', message: 'Difficulty must be "normal" or "hard"' });
+    }
+    if (Array.isArray(input.emojis) && input.emojis.length === 0) {
+      rowErrors.push({ row, field: 'emojis', message: 'At least one emoji is required' });
+    }
+
+    if (!result.success) {
+      errors.push(...rowErrors);
+      continue;
+    }
+
+    const puzzle = result.data;
+
+    // Duplicates within the file
+    const numberRow = rowByNumber.get(puzzle.puzzleNumber);
+    if (numberRow !== undefined) {
+      rowErrors.push({
+        row,
+        field: 'puzzleNumber',
+        message: `Puzzle number ${puzzle.puzzleNumber} is also used on row ${numberRow}`
+      });
+    }
+
+    const answerRow = rowByAnswer.get(canonicalAnswer(puzzle.answer));
+    if (answerRow !== undefined) {
+      rowErrors.push({ row, field: 'answer', message: `"${puzzle.answer}" is also the answer on row ${answerRow}` });
+    }
+
+    rowByNumber.set(puzzle.puzzleNumber, numberRow ?? row);
+    rowByAnswer.set(canonicalAnswer(puzzle.answer), answerRow ?? row);
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+    } else {
+      puzzles.push({ row, puzzle });
+    }
+  }
+
+  return { puzzles, errors };
+}
+
+// Every stored puzzle, ordered by puzzle number
+export async function loadAllPuzzles(repository: PuzzleRepository): Promise<Puzzle[]> {
+  const [normal, hard] = await Promise.all([
+    repository.getPuzzlesByDifficulty('normal', PUZZLE_FETCH_LIMIT),
+    repository.getPuzzlesByDifficulty('hard', PUZZLE_FETCH_LIMIT)
+  ]);
+
+  return [...normal, ...hard].sort((a, b) => a.puzzleNumber - b.puzzleNumber);
+}
+
+/**
+ * Import puzzles into a repository. New puzzle numbers are created; existing
+ * ones are rejected, or replaced in upsert mode. An answer already used by a
+ * different stored puzzle is rejected. Nothing is written unless every row
+ * is valid.
+ */
+export async function importPuzzles(
+  repository: PuzzleRepository,
+  records: PuzzleFileRecord[],
+  options: PuzzleImportOptions = {}
+): Promise<PuzzleImportReport> {
+  const { puzzles, errors } = validatePuzzleRecords(records);
+  const existing = await loadAllPuzzles(repository);
+  const existingNumbers = new Set(existing.map(puzzle => puzzle.puzzleNumber));
+  // Puzzles this import replaces no longer hold on to their answers
+  const replaced = new Set(options.upsert ? puzzles.map(({ puzzle }) => puzzle.puzzleNumber) : []);
+  const toCreate: InsertPuzzle[] = [];
+  const toUpdate: InsertPuzzle[] = [];
+
+  for (const { row, puzzle } of puzzles) {
+    const sameNumber = existingNumbers.has(puzzle.puzzleNumber);
+    const sameAnswer = existing.find(stored =>
+      canonicalAnswer(stored.answer) === canonicalAnswer(puzzle.answer) &&
+      stored.puzzleNumber !== puzzle.puzzleNumber &&
+      !replaced.has(stored.puzzleNumber)
+    );
+
+    if (sameNumber && !options.upsert) {
+      errors.push({
+        row,
+        field: 'puzzleNumber',
+        message: `Puzzle #${puzzle.puzzleNumber} already exists (import with upsert to replace it)`
+      });
+    } else if (sameAnswer) {
+      errors.push({
+        row,
+        field: 'answer',
+        message: `"${puzzle.answer}" is already the answer to puzzle #${sameAnswer.puzzleNumber}`
+      });
+    } else {
+      (sameNumber ? toUpdate : toCreate).push(puzzle);
+    }
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+  const ok = errors.length === 0;
+  const dryRun = !!options.dryRun;
+
+  if (ok && !dryRun) {
+    await repository.ensureSchema();
+    await repository.bulkCreatePuzzles(toCreate);
+    for (const puzzle of toUpdate) {
+      await repository.updatePuzzle(puzzle.puzzleNumber, puzzle);
+    }
+  }
+
+  return {
+    ok,
+    total: records.length,
+    created: ok ? toCreate.length : 0,
+    updated: ok ? toUpdate.length : 0,
+    dryRun,
+    errors
+  };
+}
+
+// Quote a CSV field when it contains a comma, quote or line break
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize puzzles for export. The output can be imported again, loaded
+ * with PUZZLE_FIXTURE (JSON) or used as a generate-puzzles.ts --file source.
+ */
+export function exportPuzzles(puzzles: Puzzle[], format: PuzzleFileFormat): string {
+  const rows: InsertPuzzle[] = puzzles.map(puzzle => ({
+    puzzleNumber: puzzle.puzzleNumber,
+    date: puzzle.date.split('T')[0],
+    difficulty: puzzle.difficulty,
+    emojis: puzzle.emojis,
+    answer: puzzle.answer,
+    theme: puzzle.theme,
+    hints: puzzle.hints,
+    acceptedAnswers: puzzle.acceptedAnswers ?? null,
+    isFusionTwist: puzzle.isFusionTwist,
+    twistType: puzzle.twistType ?? null,
+    difficultyScore: puzzle.difficultyScore ?? null
+  }));
+
+  if (format === 'json') {
+    return JSON.stringify(rows, null, 2) + '\n';
+  }
+
+  const lines = rows.map(row => [
+    String(row.puzzleNumber),
+    row.date,
+    row.difficulty ?? 'normal',
+    row.answer,
+    row.emojis.join(' '),
+    row.hints.join('|'),
+    row.theme,
+    (row.acceptedAnswers ?? []).join('|'),
+    String(row.isFusionTwist ?? 0),
+    row.twistType ?? '',
+    row.difficultyScore == null ? '' : String(row.difficultyScore)
+  ].map(csvField).join(','));
+
+  return [PUZZLE_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
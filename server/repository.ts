@@ -0,0 +1,99 @@
+import { DEFAULT_MAINTENANCE_MESSAGE, type GameSession, type MaintenanceState, type Puzzle, type PuzzleSolveStats } from "@shared/schema";
+import type { PuzzleRepository } from "./storage";
+
+// Backends that can serve the puzzle API, selected with PUZZLE_STORAGE
+export type StorageBackend = 'firestore' | 'postgres' | 'memory';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['firestore', 'postgres', 'memory'];
+
+// Only 'normal' and 'hard' are valid difficulties, anything else falls back to normal
+export function normalizeDifficulty(difficulty?: string): string {
+  return difficulty && ['normal', 'hard'].includes(difficulty) ? difficulty : 'normal';
+}
+
+// Maintenance state of a store where it has never been saved
+export const MAINTENANCE_OFF: MaintenanceState = {
+  enabled: false,
+  message: DEFAULT_MAINTENANCE_MESSAGE,
+  eta: null,
+  updatedAt: null
+};
+
+// Add the runtime-calculated word count to a stored puzzle
+export function withWordCount(puzzle: Puzzle): Puzzle {
+  return {
+    ...puzzle,
+    wordCount: puzzle.answer ? puzzle.answer.trim().split(/\s+/).length : undefined
+  };
+}
+
+// Solve stats per puzzle and difficulty from a list of sessions; sessions
+// still being played are left out
+export function summarizeSolveStats(sessions: GameSession[]): PuzzleSolveStats[] {
+  const stats = new Map<string, PuzzleSolveStats & { totalAttempts: number }>();
+
+  for (const session of sessions) {
+    if (session.status === 'playing') {
+      continue;
+    }
+
+    const key = `${session.puzzleId}:${session.difficulty}`;
+    const entry = stats.get(key) ?? {
+      puzzleId: session.puzzleId,
+      difficulty: session.difficulty,
+      plays: 0,
+      solves: 0,
+      averageAttempts: 0,
+      totalAttempts: 0
+    };
+
+    entry.plays++;
+    entry.solves += session.status === 'won' ? 1 : 0;
+    entry.totalAttempts += session.guesses.length;
+    entry.averageAttempts = entry.totalAttempts / entry.plays;
+    stats.set(key, entry);
+  }
+
+  return Array.from(stats.values()).map(({ totalAttempts, ...entry }) => entry);
+}
+
+/**
+ * Read the configured storage backend from the environment.
+ * Firestore stays the default so existing deployments keep working.
+ */
+export function getStorageBackend(): StorageBackend {
+  const configured = (process.env.PUZZLE_STORAGE || 'firestore').toLowerCase();
+
+  if (!STORAGE_BACKENDS.includes(configured as StorageBackend)) {
+    throw new Error(
+      `Unknown PUZZLE_STORAGE "${configured}". Expected one of: ${STORAGE_BACKENDS.join(', ')}`
+    );
+  }
+
+  return configured as StorageBackend;
+}
+
+/**
+ * Create the puzzle repository for a backend.
+ * Implementations are loaded lazily so that, for example, the in-memory
+ * backend never requires DATABASE_URL or Firebase credentials.
+ */
+export async function createRepository(backend: StorageBackend = getStorageBackend()): Promise<PuzzleRepository> {
+  switch (backend) {
+    case 'postgres': {
+      const { DatabaseStorage } = await import("./storage");
+      return new DatabaseStorage();
+    }
+    case 'memory': {
+      const { MemStorage } = await import("./mem-storage");
+      // PUZZLE_FIXTURE points at a JSON file of puzzles, otherwise generate a calendar
+      return process.env.PUZZLE_FIXTURE
+        ? MemStorage.fromFixture(process.env.PUZZLE_FIXTURE)
+        : MemStorage.fromGenerator();
+    }
+    case 'firestore': {
+      const { FirestoreStorage } = await import("./firestore-storage");
+      return FirestoreStorage.connect();
+    }
+  }
+}
@@ -0,0 +1,304 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import { getPuzzleDate } from "@shared/puzzle-clock";
+import type { Puzzle } from "@shared/schema";
+import { createRepository } from "./repository";
+import { registerRoutes } from "./routes";
+import { CachedPuzzleRepository, PuzzleCache } from "./puzzle-cache";
+import type { PuzzleRepository } from "./storage";
+
+const PLAYER_ID = '11111111-2222-3333-4444-555555555555';
+const EDITOR_TOKEN = 'editor-id-token';
+
+// Only the editor's ID token verifies; Firebase itself is never reached
+vi.mock("./firebase-admin", async importOriginal => ({
+  ...await importOriginal<typeof import("./firebase-admin")>(),
+  verifyIdToken: async (token: string) => {
+    if (token !== EDITOR_TOKEN) {
+      throw new Error('Unknown test token');
+    }
+    return { uid: 'editor-uid', email: 'editor@example.com', role: 'editor' };
+  }
+}));
+
+async function createApp(repository: PuzzleRepository) {
+  const app = express();
+  app.use(express.json());
+  await registerRoutes(app, repository);
+  return app;
+}
+
+describe("puzzle API on the in-memory repository", () => {
+  let repository: PuzzleRepository;
+  let app: express.Express;
+  let today: Puzzle;
+
+  beforeEach(async () => {
+    repository = await createRepository('memory');
+    app = await createApp(repository);
+    today = (await repository.getTodaysPuzzle('normal'))!;
+  });
+
+  // Today's puzzle for the test player, with its game token
+  async function startGame() {
+    const res = await request(app).get('/api/puzzles/today?difficulty=normal').set('x-player-id', PLAYER_ID);
+    expect(res.status).toBe(200);
+    return res.body as { id: number; gameToken: string };
+  }
+
+  function guess(token: string, text: string) {
+    return request(app)
+      .post(`/api/puzzles/${today.id}/guess?difficulty=normal`)
+      .set('x-player-id', PLAYER_ID)
+      .set('x-game-token', token)
+      .send({ guess: text });
+  }
+
+  it("serves today's puzzle without its answer or hints", async () => {
+    const res = await request(app).get('/api/puzzles/today?difficulty=normal');
+
+    expect(res.status).toBe(200);
+    expect(res.body.id).toBe(today.id);
+    expect(res.body.date.split('T')[0]).toBe(getPuzzleDate());
+    expect(res.body).not.toHaveProperty('answer');
+    expect(res.body).not.toHaveProperty('hints');
+    expect(res.body.gameToken).toEqual(expect.any(String));
+    expect(res.body.wordStructure).toBeDefined();
+  });
+
+  it("lists only past puzzles in the archive, with their answers", async () => {
+    const res = await request(app).get('/api/puzzles/archive');
+
+    expect(res.status).toBe(200);
+    expect(res.body.length).toBeGreaterThan(0);
+    for (const puzzle of res.body) {
+      expect(puzzle.date.split('T')[0] < getPuzzleDate()).toBe(true);
+      expect(puzzle.answer).toEqual(expect.any(String));
+      expect(puzzle).not.toHaveProperty('hints');
+    }
+  });
+
+  it("needs a game token for today's hints and answer", async () => {
+    const hint = await request(app).get(`/api/puzzles/${today.id}/hints/0?difficulty=normal`);
+    const answer = await request(app).get(`/api/puzzles/${today.id}/answer?difficulty=normal&revealAnswer=true`);
+
+    expect(hint.status).toBe(401);
+    expect(answer.status).toBe(401);
+  });
+
+  it("plays a game: wrong guess, hint, correct guess", async () => {
+    const { gameToken } = await startGame();
+
+    const early = await request(app)
+      .get(`/api/puzzles/${today.id}/hints/0?difficulty=normal`)
+      .set('x-player-id', PLAYER_ID)
+      .set('x-game-token', gameToken);
+    expect(early.status).toBe(403);
+    expect(early.body.code).toBeUndefined();
+
+    const wrong = await guess(gameToken, 'definitely not it');
+    expect(wrong.status).toBe(200);
+    expect(wrong.body.isCorrect).toBe(false);
+    expect(wrong.body).not.toHaveProperty('answer');
+
+    const hint = await request(app)
+      .get(`/api/puzzles/${today.id}/hints/0?difficulty=normal`)
+      .set('x-player-id', PLAYER_ID)
+      .set('x-game-token', wrong.body.gameToken);
+    expect(hint.status).toBe(200);
+    expect(hint.body.hint).toBe(today.hints[0]);
+
+    const right = await guess(hint.body.gameToken, today.answer.toUpperCase());
+    expect(right.status).toBe(200);
+    expect(right.body).toMatchObject({ isCorrect: true, answer: today.answer });
+
+    const session = await request(app)
+      .get(`/api/sessions/${today.id}?difficulty=normal`)
+      .set('x-player-id', PLAYER_ID);
+    expect(session.status).toBe(200);
+    expect(session.body).toMatchObject({ status: 'won', guesses: ['definitely not it', today.answer.toUpperCase()] });
+  });
+
+  it("reveals the answer after giving up and rejects the old token afterwards", async () => {
+    const { gameToken } = await startGame();
+
+    const hidden = await request(app)
+      .get(`/api/puzzles/${today.id}/answer?difficulty=normal`)
+      .set('x-player-id', PLAYER_ID)
+      .set('x-game-token', gameToken);
+    expect(hidden.status).toBe(403);
+
+    const giveUp = await request(app)
+      .post(`/api/puzzles/${today.id}/give-up?difficulty=normal`)
+      .set('x-player-id', PLAYER_ID)
+      .set('x-game-token', gameToken);
+    expect(giveUp.status).toBe(200);
+    expect(giveUp.body.answer).toBe(today.answer);
+
+    const replay = await guess(gameToken, today.answer);
+    expect(replay.status).toBe(403);
+  });
+
+  it("keeps anonymous games from replaying old tokens", async () => {
+    const start = await request(app).get('/api/puzzles/today?difficulty=normal');
+    const anonymousGuess = (token: string, text: string) => request(app)
+      .post(`/api/puzzles/${today.id}/guess?difficulty=normal`)
+      .set('x-game-token', token)
+      .send({ guess: text });
+
+    const wrong = await anonymousGuess(start.body.gameToken, 'not it');
+    expect(wrong.status).toBe(200);
+
+    const giveUp = await request(app)
+      .post(`/api/puzzles/${today.id}/give-up?difficulty=normal`)
+      .set('x-game-token', wrong.body.gameToken);
+    expect(giveUp.status).toBe(200);
+
+    for (const token of [start.body.gameToken, wrong.body.gameToken]) {
+      const replay = await anonymousGuess(token, today.answer);
+      expect(replay.status).toBe(403);
+      expect(replay.body.code).toBe('stale_game_token');
+    }
+
+    // Sending the old token back to today's puzzle resumes the finished game
+    const resumed = await request(app)
+      .get('/api/puzzles/today?difficulty=normal')
+      .set('x-game-token', start.body.gameToken);
+    expect((await anonymousGuess(resumed.body.gameToken, today.answer)).status).toBe(409);
+  });
+
+  it("rejects a player's token once the player id is dropped or changed", async () => {
+    const { gameToken } = await startGame();
+
+    const dropped = await request(app)
+      .post(`/api/puzzles/${today.id}/guess?difficulty=normal`)
+      .set('x-game-token', gameToken)
+      .send({ guess: 'not it' });
+    const changed = await request(app)
+      .post(`/api/puzzles/${today.id}/guess?difficulty=normal`)
+      .set('x-player-id', '99999999-2222-3333-4444-555555555555')
+      .set('x-game-token', gameToken)
+      .send({ guess: 'not it' });
+
+    expect(dropped.status).toBe(403);
+    expect(dropped.body.code).toBe('invalid_game_token');
+    expect(changed.status).toBe(403);
+  });
+
+  describe("with an attempt limit", () => {
+    beforeEach(() => {
+      vi.stubEnv('PUZZLE_MAX_ATTEMPTS', '2');
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("ends the game at the limit and doesn't hand out a fresh game after", async () => {
+      const { gameToken } = await startGame();
+      const first = await guess(gameToken, 'not it');
+      const second = await guess(first.body.gameToken, 'still not it');
+
+      expect(second.body.isCorrect).toBe(false);
+      expect(second.body.answer).toBe(today.answer);
+
+      const again = await startGame();
+      const retry = await guess(again.gameToken, today.answer);
+      expect(retry.status).toBe(409);
+    });
+  });
+
+  it("starts sessions only for a player id", async () => {
+    const anonymous = await request(app).post('/api/sessions').send({ puzzleId: today.id, difficulty: 'normal' });
+    expect(anonymous.status).toBe(400);
+
+    const res = await request(app)
+      .post('/api/sessions')
+      .set('x-player-id', PLAYER_ID)
+      .send({ puzzleId: today.id, difficulty: 'normal' });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ playerId: PLAYER_ID, puzzleId: today.id, status: 'playing', guesses: [] });
+  });
+
+  it("keeps the admin routes behind sign-in", async () => {
+    const res = await request(app).post('/api/admin/cache/purge');
+    expect(res.status).toBe(401);
+  });
+
+  it("reports the server time and status", async () => {
+    const time = await request(app).get('/api/time');
+    const status = await request(app).get('/api/status');
+
+    expect(time.status).toBe(200);
+    expect(time.body.puzzleDate).toBe(getPuzzleDate());
+    expect(status.body.status).toBe('online');
+  });
+
+  describe("admin puzzle routes", () => {
+    const edit = {
+      date: '2099-01-01',
+      difficulty: 'normal',
+      emojis: ['🌊', '🏄'],
+      answer: 'Surf Board',
+      theme: 'Sports',
+      hints: ['Beach gear', 'Ride the waves', 'Starts with S'],
+      acceptedAnswers: ['surfboard'],
+      isFusionTwist: 0,
+      twistType: null
+    };
+
+    const asEditor = (req: request.Test) => req.set('authorization', `Bearer ${EDITOR_TOKEN}`);
+
+    it("needs an editor", async () => {
+      expect((await request(app).post('/api/admin/puzzles').send(edit)).status).toBe(401);
+    });
+
+    it("schedules, edits, reorders and deletes puzzles", async () => {
+      const stored = [
+        ...await repository.getPuzzlesByDifficulty('normal', 1000),
+        ...await repository.getPuzzlesByDifficulty('hard', 1000)
+      ];
+      const highest = Math.max(...stored.map(puzzle => puzzle.puzzleNumber));
+
+      const created = await asEditor(request(app).post('/api/admin/puzzles')).send(edit);
+      expect(created.status).toBe(200);
+      expect(created.body).toMatchObject({ puzzleNumber: highest + 1, answer: 'Surf Board' });
+      expect(created.body.difficultyScore).toEqual(expect.any(Number));
+
+      const clash = await asEditor(request(app).post('/api/admin/puzzles')).send({ ...edit, answer: 'Sand Castle' });
+      expect(clash.status).toBe(409);
+
+      const updated = await asEditor(request(app).put(`/api/admin/puzzles/${highest + 1}`))
+        .send({ ...edit, answer: 'Extraordinary Surfboard Championship' });
+      expect(updated.status).toBe(200);
+      expect(updated.body.answer).toBe('Extraordinary Surfboard Championship');
+      expect(updated.body.difficultyScore).toBeGreaterThan(created.body.difficultyScore);
+
+      const other = await asEditor(request(app).post('/api/admin/puzzles'))
+        .send({ ...edit, date: '2099-01-02', answer: 'Sand Castle' });
+      const swapped = await asEditor(request(app).post(`/api/admin/puzzles/${highest + 1}/swap`))
+        .send({ with: other.body.puzzleNumber });
+      expect(swapped.status).toBe(200);
+      expect((await repository.getPuzzleByDate('2099-01-01', 'normal'))?.answer).toBe('Sand Castle');
+      expect((await repository.getPuzzleByDate('2099-01-02', 'normal'))?.puzzleNumber).toBe(other.body.puzzleNumber);
+
+      const deleted = await asEditor(request(app).delete(`/api/admin/puzzles/${highest + 1}`));
+      expect(deleted.status).toBe(200);
+      expect((await asEditor(request(app).delete(`/api/admin/puzzles/${highest + 1}`))).status).toBe(404);
+      expect(await repository.getPuzzleByDate('2099-01-01', 'normal')).toBeUndefined();
+    });
+
+    it("drops today's cached puzzle when the schedule changes", async () => {
+      const cached = new CachedPuzzleRepository(repository, new PuzzleCache());
+      const cachedApp = await createApp(cached);
+
+      await cached.getTodaysPuzzle('normal');
+      const res = await asEditor(request(cachedApp).put(`/api/admin/puzzles/${today.puzzleNumber}`))
+        .send({ ...edit, date: today.date.split('T')[0], answer: 'Changed Answer' });
+      expect(res.status).toBe(200);
+
+      expect((await cached.getTodaysPuzzle('normal'))?.answer).toBe('Changed Answer');
+    });
+  });
+});
@@ -1,234 +1,869 @@
-import { Router } from "express";
-import type { Express } from "express";
+import { Router, text } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { guessSchema } from "@shared/schema";
-import { ZodError } from "zod";
-import { fromZodError } from "zod-validation-error";
-import { generatePuzzles } from "./puzzle-generator-fixed";
-import { db } from "./db";
-import { sql } from "drizzle-orm";
-
-export async function registerRoutes(app: Express): Promise<Server> {
+import { findMatchedWords, matchAnswer } from "@shared/answer-matching";
+import { getPuzzleDate, getServerTime } from "@shared/puzzle-clock";
+import {
+  guessSchema,
+  maintenanceUpdateSchema,
+  puzzleEditSchema,
+  startSessionSchema,
+  type GameTokenErrorCode,
+  type PuzzleEdit,
+  type Puzzle,
+  type PublicPuzzle
+} from "@shared/schema";
+import { buildCalendar } from "./puzzle-pipeline";
+import { PUZZLE_BANK } from "./puzzle-bank";
+import { highestPuzzleNumber } from "./puzzle-sinks";
+import { scorePuzzle } from "./difficulty-score";
+import type { PuzzleRepository } from "./storage";
+import { puzzleCache } from "./puzzle-cache";
+import { getStorageBackend, normalizeDifficulty } from "./repository";
+import {
+  GAME_TOKEN_HEADER,
+  encodeGameToken,
+  issueGameToken,
+  verifyGameToken,
+  isStaleGameToken,
+  gameTokenOwner,
+  recordGuess,
+  recordHint,
+  recordGiveUp,
+  canRevealHint,
+  isGameFinished,
+  type GameTokenState
+} from "./game-token";
+import { getPlayerId, startGameSession, updateGameSession } from "./game-sessions";
+import { authenticate, requireRole } from "./auth";
+import { MaintenanceSwitch, sendMaintenance } from "./maintenance";
+import { getLetterFeedback } from "./letter-feedback";
+import { calendarHealthQuerySchema, validateStoredCalendar } from "./calendar-validator";
+import {
+  exportPuzzles,
+  importPuzzles,
+  loadAllPuzzles,
+  puzzleImportQuerySchema,
+  readPuzzleRecords
+} from "./puzzle-transfer";
+import { getWordStructure } from "../client/src/lib/letter-placeholders";
+
+// Days of puzzles seeded into an empty store by /api/admin/init-db
+const SEED_DAYS = 365;
+
+// Largest CSV body accepted by the puzzle import endpoint
+const IMPORT_SIZE_LIMIT = '5mb';
+
+// Past puzzles are public in the archive. Today's (and any future) puzzle
+// is played through a signed game token instead.
+function isPastPuzzle(puzzle: Puzzle): boolean {
+  return puzzle.date.split('T')[0] < getPuzzleDate();
+}
+
+// Read and verify the game token sent with a request for a current puzzle.
+// Sends the error response itself and returns undefined when it's missing,
+// doesn't check out or is older than the game's saved session.
+async function requireGameToken(
+  repository: PuzzleRepository,
+  req: Request,
+  res: Response,
+  puzzle: Puzzle
+): Promise<GameTokenState | undefined> {
+  const token = req.get(GAME_TOKEN_HEADER);
+
+  if (!token) {
+    res.status(401).json({ error: 'Game token required' });
+    return undefined;
+  }
+
+  const playerId = getPlayerId(req);
+  const state = verifyGameToken(token, puzzle, playerId);
+
+  if (!state) {
+    res.status(403).json({ error: 'Invalid game token', code: 'invalid_game_token' satisfies GameTokenErrorCode });
+    return undefined;
+  }
+
+  const session = await repository.getGameSession(gameTokenOwner(state), puzzle.id, puzzle.difficulty);
+
+  if (session && isStaleGameToken(state, session)) {
+    res.status(403).json({ error: 'Game token is out of date', code: 'stale_game_token' satisfies GameTokenErrorCode });
+    return undefined;
+  }
+
+  return state;
+}
+
+// Another puzzle already scheduled on the edited puzzle's date and difficulty
+async function findDateClash(
+  repository: PuzzleRepository,
+  edit: PuzzleEdit,
+  puzzleNumber?: number
+): Promise<Puzzle | undefined> {
+  const scheduled = await repository.getPuzzleByDate(edit.date, edit.difficulty);
+  return scheduled && scheduled.date.split('T')[0] === edit.date && scheduled.puzzleNumber !== puzzleNumber
+    ? scheduled
+    : undefined;
+}
+
+// Strip the answer and hints from a puzzle that is still being played,
+// keeping only what the client needs to draw the letter placeholders
+function toPublicPuzzle(puzzle: Puzzle): PublicPuzzle {
+  const { answer, hints, acceptedAnswers, ...puzzleWithoutSpoilers } = puzzle;
+
+  return {
+    ...puzzleWithoutSpoilers,
+    wordStructure: getWordStructure(answer),
+    hintCount: hints?.length || 0
+  };
+}
+
+// Look up the puzzle addressed by a route, honouring the difficulty and
+// puzzleType query params. Sends the error response itself and returns
+// undefined when the puzzle can't be served.
+async function findRequestedPuzzle(
+  repository: PuzzleRepository,
+  req: Request,
+  res: Response
+): Promise<Puzzle | undefined> {
+  const puzzleId = parseInt(req.params.id);
+  const { difficulty, puzzleType } = req.query;
+
+  if (isNaN(puzzleId)) {
+    res.status(400).json({ error: 'Invalid puzzle ID' });
+    return undefined;
+  }
+
+  // Handle special case for fusion twist puzzles
+  if (puzzleType === 'fusion') {
+    const puzzle = await repository.getFusionPuzzleById(puzzleId);
+
+    if (!puzzle) {
+      res.status(404).json({ error: 'Fusion puzzle not found' });
+    }
+
+    return puzzle;
+  }
+
+  const puzzle = await repository.getPuzzleById(puzzleId, difficulty as string | undefined);
+
+  if (!puzzle) {
+    res.status(404).json({ error: 'Puzzle not found' });
+  }
+
+  return puzzle;
+}
+
+export async function registerRoutes(app: Express, repository: PuzzleRepository): Promise<Server> {
   const apiRouter = Router();
-  
-  // Get today's puzzle
-  apiRouter.get("/api/puzzles/today", async (req, res) => {
+
+  // Every request may carry a Firebase ID token; admin routes need an editor
+  // or admin, and the routes that can wipe or rewrite data need an admin
+  apiRouter.use(authenticate);
+  apiRouter.use('/api/admin', requireRole('editor'));
+
+  // While maintenance is on, puzzles and sessions answer 503 for everyone but editors
+  const maintenanceSwitch = new MaintenanceSwitch(repository);
+  apiRouter.use(['/api/puzzles', '/api/sessions'], maintenanceSwitch.guard);
+
+  // Root API endpoint
+  apiRouter.get('/api', (req, res) => {
+    res.json({ message: 'Fusdle API' });
+  });
+
+  // Whether the game is up, polled by the client to show the maintenance screen
+  apiRouter.get('/api/status', async (req, res) => {
+    const maintenance = await maintenanceSwitch.current();
+    const timestamp = new Date().toISOString();
+
+    if (maintenance.enabled) {
+      return sendMaintenance(res, maintenance, { status: 'maintenance', timestamp });
+    }
+    res.json({ status: 'online', message: 'Fusdle API is running', timestamp });
+  });
+
+  // Server time and the next rollover, so clients can correct a skewed device
+  // clock. Stays up during maintenance since it doesn't touch storage.
+  apiRouter.get('/api/time', (req, res) => {
+    res.set('Cache-Control', 'no-store');
+    res.json(getServerTime());
+  });
+
+  // Get today's puzzle with optional difficulty parameter
+  apiRouter.get('/api/puzzles/today', async (req, res) => {
     try {
-      const puzzle = await storage.getTodaysPuzzle();
-      
+      const { difficulty } = req.query;
+
+      let puzzle = await repository.getTodaysPuzzle(difficulty as string | undefined);
+
+      // If no puzzle found for today, use the earliest available puzzle
       if (!puzzle) {
-        return res.status(404).json({ message: "No puzzle available for today" });
+        console.log('No puzzle found for today, using earliest available puzzle');
+        const archive = await repository.getPuzzleArchive(1);
+
+        if (archive.length === 0) {
+          return res.status(404).json({ error: 'No puzzles available' });
+        }
+
+        puzzle = archive[0];
+
+        // Apply difficulty override if specified
+        if (difficulty && ['normal', 'hard'].includes(difficulty as string)) {
+          puzzle.difficulty = difficulty as string;
+        }
       }
-      
-      // Return only the necessary information, not the answer
-      res.json({
-        id: puzzle.id,
-        puzzleNumber: puzzle.puzzleNumber,
-        date: puzzle.date,
-        emojis: puzzle.emojis
+
+      console.log(`Serving puzzle for today with ${puzzle.difficulty} difficulty`);
+
+      // Resume the saved session so the game token matches the player's
+      // progress. Without a player id, a token sent along carries on its game.
+      const playerId = getPlayerId(req);
+      const previous = playerId ? undefined : verifyGameToken(req.get(GAME_TOKEN_HEADER), puzzle);
+      const owner = playerId ?? (previous && gameTokenOwner(previous));
+      const session = owner
+        ? await repository.getGameSession(owner, puzzle.id, puzzle.difficulty)
+        : undefined;
+
+      // Remove answer and hints from response, and start a game token
+      res.json({ ...toPublicPuzzle(puzzle), gameToken: issueGameToken(puzzle, playerId, session, previous?.sessionId) });
+    } catch (error) {
+      console.error('Error fetching today\'s puzzle:', error);
+      res.status(500).json({ error: 'Failed to fetch today\'s puzzle' });
+    }
+  });
+
+  // Get archive of puzzles (previous puzzles)
+  apiRouter.get('/api/puzzles/archive', async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 30;
+      const archive = await repository.getPuzzleArchive(limit);
+
+      // For the archive, we want to include the answers but not the hints
+      // This allows the archive to display past answers for each puzzle
+      const archiveWithAnswers = archive.map(({ hints, ...puzzleWithAnswer }) => puzzleWithAnswer);
+
+      res.json(archiveWithAnswers);
+    } catch (error) {
+      console.error('Error fetching puzzle archive:', error);
+      res.status(500).json({ error: 'Failed to fetch puzzle archive' });
+    }
+  });
+
+  // Get a random past puzzle of a given type, used by the development tools
+  apiRouter.get('/api/puzzles/random', async (req, res) => {
+    try {
+      const { puzzleType } = req.query;
+      const archive = await repository.getPuzzleArchive(100);
+
+      const candidates = archive.filter(puzzle => {
+        if (puzzleType === 'fusion') return puzzle.isFusionTwist === 1;
+        if (puzzleType === 'hard') return puzzle.difficulty === 'hard';
+        if (puzzleType === 'normal') return puzzle.difficulty === 'normal' && puzzle.isFusionTwist !== 1;
+        return true;
       });
+
+      if (candidates.length === 0) {
+        return res.status(404).json({ error: 'No matching puzzles available' });
+      }
+
+      const puzzle = candidates[Math.floor(Math.random() * candidates.length)];
+      res.json(toPublicPuzzle(puzzle));
     } catch (error) {
-      console.error("Error getting today's puzzle:", error);
-      res.status(500).json({ message: "Failed to retrieve today's puzzle" });
+      console.error('Error fetching random puzzle:', error);
+      res.status(500).json({ error: 'Failed to fetch random puzzle' });
     }
   });
-  
-  // Verify a guess for a puzzle
-  apiRouter.post("/api/puzzles/:id/guess", async (req, res) => {
+
+  // Submit a guess for a puzzle
+  apiRouter.post('/api/puzzles/:id/guess', async (req, res) => {
     try {
-      const { id } = req.params;
-      const puzzleId = parseInt(id);
-      
-      if (isNaN(puzzleId)) {
-        return res.status(400).json({ message: "Invalid puzzle ID" });
+      // Validate request body
+      const result = guessSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: 'Invalid guess format' });
       }
-      
-      const puzzle = await storage.getPuzzleById(puzzleId);
-      
+
+      const { guess, feedbackMode } = result.data;
+
+      const puzzle = await findRequestedPuzzle(repository, req, res);
       if (!puzzle) {
-        return res.status(404).json({ message: "Puzzle not found" });
-      }
-      
-      // Validate the guess
-      const validatedData = guessSchema.parse(req.body);
-      const userGuess = validatedData.guess.trim().toLowerCase();
-      const correctAnswer = puzzle.answer.toLowerCase();
-      
-      // Check if the guess is correct
-      const isCorrect = userGuess === correctAnswer;
-      
+        return;
+      }
+
+      console.log(`Processing guess for puzzle ${puzzle.id} with difficulty ${puzzle.difficulty}`);
+
+      // Check the guess, forgiving case, spacing, punctuation, plurals and small typos
+      const { isMatch: isCorrect } = matchAnswer(guess, puzzle.answer, puzzle.acceptedAnswers ?? []);
+
+      // Advance the game token for today's puzzle
+      let gameState: GameTokenState | undefined;
+      if (!isPastPuzzle(puzzle)) {
+        const currentState = await requireGameToken(repository, req, res, puzzle);
+        if (!currentState) {
+          return;
+        }
+
+        if (isGameFinished(currentState)) {
+          return res.status(409).json({ error: 'This game is already finished' });
+        }
+
+        gameState = recordGuess(currentState, isCorrect);
+      }
+      const gameToken = gameState && encodeGameToken(gameState);
+
+      await updateGameSession(repository, gameState ? gameTokenOwner(gameState) : getPlayerId(req), puzzle, session => ({
+        guesses: [...session.guesses, guess],
+        status: gameState?.status ?? (isCorrect ? 'won' : session.status)
+      }));
+
+      // If correct, return the answer
       if (isCorrect) {
-        return res.json({ isCorrect: true, answer: puzzle.answer });
-      } else {
-        return res.json({ isCorrect: false });
+        return res.json({ isCorrect, answer: puzzle.answer, gameToken });
       }
-    } catch (error) {
-      if (error instanceof ZodError) {
-        const validationError = fromZodError(error);
-        return res.status(400).json({ message: validationError.message });
+
+      // Check for partial word matches
+      let partialMatchFeedback = null;
+      let matchedWord = null; // Explicit matched word for client highlighting
+      let matchType = 'none';
+      let hasCorrectWordsWrongOrder = false; // New flag for tracking words in wrong order
+
+      // Split answer into words and check if any match
+      const answerWords = puzzle.answer.toLowerCase().split(/\s+/);
+      const guessWords = guess.toLowerCase().split(/\s+/);
+
+      // First, check if the guess has all the right words but in the wrong order
+      // This is a special case we want to detect and handle differently
+      if (answerWords.length > 1 && guessWords.length === answerWords.length) {
+        // This only makes sense for multi-word phrases
+        const sortedAnswerWords = [...answerWords].sort();
+        const sortedGuessWords = [...guessWords].sort();
+
+        // Check if the sorted arrays match (same words, different order)
+        const allWordsMatch = sortedAnswerWords.every((word, i) => word === sortedGuessWords[i]);
+
+        if (allWordsMatch) {
+          hasCorrectWordsWrongOrder = true;
+          partialMatchFeedback = "So close! You have all the right words, but in the wrong order.";
+          matchType = 'wrong-order';
+        }
+      }
+
+      // Every answer word the guess contains, with its position in the answer.
+      // Compounds count, so "applepie" matches both words of "apple pie".
+      const matchedWords = findMatchedWords(guess, puzzle.answer);
+
+      if (!hasCorrectWordsWrongOrder && matchedWords.length > 0) {
+        // Kept for older clients that only highlight a single word
+        matchedWord = matchedWords[0].word.toLowerCase();
+        matchType = 'exact';
+
+        const wordList = matchedWords.map(match => `"${match.word.toLowerCase()}"`).join(', ');
+        partialMatchFeedback = matchedWords.length === 1
+          ? `You're on the right track! Your guess contains ${wordList}.`
+          : `You're on the right track! Your guess contains ${matchedWords.length} words: ${wordList}.`;
       }
-      
-      console.error("Error validating guess:", error);
-      res.status(500).json({ message: "An error occurred while validating your guess" });
+
+      // If incorrect, return the result with partial match feedback and matched word
+      return res.json({
+        isCorrect,
+        partialMatchFeedback,
+        matchedWord, // Send the matched word to the client for better highlighting
+        matchedWords, // All matched answer words and which guess words matched them
+        matchType,   // Include match type so client knows if it's a 'wrong-order' match
+        hasCorrectWordsWrongOrder,  // Flag to indicate if we have correct words in wrong order
+        // Per-word and per-letter states when the client asked for letter feedback
+        letterFeedback: feedbackMode === 'letters' ? getLetterFeedback(guess, puzzle.answer) : undefined,
+        gameToken,
+        // Reveal the answer once the attempt limit has been reached
+        ...(gameState?.status === 'lost' ? { answer: puzzle.answer } : {})
+      });
+    } catch (error) {
+      console.error('Error processing guess:', error);
+      res.status(500).json({ error: 'Failed to process guess' });
     }
   });
-  
-  // Get hints for a puzzle
-  apiRouter.get("/api/puzzles/:id/hints/:hintIndex", async (req, res) => {
+
+  // Get a hint for a puzzle
+  apiRouter.get('/api/puzzles/:id/hints/:index', async (req, res) => {
     try {
-      const { id, hintIndex } = req.params;
-      const puzzleId = parseInt(id);
-      const index = parseInt(hintIndex);
-      
-      if (isNaN(puzzleId) || isNaN(index)) {
-        return res.status(400).json({ message: "Invalid puzzle ID or hint index" });
+      const hintIndex = parseInt(req.params.index);
+
+      if (isNaN(hintIndex) || hintIndex < 0) {
+        return res.status(400).json({ error: 'Invalid hint index' });
       }
-      
-      const puzzle = await storage.getPuzzleById(puzzleId);
-      
+
+      const puzzle = await findRequestedPuzzle(repository, req, res);
       if (!puzzle) {
-        return res.status(404).json({ message: "Puzzle not found" });
+        return;
       }
-      
-      if (index < 0 || index >= puzzle.hints.length) {
-        return res.status(400).json({ message: "Hint index out of range" });
+
+      // Check if hint exists
+      if (!puzzle.hints || hintIndex >= puzzle.hints.length) {
+        return res.status(404).json({ error: 'Hint not available' });
+      }
+
+      // Record the first reveal of each hint against the attempt it came at
+      const recordHintReveal = (owner = getPlayerId(req)) => updateGameSession(repository, owner, puzzle, session => (
+        hintIndex === session.hintsUsedAtAttempts.length
+          ? { hintsUsedAtAttempts: [...session.hintsUsedAtAttempts, session.guesses.length] }
+          : {}
+      ));
+
+      if (isPastPuzzle(puzzle)) {
+        await recordHintReveal();
+        return res.json({ hint: puzzle.hints[hintIndex] });
+      }
+
+      // Today's hints unlock one per guess, in order
+      const gameState = await requireGameToken(repository, req, res, puzzle);
+      if (!gameState) {
+        return;
+      }
+
+      if (!canRevealHint(gameState, hintIndex)) {
+        return res.status(403).json({ error: 'Make another guess to unlock a hint' });
       }
-      
-      res.json({ hint: puzzle.hints[index] });
+
+      await recordHintReveal(gameTokenOwner(gameState));
+
+      return res.json({
+        hint: puzzle.hints[hintIndex],
+        gameToken: encodeGameToken(recordHint(gameState, hintIndex))
+      });
     } catch (error) {
-      console.error("Error getting hint:", error);
-      res.status(500).json({ message: "Failed to retrieve hint" });
+      console.error('Error fetching hint:', error);
+      res.status(500).json({ error: 'Failed to fetch hint' });
     }
   });
-  
-  // Get archive of puzzles
-  apiRouter.get("/api/puzzles/archive", async (req, res) => {
+
+  // Get the answer for a puzzle (past puzzles, or once today's game is over)
+  apiRouter.get('/api/puzzles/:id/answer', async (req, res) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 30;
-      const puzzles = await storage.getPuzzleArchive(limit);
-      
-      // Return puzzles with their answers for archive view
-      res.json(puzzles.map(puzzle => ({
-        id: puzzle.id,
-        puzzleNumber: puzzle.puzzleNumber,
-        date: puzzle.date,
-        emojis: puzzle.emojis,
-        answer: puzzle.answer
-      })));
-    } catch (error) {
-      console.error("Error getting puzzle archive:", error);
-      res.status(500).json({ message: "Failed to retrieve puzzle archive" });
-    }
-  });
-  
-  // Get the answer for a puzzle
-  // Modified to provide answers for today's puzzle after failed attempts
-  apiRouter.get("/api/puzzles/:id/answer", async (req, res) => {
-    try {
-      const { id } = req.params;
-      const puzzleId = parseInt(id);
-      const revealAnswer = req.query.revealAnswer === 'true';
-      
-      if (isNaN(puzzleId)) {
-        return res.status(400).json({ message: "Invalid puzzle ID" });
+      const puzzle = await findRequestedPuzzle(repository, req, res);
+      if (!puzzle) {
+        return;
       }
-      
-      const puzzle = await storage.getPuzzleById(puzzleId);
-      
+
+      if (isPastPuzzle(puzzle)) {
+        return res.json({ answer: puzzle.answer });
+      }
+
+      const gameState = await requireGameToken(repository, req, res, puzzle);
+      if (!gameState) {
+        return;
+      }
+
+      if (isGameFinished(gameState)) {
+        return res.json({ answer: puzzle.answer });
+      }
+
+      return res.status(403).json({ error: 'Answer is only available once the game is over' });
+    } catch (error) {
+      console.error('Error fetching answer:', error);
+      res.status(500).json({ error: 'Failed to fetch answer' });
+    }
+  });
+
+  // Give up on a puzzle, finishing the game and revealing the answer
+  apiRouter.post('/api/puzzles/:id/give-up', async (req, res) => {
+    try {
+      const puzzle = await findRequestedPuzzle(repository, req, res);
       if (!puzzle) {
-        return res.status(404).json({ message: "Puzzle not found" });
+        return;
       }
-      
-      // If revealAnswer query param is true, we're allowing the user to see the answer
-      // This will be used after max attempts are used
-      if (revealAnswer) {
+
+      const recordGiveUpOutcome = (owner = getPlayerId(req)) => updateGameSession(repository, owner, puzzle, session => (
+        session.status === 'playing' ? { status: 'gave_up' } : {}
+      ));
+
+      if (isPastPuzzle(puzzle)) {
+        await recordGiveUpOutcome();
         return res.json({ answer: puzzle.answer });
       }
-      
-      // Check if this puzzle is from the past (to prevent cheating on today's puzzle)
-      const puzzleDate = new Date(puzzle.date);
-      
-      // Get today's date in EST timezone
-      const today = new Date();
-      const estOptions = { timeZone: 'America/New_York' };
-      const estDateStr = today.toLocaleDateString('en-US', estOptions);
-      const estDate = new Date(estDateStr);
-      
-      if (puzzleDate >= estDate) {
-        return res.status(403).json({ message: "Cannot view answer for today's or future puzzles" });
+
+      const gameState = await requireGameToken(repository, req, res, puzzle);
+      if (!gameState) {
+        return;
       }
-      
-      res.json({ answer: puzzle.answer });
+
+      await recordGiveUpOutcome(gameTokenOwner(gameState));
+
+      // Giving up after winning keeps the win
+      const finalState = isGameFinished(gameState) ? gameState : recordGiveUp(gameState);
+
+      return res.json({ answer: puzzle.answer, gameToken: encodeGameToken(finalState) });
     } catch (error) {
-      console.error("Error getting puzzle answer:", error);
-      res.status(500).json({ message: "Failed to retrieve puzzle answer" });
+      console.error('Error giving up puzzle:', error);
+      res.status(500).json({ error: 'Failed to give up puzzle' });
     }
   });
-  
+
+  // Start (or resume) the calling player's session for a puzzle
+  apiRouter.post('/api/sessions', async (req, res) => {
+    try {
+      const playerId = getPlayerId(req);
+      if (!playerId) {
+        return res.status(400).json({ error: 'Player id required' });
+      }
+
+      const result = startSessionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: 'Invalid session request' });
+      }
+
+      const { puzzleId, difficulty, puzzleType } = result.data;
+      const puzzle = puzzleType === 'fusion'
+        ? await repository.getFusionPuzzleById(puzzleId)
+        : await repository.getPuzzleById(puzzleId, difficulty);
+
+      if (!puzzle) {
+        return res.status(404).json({ error: 'Puzzle not found' });
+      }
+
+      res.json(await startGameSession(repository, playerId, puzzle));
+    } catch (error) {
+      console.error('Error starting game session:', error);
+      res.status(500).json({ error: 'Failed to start game session' });
+    }
+  });
+
+  // Get the calling player's session for a puzzle
+  apiRouter.get('/api/sessions/:puzzleId', async (req, res) => {
+    try {
+      const playerId = getPlayerId(req);
+      if (!playerId) {
+        return res.status(400).json({ error: 'Player id required' });
+      }
+
+      const puzzleId = parseInt(req.params.puzzleId);
+      if (isNaN(puzzleId)) {
+        return res.status(400).json({ error: 'Invalid puzzle ID' });
+      }
+
+      const difficulty = normalizeDifficulty(req.query.difficulty as string | undefined);
+      const session = await repository.getGameSession(playerId, puzzleId, difficulty);
+
+      if (!session) {
+        return res.status(404).json({ error: 'Game session not found' });
+      }
+
+      res.json(session);
+    } catch (error) {
+      console.error('Error fetching game session:', error);
+      res.status(500).json({ error: 'Failed to fetch game session' });
+    }
+  });
+
+  // API endpoint to get latest patch note for Discord automation
+  apiRouter.get('/api/patch-notes/latest', async (req, res) => {
+    try {
+      const patchNotes = await repository.getPatchNotes();
+      const latestNote = patchNotes[0]; // First item is most recent
+
+      if (!latestNote) {
+        return res.status(404).json({ error: 'No patch notes found' });
+      }
+
+      res.json({
+        id: latestNote.id,
+        title: latestNote.title,
+        content: latestNote.content,
+        version: latestNote.version,
+        date: latestNote.date,
+        type: latestNote.type,
+        url: `${req.protocol}://${req.get('host')}/patch-notes`
+      });
+    } catch (error) {
+      console.error('Error fetching latest patch note:', error);
+      res.status(500).json({ error: 'Failed to fetch latest patch note' });
+    }
+  });
+
+  // API endpoint to get all patch notes for external integrations
+  apiRouter.get('/api/patch-notes', async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 10;
+      const patchNotes = await repository.getPatchNotes();
+
+      res.json({
+        patchNotes: patchNotes.slice(0, limit),
+        total: patchNotes.length,
+        gameUrl: `${req.protocol}://${req.get('host')}`
+      });
+    } catch (error) {
+      console.error('Error fetching patch notes:', error);
+      res.status(500).json({ error: 'Failed to fetch patch notes' });
+    }
+  });
+
   // Database initialization and seeding endpoint
-  apiRouter.post("/api/admin/init-db", async (req, res) => {
+  apiRouter.post("/api/admin/init-db", requireRole('admin'), async (req, res) => {
     try {
       console.log("Starting database initialization...");
-      
-      // Push the schema to the database using drizzle-orm
-      await db.execute(sql`
-        CREATE TABLE IF NOT EXISTS "users" (
-          "id" SERIAL PRIMARY KEY,
-          "username" TEXT NOT NULL UNIQUE,
-          "password" TEXT NOT NULL
-        );
-        
-        CREATE TABLE IF NOT EXISTS "puzzles" (
-          "id" SERIAL PRIMARY KEY,
-          "puzzle_number" INTEGER NOT NULL UNIQUE,
-          "date" DATE NOT NULL,
-          "emojis" TEXT[] NOT NULL,
-          "answer" TEXT NOT NULL,
-          "hints" TEXT[] NOT NULL
-        );
-      `);
-      
-      console.log("Database tables created successfully!");
-      
+
+      await repository.ensureSchema();
+      console.log("Puzzle storage is ready");
+
       // Check if puzzles already exist
-      const existingPuzzles = await db.execute(sql`SELECT COUNT(*) FROM puzzles`);
-      const puzzleCount = parseInt(existingPuzzles.rows[0].count.toString());
-      
+      const puzzleCount = await repository.countPuzzles();
+
       if (puzzleCount > 0) {
         console.log(`Database already has ${puzzleCount} puzzles.`);
-        return res.json({ 
-          success: true, 
-          message: `Database initialized. ${puzzleCount} puzzles already exist.` 
+        return res.json({
+          success: true,
+          message: `Database initialized. ${puzzleCount} puzzles already exist.`
         });
       }
-      
-      // Generate and insert 1000 puzzles
-      console.log("Generating 1000 puzzles...");
-      const puzzles = generatePuzzles(1000);
+
+      // Seed a year of puzzles from the built-in bank, starting today
+      console.log(`Generating ${SEED_DAYS} days of puzzles...`);
+      const puzzles = buildCalendar(PUZZLE_BANK, {
+        from: getPuzzleDate(),
+        days: SEED_DAYS,
+        startNumber: 1
+      });
       console.log(`Generated ${puzzles.length} puzzles.`);
-      
-      // Insert puzzles into the database
-      console.log("Inserting puzzles into the database...");
-      const insertedPuzzles = await storage.bulkCreatePuzzles(puzzles);
+
+      const insertedPuzzles = await repository.bulkCreatePuzzles(puzzles);
       console.log(`Successfully inserted ${insertedPuzzles.length} puzzles into the database.`);
-      
-      res.json({ 
-        success: true, 
-        message: `Database initialized and seeded with ${insertedPuzzles.length} puzzles.` 
+
+      res.json({
+        success: true,
+        message: `Database initialized and seeded with ${insertedPuzzles.length} puzzles.`
       });
     } catch (error) {
       console.error("Error initializing database:", error);
-      res.status(500).json({ 
-        success: false, 
-        message: "Failed to initialize database", 
-        error: error instanceof Error ? error.message : String(error) 
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Applied and pending schema migrations, and any drift from the Drizzle
+  // schema. Only the Postgres backend is migrated.
+  apiRouter.get('/api/admin/migrations', requireRole('admin'), async (req, res) => {
+    const backend = getStorageBackend();
+    if (backend !== 'postgres') {
+      return res.json({ backend, managed: false });
+    }
+
+    try {
+      const { getMigrationStatus } = await import("./migrations");
+      res.json({ backend, managed: true, ...(await getMigrationStatus()) });
+    } catch (error) {
+      console.error('Error reading migration status:', error);
+      res.status(500).json({ error: 'Failed to read migration status' });
+    }
+  });
+
+  // Current maintenance state, for the admin toggle
+  apiRouter.get('/api/admin/maintenance', async (req, res) => {
+    res.json(await maintenanceSwitch.current());
+  });
+
+  // Turn maintenance on or off, optionally with a message and an ETA
+  apiRouter.put('/api/admin/maintenance', requireRole('admin'), async (req, res) => {
+    const body = maintenanceUpdateSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ error: 'Invalid maintenance settings' });
+    }
+
+    try {
+      const { enabled, message, eta } = body.data;
+      const state = await maintenanceSwitch.update({
+        enabled,
+        ...(message ? { message } : {}),
+        ...(eta !== undefined ? { eta } : {})
+      });
+      console.log(`Maintenance mode ${state.enabled ? 'enabled' : 'disabled'} by ${req.auth?.email ?? req.auth?.uid}`);
+      res.json(state);
+    } catch (error) {
+      console.error('Error saving maintenance state:', error);
+      res.status(500).json({ error: 'Failed to save maintenance state' });
+    }
+  });
+
+  // Inspect the in-process cache of today's puzzles
+  apiRouter.get('/api/admin/cache', (req, res) => {
+    res.json(puzzleCache.getStats());
+  });
+
+  // Manually purge the puzzle cache, e.g. after editing today's puzzle
+  apiRouter.post('/api/admin/cache/purge', (req, res) => {
+    const purged = puzzleCache.purge();
+    console.log(`Puzzle cache purged (${purged} entries)`);
+    res.json({ success: true, purged });
+  });
+
+  // Check the puzzle calendar's invariants, from today by default
+  apiRouter.get('/api/admin/calendar/health', async (req, res) => {
+    try {
+      const query = calendarHealthQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: 'Invalid calendar range or options' });
+      }
+
+      res.json(await validateStoredCalendar(repository, query.data));
+    } catch (error) {
+      console.error('Error validating puzzle calendar:', error);
+      res.status(500).json({ error: 'Failed to validate puzzle calendar' });
+    }
+  });
+
+  // Export every puzzle as a CSV or JSON download
+  apiRouter.get('/api/admin/puzzles/export', async (req, res) => {
+    try {
+      const format = req.query.format === 'csv' ? 'csv' : 'json';
+      const puzzles = await loadAllPuzzles(repository);
+
+      res.type(format === 'csv' ? 'text/csv' : 'application/json');
+      res.attachment(`fusdle-puzzles.${format}`);
+      res.send(exportPuzzles(puzzles, format));
+    } catch (error) {
+      console.error('Error exporting puzzles:', error);
+      res.status(500).json({ error: 'Failed to export puzzles' });
+    }
+  });
+
+  // Schedule a puzzle from the admin page, numbered after the last one and
+  // scored like generated puzzles. The repository purges the puzzle cache.
+  apiRouter.post('/api/admin/puzzles', async (req, res) => {
+    const body = puzzleEditSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ error: 'Invalid puzzle' });
+    }
+
+    try {
+      const clash = await findDateClash(repository, body.data);
+      if (clash) {
+        return res.status(409).json({ error: `Puzzle #${clash.puzzleNumber} is already scheduled for ${body.data.date}` });
+      }
+
+      const puzzle = await repository.createPuzzle({
+        ...body.data,
+        puzzleNumber: (await highestPuzzleNumber(repository)) + 1,
+        difficultyScore: scorePuzzle(body.data).score
       });
+      res.json(puzzle);
+    } catch (error) {
+      console.error('Error creating puzzle:', error);
+      res.status(500).json({ error: 'Failed to create puzzle' });
     }
   });
-  
+
+  // Edit a scheduled puzzle, rescoring it
+  apiRouter.put('/api/admin/puzzles/:puzzleNumber', async (req, res) => {
+    const puzzleNumber = parseInt(req.params.puzzleNumber);
+    const body = puzzleEditSchema.safeParse(req.body);
+    if (isNaN(puzzleNumber) || !body.success) {
+      return res.status(400).json({ error: 'Invalid puzzle' });
+    }
+
+    try {
+      const clash = await findDateClash(repository, body.data, puzzleNumber);
+      if (clash) {
+        return res.status(409).json({ error: `Puzzle #${clash.puzzleNumber} is already scheduled for ${body.data.date}` });
+      }
+
+      const puzzle = await repository.updatePuzzle(puzzleNumber, {
+        ...body.data,
+        difficultyScore: scorePuzzle(body.data).score
+      });
+      if (!puzzle) {
+        return res.status(404).json({ error: 'Puzzle not found' });
+      }
+
+      res.json(puzzle);
+    } catch (error) {
+      console.error('Error updating puzzle:', error);
+      res.status(500).json({ error: 'Failed to update puzzle' });
+    }
+  });
+
+  // Take a puzzle off the schedule
+  apiRouter.delete('/api/admin/puzzles/:puzzleNumber', async (req, res) => {
+    const puzzleNumber = parseInt(req.params.puzzleNumber);
+    if (isNaN(puzzleNumber)) {
+      return res.status(400).json({ error: 'Invalid puzzle number' });
+    }
+
+    try {
+      if (!(await repository.deletePuzzle(puzzleNumber))) {
+        return res.status(404).json({ error: 'Puzzle not found' });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting puzzle:', error);
+      res.status(500).json({ error: 'Failed to delete puzzle' });
+    }
+  });
+
+  // Swap a puzzle's date and number with another's, to reorder the schedule
+  apiRouter.post('/api/admin/puzzles/:puzzleNumber/swap', async (req, res) => {
+    const puzzleNumber = parseInt(req.params.puzzleNumber);
+    const otherNumber = Number(req.body?.with);
+    if (isNaN(puzzleNumber) || !Number.isInteger(otherNumber)) {
+      return res.status(400).json({ error: 'Invalid puzzle numbers' });
+    }
+
+    try {
+      if (!(await repository.swapPuzzles(puzzleNumber, otherNumber))) {
+        return res.status(404).json({ error: 'Puzzle not found' });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error swapping puzzles:', error);
+      res.status(500).json({ error: 'Failed to swap puzzles' });
+    }
+  });
+
+  // Import puzzles from a CSV (text/csv) or JSON body. Nothing is written
+  // unless every row is valid; ?upsert=true replaces existing puzzle numbers
+  // and ?dryRun=true only reports.
+  apiRouter.post(
+    '/api/admin/puzzles/import',
+    requireRole('admin'),
+    text({ type: ['text/csv', 'text/plain'], limit: IMPORT_SIZE_LIMIT }),
+    async (req, res) => {
+      const query = puzzleImportQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: 'Invalid import options' });
+      }
+
+      const format = query.data.format ?? (req.is('text/csv') ? 'csv' : 'json');
+      let records;
+      try {
+        records = readPuzzleRecords(req.body, format);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid puzzle file' });
+      }
+
+      try {
+        const report = await importPuzzles(repository, records, query.data);
+        if (!report.ok) {
+          return res.status(422).json({ error: `${report.errors.length} problems found, nothing was imported`, ...report });
+        }
+
+        console.log(`Imported puzzles: ${report.created} created, ${report.updated} updated${report.dryRun ? ' (dry run)' : ''}`);
+        res.json(report);
+      } catch (error) {
+        console.error('Error importing puzzles:', error);
+        res.status(500).json({ error: 'Failed to import puzzles' });
+      }
+    }
+  );
+
   app.use(apiRouter);
-  
+
+  // Error handling middleware
+  app.use('/api', (err: any, _req: Request, res: Response, _next: NextFunction) => {
+    console.error('Unhandled error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -1,6 +1,15 @@
-import { users, type User, type InsertUser, puzzles, type Puzzle, type InsertPuzzle } from "@shared/schema";
+import {
+  users, type User, type InsertUser,
+  puzzles, type Puzzle, type InsertPuzzle,
+  gameSessions, type GameSession, type InsertGameSession, type PuzzleSolveStats,
+  maintenance, type MaintenanceState
+} from "@shared/schema";
+import { addPuzzleDays, getPuzzleDate } from "@shared/puzzle-clock";
+import type { PatchNote } from "../client/src/firebase/firestore";
 import { db } from "./db";
-import { eq, desc, lte, asc } from "drizzle-orm";
+import { runMigrations } from "./migrations";
+import { MAINTENANCE_OFF, normalizeDifficulty, withWordCount } from "./repository";
+import { eq, ne, desc, lte, asc, and, count, sql } from "drizzle-orm";
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
@@ -8,15 +17,51 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   
   // Puzzle related methods
-  getPuzzleByDate(date: string): Promise<Puzzle | undefined>;
-  getPuzzleById(id: number): Promise<Puzzle | undefined>;
+  getPuzzleByDate(date: string, difficulty?: string): Promise<Puzzle | undefined>;
+  getPuzzleById(id: number, difficulty?: string): Promise<Puzzle | undefined>;
   getPuzzleArchive(limit?: number): Promise<Puzzle[]>;
   createPuzzle(puzzle: InsertPuzzle): Promise<Puzzle>;
   bulkCreatePuzzles(puzzlesList: InsertPuzzle[]): Promise<Puzzle[]>;
-  getTodaysPuzzle(): Promise<Puzzle | undefined>;
+  getTodaysPuzzle(difficulty?: string): Promise<Puzzle | undefined>;
 }
 
-export class DatabaseStorage implements IStorage {
+// Storage-agnostic repository used by the API routes.
+// Every backend (Firestore, Postgres, in-memory) implements this so the
+// routes answer with the same JSON contract no matter where puzzles live.
+export interface PuzzleRepository extends IStorage {
+  getFusionPuzzleById(id: number): Promise<Puzzle | undefined>;
+  getPuzzlesByDifficulty(difficulty: string, limit?: number): Promise<Puzzle[]>;
+  countPuzzles(): Promise<number>;
+  // Change a stored puzzle, found by its puzzle number. Undefined if there's none.
+  updatePuzzle(puzzleNumber: number, updates: Partial<InsertPuzzle>): Promise<Puzzle | undefined>;
+  // Remove a stored puzzle by its puzzle number. False if there's none.
+  deletePuzzle(puzzleNumber: number): Promise<boolean>;
+  // Swap the dates and puzzle numbers of two puzzles, so numbers stay in
+  // date order. False if either is missing.
+  swapPuzzles(firstNumber: number, secondNumber: number): Promise<boolean>;
+  getPatchNotes(): Promise<PatchNote[]>;
+  // Game sessions are unique per player, puzzle and difficulty
+  getGameSession(playerId: string, puzzleId: number, difficulty: string): Promise<GameSession | undefined>;
+  saveGameSession(session: InsertGameSession): Promise<GameSession>;
+  // Plays, solves and average attempts per puzzle and difficulty, from finished sessions
+  getSolveStats(): Promise<PuzzleSolveStats[]>;
+  // Site-wide maintenance switch; off until it's first saved
+  getMaintenance(): Promise<MaintenanceState>;
+  saveMaintenance(state: MaintenanceState): Promise<MaintenanceState>;
+  // Prepare the backing store (tables, collections) before seeding
+  ensureSchema(): Promise<void>;
+}
+
+// The maintenance table holds a single row
+const MAINTENANCE_ROW_ID = 1;
+
+// Postgres returns timestamps as "2026-01-01 12:00:00+00"; the API uses ISO strings
+function toMaintenanceState(row: typeof maintenance.$inferSelect): MaintenanceState {
+  const toIso = (value: string | null) => value && new Date(value).toISOString();
+  return { enabled: row.enabled, message: row.message, eta: toIso(row.eta), updatedAt: toIso(row.updatedAt) };
+}
+
+export class DatabaseStorage implements PuzzleRepository {
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user;
@@ -35,30 +80,27 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getPuzzleByDate(date: string): Promise<Puzzle | undefined> {
-    // Convert string date to Date object for comparison
-    const queryDate = new Date(date);
-    // Format date parts to match postgres format 'YYYY-MM-DD'
-    const formattedDate = queryDate.toISOString().split('T')[0];
+  async getPuzzleByDate(date: string, difficulty?: string): Promise<Puzzle | undefined> {
+    // Postgres dates are plain 'YYYY-MM-DD', drop any time part
+    const formattedDate = date.split('T')[0];
     
     const [puzzle] = await db
       .select()
       .from(puzzles)
-      .where(eq(puzzles.date, formattedDate));
+      .where(and(
+        eq(puzzles.date, formattedDate),
+        difficulty ? eq(puzzles.difficulty, normalizeDifficulty(difficulty)) : undefined
+      ));
     
-    return puzzle;
+    return puzzle && withWordCount(puzzle);
   }
 
-  async getTodaysPuzzle(): Promise<Puzzle | undefined> {
-    // Get today's date in EST timezone
-    const today = new Date();
-    const estOptions = { timeZone: 'America/New_York' };
-    const estDateStr = today.toLocaleDateString('en-US', estOptions);
-    const estDate = new Date(estDateStr);
-    const formattedDate = estDate.toISOString().split('T')[0];
+  async getTodaysPuzzle(difficulty?: string): Promise<Puzzle | undefined> {
+    const formattedDate = getPuzzleDate();
+    const effectiveDifficulty = normalizeDifficulty(difficulty);
     
     // Try to get puzzle for today
-    const todaysPuzzle = await this.getPuzzleByDate(formattedDate);
+    const todaysPuzzle = await this.getPuzzleByDate(formattedDate, effectiveDifficulty);
     
     if (todaysPuzzle) {
       return todaysPuzzle;
@@ -69,42 +111,147 @@ export class DatabaseStorage implements IStorage {
     const [earliestPuzzle] = await db
       .select()
       .from(puzzles)
+      .where(eq(puzzles.difficulty, effectiveDifficulty))
       .orderBy(asc(puzzles.date))
       .limit(1);
     
     console.log("No puzzle found for today, using earliest available puzzle:", earliestPuzzle);
-    return earliestPuzzle;
+    return earliestPuzzle && withWordCount(earliestPuzzle);
   }
 
-  async getPuzzleById(id: number): Promise<Puzzle | undefined> {
+  async getPuzzleById(id: number, difficulty?: string): Promise<Puzzle | undefined> {
     const [puzzle] = await db
       .select()
       .from(puzzles)
-      .where(eq(puzzles.id, id));
+      .where(and(
+        eq(puzzles.id, id),
+        difficulty ? eq(puzzles.difficulty, normalizeDifficulty(difficulty)) : undefined
+      ));
     
-    return puzzle;
+    return puzzle && withWordCount(puzzle);
   }
 
-  async getPuzzleArchive(limitCount = 30): Promise<Puzzle[]> {
-    // Get today's date in EST timezone
-    const today = new Date();
-    const estOptions = { timeZone: 'America/New_York' };
-    const estDateStr = today.toLocaleDateString('en-US', estOptions);
-    const estDate = new Date(estDateStr);
-    const formattedDate = estDate.toISOString().split('T')[0];
+  async getFusionPuzzleById(id: number): Promise<Puzzle | undefined> {
+    const [puzzle] = await db
+      .select()
+      .from(puzzles)
+      .where(and(eq(puzzles.id, id), eq(puzzles.isFusionTwist, 1)));
     
+    return puzzle && withWordCount(puzzle);
+  }
+
+  async getPuzzlesByDifficulty(difficulty: string, limitCount = 10): Promise<Puzzle[]> {
+    const results = await db
+      .select()
+      .from(puzzles)
+      .where(eq(puzzles.difficulty, difficulty))
+      .orderBy(desc(puzzles.date))
+      .limit(limitCount);
+    
+    return results.map(withWordCount);
+  }
+
+  async getPuzzleArchive(limitCount = 30): Promise<Puzzle[]> {
     // Only get puzzles with dates < today (not including today)
     // This ensures only past puzzles are shown
-    const yesterdayDate = new Date(estDate);
-    yesterdayDate.setDate(estDate.getDate() - 1);
-    const yesterdayFormatted = yesterdayDate.toISOString().split('T')[0];
+    const yesterdayFormatted = addPuzzleDays(getPuzzleDate(), -1);
     
-    return await db
+    const archive = await db
       .select()
       .from(puzzles)
       .where(lte(puzzles.date, yesterdayFormatted))
       .orderBy(desc(puzzles.date))
       .limit(limitCount);
+    
+    return archive.map(withWordCount);
+  }
+
+  async countPuzzles(): Promise<number> {
+    const [result] = await db.select({ value: count() }).from(puzzles);
+    return result?.value ?? 0;
+  }
+
+  async getPatchNotes(): Promise<PatchNote[]> {
+    // Patch notes are only published to Firestore
+    return [];
+  }
+
+  async getGameSession(playerId: string, puzzleId: number, difficulty: string): Promise<GameSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(gameSessions)
+      .where(and(
+        eq(gameSessions.playerId, playerId),
+        eq(gameSessions.puzzleId, puzzleId),
+        eq(gameSessions.difficulty, difficulty)
+      ));
+    
+    return session;
+  }
+
+  async saveGameSession(session: InsertGameSession): Promise<GameSession> {
+    const [saved] = await db
+      .insert(gameSessions)
+      .values(session)
+      .onConflictDoUpdate({
+        target: [gameSessions.playerId, gameSessions.puzzleId, gameSessions.difficulty],
+        set: {
+          guesses: session.guesses,
+          hintsUsedAtAttempts: session.hintsUsedAtAttempts,
+          status: session.status,
+          updatedAt: session.updatedAt,
+          completedAt: session.completedAt
+        }
+      })
+      .returning();
+    
+    return saved;
+  }
+
+  async getSolveStats(): Promise<PuzzleSolveStats[]> {
+    const rows = await db
+      .select({
+        puzzleId: gameSessions.puzzleId,
+        difficulty: gameSessions.difficulty,
+        plays: count(),
+        solves: sql<number>`count(*) filter (where ${gameSessions.status} = 'won')`,
+        averageAttempts: sql<number>`avg(coalesce(array_length(${gameSessions.guesses}, 1), 0))`
+      })
+      .from(gameSessions)
+      .where(ne(gameSessions.status, 'playing'))
+      .groupBy(gameSessions.puzzleId, gameSessions.difficulty);
+
+    // Postgres returns counts and averages as strings
+    return rows.map(row => ({
+      ...row,
+      solves: Number(row.solves),
+      averageAttempts: Number(row.averageAttempts)
+    }));
+  }
+
+  async getMaintenance(): Promise<MaintenanceState> {
+    const [row] = await db.select().from(maintenance).where(eq(maintenance.id, MAINTENANCE_ROW_ID));
+    return row ? toMaintenanceState(row) : MAINTENANCE_OFF;
+  }
+
+  async saveMaintenance(state: MaintenanceState): Promise<MaintenanceState> {
+    const values = {
+      enabled: state.enabled,
+      message: state.message,
+      eta: state.eta,
+      updatedAt: new Date().toISOString()
+    };
+    const [row] = await db
+      .insert(maintenance)
+      .values({ id: MAINTENANCE_ROW_ID, ...values })
+      .onConflictDoUpdate({ target: maintenance.id, set: values })
+      .returning();
+    return toMaintenanceState(row);
+  }
+
+  // Tables are created and upgraded by the versioned migrations in migrations/
+  async ensureSchema(): Promise<void> {
+    await runMigrations();
   }
   
   async createPuzzle(puzzle: InsertPuzzle): Promise<Puzzle> {
@@ -113,7 +260,7 @@ export class DatabaseStorage implements IStorage {
       .values(puzzle)
       .returning();
     
-    return newPuzzle;
+    return withWordCount(newPuzzle);
   }
   
   async bulkCreatePuzzles(puzzlesList: InsertPuzzle[]): Promise<Puzzle[]> {
@@ -126,7 +273,44 @@ export class DatabaseStorage implements IStorage {
       .values(puzzlesList)
       .returning();
     
-    return newPuzzles;
+    return newPuzzles.map(withWordCount);
+  }
+
+  async updatePuzzle(puzzleNumber: number, updates: Partial<InsertPuzzle>): Promise<Puzzle | undefined> {
+    const [updated] = await db
+      .update(puzzles)
+      .set(updates)
+      .where(eq(puzzles.puzzleNumber, puzzleNumber))
+      .returning();
+    
+    return updated && withWordCount(updated);
+  }
+
+  async deletePuzzle(puzzleNumber: number): Promise<boolean> {
+    const deleted = await db
+      .delete(puzzles)
+      .where(eq(puzzles.puzzleNumber, puzzleNumber))
+      .returning({ id: puzzles.id });
+
+    return deleted.length > 0;
+  }
+
+  async swapPuzzles(firstNumber: number, secondNumber: number): Promise<boolean> {
+    return db.transaction(async tx => {
+      const [first] = await tx.select().from(puzzles).where(eq(puzzles.puzzleNumber, firstNumber));
+      const [second] = await tx.select().from(puzzles).where(eq(puzzles.puzzleNumber, secondNumber));
+
+      if (!first || !second) {
+        return false;
+      }
+
+      // Puzzle numbers are unique, so the first is parked on a free number
+      // while the second takes its place
+      await tx.update(puzzles).set({ puzzleNumber: -first.puzzleNumber }).where(eq(puzzles.id, first.id));
+      await tx.update(puzzles).set({ date: first.date, puzzleNumber: first.puzzleNumber }).where(eq(puzzles.id, second.id));
+      await tx.update(puzzles).set({ date: second.date, puzzleNumber: second.puzzleNumber }).where(eq(puzzles.id, first.id));
+      return true;
+    });
   }
 }
 
@@ -0,0 +1,29 @@
+import express, { type Request, Response, NextFunction } from "express";
+import { registerRoutes } from "./routes";
+import { createRepository } from "./repository";
+import { CachedPuzzleRepository } from "./puzzle-cache";
+
+// The Express API as a Vercel serverless function. `npm run build:api`
+// bundles this file into api/_server.js, which api/index.js serves for every
+// /api request, so production runs exactly the routes in routes.ts.
+
+const app = express();
+app.use(express.json());
+app.use(express.urlencoded({ extended: false }));
+
+// Routes are registered once per function instance, on the first request
+const ready = (async () => {
+  const repository = new CachedPuzzleRepository(await createRepository());
+  await registerRoutes(app, repository);
+
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    const status = err.status || err.statusCode || 500;
+    res.status(status).json({ message: err.message || "Internal Server Error" });
+    console.error(err);
+  });
+})();
+
+export default async function handler(req: Request, res: Response) {
+  await ready;
+  app(req, res);
+}
@@ -0,0 +1,222 @@
+// Answer matching shared by the API and the client.
+// Guesses are compared after normalising case, punctuation and plurals,
+// and a small number of typos is forgiven on longer answers.
+
+// Irregular plurals that the suffix rules in singularize() can't handle
+const IRREGULAR_PLURALS: Record<string, string> = {
+  teeth: 'tooth',
+  feet: 'foot',
+  geese: 'goose',
+  mice: 'mouse',
+  lice: 'louse',
+  men: 'man',
+  women: 'woman',
+  children: 'child',
+  people: 'person',
+  oxen: 'ox',
+  knives: 'knife',
+  wives: 'wife',
+  lives: 'life',
+  leaves: 'leaf',
+  wolves: 'wolf',
+  halves: 'half',
+  elves: 'elf',
+  loaves: 'loaf',
+  shelves: 'shelf'
+};
+
+/**
+ * Lowercase, strip accents and apostrophes, and turn hyphens and any other
+ * punctuation into word breaks: "Fire-Extinguisher's" -> "fire extinguishers"
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Reduce a single lowercase word to its singular form
+export function singularize(word: string): string {
+  if (IRREGULAR_PLURALS[word]) {
+    return IRREGULAR_PLURALS[word];
+  }
+
+  if (word.length > 4 && word.endsWith('ies')) {
+    return word.slice(0, -3) + 'y';
+  }
+
+  if (word.length > 4 && /(ches|shes|sses|xes|zes)$/.test(word)) {
+    return word.slice(0, -2);
+  }
+
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) {
+    return word.slice(0, -1);
+  }
+
+  return word;
+}
+
+// Canonical form used for comparison: normalised, singular words with no spaces
+export function canonicalAnswer(text: string): string {
+  return normalizeAnswer(text)
+    .split(' ')
+    .map(singularize)
+    .join('');
+}
+
+// Typos forgiven for an answer of this many letters
+export function allowedEditDistance(length: number): number {
+  if (length <= 4) return 0;
+  if (length <= 9) return 1;
+  return 2;
+}
+
+// Edit distance where a swap of two neighbouring letters counts as one typo
+export function editDistance(a: string, b: string): number {
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+export interface AnswerMatch {
+  isMatch: boolean;
+  // True when the guess matched without needing typo tolerance
+  isExact: boolean;
+}
+
+/**
+ * Check a guess against a puzzle's answer and any alternative answers it
+ * accepts. Differences in case, spacing, punctuation and plurals are
+ * ignored, and longer answers tolerate a typo or two.
+ */
+export function matchAnswer(guess: string, answer: string, acceptedAnswers: string[] = []): AnswerMatch {
+  const canonicalGuess = canonicalAnswer(guess);
+  let isMatch = false;
+
+  if (!canonicalGuess) {
+    return { isMatch: false, isExact: false };
+  }
+
+  for (const candidate of [answer, ...acceptedAnswers]) {
+    const canonicalCandidate = canonicalAnswer(candidate);
+
+    if (!canonicalCandidate) {
+      continue;
+    }
+
+    if (canonicalGuess === canonicalCandidate) {
+      return { isMatch: true, isExact: true };
+    }
+
+    // Typos are only forgiven after a correct first letter, so a different
+    // word like "rainstorm" for "brainstorm" isn't accepted
+    const maxDistance = allowedEditDistance(canonicalCandidate.length);
+    if (
+      maxDistance > 0 &&
+      canonicalGuess[0] === canonicalCandidate[0] &&
+      Math.abs(canonicalGuess.length - canonicalCandidate.length) <= maxDistance &&
+      editDistance(canonicalGuess, canonicalCandidate) <= maxDistance
+    ) {
+      isMatch = true;
+    }
+  }
+
+  return { isMatch, isExact: false };
+}
+
+// An answer word found in a guess
+export interface MatchedWord {
+  word: string; // The answer word, as written in the answer
+  answerIndex: number; // Its position among the answer's words
+  guessIndices: number[]; // Positions of the guess words that matched it
+}
+
+// Letters of a single word, singular and lowercase, for word-level comparison
+function comparableWord(word: string): string {
+  return singularize(normalizeAnswer(word).replace(/ /g, ''));
+}
+
+/**
+ * Find every answer word present in a guess. Words match after the same
+ * normalisation as matchAnswer, and compounds count too: "applepie" matches
+ * both words of "apple pie", and "fire fly" matches "firefly".
+ * Words shorter than three letters only match as part of a compound.
+ */
+export function findMatchedWords(guess: string, answer: string): MatchedWord[] {
+  const answerWords = answer.trim().split(/\s+/).filter(Boolean);
+  const guessWords = guess.trim().split(/\s+/).filter(Boolean);
+  const answerKeys = answerWords.map(comparableWord);
+  const guessKeys = guessWords.map(comparableWord);
+  const usedGuessWords = new Set<number>();
+  const matches = new Map<number, MatchedWord>();
+
+  const addMatch = (answerIndex: number, guessIndices: number[]) => {
+    matches.set(answerIndex, { word: answerWords[answerIndex], answerIndex, guessIndices });
+    guessIndices.forEach(i => usedGuessWords.add(i));
+  };
+
+  // Whole words first
+  answerKeys.forEach((key, answerIndex) => {
+    if (key.length < 3) return;
+
+    const guessIndex = guessKeys.findIndex((guessKey, i) => guessKey === key && !usedGuessWords.has(i));
+    if (guessIndex !== -1) {
+      addMatch(answerIndex, [guessIndex]);
+    }
+  });
+
+  // One guess word covering a run of answer words ("applepie")
+  guessKeys.forEach((guessKey, guessIndex) => {
+    if (usedGuessWords.has(guessIndex)) return;
+
+    for (let start = 0; start < answerKeys.length; start++) {
+      let combined = '';
+      for (let end = start; end < answerKeys.length && combined.length < guessKey.length; end++) {
+        combined += normalizeAnswer(answerWords[end]).replace(/ /g, '');
+        if (end > start && singularize(combined) === guessKey) {
+          for (let i = start; i <= end; i++) {
+            addMatch(i, [guessIndex]);
+          }
+          return;
+        }
+      }
+    }
+  });
+
+  // A run of guess words spelling out one answer word ("fire fly")
+  answerKeys.forEach((key, answerIndex) => {
+    if (matches.has(answerIndex)) return;
+
+    for (let start = 0; start < guessWords.length; start++) {
+      let combined = '';
+      for (let end = start; end < guessWords.length && combined.length < key.length; end++) {
+        if (usedGuessWords.has(end)) break;
+        combined += normalizeAnswer(guessWords[end]).replace(/ /g, '');
+        if (end > start && singularize(combined) === key) {
+          addMatch(answerIndex, Array.from({ length: end - start + 1 }, (_, i) => start + i));
+          return;
+        }
+      }
+    }
+  });
+
+  return Array.from(matches.values()).sort((a, b) => a.answerIndex - b.answerIndex);
+}
@@ -0,0 +1,18 @@
+// The hint ladder shared by the API and the client. Every puzzle ships one
+// hint per tier, revealed in this order.
+
+export const HINT_TIERS = ['vague', 'medium', 'revealing'] as const;
+
+export type HintTier = typeof HINT_TIERS[number];
+
+export const HINT_TIER_LABELS: Record<HintTier, string> = {
+  vague: 'Vague',
+  medium: 'Medium',
+  revealing: 'Revealing'
+};
+
+// Tier of the hint at a position in the ladder; extra hints on older
+// puzzles count as revealing
+export function hintTier(index: number): HintTier {
+  return HINT_TIERS[Math.min(index, HINT_TIERS.length - 1)];
+}
@@ -0,0 +1,232 @@
+import { puzzleDaysBetween } from "./puzzle-clock";
+import {
+  applyPlay,
+  getActiveStreak,
+  getStreakHistory,
+  streakBase,
+  EMPTY_STREAK,
+  type StreakBase,
+  type StreakDay,
+  type StreakState
+} from "./streak";
+
+// A player's progress: one record per finished puzzle and difficulty, plus
+// the streak. Everything shown on the stats screens is derived from this, so
+// the counts can always be recomputed from the sessions.
+
+// Bumped whenever the stored shape changes; see upgradeProgress
+export const PROGRESS_VERSION = 1;
+
+export type ProgressDifficulty = 'normal' | 'hard';
+
+export interface ProgressSession {
+  puzzleId: number;
+  difficulty: ProgressDifficulty;
+  isFusion: boolean;
+  // Null for sessions carried over from stores that didn't keep it
+  puzzleDate: string | null;
+  status: 'won' | 'lost';
+  guesses: number;
+  usedHints: boolean;
+  completedAt: string | null;
+}
+
+export interface PlayerProgress {
+  version: number;
+  sessions: ProgressSession[];
+  streak: StreakState;
+  updatedAt: string | null;
+}
+
+export interface DifficultyStats {
+  played: number;
+  solved: number;
+  // Average guesses over solved puzzles, to one decimal
+  avgGuesses: number;
+}
+
+export interface ProgressStats {
+  played: number;
+  solved: number;
+  winRate: number;
+  hintsUsed: number;
+  currentStreak: number;
+  longestStreak: number;
+  flawlessStreak: number;
+  freezes: number;
+  history: StreakDay[];
+  normal: DifficultyStats;
+  hard: DifficultyStats;
+  fusion: DifficultyStats;
+}
+
+export const EMPTY_PROGRESS: PlayerProgress = {
+  version: PROGRESS_VERSION,
+  sessions: [],
+  streak: EMPTY_STREAK,
+  updatedAt: null
+};
+
+// A puzzle is finished once per difficulty
+export function sessionKey(session: Pick<ProgressSession, 'puzzleId' | 'difficulty'>): string {
+  return `${session.puzzleId}_${session.difficulty}`;
+}
+
+/**
+ * Bring a stored progress document up to PROGRESS_VERSION, filling in
+ * anything missing. Unknown or older shapes come back as valid progress.
+ */
+export function upgradeProgress(stored: Partial<PlayerProgress> | null | undefined): PlayerProgress {
+  if (!stored) {
+    return EMPTY_PROGRESS;
+  }
+
+  return {
+    version: PROGRESS_VERSION,
+    sessions: Array.isArray(stored.sessions) ? stored.sessions : [],
+    streak: { ...EMPTY_STREAK, ...stored.streak },
+    updatedAt: stored.updatedAt ?? null
+  };
+}
+
+// Sessions without a completion time sort after those with one
+function completedTime(session: ProgressSession): number {
+  return session.completedAt ? Date.parse(session.completedAt) : Infinity;
+}
+
+// One session per puzzle and difficulty. Where sources disagree the earlier
+// completion wins, and details it's missing are taken from the others.
+function mergeSessions(lists: ProgressSession[][]): ProgressSession[] {
+  const merged = new Map<string, ProgressSession>();
+
+  for (const session of lists.flat()) {
+    const key = sessionKey(session);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, session);
+      continue;
+    }
+
+    const [first, second] = completedTime(session) < completedTime(existing)
+      ? [session, existing]
+      : [existing, session];
+    merged.set(key, {
+      ...first,
+      isFusion: first.isFusion || second.isFusion,
+      puzzleDate: first.puzzleDate ?? second.puzzleDate,
+      guesses: first.guesses || second.guesses,
+      usedHints: first.usedHints || second.usedHints,
+      completedAt: first.completedAt ?? second.completedAt
+    });
+  }
+
+  return Array.from(merged.values());
+}
+
+// The streak with the most recent day wins, carrying on any streak that ended
+// the day before it began (today played on a new device before signing in),
+// counting the days a freeze covered as part of it. The best streak is the
+// best of all.
+function mergeStreaks(streaks: StreakState[]): StreakState {
+  const ordered = [...streaks].sort((a, b) =>
+    (a.lastSolvedDate ?? '').localeCompare(b.lastSolvedDate ?? '') || a.current - b.current
+  );
+
+  const latest = ordered.reduce((previous, streak) => {
+    const from = previous.current > 0 ? previous.lastSolvedDate : null;
+    const to = streak.lastSolvedDate;
+    // Frozen days are part of the span without adding to the streak
+    const continues = from && to && puzzleDaysBetween(from, to) ===
+      streak.current + streak.frozenDates.filter(date => date > from && date <= to).length;
+    if (!continues) {
+      return streak;
+    }
+
+    const chain = <T extends StreakBase>(later: T): T => ({
+      ...later,
+      current: previous.current + later.current,
+      flawless: later.flawless === later.current ? previous.flawless + later.flawless : later.flawless
+    });
+    return {
+      ...chain(streak),
+      // The streak before the last day played carries on the earlier one too
+      day: streak.day && {
+        ...streak.day,
+        before: streak.day.before.current > 0 ? chain(streak.day.before) : streakBase(previous)
+      }
+    };
+  }, EMPTY_STREAK);
+
+  return {
+    ...latest,
+    longest: Math.max(latest.current, ...streaks.map(streak => streak.longest))
+  };
+}
+
+// Combine progress from several stores, e.g. this device and the account
+export function mergeProgress(...sources: PlayerProgress[]): PlayerProgress {
+  const updated = sources.map(source => source.updatedAt).filter((date): date is string => Boolean(date)).sort();
+  return {
+    version: PROGRESS_VERSION,
+    sessions: mergeSessions(sources.map(source => source.sessions)),
+    streak: mergeStreaks(sources.map(source => source.streak)),
+    updatedAt: updated[updated.length - 1] ?? null
+  };
+}
+
+/**
+ * Progress after finishing a puzzle. Finishing the same puzzle and
+ * difficulty again changes nothing. `today` is the current puzzle date.
+ */
+export function recordSession(progress: PlayerProgress, session: ProgressSession, today: string): PlayerProgress {
+  if (progress.sessions.some(existing => sessionKey(existing) === sessionKey(session))) {
+    return progress;
+  }
+
+  const streak = session.puzzleDate
+    ? applyPlay(progress.streak, {
+        puzzleDate: session.puzzleDate,
+        solved: session.status === 'won',
+        usedHints: session.usedHints
+      }, today)
+    : progress.streak;
+
+  return {
+    ...progress,
+    sessions: [...progress.sessions, session],
+    streak,
+    updatedAt: session.completedAt ?? progress.updatedAt
+  };
+}
+
+function summarizeSessions(sessions: ProgressSession[]): DifficultyStats {
+  const solved = sessions.filter(session => session.status === 'won');
+  const guesses = solved.reduce((sum, session) => sum + session.guesses, 0);
+  return {
+    played: sessions.length,
+    solved: solved.length,
+    avgGuesses: solved.length > 0 ? Math.round((guesses / solved.length) * 10) / 10 : 0
+  };
+}
+
+// Everything the stats screens show, as of the puzzle date `today`
+export function summarizeProgress(progress: PlayerProgress, today: string): ProgressStats {
+  const { sessions } = progress;
+  const overall = summarizeSessions(sessions);
+  const streak = getActiveStreak(progress.streak, today);
+
+  return {
+    played: overall.played,
+    solved: overall.solved,
+    winRate: overall.played > 0 ? Math.round((overall.solved / overall.played) * 100) : 0,
+    hintsUsed: sessions.filter(session => session.usedHints).length,
+    currentStreak: streak.current,
+    longestStreak: streak.longest,
+    flawlessStreak: streak.flawless,
+    freezes: streak.freezes,
+    history: getStreakHistory(progress.streak, today),
+    normal: summarizeSessions(sessions.filter(session => !session.isFusion && session.difficulty === 'normal')),
+    hard: summarizeSessions(sessions.filter(session => !session.isFusion && session.difficulty === 'hard')),
+    fusion: summarizeSessions(sessions.filter(session => session.isFusion))
+  };
+}
@@ -0,0 +1,108 @@
+// The puzzle clock shared by the server, the client and the Vercel
+// functions. A new puzzle day starts at midnight in PUZZLE_TIME_ZONE, so the
+// rollover follows daylight saving time: 04:00 UTC in summer, 05:00 UTC in
+// winter, and days are 23 or 25 hours long when the clocks change.
+
+export const PUZZLE_TIME_ZONE = 'America/New_York';
+
+// Fusdle #1 was the puzzle for this date
+export const FIRST_PUZZLE_DATE = '2025-05-22';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: PUZZLE_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit'
+});
+
+const dateTimeFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: PUZZLE_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric'
+});
+
+// Milliseconds the puzzle time zone is ahead of UTC at an instant (negative
+// for New York)
+function zoneOffset(instant: number): number {
+  const parts: Record<string, number> = {};
+  for (const part of dateTimeFormatter.formatToParts(new Date(instant))) {
+    parts[part.type] = Number(part.value);
+  }
+
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - (instant - (((instant % 1000) + 1000) % 1000));
+}
+
+function parsePuzzleDate(date: string): [number, number, number] {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date);
+  if (!match) {
+    throw new Error(`Invalid puzzle date "${date}", expected YYYY-MM-DD`);
+  }
+  return [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+}
+
+// The puzzle date (YYYY-MM-DD) at an instant, now by default
+export function getPuzzleDate(now: Date = new Date()): string {
+  return dateFormatter.format(now);
+}
+
+// The date a number of calendar days after (or before) a puzzle date
+export function addPuzzleDays(date: string, days: number): string {
+  const [year, month, day] = parsePuzzleDate(date);
+  return new Date(Date.UTC(year, month, day + days)).toISOString().slice(0, 10);
+}
+
+// Calendar days from one puzzle date to another
+export function puzzleDaysBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = parsePuzzleDate(from);
+  const [toYear, toMonth, toDay] = parsePuzzleDate(to);
+  return Math.round((Date.UTC(toYear, toMonth, toDay) - Date.UTC(fromYear, fromMonth, fromDay)) / DAY_MS);
+}
+
+// The instant a puzzle date begins: midnight in the puzzle time zone
+export function getPuzzleDayStart(date: string): Date {
+  const [year, month, day] = parsePuzzleDate(date);
+  const midnightUtc = Date.UTC(year, month, day);
+  // The offset is read again at the first guess in case DST changed in between
+  const guess = midnightUtc - zoneOffset(midnightUtc);
+  return new Date(midnightUtc - zoneOffset(guess));
+}
+
+// The instant the next puzzle unlocks
+export function getNextRollover(now: Date = new Date()): Date {
+  return getPuzzleDayStart(addPuzzleDays(getPuzzleDate(now), 1));
+}
+
+export function getMsUntilRollover(now: Date = new Date()): number {
+  return getNextRollover(now).getTime() - now.getTime();
+}
+
+// The Fusdle number of a puzzle date, counting FIRST_PUZZLE_DATE as #1
+export function getPuzzleNumber(date: string = getPuzzleDate()): number {
+  return puzzleDaysBetween(FIRST_PUZZLE_DATE, date) + 1;
+}
+
+// What GET /api/time returns, so clients can correct a skewed device clock
+export interface ServerTime {
+  serverTime: string;
+  puzzleDate: string;
+  puzzleNumber: number;
+  nextRollover: string;
+}
+
+export function getServerTime(now: Date = new Date()): ServerTime {
+  const puzzleDate = getPuzzleDate(now);
+  return {
+    serverTime: now.toISOString(),
+    puzzleDate,
+    puzzleNumber: getPuzzleNumber(puzzleDate),
+    nextRollover: getNextRollover(now).toISOString()
+  };
+}
@@ -0,0 +1,15 @@
+// Roles carried as the `role` custom claim on a Firebase ID token. Each role
+// includes the ones after it: admins can do everything editors can, and
+// editors everything players can. Signed-in users without a claim are players.
+
+export const ROLES = ['admin', 'editor', 'player'] as const;
+
+export type Role = typeof ROLES[number];
+
+export function parseRole(claim: unknown): Role {
+  return ROLES.includes(claim as Role) ? claim as Role : 'player';
+}
+
+export function hasRole(role: Role | undefined, required: Role): boolean {
+  return role !== undefined && ROLES.indexOf(role) <= ROLES.indexOf(required);
+}
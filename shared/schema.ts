@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, date, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, date, timestamp, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -27,24 +27,135 @@ export const puzzles = pgTable("puzzles", {
   answer: text("answer").notNull(),
   theme: text("theme").notNull(),
   hints: text("hints").array().notNull(),
+  // Alternative spellings or synonyms that also count as correct
+  acceptedAnswers: text("accepted_answers").array(),
   isFusionTwist: integer("is_fusion_twist").default(0).notNull(),
-  twistType: text("twist_type")
+  twistType: text("twist_type"),
+  // Computed difficulty from 0 (easiest) to 100, see server/difficulty-score.ts
+  difficultyScore: integer("difficulty_score")
 });
 
 export const insertPuzzleSchema = createInsertSchema(puzzles, {
   emojis: z.array(z.string()),
-  hints: z.array(z.string())
-}).omit(["id"]);
+  hints: z.array(z.string()),
+  acceptedAnswers: z.array(z.string()).nullish()
+}).omit({ id: true });
 
 export type InsertPuzzle = z.infer<typeof insertPuzzleSchema>;
+
+// Body for scheduling or editing a puzzle from the admin page. The server
+// picks the puzzle number and works out the difficulty score.
+export const puzzleEditSchema = insertPuzzleSchema.omit({ puzzleNumber: true, difficultyScore: true }).extend({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+});
+
+export type PuzzleEdit = z.infer<typeof puzzleEditSchema>;
 // Extended Puzzle type to include wordCount which is calculated at runtime
 export type Puzzle = typeof puzzles.$inferSelect & {
   wordCount?: number;
 };
 
+// Puzzle as served to players before they finish it. The answer and hints
+// stay on the server; only the shape of the answer is shared for the
+// letter placeholders.
+export type PublicPuzzle = Omit<Puzzle, 'answer' | 'hints' | 'acceptedAnswers'> & {
+  wordStructure: number[];
+  hintCount: number;
+};
+
+// Server-side record of one player's game on one puzzle and difficulty.
+// Every guess, hint reveal and the final outcome are stored here so
+// progress follows the player across devices.
+export const gameSessions = pgTable("game_sessions", {
+  id: serial("id").primaryKey(),
+  playerId: text("player_id").notNull(),
+  puzzleId: integer("puzzle_id").notNull(),
+  difficulty: text("difficulty").default("normal").notNull(),
+  guesses: text("guesses").array().notNull(),
+  // The attempt count at which each hint was revealed, in hint order
+  hintsUsedAtAttempts: integer("hints_used_at_attempts").array().notNull(),
+  status: text("status").default("playing").notNull(), // playing, won, lost or gave_up
+  startedAt: timestamp("started_at", { mode: "string" }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: "string" }).defaultNow().notNull(),
+  completedAt: timestamp("completed_at", { mode: "string" })
+}, (table) => [
+  uniqueIndex("game_sessions_player_puzzle_idx").on(table.playerId, table.puzzleId, table.difficulty)
+]);
+
+export const insertGameSessionSchema = createInsertSchema(gameSessions, {
+  guesses: z.array(z.string()),
+  hintsUsedAtAttempts: z.array(z.number().int())
+}).omit({ id: true });
+
+export type InsertGameSession = z.infer<typeof insertGameSessionSchema>;
+export type GameSession = typeof gameSessions.$inferSelect;
+
+// How players have fared on one puzzle and difficulty, from finished sessions
+export interface PuzzleSolveStats {
+  puzzleId: number;
+  difficulty: string;
+  plays: number;
+  solves: number;
+  averageAttempts: number;
+}
+
+// Site-wide maintenance switch, a single row with id 1. While it's on the
+// puzzle and session routes answer 503 with the message and ETA.
+export const maintenance = pgTable("maintenance", {
+  id: integer("id").primaryKey(),
+  enabled: boolean("enabled").default(false).notNull(),
+  message: text("message").notNull(),
+  // When the site is expected to be back, if known
+  eta: timestamp("eta", { mode: "string", withTimezone: true }),
+  updatedAt: timestamp("updated_at", { mode: "string", withTimezone: true }).defaultNow().notNull()
+});
+
+export interface MaintenanceState {
+  enabled: boolean;
+  message: string;
+  eta: string | null; // ISO timestamp
+  updatedAt: string | null;
+}
+
+export const DEFAULT_MAINTENANCE_MESSAGE = "Fusdle is down for maintenance. We'll be back soon!";
+
+// Body for turning maintenance on or off
+export const maintenanceUpdateSchema = z.object({
+  enabled: z.boolean(),
+  message: z.string().trim().max(500).optional(),
+  eta: z.string().datetime({ offset: true }).nullish()
+});
+
+// Body for starting or resuming a game session
+export const startSessionSchema = z.object({
+  puzzleId: z.number().int().positive(),
+  difficulty: z.enum(["normal", "hard"]).default("normal"),
+  puzzleType: z.enum(["standard", "fusion"]).optional()
+});
+
+// Sent as `code` with a 403 when the game token doesn't check out or has been
+// overtaken by the game's saved session
+export type GameTokenErrorCode = "invalid_game_token" | "stale_game_token";
+
 // Define Zod schema for validating user guesses
 export const guessSchema = z.object({
-  guess: z.string().min(1, "Guess cannot be empty").max(100)
+  guess: z.string().min(1, "Guess cannot be empty").max(100),
+  // 'words' reports matched words, 'letters' adds Wordle-style letter states
+  feedbackMode: z.enum(["words", "letters"]).default("words")
 });
 
+// Letter feedback for a guess, one entry per word slot of the answer
+export type LetterState = "correct" | "present" | "absent";
+
+export interface LetterFeedback {
+  letter: string; // Empty when the guess didn't reach this slot
+  state: LetterState;
+}
+
+export interface WordFeedback {
+  word: string;
+  state: LetterState; // correct in place, an answer word in another slot, or neither
+  letters: LetterFeedback[];
+}
+
 export type Guess = z.infer<typeof guessSchema>;
@@ -0,0 +1,193 @@
+import { addPuzzleDays, puzzleDaysBetween } from "./puzzle-clock";
+
+// Streaks count consecutive puzzle days, keyed on the date of the puzzle that
+// was played rather than the player's wall clock. Only today's puzzle counts:
+// archive plays leave the streak alone, a day counts once if any of its
+// puzzles is solved, whatever order they're played in, and missing a day
+// breaks the streak unless a streak freeze covers it. Freezes are earned by
+// keeping a streak going and are used up automatically, one per missed day; a
+// frozen day keeps the streak alive without adding to it.
+
+// A freeze is earned every this many days of streak, up to MAX_STREAK_FREEZES
+export const STREAK_DAYS_PER_FREEZE = 7;
+export const MAX_STREAK_FREEZES = 2;
+
+// How many frozen days are remembered for the streak history
+const FROZEN_DATES_KEPT = 30;
+
+export interface StreakState {
+  current: number;
+  longest: number;
+  // Consecutive days solved without hints
+  flawless: number;
+  // Puzzle date of the last day that counted towards the streak
+  lastSolvedDate: string | null;
+  freezes: number;
+  // Missed days a freeze was used on, oldest first
+  frozenDates: string[];
+  // The result of the last day played, so later plays of that day can change it
+  day: StreakDayResult | null;
+}
+
+// The parts of the streak that a day's result changes
+export type StreakBase = Omit<StreakState, 'longest' | 'day'>;
+
+export interface StreakDayResult {
+  date: string;
+  // Any of the day's puzzles solved, and any solved without hints
+  solved: boolean;
+  flawless: boolean;
+  // The streak before the day's first play
+  before: StreakBase;
+}
+
+export interface StreakPlay {
+  puzzleDate: string;
+  solved: boolean;
+  usedHints: boolean;
+}
+
+export const EMPTY_STREAK: StreakState = {
+  current: 0,
+  longest: 0,
+  flawless: 0,
+  lastSolvedDate: null,
+  freezes: 0,
+  frozenDates: [],
+  day: null
+};
+
+// 'none' is any past day that isn't part of the current streak
+export type StreakDayStatus = 'solved' | 'frozen' | 'none' | 'pending';
+
+export interface StreakDay {
+  date: string;
+  status: StreakDayStatus;
+}
+
+// Days between the last solved day and today that no freeze has covered yet
+function uncoveredDays(state: StreakState, today: string): string[] {
+  if (!state.lastSolvedDate) {
+    return [];
+  }
+
+  const frozen = new Set(state.frozenDates);
+  const missed: string[] = [];
+  const gap = puzzleDaysBetween(state.lastSolvedDate, today) - 1;
+  // Listing one more day than there are freezes is enough to know it's broken
+  for (let day = 1; day <= gap && missed.length <= state.freezes; day++) {
+    const date = addPuzzleDays(state.lastSolvedDate, day);
+    if (!frozen.has(date)) {
+      missed.push(date);
+    }
+  }
+  return missed;
+}
+
+/**
+ * The streak as it stands today. Days missed since the last solve use up
+ * freezes if there are enough to cover all of them; otherwise the streak has
+ * been broken, even though nothing was played to break it.
+ */
+export function getActiveStreak(state: StreakState, today: string): StreakState {
+  const missed = uncoveredDays(state, today);
+  if (missed.length === 0) {
+    return state;
+  }
+  if (state.current === 0 || missed.length > state.freezes) {
+    return { ...state, current: 0, flawless: 0 };
+  }
+
+  return {
+    ...state,
+    freezes: state.freezes - missed.length,
+    frozenDates: [...state.frozenDates, ...missed].slice(-FROZEN_DATES_KEPT)
+  };
+}
+
+// The streak without the best streak and the last day's result
+export function streakBase(state: StreakState): StreakBase {
+  const { longest, day, ...base } = state;
+  return base;
+}
+
+// The streak from the one before a day and that day's result
+function settleDay(day: StreakDayResult, longest: number): StreakState {
+  if (!day.solved) {
+    return { ...day.before, current: 0, flawless: 0, longest, day };
+  }
+
+  const active = getActiveStreak({ ...day.before, longest, day: null }, day.date);
+  const current = active.current + 1;
+  const earnedFreeze = current % STREAK_DAYS_PER_FREEZE === 0 ? 1 : 0;
+  return {
+    current,
+    longest: Math.max(longest, current),
+    flawless: day.flawless ? active.flawless + 1 : 0,
+    lastSolvedDate: day.date,
+    freezes: Math.min(MAX_STREAK_FREEZES, active.freezes + earnedFreeze),
+    frozenDates: active.frozenDates,
+    day
+  };
+}
+
+/**
+ * The streak after a finished play of the puzzle for `play.puzzleDate`.
+ * `today` is the current puzzle date from the puzzle clock. Each play of
+ * today's puzzles is combined with the earlier ones and the day worked out
+ * again from the streak before it, so failing hard and then solving normal
+ * counts the same as the other way round.
+ */
+export function applyPlay(state: StreakState, play: StreakPlay, today: string): StreakState {
+  // Archive puzzles (and anything not for today) don't count
+  if (play.puzzleDate.split('T')[0] !== today) {
+    return state;
+  }
+
+  const previous = state.day?.date === today ? state.day : null;
+  // Today was counted without keeping the day's result, nothing to combine with
+  if (!previous && state.lastSolvedDate === today) {
+    return state;
+  }
+
+  const day: StreakDayResult = {
+    date: today,
+    solved: Boolean(previous?.solved) || play.solved,
+    flawless: Boolean(previous?.flawless) || (play.solved && !play.usedHints),
+    before: previous?.before ?? streakBase(state)
+  };
+  if (previous && day.solved === previous.solved && day.flawless === previous.flawless) {
+    return state;
+  }
+
+  return settleDay(day, state.longest);
+}
+
+/**
+ * The last `days` puzzle days ending today, marking which were solved or
+ * saved by a freeze as part of the current streak. Today is pending until
+ * it's solved.
+ */
+export function getStreakHistory(state: StreakState, today: string, days = 14): StreakDay[] {
+  const active = getActiveStreak(state, today);
+  const frozen = new Set(active.frozenDates);
+  const statuses = new Map<string, StreakDayStatus>();
+
+  // Walk back through the current streak from its most recent day
+  let date = active.lastSolvedDate === today ? today : addPuzzleDays(today, -1);
+  let solved = 0;
+  while (solved < active.current && puzzleDaysBetween(date, today) < days) {
+    if (frozen.has(date)) {
+      statuses.set(date, 'frozen');
+    } else {
+      statuses.set(date, 'solved');
+      solved++;
+    }
+    date = addPuzzleDays(date, -1);
+  }
+
+  return Array.from({ length: days }, (_, index) => {
+    const day = addPuzzleDays(today, index - days + 1);
+    return { date: day, status: statuses.get(day) ?? (day === today ? 'pending' : 'none') };
+  });
+}
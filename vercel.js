@@ -53,6 +53,20 @@ try {
     process.exit(1);
   }
   
+  // api/index.js serves the Express API from api/_server.js, a bundle of
+  // server/vercel.ts that isn't committed, so build it before Vercel
+  // packages the functions
+  console.log('Bundling the API with esbuild...');
+  const api = spawnSync('npm', ['run', 'build:api'], {
+    stdio: 'inherit',
+    cwd: __dirname
+  });
+  
+  if (api.error || api.status !== 0) {
+    console.error('Error bundling the API:', api.error);
+    process.exit(1);
+  }
+  
   console.log('Build completed successfully!');
 } catch (error) {
   console.error('Unexpected error during build:', error);